@@ -0,0 +1,165 @@
+/**
+ * POST /api/claims/[claimId]/secondary
+ * Creates and submits a secondary (COB) claim after the primary payer adjudicated
+ *
+ * Flow:
+ * 1. Load the primary claim (must be paid or denied)
+ * 2. Re-read the primary's 835 claim payment from the stored ERA
+ * 3. Resolve secondary insurance (request body, else IntakeQ SecondaryInsurance*)
+ * 4. Build 2320/2330/2430 COB data and submit to the secondary payer
+ *
+ * Optional body overrides: payer_id, member_id, group_number,
+ * subscriber_name, subscriber_dob, subscriber_relationship
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSupabase } from '@/services/supabase';
+import { intakeqService } from '@/services/intakeq';
+import { submitClaim, claimToFormData } from '@/services/claimSubmission';
+import {
+  findPrimaryRemittance,
+  buildPrimaryAdjudication,
+  buildOtherPayer,
+  getSecondaryInsurance,
+} from '@/services/secondaryClaims';
+import type { Claim, ClaimFormData, Payer, SubmitClaimResponse } from '@/types';
+
+interface RouteParams {
+  params: Promise<{ claimId: string }>;
+}
+
+type SecondaryClaimBody = Partial<
+  Pick<
+    ClaimFormData,
+    | 'payer_id'
+    | 'member_id'
+    | 'group_number'
+    | 'subscriber_name'
+    | 'subscriber_dob'
+    | 'subscriber_relationship'
+  >
+>;
+
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<SubmitClaimResponse>> {
+  try {
+    const { claimId } = await params;
+    const body: SecondaryClaimBody = await request.json().catch(() => ({}));
+    const supabase = getServerSupabase();
+
+    // Load primary claim
+    const { data: primaryClaim, error: claimError } = await supabase
+      .from('claims')
+      .select('*')
+      .eq('id', claimId)
+      .single();
+
+    if (claimError || !primaryClaim) {
+      return NextResponse.json(
+        { success: false, error: 'Claim not found' },
+        { status: 404 }
+      );
+    }
+
+    const primary = primaryClaim as Claim;
+
+    if (primary.claim_filing_order === 'secondary') {
+      return NextResponse.json(
+        { success: false, error: 'Claim is already a secondary claim' },
+        { status: 400 }
+      );
+    }
+
+    if (primary.status !== 'paid' && primary.status !== 'denied') {
+      return NextResponse.json(
+        { success: false, error: 'Primary claim has not been adjudicated yet' },
+        { status: 400 }
+      );
+    }
+
+    // Primary adjudication from the stored 835
+    const remittance = await findPrimaryRemittance(supabase, primary);
+
+    if (!remittance) {
+      return NextResponse.json(
+        { success: false, error: 'No 835 remittance found for the primary claim' },
+        { status: 400 }
+      );
+    }
+
+    const { data: payers } = await supabase.from('payers').select('*').order('name');
+    const allPayers = (payers || []) as Payer[];
+
+    // Secondary insurance - request body wins, otherwise IntakeQ
+    let secondaryPayerId = body.payer_id;
+    let insurance: SecondaryClaimBody = body;
+
+    if (!body.payer_id || !body.member_id) {
+      const appointmentResult = await intakeqService.getAppointment(primary.intakeq_appointment_id);
+      const clientId = appointmentResult.data?.ClientId;
+      const clientResult = clientId ? await intakeqService.getClient(clientId) : null;
+      const secondary = clientResult?.data
+        ? getSecondaryInsurance(clientResult.data, allPayers)
+        : null;
+
+      if (secondary) {
+        secondaryPayerId = body.payer_id || secondary.payerMatch.payer?.id;
+        insurance = { ...secondary.insurance, ...body };
+      }
+    }
+
+    const secondaryPayer = allPayers.find((p) => p.id === secondaryPayerId);
+    const primaryPayer = allPayers.find((p) => p.id === primary.payer_id);
+
+    if (!secondaryPayer || !insurance.member_id) {
+      return NextResponse.json(
+        { success: false, error: 'No secondary insurance on file for this patient' },
+        { status: 400 }
+      );
+    }
+
+    if (!primaryPayer) {
+      return NextResponse.json(
+        { success: false, error: 'Primary payer not found' },
+        { status: 400 }
+      );
+    }
+
+    const formData: ClaimFormData = {
+      ...claimToFormData(primary),
+      ...insurance,
+      payer_id: secondaryPayer.id,
+      member_id: insurance.member_id,
+      subscriber_relationship: insurance.subscriber_relationship || 'self',
+    };
+
+    const result = await submitClaim(supabase, {
+      intakeqAppointmentId: primary.intakeq_appointment_id,
+      formData,
+      payer: secondaryPayer,
+      ediOverrides: {
+        claimFilingOrder: 'secondary',
+        otherPayer: buildOtherPayer(primary, primaryPayer),
+        primaryAdjudication: buildPrimaryAdjudication(
+          remittance.payment,
+          remittance.paymentDate,
+          primary.service_lines
+        ),
+      },
+      claimColumns: {
+        claim_filing_order: 'secondary',
+        primary_claim_id: primary.id,
+      },
+    });
+
+    return NextResponse.json(result.response, { status: result.status });
+  } catch (error) {
+    console.error('Secondary claim submission error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to process secondary claim' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * POST /api/claims/[claimId]/status
+ * Manual status override
+ *
+ * Body: { status: ClaimStatus, reason?: string }
+ * Manual changes outrank 999/277/835 updates; a refused change returns 409
+ * and is kept in the claim history.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSupabase } from '@/services/supabase';
+import { transitionClaimStatus } from '@/services/claimStatusMachine';
+import type { ClaimStatus } from '@/types';
+
+interface RouteParams {
+  params: Promise<{ claimId: string }>;
+}
+
+interface StatusOverrideBody {
+  status?: ClaimStatus;
+  reason?: string;
+}
+
+interface StatusOverrideResponse {
+  success: boolean;
+  data?: { previousStatus?: ClaimStatus; status: ClaimStatus };
+  error?: string;
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<StatusOverrideResponse>> {
+  try {
+    const { claimId } = await params;
+    const body: StatusOverrideBody = await request.json().catch(() => ({}));
+
+    if (!body.status) {
+      return NextResponse.json(
+        { success: false, error: 'status is required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await transitionClaimStatus(getServerSupabase(), {
+      claimId,
+      to: body.status,
+      source: 'manual',
+      event: { responseDescription: body.reason },
+    });
+
+    if (result.error) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.previousStatus ? 500 : 404 }
+      );
+    }
+
+    if (!result.applied) {
+      return NextResponse.json(
+        { success: false, error: result.reason || 'Status change refused' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { previousStatus: result.previousStatus, status: body.status },
+    });
+  } catch (error) {
+    console.error('Error overriding claim status:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update claim status' },
+      { status: 500 }
+    );
+  }
+}
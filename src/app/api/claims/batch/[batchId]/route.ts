@@ -0,0 +1,82 @@
+/**
+ * GET /api/claims/batch/[batchId]
+ * Fetches a claim batch and the status of each claim in it
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSupabase } from '@/services/supabase';
+import type { ClaimBatch, Claim } from '@/types';
+
+interface RouteParams {
+  params: Promise<{ batchId: string }>;
+}
+
+type BatchClaimSummary = Pick<
+  Claim,
+  | 'id'
+  | 'patient_first_name'
+  | 'patient_last_name'
+  | 'status'
+  | 'control_number'
+  | 'transaction_set_control_number'
+  | 'total_charge'
+  | 'rejection_reason'
+>;
+
+interface BatchResponse {
+  success: boolean;
+  data?: Omit<ClaimBatch, 'edi_content'> & { claims: BatchClaimSummary[] };
+  error?: string;
+}
+
+export async function GET(
+  _request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<BatchResponse>> {
+  try {
+    const { batchId } = await params;
+    const supabase = getServerSupabase();
+
+    const { data: batch, error } = await supabase
+      .from('claim_batches')
+      .select(
+        'id, control_number, interchange_control_number, status, claim_count, transaction_set_count, total_charge, edi_filename, submitted_at, submission_error, acknowledgment_date, created_at, updated_at'
+      )
+      .eq('id', batchId)
+      .single();
+
+    if (error || !batch) {
+      return NextResponse.json(
+        { success: false, error: 'Batch not found' },
+        { status: 404 }
+      );
+    }
+
+    const { data: claims, error: claimsError } = await supabase
+      .from('claims')
+      .select(
+        'id, patient_first_name, patient_last_name, status, control_number, transaction_set_control_number, total_charge, rejection_reason'
+      )
+      .eq('batch_id', batchId)
+      .order('control_number');
+
+    if (claimsError) {
+      console.error('Error fetching batch claims:', claimsError);
+      return NextResponse.json(
+        { success: false, error: 'Failed to fetch batch claims' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { ...batch, claims: claims || [] },
+    });
+  } catch (error) {
+    console.error('Error in claim batch route:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
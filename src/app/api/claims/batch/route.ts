@@ -0,0 +1,43 @@
+/**
+ * POST /api/claims/batch
+ * Submits many draft claims to Office Ally as one 837P file
+ *
+ * Body: { claim_ids: string[] }
+ *
+ * Claims are grouped into one transaction set per billing provider + payer.
+ * Claims that fail validation are skipped and reported; the rest are
+ * submitted and tracked together as a claim batch.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSupabase } from '@/services/supabase';
+import { submitClaimBatch } from '@/services/claimBatches';
+import type { SubmitBatchResponse } from '@/types';
+
+interface SubmitBatchBody {
+  claim_ids: string[];
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse<SubmitBatchResponse>> {
+  try {
+    const body: SubmitBatchBody = await request.json();
+
+    if (!Array.isArray(body.claim_ids) || body.claim_ids.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'claim_ids must be a non-empty array' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = getServerSupabase();
+    const result = await submitClaimBatch(supabase, [...new Set(body.claim_ids)]);
+
+    return NextResponse.json(result.response, { status: result.status });
+  } catch (error) {
+    console.error('Batch submission error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to process batch' },
+      { status: 500 }
+    );
+  }
+}
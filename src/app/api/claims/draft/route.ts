@@ -78,6 +78,7 @@ export async function POST(request: NextRequest) {
       subscriber_relationship,
       diagnosis_codes,
       service_lines,
+      place_of_service,
       rendering_provider_npi,
     } = body;
 
@@ -121,8 +122,9 @@ export async function POST(request: NextRequest) {
       subscriber_relationship: subscriber_relationship || 'self',
       diagnosis_codes: diagnosis_codes || [],
       service_lines: service_lines || [],
+      place_of_service: place_of_service || null,
       rendering_provider_npi: rendering_provider_npi || '',
-      billing_provider_npi: '1275348807', // Moonlit PLLC
+      billing_provider_npi: process.env.MOONLIT_BILLING_NPI || '',
       total_charge,
       status: 'draft',
     };
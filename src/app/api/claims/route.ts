@@ -3,66 +3,86 @@
  * Creates and submits a claim to Office Ally
  *
  * Flow:
- * 1. Validate request body
+ * 1. Validate request body (claim scrubber runs in claimSubmission)
  * 2. Get payer info from DB
  * 3. Generate EDI content
  * 4. Save claim to DB (status: draft)
- * 5. Upload to Office Ally SFTP
+ * 5. Upload to the clearinghouse
  * 6. Update claim status (submitted or failed)
  * 7. Return result
+ *
+ * Steps 3-6 are shared with other submission routes via claimSubmission.
+ *
+ * Corrections: pass claim_frequency_code '7' (replacement, with the corrected
+ * form data) or '8' (void, original claim data is resent) plus original_claim_id.
+ * A correction of a secondary claim is filed as a secondary claim again.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSupabase } from '@/services/supabase';
-import { generateEDI, generateControlNumber } from '@/services/ediGenerator';
-import { uploadClaim } from '@/services/officeAlly';
-import type { ClaimFormData, EDIClaimData, SubmitClaimResponse, Payer } from '@/types';
-import { toEDIDate } from '@/lib/utils';
+import { submitClaim, claimToFormData } from '@/services/claimSubmission';
+import {
+  loadOriginalClaim,
+  recordCorrectionEvent,
+  buildSecondaryCorrection,
+  CLAIM_FREQUENCY_DESCRIPTIONS,
+} from '@/services/claimCorrections';
+import type {
+  Claim,
+  ClaimFormData,
+  ClaimFrequencyCode,
+  SubmitClaimResponse,
+  Payer,
+} from '@/types';
+
+type SubmitClaimBody = ClaimFormData & {
+  intakeq_appointment_id: string;
+  claim_frequency_code?: ClaimFrequencyCode;
+  original_claim_id?: string;
+};
 
 export async function POST(request: NextRequest): Promise<NextResponse<SubmitClaimResponse>> {
   try {
-    const body: ClaimFormData & { intakeq_appointment_id: string } = await request.json();
-
-    // Validate required fields
-    const required = [
-      'intakeq_appointment_id',
-      'patient_first_name',
-      'patient_last_name',
-      'patient_dob',
-      'payer_id',
-      'member_id',
-      'diagnosis_codes',
-      'service_lines',
-      'rendering_provider_npi',
-    ];
-
-    for (const field of required) {
-      if (!body[field as keyof typeof body]) {
+    const requestBody: SubmitClaimBody = await request.json();
+    const supabase = getServerSupabase();
+
+    // Corrections reference the claim they replace or void
+    const frequencyCode: ClaimFrequencyCode = requestBody.claim_frequency_code || '1';
+    let original: Claim | undefined;
+
+    if (frequencyCode !== '1') {
+      const originalResult = await loadOriginalClaim(
+        supabase,
+        requestBody.original_claim_id,
+        frequencyCode
+      );
+
+      if (originalResult.error || !originalResult.claim) {
         return NextResponse.json(
-          { success: false, error: `Missing required field: ${field}` },
+          { success: false, error: originalResult.error || 'Original claim not found' },
           { status: 400 }
         );
       }
-    }
 
-    // Validate diagnosis codes
-    if (!Array.isArray(body.diagnosis_codes) || body.diagnosis_codes.length === 0) {
-      return NextResponse.json(
-        { success: false, error: 'At least one diagnosis code is required' },
-        { status: 400 }
-      );
+      original = originalResult.claim;
     }
 
-    // Validate service lines
-    if (!Array.isArray(body.service_lines) || body.service_lines.length === 0) {
+    // A void resends the original claim unchanged
+    const body: SubmitClaimBody =
+      frequencyCode === '8' && original
+        ? {
+            ...claimToFormData(original),
+            intakeq_appointment_id: original.intakeq_appointment_id,
+          }
+        : requestBody;
+
+    if (!body.intakeq_appointment_id) {
       return NextResponse.json(
-        { success: false, error: 'At least one service line is required' },
+        { success: false, error: 'Missing required field: intakeq_appointment_id' },
         { status: 400 }
       );
     }
 
-    const supabase = getServerSupabase();
-
     // Get payer info
     const { data: payer, error: payerError } = await supabase
       .from('payers')
@@ -77,148 +97,51 @@ export async function POST(request: NextRequest): Promise<NextResponse<SubmitCla
       );
     }
 
-    const payerData = payer as Payer;
-
-    // Generate control number
-    const controlNumber = generateControlNumber();
-
-    // Calculate total charge
-    const totalCharge = body.service_lines.reduce((sum, line) => sum + line.charge, 0);
-
-    // Build EDI data
-    const ediData: EDIClaimData = {
-      patientFirstName: body.patient_first_name,
-      patientLastName: body.patient_last_name,
-      patientDob: toEDIDate(body.patient_dob),
-      patientGender: body.patient_gender || 'U',
-      patientAddress: {
-        street: body.patient_address_street || '',
-        city: body.patient_address_city || '',
-        state: body.patient_address_state || '',
-        zip: body.patient_address_zip || '',
-      },
-      // Support both v1 and v2 schema column names
-      payerId: payerData.oa_professional_837p_id || payerData.office_ally_payer_id || '',
-      memberId: body.member_id,
-      groupNumber: body.group_number,
-      subscriberName: body.subscriber_name || `${body.patient_first_name} ${body.patient_last_name}`,
-      subscriberDob: toEDIDate(body.subscriber_dob || body.patient_dob),
-      subscriberRelationship: body.subscriber_relationship || 'self',
-      diagnosisCodes: body.diagnosis_codes.map((d) => ({
-        code: d.code,
-        isPrimary: d.isPrimary,
-      })),
-      serviceLines: body.service_lines.map((line) => ({
-        dos: toEDIDate(line.dos),
-        cpt: line.cpt,
-        modifier: line.modifier,
-        units: line.units,
-        charge: line.charge,
-        diagnosisPointers: line.diagnosis_pointers || [1],
-      })),
-      renderingNpi: body.rendering_provider_npi,
-      billingNpi: process.env.MOONLIT_BILLING_NPI || '1275348807',
-      billingTin: process.env.MOONLIT_BILLING_TIN || '',
-      billingName: 'MOONLIT PLLC',
-      billingAddress: {
-        street: '123 Medical Plaza',
-        city: 'Salt Lake City',
-        state: 'UT',
-        zip: '84101',
-      },
-      controlNumber,
-    };
-
-    // Generate EDI content
-    const ediResult = generateEDI(ediData);
-
-    if (!ediResult.success || !ediResult.ediContent) {
-      return NextResponse.json(
-        { success: false, error: ediResult.error || 'EDI generation failed' },
-        { status: 500 }
-      );
-    }
+    const { intakeq_appointment_id, ...formData } = body;
 
-    // Save claim to database (status: draft)
-    const { data: claim, error: insertError } = await supabase
-      .from('claims')
-      .insert({
-        intakeq_appointment_id: body.intakeq_appointment_id,
-        patient_first_name: body.patient_first_name,
-        patient_last_name: body.patient_last_name,
-        patient_dob: body.patient_dob,
-        patient_gender: body.patient_gender,
-        patient_address_street: body.patient_address_street,
-        patient_address_city: body.patient_address_city,
-        patient_address_state: body.patient_address_state,
-        patient_address_zip: body.patient_address_zip,
-        payer_id: body.payer_id,
-        member_id: body.member_id,
-        group_number: body.group_number,
-        subscriber_name: body.subscriber_name,
-        subscriber_dob: body.subscriber_dob,
-        subscriber_relationship: body.subscriber_relationship || 'self',
-        diagnosis_codes: body.diagnosis_codes,
-        service_lines: body.service_lines,
-        rendering_provider_npi: body.rendering_provider_npi,
-        billing_provider_npi: process.env.MOONLIT_BILLING_NPI || '1275348807',
-        total_charge: totalCharge,
-        status: 'draft',
-        edi_content: ediResult.ediContent,
-        // V2: Save control number for reconciliation matching
-        control_number: controlNumber,
-        submission_source: 'moonlit',
-      })
-      .select()
-      .single();
+    // A secondary claim keeps its COB data (other payer, primary adjudication)
+    const secondary =
+      original?.claim_filing_order === 'secondary'
+        ? await buildSecondaryCorrection(supabase, original, formData.service_lines)
+        : undefined;
 
-    if (insertError || !claim) {
-      console.error('Database insert error:', insertError);
-      return NextResponse.json(
-        { success: false, error: 'Failed to save claim' },
-        { status: 500 }
-      );
+    if (secondary?.error) {
+      return NextResponse.json({ success: false, error: secondary.error }, { status: 400 });
     }
 
-    // Upload to Office Ally SFTP
-    const uploadResult = await uploadClaim(ediResult.ediContent, claim.id);
-
-    if (uploadResult.success) {
-      // Update claim status to submitted
-      await supabase
-        .from('claims')
-        .update({
-          status: 'submitted',
-          submitted_at: new Date().toISOString(),
-          edi_filename: uploadResult.fileName,
-        })
-        .eq('id', claim.id);
-
-      return NextResponse.json({
-        success: true,
-        claimId: claim.id,
-        filename: uploadResult.fileName,
-        message: 'Claim submitted successfully',
-      });
-    } else {
-      // Update claim with error
-      await supabase
-        .from('claims')
-        .update({
-          status: 'failed',
-          submission_error: uploadResult.error,
-        })
-        .eq('id', claim.id);
-
-      return NextResponse.json(
-        {
-          success: false,
-          claimId: claim.id,
-          error: uploadResult.error || 'SFTP upload failed',
-        },
-        { status: 500 }
-      );
+    const result = await submitClaim(supabase, {
+      intakeqAppointmentId: intakeq_appointment_id,
+      formData,
+      payer: payer as Payer,
+      ediOverrides: original
+        ? {
+            ...secondary?.ediOverrides,
+            claimFrequencyCode: frequencyCode,
+            originalPayerClaimNumber: original.payer_claim_number || undefined,
+          }
+        : undefined,
+      claimColumns: original
+        ? {
+            ...secondary?.claimColumns,
+            claim_frequency_code: frequencyCode,
+            original_claim_id: original.id,
+          }
+        : undefined,
+      submissionEvent: original
+        ? {
+            responseCode: frequencyCode,
+            responseDescription: CLAIM_FREQUENCY_DESCRIPTIONS[frequencyCode],
+            relatedClaimId: original.id,
+          }
+        : undefined,
+    });
+
+    // Only a correction that reached the clearinghouse replaces or voids the original
+    if (original && result.response.success && result.response.claimId) {
+      await recordCorrectionEvent(supabase, original, result.response.claimId, frequencyCode);
     }
+
+    return NextResponse.json(result.response, { status: result.status });
   } catch (error) {
     console.error('Claim submission error:', error);
     return NextResponse.json(
@@ -0,0 +1,103 @@
+/**
+ * POST /api/claims/status-inquiries
+ * Asks payers about claims with a 276 claim status inquiry
+ *
+ * Body: { claim_ids: string[] }
+ *
+ * Claims that are not at the payer yet (or are finished) are skipped and
+ * reported. The solicited 277s come back through reconciliation.
+ *
+ * GET /api/claims/status-inquiries
+ * Per-payer inquiry turnaround and the claims stuck waiting on a payer
+ *
+ * Query params (optional):
+ * - stale_days: days in acknowledged/pending before a claim is stuck (default 21)
+ * - since: only inquiries submitted at or after this date (YYYY-MM-DD)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSupabase } from '@/services/supabase';
+import {
+  submitClaimStatusInquiry,
+  getInquiryTurnaround,
+  findStaleClaims,
+  type StaleClaim,
+} from '@/services/claimStatusInquiries';
+import type { PayerInquiryTurnaround, SubmitInquiryResponse } from '@/types';
+
+interface SubmitInquiryBody {
+  claim_ids: string[];
+}
+
+interface InquiryOverviewResponse {
+  success: boolean;
+  data?: {
+    turnaround: PayerInquiryTurnaround[];
+    staleClaims: StaleClaim[];
+  };
+  error?: string;
+}
+
+const DEFAULT_STALE_DAYS = 21;
+
+export async function POST(request: NextRequest): Promise<NextResponse<SubmitInquiryResponse>> {
+  try {
+    const body: SubmitInquiryBody = await request.json();
+
+    if (!Array.isArray(body.claim_ids) || body.claim_ids.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'claim_ids must be a non-empty array' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = getServerSupabase();
+    const result = await submitClaimStatusInquiry(supabase, [...new Set(body.claim_ids)]);
+
+    return NextResponse.json(result.response, { status: result.status });
+  } catch (error) {
+    console.error('Status inquiry error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to send status inquiry' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: NextRequest): Promise<NextResponse<InquiryOverviewResponse>> {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const staleDays = parseInt(searchParams.get('stale_days') || String(DEFAULT_STALE_DAYS));
+
+    if (isNaN(staleDays) || staleDays < 0) {
+      return NextResponse.json(
+        { success: false, error: 'stale_days must be a non-negative number' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = getServerSupabase();
+    const [turnaround, staleClaims] = await Promise.all([
+      getInquiryTurnaround(supabase, searchParams.get('since') || undefined),
+      findStaleClaims(supabase, staleDays),
+    ]);
+
+    if (!turnaround.success || !staleClaims.success) {
+      return NextResponse.json(
+        { success: false, error: turnaround.error || staleClaims.error },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { turnaround: turnaround.data || [], staleClaims: staleClaims.data || [] },
+    });
+  } catch (error) {
+    console.error('Error fetching status inquiries:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch status inquiries' },
+      { status: 500 }
+    );
+  }
+}
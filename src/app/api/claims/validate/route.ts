@@ -0,0 +1,44 @@
+/**
+ * POST /api/claims/validate
+ * Runs the claim scrubber on CMS-1500 form data without submitting
+ *
+ * Returns errors (block submission) and warnings, including missing
+ * billing/rendering provider data from billing_providers.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSupabase } from '@/services/supabase';
+import { validateClaim } from '@/services/claimValidator';
+import { resolveClaimProviders } from '@/services/billingProviders';
+import type { ClaimFormData, ValidationResult } from '@/types';
+
+interface ValidateResponse {
+  success: boolean;
+  data?: ValidationResult;
+  error?: string;
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse<ValidateResponse>> {
+  try {
+    const formData: ClaimFormData = await request.json();
+    const result = validateClaim(formData);
+
+    // Provider data comes from the database
+    if (!result.errors.some((e) => e.field === 'rendering_provider_npi') && formData.rendering_provider_npi) {
+      const providerResult = await resolveClaimProviders(
+        getServerSupabase(),
+        formData.rendering_provider_npi
+      );
+      result.errors.push(...providerResult.errors);
+      result.isValid = result.errors.length === 0;
+    }
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    console.error('Claim validation error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to validate claim' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * POST /api/eligibility
+ * Checks a patient's coverage at a payer for a date of service (270/271)
+ *
+ * Body:
+ * - payer_id, member_id, patient_first_name, patient_last_name, patient_dob,
+ *   service_date (YYYY-MM-DD)
+ * - claim_id: optional; fills any of the above from the claim (service_date
+ *   from its first service line) and links the check to it
+ * - service_types: optional EQ service type codes (default 30 and MH)
+ *
+ * GET /api/eligibility
+ * Recent checks, newest first
+ *
+ * Query params:
+ * - claim_id or member_id
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSupabase } from '@/services/supabase';
+import { checkEligibility, listEligibilityChecks } from '@/services/eligibility';
+import type { Claim, EligibilityCheck, Payer } from '@/types';
+
+interface EligibilityBody {
+  claim_id?: string;
+  payer_id?: string;
+  member_id?: string;
+  patient_first_name?: string;
+  patient_last_name?: string;
+  patient_dob?: string;
+  service_date?: string;
+  service_types?: string[];
+}
+
+interface EligibilityResponse {
+  success: boolean;
+  data?: EligibilityCheck;
+  error?: string;
+}
+
+interface EligibilityListResponse {
+  success: boolean;
+  data?: EligibilityCheck[];
+  error?: string;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export async function POST(request: NextRequest): Promise<NextResponse<EligibilityResponse>> {
+  try {
+    const body: EligibilityBody = await request.json().catch(() => ({}));
+    const supabase = getServerSupabase();
+
+    let claim: Claim | undefined;
+    if (body.claim_id) {
+      const { data, error } = await supabase.from('claims').select('*').eq('id', body.claim_id).single();
+
+      if (error || !data) {
+        return NextResponse.json({ success: false, error: 'Claim not found' }, { status: 404 });
+      }
+      claim = data as Claim;
+    }
+
+    const fields = {
+      payer_id: body.payer_id || claim?.payer_id,
+      member_id: body.member_id || claim?.member_id,
+      patient_first_name: body.patient_first_name || claim?.patient_first_name,
+      patient_last_name: body.patient_last_name || claim?.patient_last_name,
+      patient_dob: body.patient_dob || claim?.patient_dob,
+      service_date: body.service_date || claim?.service_lines?.[0]?.dos,
+    };
+    const { payer_id, member_id, patient_first_name, patient_last_name, patient_dob, service_date } = fields;
+
+    if (!payer_id || !member_id || !patient_first_name || !patient_last_name || !patient_dob || !service_date) {
+      const missing = Object.entries(fields)
+        .filter(([, value]) => !value)
+        .map(([field]) => field);
+      return NextResponse.json(
+        { success: false, error: `Missing required fields: ${missing.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!DATE_PATTERN.test(patient_dob) || !DATE_PATTERN.test(service_date)) {
+      return NextResponse.json(
+        { success: false, error: 'patient_dob and service_date must be YYYY-MM-DD' },
+        { status: 400 }
+      );
+    }
+
+    const { data: payer, error: payerError } = await supabase
+      .from('payers')
+      .select('*')
+      .eq('id', payer_id)
+      .single();
+
+    if (payerError || !payer) {
+      return NextResponse.json({ success: false, error: 'Invalid payer' }, { status: 400 });
+    }
+
+    const result = await checkEligibility(supabase, {
+      payer: payer as Payer,
+      claimId: claim?.id,
+      memberId: member_id,
+      firstName: patient_first_name,
+      lastName: patient_last_name,
+      dob: patient_dob,
+      serviceDate: service_date,
+      serviceTypes: body.service_types,
+    });
+
+    if (!result.success) {
+      // A recorded check failed at the payer or clearinghouse; anything else failed here
+      return NextResponse.json(
+        { success: false, data: result.check, error: result.error },
+        { status: result.check ? 502 : 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: result.check });
+  } catch (error) {
+    console.error('Eligibility check error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to check eligibility' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: NextRequest): Promise<NextResponse<EligibilityListResponse>> {
+  try {
+    const claimId = request.nextUrl.searchParams.get('claim_id') || undefined;
+    const memberId = request.nextUrl.searchParams.get('member_id') || undefined;
+
+    if (!claimId && !memberId) {
+      return NextResponse.json(
+        { success: false, error: 'claim_id or member_id is required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await listEligibilityChecks(getServerSupabase(), { claimId, memberId });
+
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error('Error fetching eligibility checks:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch eligibility checks' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,12 @@
 /**
  * GET /api/providers
- * Fetches rendering providers for claim form dropdown
+ * Fetches rendering providers for claim form dropdown,
+ * plus the billing provider shown on the claim form
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSupabase } from '@/services/supabase';
+import { getBillingProvider } from '@/services/billingProviders';
 
 interface Provider {
   id: string;
@@ -18,6 +20,7 @@ interface Provider {
 interface ProvidersResponse {
   success: boolean;
   data?: Provider[];
+  billingProvider?: Provider | null;
   error?: string;
 }
 
@@ -43,9 +46,22 @@ export async function GET(
       );
     }
 
+    // Billing provider (MOONLIT_BILLING_NPI) - null if not configured
+    const billing = await getBillingProvider(supabase);
+
     return NextResponse.json({
       success: true,
       data: providers || [],
+      billingProvider: billing
+        ? {
+            id: billing.id,
+            name: billing.name,
+            npi: billing.npi,
+            type: billing.type,
+            is_active: billing.is_active,
+            is_bookable: billing.is_bookable,
+          }
+        : null,
     });
   } catch (error) {
     console.error('Error in providers route:', error);
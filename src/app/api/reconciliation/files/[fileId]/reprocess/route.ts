@@ -0,0 +1,62 @@
+/**
+ * POST /api/reconciliation/files/[fileId]/reprocess
+ *
+ * Process a stored response file again from its saved content, e.g. after a
+ * parser fix. Events the file already recorded are skipped; the result lists
+ * the claims that changed. 409 while another run is in progress.
+ * ?dryRun=true reports the changes without writing anything.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { reprocessResponseFile } from '@/services/reconciliationEngine';
+import type { ReconciliationResult } from '@/types';
+
+interface RouteParams {
+  params: Promise<{ fileId: string }>;
+}
+
+interface ReprocessResponse {
+  success: boolean;
+  data?: ReconciliationResult;
+  error?: string;
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<ReprocessResponse>> {
+  try {
+    const { fileId } = await params;
+    const dryRun = request.nextUrl.searchParams.get('dryRun') === 'true';
+    const result = await reprocessResponseFile(fileId, { dryRun });
+
+    if (!result) {
+      return NextResponse.json(
+        { success: false, error: 'Response file not found' },
+        { status: 404 }
+      );
+    }
+
+    // No run id: another run holds the lock
+    if (!result.runId && !result.dryRun) {
+      return NextResponse.json(
+        { success: false, error: result.errors[0] },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: result.success,
+      data: result,
+    });
+  } catch (error) {
+    console.error('[API] Reprocess error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Reprocess failed',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * POST /api/reconciliation/replay
+ *
+ * Replay every stored response file of a type downloaded since a date
+ *
+ * Body: { fileType: 'TA1' | '999' | '277' | '835', since: string (ISO date) }
+ * Events the files already recorded are skipped; the result lists the claims
+ * that changed. 409 while another run is in progress.
+ * ?dryRun=true reports the changes without writing anything.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { replayResponseFiles } from '@/services/reconciliationEngine';
+import type { EDIResponseFileType, ReconciliationResult } from '@/types';
+
+interface ReplayBody {
+  fileType?: EDIResponseFileType;
+  since?: string;
+}
+
+interface ReplayResponse {
+  success: boolean;
+  data?: ReconciliationResult;
+  error?: string;
+}
+
+const FILE_TYPES: EDIResponseFileType[] = ['TA1', '999', '277', '835'];
+
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<ReplayResponse>> {
+  try {
+    const body: ReplayBody = await request.json().catch(() => ({}));
+
+    if (!body.fileType || !FILE_TYPES.includes(body.fileType)) {
+      return NextResponse.json(
+        { success: false, error: `fileType must be one of ${FILE_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!body.since || isNaN(Date.parse(body.since))) {
+      return NextResponse.json(
+        { success: false, error: 'since must be a date' },
+        { status: 400 }
+      );
+    }
+
+    const result = await replayResponseFiles({
+      fileType: body.fileType,
+      since: body.since,
+      dryRun: request.nextUrl.searchParams.get('dryRun') === 'true',
+    });
+
+    // No run id: another run holds the lock
+    if (!result.runId && !result.dryRun) {
+      return NextResponse.json(
+        { success: false, error: result.errors[0] },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: result.success,
+      data: result,
+    });
+  } catch (error) {
+    console.error('[API] Replay error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Replay failed',
+      },
+      { status: 500 }
+    );
+  }
+}
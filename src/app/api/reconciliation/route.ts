@@ -4,8 +4,11 @@
  *
  * V2: Reconciliation API for syncing claim statuses with Office Ally response files
  *
- * POST: Trigger reconciliation (download and process response files)
- * GET: Get reconciliation status summary
+ * POST: Trigger reconciliation (download and process response files);
+ *       409 while another run is in progress
+ *       ?dryRun=true downloads, parses and matches without writing anything
+ *       and returns the claim changes a run would make
+ * GET: Get reconciliation status summary, including the latest run
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -25,11 +28,21 @@ interface ReconciliationResponse {
  * POST - Trigger reconciliation process
  */
 export async function POST(
-  _request: NextRequest
+  request: NextRequest
 ): Promise<NextResponse<ReconciliationResponse>> {
   try {
-    console.log('[API] Starting reconciliation...');
-    const result = await runReconciliation();
+    const dryRun = request.nextUrl.searchParams.get('dryRun') === 'true';
+
+    console.log(`[API] Starting reconciliation${dryRun ? ' (dry run)' : ''}...`);
+    const result = await runReconciliation({ dryRun });
+
+    // No run id: another run holds the lock
+    if (!result.runId && !result.dryRun) {
+      return NextResponse.json(
+        { success: false, error: result.errors[0] },
+        { status: 409 }
+      );
+    }
 
     return NextResponse.json({
       success: result.success,
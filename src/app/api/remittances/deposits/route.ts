@@ -0,0 +1,37 @@
+/**
+ * GET /api/remittances/deposits
+ * Deposit reconciliation report: each 835 payment's deposited amount (BPR02)
+ * against its claim payments (CLP04) and provider-level adjustments (PLB),
+ * including recoupments, interest and forward balances
+ *
+ * Query params (optional): from, to - payment date range (YYYY-MM-DD)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSupabase } from '@/services/supabase';
+import { getDepositReport } from '@/services/remittanceLedger';
+import type { DepositReport } from '@/types';
+
+interface DepositReportResponse {
+  success: boolean;
+  data?: DepositReport;
+  error?: string;
+}
+
+export async function GET(request: NextRequest): Promise<NextResponse<DepositReportResponse>> {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const report = await getDepositReport(getServerSupabase(), {
+      from: searchParams.get('from'),
+      to: searchParams.get('to'),
+    });
+
+    return NextResponse.json({ success: true, data: report });
+  } catch (error) {
+    console.error('Error building deposit report:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to build deposit report' },
+      { status: 500 }
+    );
+  }
+}
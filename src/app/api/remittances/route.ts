@@ -0,0 +1,48 @@
+/**
+ * GET /api/remittances
+ * Queries the remittance ledger (835 payments with claim payments, service
+ * lines and adjustments)
+ *
+ * Query params (one required):
+ * - claimId: payments made on a claim
+ * - traceNumber: payments with a check or EFT trace number (TRN02)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSupabase } from '@/services/supabase';
+import { getClaimRemittances, getRemittancesByTraceNumber } from '@/services/remittanceLedger';
+import type { Remittance } from '@/types';
+
+interface RemittancesResponse {
+  success: boolean;
+  data?: Remittance[];
+  error?: string;
+}
+
+export async function GET(request: NextRequest): Promise<NextResponse<RemittancesResponse>> {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const claimId = searchParams.get('claimId');
+    const traceNumber = searchParams.get('traceNumber');
+
+    if (!claimId && !traceNumber) {
+      return NextResponse.json(
+        { success: false, error: 'claimId or traceNumber is required' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = getServerSupabase();
+    const remittances = claimId
+      ? await getClaimRemittances(supabase, claimId)
+      : await getRemittancesByTraceNumber(supabase, traceNumber as string);
+
+    return NextResponse.json({ success: true, data: remittances });
+  } catch (error) {
+    console.error('Error fetching remittances:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch remittances' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,30 +1,35 @@
 /**
  * GET /api/test-sftp
- * Tests the SFTP connection to Office Ally
+ * Tests the connection to the clearinghouse (Office Ally SFTP, or the local
+ * clearinghouse in development) and lists the files waiting there
  */
 
 import { NextResponse } from 'next/server';
-import { testConnection, listDirectory } from '@/services/officeAlly';
+import { getClearinghouse } from '@/services/clearinghouse';
 
 export async function GET() {
+  const clearinghouse = getClearinghouse();
+
   try {
     // Test basic connection
-    const connectionResult = await testConnection();
+    const connectionResult = await clearinghouse.testConnection();
 
     if (!connectionResult.success) {
       return NextResponse.json({
         success: false,
+        clearinghouse: clearinghouse.name,
         error: connectionResult.error,
       });
     }
 
-    // Try to list the outbound directory
-    const listResult = await listDirectory('/outbound');
+    // Try to list the files waiting to be picked up
+    const listResult = await clearinghouse.listInbound();
 
     return NextResponse.json({
       success: true,
-      message: 'SFTP connection successful',
-      outboundFiles: listResult.success ? listResult.files : [],
+      clearinghouse: clearinghouse.name,
+      message: `${clearinghouse.name} clearinghouse connection successful`,
+      outboundFiles: listResult.success ? (listResult.files || []).map((f) => f.name) : [],
       outboundError: listResult.error,
     });
   } catch (error) {
@@ -33,5 +38,7 @@ export async function GET() {
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error',
     });
+  } finally {
+    await clearinghouse.close();
   }
 }
@@ -0,0 +1,39 @@
+/**
+ * POST /api/unmatched-responses/[responseId]/dismiss
+ * Take a response off the unmatched queue without applying it
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSupabase } from '@/services/supabase';
+import { dismissUnmatchedResponse } from '@/services/unmatchedResponses';
+
+interface RouteParams {
+  params: Promise<{ responseId: string }>;
+}
+
+interface DismissResponse {
+  success: boolean;
+  error?: string;
+}
+
+export async function POST(
+  _request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<DismissResponse>> {
+  try {
+    const { responseId } = await params;
+    const result = await dismissUnmatchedResponse(getServerSupabase(), responseId);
+
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error dismissing unmatched response:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to dismiss response' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * POST /api/unmatched-responses/[responseId]/match
+ * Confirm the claim an unmatched response is for
+ *
+ * Body: { claimId: string }
+ * Applies the response to the claim through the status state machine and
+ * learns the payer claim number. A refused status change still resolves the
+ * response (applied = false, with the reason).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSupabase } from '@/services/supabase';
+import { getUnmatchedResponse } from '@/services/unmatchedResponses';
+import { resolveUnmatchedResponse } from '@/services/reconciliationEngine';
+import type { ClaimStatus } from '@/types';
+
+interface RouteParams {
+  params: Promise<{ responseId: string }>;
+}
+
+interface MatchBody {
+  claimId?: string;
+}
+
+interface MatchResponse {
+  success: boolean;
+  data?: { applied: boolean; previousStatus?: ClaimStatus; reason?: string };
+  error?: string;
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<MatchResponse>> {
+  try {
+    const { responseId } = await params;
+    const body: MatchBody = await request.json().catch(() => ({}));
+
+    if (!body.claimId) {
+      return NextResponse.json(
+        { success: false, error: 'claimId is required' },
+        { status: 400 }
+      );
+    }
+
+    const response = await getUnmatchedResponse(getServerSupabase(), responseId);
+
+    if (!response) {
+      return NextResponse.json(
+        { success: false, error: 'Unmatched response not found' },
+        { status: 404 }
+      );
+    }
+
+    if (response.status !== 'open') {
+      return NextResponse.json(
+        { success: false, error: `Response is already ${response.status}` },
+        { status: 409 }
+      );
+    }
+
+    const result = await resolveUnmatchedResponse(response, body.claimId);
+
+    if (result.error) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.previousStatus ? 500 : 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { applied: result.applied, previousStatus: result.previousStatus, reason: result.reason },
+    });
+  } catch (error) {
+    console.error('Error matching unmatched response:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to match response' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * GET /api/unmatched-responses
+ * Claim-level 277/835 responses that matched no claim, with candidate claims
+ *
+ * Query params:
+ * - status: open (default), matched or dismissed
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSupabase } from '@/services/supabase';
+import { listUnmatchedResponses } from '@/services/unmatchedResponses';
+import type { UnmatchedResponse, UnmatchedResponseStatus } from '@/types';
+
+interface UnmatchedResponsesResponse {
+  success: boolean;
+  data?: UnmatchedResponse[];
+  error?: string;
+}
+
+const STATUSES: UnmatchedResponseStatus[] = ['open', 'matched', 'dismissed'];
+
+export async function GET(request: NextRequest): Promise<NextResponse<UnmatchedResponsesResponse>> {
+  try {
+    const status = (request.nextUrl.searchParams.get('status') || 'open') as UnmatchedResponseStatus;
+
+    if (!STATUSES.includes(status)) {
+      return NextResponse.json(
+        { success: false, error: 'status must be open, matched or dismissed' },
+        { status: 400 }
+      );
+    }
+
+    const result = await listUnmatchedResponses(getServerSupabase(), status);
+
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error('Error fetching unmatched responses:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch unmatched responses' },
+      { status: 500 }
+    );
+  }
+}
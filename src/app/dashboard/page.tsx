@@ -11,6 +11,7 @@ import { AppointmentCard } from '@/components/AppointmentCard';
 import { DateRangeFilter } from '@/components/DateRangeFilter';
 import { ClaimModal } from '@/components/claims/ClaimModal';
 import ReconciliationButton from '@/components/ReconciliationButton';
+import UnmatchedResponsesQueue from '@/components/UnmatchedResponsesQueue';
 import type { AppointmentWithClaim, ReconciliationResult } from '@/types';
 
 export default function DashboardPage() {
@@ -20,6 +21,7 @@ export default function DashboardPage() {
   const [dateRange, setDateRange] = useState('30'); // days
   const [selectedAppointment, setSelectedAppointment] = useState<AppointmentWithClaim | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [queueRefreshKey, setQueueRefreshKey] = useState(0);
 
   const fetchAppointments = useCallback(async () => {
     setIsLoading(true);
@@ -74,6 +76,9 @@ export default function DashboardPage() {
     if (result.claimsUpdated > 0) {
       fetchAppointments();
     }
+    if (result.unmatchedResponses > 0) {
+      setQueueRefreshKey((key) => key + 1);
+    }
   };
 
   // Filter appointments: "completed" = past confirmed appointments eligible for claims
@@ -148,6 +153,9 @@ export default function DashboardPage() {
           </div>
         </div>
 
+        {/* Responses that matched no claim */}
+        <UnmatchedResponsesQueue refreshKey={queueRefreshKey} onMatched={fetchAppointments} />
+
         {/* Loading State */}
         {isLoading && (
           <div className="text-center py-12">
@@ -6,7 +6,8 @@
  */
 
 import { useState, useEffect } from 'react';
-import type { ClaimStatusEvent, ClaimStatus } from '@/types';
+import type { ClaimStatusEvent, ClaimStatus, AdjustmentCategory } from '@/types';
+import { ADJUSTMENT_CATEGORY_LABELS } from '@/lib/adjustmentCodes';
 
 interface ClaimStatusHistoryProps {
   claimId: string;
@@ -31,9 +32,27 @@ const statusColors: Record<ClaimStatus | string, string> = {
   failed: 'bg-red-700',
 };
 
+// Adjustment category badges
+const categoryColors: Record<AdjustmentCategory, string> = {
+  contractual: 'bg-gray-100 text-gray-600',
+  patient_responsibility: 'bg-blue-100 text-blue-700',
+  missing_info: 'bg-amber-100 text-amber-700',
+  non_covered: 'bg-rose-100 text-rose-700',
+  timely_filing: 'bg-red-100 text-red-700',
+  other: 'bg-gray-100 text-gray-600',
+};
+
+// Service line status badges
+const lineStatusColors: Record<string, string> = {
+  accepted: 'bg-green-100 text-green-700',
+  rejected: 'bg-red-100 text-red-700',
+  pending: 'bg-yellow-100 text-yellow-700',
+};
+
 // Source icons/labels
 const sourceLabels: Record<string, { label: string; icon: string }> = {
   submission: { label: 'Submitted', icon: '📤' },
+  TA1: { label: 'Interchange Acknowledgment (TA1)', icon: '📨' },
   '999': { label: 'Acknowledgment (999)', icon: '✉️' },
   '277': { label: 'Claim Status (277)', icon: '📋' },
   '835': { label: 'Payment (835)', icon: '💰' },
@@ -51,6 +70,16 @@ function formatDate(dateString: string): string {
   });
 }
 
+// Describes a link in the replacement/void chain from this claim's point of view
+function formatClaimChain(event: StatusEventDisplay): string {
+  const isVoid = event.response_code === '8';
+  // The original claim's event keeps its status; the correction's event is its submission
+  if (event.previous_status === event.new_status) {
+    return isVoid ? 'Voided by claim' : 'Replaced by claim';
+  }
+  return isVoid ? 'Voids claim' : 'Replaces claim';
+}
+
 function formatStatus(status: string): string {
   return status
     .split('_')
@@ -170,8 +199,10 @@ export default function ClaimStatusHistory({
                 label: event.source,
                 icon: '📄',
               };
-              const statusColor =
-                statusColors[event.new_status] || 'bg-gray-400';
+              const refused = event.applied === false;
+              const statusColor = refused
+                ? 'bg-gray-300'
+                : statusColors[event.new_status] || 'bg-gray-400';
 
               return (
                 <div key={event.id || index} className="relative pl-6">
@@ -184,9 +215,12 @@ export default function ClaimStatusHistory({
                     <div className="flex justify-between items-start">
                       <div>
                         <span className="text-sm mr-1">{sourceInfo.icon}</span>
-                        <span className="font-medium text-gray-900">
+                        <span className={`font-medium ${refused ? 'text-gray-400 line-through' : 'text-gray-900'}`}>
                           {formatStatus(event.new_status)}
                         </span>
+                        {refused && (
+                          <span className="ml-2 text-xs font-medium text-amber-700">Refused</span>
+                        )}
                         {event.previous_status && (
                           <span className="text-gray-400 text-sm ml-2">
                             from {formatStatus(event.previous_status)}
@@ -202,23 +236,104 @@ export default function ClaimStatusHistory({
                       {sourceInfo.label}
                     </div>
 
+                    {refused && event.refusal_reason && (
+                      <div className="mt-2 text-sm text-amber-800 bg-amber-50 rounded px-2 py-1">
+                        {event.refusal_reason}
+                      </div>
+                    )}
+
                     {event.response_description && (
                       <div className="mt-2 text-sm text-gray-600 bg-gray-50 rounded px-2 py-1">
                         {event.response_description}
                       </div>
                     )}
 
+                    {event.adjustment_codes && event.adjustment_codes.length > 0 && (
+                      <ul className="mt-2 space-y-1">
+                        {event.adjustment_codes.map((adj, i) => (
+                          <li key={i} className="flex justify-between gap-2 text-sm text-gray-700">
+                            <span>
+                              <span className={`inline-block mr-1 px-1.5 py-0.5 rounded text-xs ${categoryColors[adj.category] || categoryColors.other}`}>
+                                {ADJUSTMENT_CATEGORY_LABELS[adj.category] || adj.category}
+                              </span>
+                              {adj.description}
+                              <span className="ml-1 text-xs text-gray-400">
+                                {adj.groupCode}-{adj.reasonCode}
+                                {adj.lineNumber ? `, line ${adj.lineNumber}` : ''}
+                              </span>
+                            </span>
+                            <span className="text-xs text-gray-500 whitespace-nowrap">
+                              ${adj.amount.toFixed(2)}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+
+                    {event.service_line_statuses && event.service_line_statuses.length > 0 && (
+                      <ul className="mt-2 space-y-1">
+                        {event.service_line_statuses.map((line, i) => (
+                          <li key={i} className="text-sm">
+                            <span className={`inline-block mr-1 px-1.5 py-0.5 rounded text-xs ${lineStatusColors[line.status] || 'bg-gray-100 text-gray-600'}`}>
+                              {formatStatus(line.status)}
+                            </span>
+                            <span className="text-gray-700">
+                              {line.lineNumber ? `Line ${line.lineNumber}` : 'Line'} ({line.procedureCode})
+                            </span>
+                            {line.status === 'rejected' && line.reason && (
+                              <div className="ml-1 text-xs text-red-700">{line.reason}</div>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+
+                    {event.acknowledgment_errors && event.acknowledgment_errors.length > 0 && (
+                      <ul className="mt-2 space-y-1">
+                        {event.acknowledgment_errors.map((ackError, i) => (
+                          <li key={i} className="text-sm text-red-700 bg-red-50 rounded px-2 py-1">
+                            {ackError.message}
+                            {ackError.field && (
+                              <div className="text-xs text-red-500">Field: {ackError.field}</div>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+
+                    {event.remark_codes && event.remark_codes.length > 0 && (
+                      <ul className="mt-1 space-y-0.5">
+                        {event.remark_codes.map((remark) => (
+                          <li key={remark.code} className="text-xs text-gray-500">
+                            {remark.code}: {remark.description}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+
                     {event.response_code && (
                       <div className="mt-1 text-xs text-gray-400">
                         Code: {event.response_code}
                       </div>
                     )}
 
+                    {event.related_claim_id && (
+                      <div className="mt-1 text-xs text-indigo-600">
+                        {formatClaimChain(event)} {event.related_claim_id.substring(0, 8)}
+                      </div>
+                    )}
+
                     {event.payment_amount !== null && event.payment_amount > 0 && (
                       <div className="mt-2 text-sm font-medium text-emerald-600">
                         Payment: ${event.payment_amount.toFixed(2)}
                       </div>
                     )}
+
+                    {event.payment_amount !== null && event.payment_amount < 0 && (
+                      <div className="mt-2 text-sm font-medium text-red-600">
+                        Reversal: -${Math.abs(event.payment_amount).toFixed(2)}
+                      </div>
+                    )}
                   </div>
                 </div>
               );
@@ -6,28 +6,71 @@
  *
  * Shows:
  * - Button to trigger reconciliation
+ * - Dry-run preview of the claim changes, confirmed before they are applied
  * - Loading state during process
  * - Results summary after completion
  */
 
 import { useState, useCallback } from 'react';
-import type { ReconciliationResult } from '@/types';
+import type { ReconciliationResult, ClaimChange, ClaimAdjustmentCode } from '@/types';
 
 interface ReconciliationButtonProps {
   onComplete?: (result: ReconciliationResult) => void;
   className?: string;
 }
 
+function formatAmount(amount: number | null): string {
+  return amount === null ? '—' : `$${amount.toFixed(2)}`;
+}
+
+// Denial and adjustment codes a change sets, e.g. "CO-45, PR-1"
+function formatCodes(change: ClaimChange): string {
+  const rejectionCodes = (change.fields.rejection_codes?.to as string[] | null) || [];
+  const adjustmentCodes = ((change.fields.adjustment_codes?.to as ClaimAdjustmentCode[] | null) || []).map(
+    (adj) => `${adj.groupCode}-${adj.reasonCode}`
+  );
+  return [...new Set([...rejectionCodes, ...adjustmentCodes])].join(', ');
+}
+
 export default function ReconciliationButton({
   onComplete,
   className = '',
 }: ReconciliationButtonProps) {
   const [isLoading, setIsLoading] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+  const [preview, setPreview] = useState<ReconciliationResult | null>(null);
   const [result, setResult] = useState<ReconciliationResult | null>(null);
   const [error, setError] = useState<string | null>(null);
 
+  // Dry run first, so the changes can be confirmed before they are applied
+  const previewReconciliation = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    setResult(null);
+
+    try {
+      const response = await fetch('/api/reconciliation?dryRun=true', {
+        method: 'POST',
+      });
+
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Reconciliation preview failed');
+      }
+
+      setPreview(data.data as ReconciliationResult);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
   const runReconciliation = useCallback(async () => {
+    setPreview(null);
     setIsLoading(true);
+    setIsApplying(true);
     setError(null);
     setResult(null);
 
@@ -52,6 +95,7 @@ export default function ReconciliationButton({
       setError(err instanceof Error ? err.message : 'Unknown error');
     } finally {
       setIsLoading(false);
+      setIsApplying(false);
     }
   }, [onComplete]);
 
@@ -64,8 +108,8 @@ export default function ReconciliationButton({
     <div className={`inline-block ${className}`}>
       {/* Main Button */}
       <button
-        onClick={runReconciliation}
-        disabled={isLoading}
+        onClick={previewReconciliation}
+        disabled={isLoading || preview !== null}
         className={`
           flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-all
           ${
@@ -97,7 +141,7 @@ export default function ReconciliationButton({
                 d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z"
               />
             </svg>
-            <span>Syncing...</span>
+            <span>{isApplying ? 'Syncing...' : 'Checking...'}</span>
           </>
         ) : (
           <>
@@ -119,6 +163,85 @@ export default function ReconciliationButton({
         )}
       </button>
 
+      {/* Confirm Dialog (dry-run preview) */}
+      {preview && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          {/* Backdrop */}
+          <div className="fixed inset-0 bg-black bg-opacity-50" onClick={() => setPreview(null)} />
+
+          <div className="relative min-h-screen flex items-center justify-center p-4">
+            <div className="relative bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+              <div className="border-b px-6 py-4">
+                <h2 className="text-lg font-semibold text-gray-900">Apply claim status changes?</h2>
+                <p className="text-sm text-gray-500 mt-1">
+                  {preview.filesProcessed} file(s) checked, {preview.changes.length} claim change(s)
+                  planned. Nothing has been saved yet.
+                </p>
+              </div>
+
+              <div className="px-6 py-4">
+                {preview.changes.length === 0 ? (
+                  <div className="text-sm text-gray-500">No claims would change.</div>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-gray-500 border-b">
+                        <th className="py-2 pr-2 font-medium">Claim</th>
+                        <th className="py-2 pr-2 font-medium">Status</th>
+                        <th className="py-2 pr-2 font-medium">Paid</th>
+                        <th className="py-2 font-medium">Codes</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {preview.changes.map((change, i) => (
+                        <tr key={`${change.claimId}-${i}`} className="border-b border-gray-100 align-top">
+                          <td className="py-2 pr-2">
+                            <div className="font-mono text-xs text-gray-700">{change.claimId.substring(0, 8)}</div>
+                            <div className="text-xs text-gray-400">{change.filename}</div>
+                          </td>
+                          <td className="py-2 pr-2 text-gray-700">
+                            {change.previousStatus === change.newStatus
+                              ? change.newStatus
+                              : `${change.previousStatus} → ${change.newStatus}`}
+                          </td>
+                          <td className="py-2 pr-2 text-gray-700 whitespace-nowrap">
+                            {change.previousPaidAmount === change.newPaidAmount
+                              ? formatAmount(change.newPaidAmount)
+                              : `${formatAmount(change.previousPaidAmount)} → ${formatAmount(change.newPaidAmount)}`}
+                          </td>
+                          <td className="py-2 text-xs text-gray-500">{formatCodes(change) || '—'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+
+                {preview.errors.length > 0 && (
+                  <div className="mt-3 text-xs text-red-600">
+                    {preview.errors.length} error(s) occurred while checking
+                  </div>
+                )}
+              </div>
+
+              <div className="border-t px-6 py-4 flex justify-end gap-3">
+                <button
+                  onClick={() => setPreview(null)}
+                  className="px-4 py-2 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-100"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={runReconciliation}
+                  className="px-4 py-2 rounded-lg text-sm font-medium bg-indigo-600 text-white hover:bg-indigo-700"
+                >
+                  Apply Changes
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Results Popup */}
       {(result || error) && (
         <div className="absolute mt-2 z-50">
@@ -163,12 +286,25 @@ export default function ReconciliationButton({
                     <span>Files processed:</span>
                     <span className="font-medium">{result.filesProcessed}</span>
                   </div>
+                  {result.filesResumed > 0 && (
+                    <div className="flex justify-between">
+                      <span>Files resumed:</span>
+                      <span className="font-medium">{result.filesResumed}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between">
                     <span>Claims updated:</span>
                     <span className="font-medium">{result.claimsUpdated}</span>
                   </div>
+                  {result.unmatchedResponses > 0 && (
+                    <div className="flex justify-between">
+                      <span>Unmatched responses:</span>
+                      <span className="font-medium">{result.unmatchedResponses}</span>
+                    </div>
+                  )}
                   {result.details && (
                     <div className="mt-2 pt-2 border-t border-gray-200 text-xs text-gray-600">
+                      {result.details.fileTA1Count > 0 && <div>TA1 files: {result.details.fileTA1Count}</div>}
                       <div>999 files: {result.details.file999Count}</div>
                       <div>277 files: {result.details.file277Count}</div>
                       <div>835 files: {result.details.file835Count}</div>
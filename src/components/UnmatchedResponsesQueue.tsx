@@ -0,0 +1,182 @@
+'use client';
+
+/**
+ * UnmatchedResponsesQueue Component
+ * V2: Work queue of 277/835 responses that matched no claim
+ *
+ * Shows each response with its scored candidate claims; confirming a
+ * candidate applies the response to that claim.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import type { UnmatchedResponse } from '@/types';
+
+interface UnmatchedResponsesQueueProps {
+  refreshKey?: number; // Change to reload the queue (e.g. after reconciliation)
+  onMatched?: () => void;
+  className?: string;
+}
+
+function formatAmount(amount: number | null): string {
+  return amount === null ? '—' : `$${Number(amount).toFixed(2)}`;
+}
+
+function scoreColor(score: number): string {
+  if (score >= 70) return 'bg-green-100 text-green-700';
+  if (score >= 50) return 'bg-yellow-100 text-yellow-700';
+  return 'bg-gray-100 text-gray-600';
+}
+
+export default function UnmatchedResponsesQueue({
+  refreshKey = 0,
+  onMatched,
+  className = '',
+}: UnmatchedResponsesQueueProps) {
+  const [responses, setResponses] = useState<UnmatchedResponse[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const fetchQueue = useCallback(async () => {
+    try {
+      const response = await fetch('/api/unmatched-responses');
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load unmatched responses');
+      }
+
+      setResponses(data.data || []);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load');
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchQueue();
+  }, [fetchQueue, refreshKey]);
+
+  const resolve = async (responseId: string, action: 'match' | 'dismiss', claimId?: string) => {
+    setBusyId(responseId);
+    setMessage(null);
+
+    try {
+      const response = await fetch(`/api/unmatched-responses/${responseId}/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(claimId ? { claimId } : {}),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `Failed to ${action} response`);
+      }
+
+      if (action === 'match') {
+        setMessage(
+          data.data.applied
+            ? 'Response applied to the claim'
+            : `Matched, but the status was not changed: ${data.data.reason}`
+        );
+        onMatched?.();
+      }
+
+      setResponses((current) => current.filter((r) => r.id !== responseId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (responses.length === 0 && !error) return null;
+
+  return (
+    <section className={`mb-8 ${className}`}>
+      <h2 className="text-lg font-semibold text-gray-900 mb-1">
+        Unmatched Responses ({responses.length})
+      </h2>
+      <p className="text-sm text-gray-500 mb-4">
+        Payer responses that did not match a claim. Confirm the claim each one is for.
+      </p>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-3 mb-4 text-sm">
+          {error}
+        </div>
+      )}
+
+      {message && (
+        <div className="bg-indigo-50 border border-indigo-200 text-indigo-700 rounded-lg p-3 mb-4 text-sm">
+          {message}
+        </div>
+      )}
+
+      <div className="space-y-4">
+        {responses.map((response) => (
+          <div key={response.id} className="bg-white rounded-lg shadow p-4">
+            <div className="flex justify-between items-start">
+              <div>
+                <span className="inline-block mr-2 px-1.5 py-0.5 rounded text-xs font-medium bg-indigo-100 text-indigo-700">
+                  {response.file_type}
+                </span>
+                <span className="font-medium text-gray-900">
+                  {response.patient_name || 'Unknown patient'}
+                </span>
+                <div className="mt-1 text-xs text-gray-500 space-x-3">
+                  {response.member_id && <span>Member {response.member_id}</span>}
+                  {response.service_date && <span>DOS {response.service_date}</span>}
+                  <span>Charge {formatAmount(response.total_charge)}</span>
+                  {response.file_type === '835' && <span>Paid {formatAmount(response.paid_amount)}</span>}
+                </div>
+                <div className="mt-1 text-xs text-gray-400 space-x-3">
+                  {response.control_number && <span>Control # {response.control_number}</span>}
+                  {response.payer_claim_number && <span>Payer claim # {response.payer_claim_number}</span>}
+                  {response.status_description && <span>{response.status_description}</span>}
+                </div>
+              </div>
+              <button
+                onClick={() => resolve(response.id, 'dismiss')}
+                disabled={busyId === response.id}
+                className="text-xs text-gray-500 hover:text-gray-700 disabled:opacity-50"
+              >
+                Dismiss
+              </button>
+            </div>
+
+            {response.candidates.length === 0 ? (
+              <div className="mt-3 text-sm text-gray-500">No candidate claims found.</div>
+            ) : (
+              <ul className="mt-3 divide-y divide-gray-100 border-t border-gray-100">
+                {response.candidates.map((candidate) => (
+                  <li key={candidate.claimId} className="py-2 flex justify-between items-center gap-3">
+                    <div className="text-sm">
+                      <span className={`inline-block mr-2 px-1.5 py-0.5 rounded text-xs font-medium ${scoreColor(candidate.score)}`}>
+                        {candidate.score}
+                      </span>
+                      <span className="text-gray-900">{candidate.patientName}</span>
+                      <span className="ml-2 text-xs text-gray-500">
+                        {candidate.serviceDate || '—'} · {formatAmount(candidate.totalCharge)} · {candidate.status}
+                      </span>
+                      <div className="mt-0.5 text-xs text-gray-400">
+                        Matches: {candidate.reasons.join(', ')}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => resolve(response.id, 'match', candidate.claimId)}
+                      disabled={busyId === response.id}
+                      className="px-3 py-1 rounded text-xs font-medium bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50"
+                    >
+                      Confirm
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+}
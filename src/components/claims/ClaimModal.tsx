@@ -14,6 +14,8 @@ import type {
   DiagnosisCode,
   ServiceLine,
   AutoPopulatedFields,
+  ValidationError,
+  ValidationResult,
 } from '@/types';
 
 // Provider type for rendering provider dropdown
@@ -26,6 +28,14 @@ interface Provider {
   is_bookable: boolean;
 }
 import { format } from 'date-fns';
+import {
+  PLACE_OF_SERVICE_CODES,
+  DEFAULT_PLACE_OF_SERVICE,
+  MAX_MODIFIERS,
+  derivePlaceOfService,
+  isTelehealthPlaceOfService,
+  getLineModifiers,
+} from '@/lib/placeOfService';
 
 // Initial state for auto-populated fields tracking
 const INITIAL_AUTO_POPULATED: AutoPopulatedFields = {
@@ -69,6 +79,7 @@ const INITIAL_FORM_DATA: ClaimFormData = {
   subscriber_relationship: 'self',
   diagnosis_codes: [{ code: '', description: '', isPrimary: true }],
   service_lines: [],
+  place_of_service: DEFAULT_PLACE_OF_SERVICE,
   rendering_provider_npi: '',
 };
 
@@ -76,10 +87,13 @@ export function ClaimModal({ isOpen, appointment, onClose, onSuccess }: ClaimMod
   const [formData, setFormData] = useState<ClaimFormData>(INITIAL_FORM_DATA);
   const [payers, setPayers] = useState<Payer[]>([]);
   const [providers, setProviders] = useState<Provider[]>([]);
+  const [billingProvider, setBillingProvider] = useState<Provider | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [validation, setValidation] = useState<ValidationResult | null>(null);
+  const [isValidating, setIsValidating] = useState(false);
 
   // V2: Auto-population state
   const [autoPopulatedFields, setAutoPopulatedFields] = useState<AutoPopulatedFields>(INITIAL_AUTO_POPULATED);
@@ -170,6 +184,7 @@ export function ClaimModal({ isOpen, appointment, onClose, onSuccess }: ClaimMod
           service_lines: draft.service_lines?.length > 0
             ? draft.service_lines
             : [],
+          place_of_service: draft.place_of_service || DEFAULT_PLACE_OF_SERVICE,
           rendering_provider_npi: draft.rendering_provider_npi || '',
         });
         setHasDraft(true);
@@ -278,6 +293,7 @@ export function ClaimModal({ isOpen, appointment, onClose, onSuccess }: ClaimMod
       const firstName = nameParts[0] || '';
       const lastName = nameParts.slice(1).join(' ') || '';
       const dos = format(new Date(appointment.StartDateIso), 'yyyy-MM-dd');
+      const placeOfService = derivePlaceOfService(appointment);
 
       const initialFormData: ClaimFormData = {
         ...INITIAL_FORM_DATA,
@@ -287,10 +303,13 @@ export function ClaimModal({ isOpen, appointment, onClose, onSuccess }: ClaimMod
         service_lines: [{
           dos,
           cpt: '',
+          // Video visits default to the synchronous telehealth modifier
+          modifiers: isTelehealthPlaceOfService(placeOfService) ? ['95'] : [],
           units: 1,
           charge: appointment.Price / 100, // IntakeQ stores in cents
           diagnosis_pointers: [1],
         }],
+        place_of_service: placeOfService,
       };
 
       // Check for existing draft first, then fall back to IntakeQ
@@ -328,6 +347,7 @@ export function ClaimModal({ isOpen, appointment, onClose, onSuccess }: ClaimMod
       if (data.data) {
         setProviders(data.data);
       }
+      setBillingProvider(data.billingProvider || null);
     } catch (err) {
       console.error('Failed to fetch providers:', err);
     }
@@ -369,7 +389,11 @@ export function ClaimModal({ isOpen, appointment, onClose, onSuccess }: ClaimMod
     }
   };
 
-  const handleServiceLineChange = (index: number, field: keyof ServiceLine, value: string | number | number[]) => {
+  const handleServiceLineChange = (
+    index: number,
+    field: keyof ServiceLine,
+    value: string | string[] | number | number[] | undefined
+  ) => {
     setFormData((prev) => {
       const newLines = [...prev.service_lines];
       newLines[index] = { ...newLines[index], [field]: value };
@@ -377,6 +401,18 @@ export function ClaimModal({ isOpen, appointment, onClose, onSuccess }: ClaimMod
     });
   };
 
+  const handleModifierChange = (index: number, position: number, value: string) => {
+    const line = formData.service_lines[index];
+    const modifiers = getLineModifiers(line);
+    modifiers[position] = value.toUpperCase().slice(0, 2);
+    // Replaces the legacy single modifier
+    setFormData((prev) => {
+      const newLines = [...prev.service_lines];
+      newLines[index] = { ...newLines[index], modifiers: modifiers.filter(Boolean), modifier: undefined };
+      return { ...prev, service_lines: newLines };
+    });
+  };
+
   const addServiceLine = () => {
     const dos = appointment ? format(new Date(appointment.StartDateIso), 'yyyy-MM-dd') : '';
     setFormData((prev) => ({
@@ -394,6 +430,44 @@ export function ClaimModal({ isOpen, appointment, onClose, onSuccess }: ClaimMod
     }
   };
 
+  // Errors and warnings for a field, including nested paths (e.g. "service_lines[0].cpt")
+  const messagesFor = (field: string, nested = true): ValidationError[] => {
+    if (!validation) return [];
+    return [...validation.errors, ...validation.warnings].filter(
+      (m) => m.field === field || (nested && m.field.startsWith(`${field}.`))
+    );
+  };
+
+  const runValidation = async (): Promise<ValidationResult | null> => {
+    setIsValidating(true);
+    try {
+      const response = await fetch('/api/claims/validate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(formData),
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        setError(result.error || 'Failed to validate claim');
+        return null;
+      }
+
+      setValidation(result.data);
+      return result.data;
+    } catch {
+      setError('Failed to validate claim. Please try again.');
+      return null;
+    } finally {
+      setIsValidating(false);
+    }
+  };
+
+  const handleValidate = async () => {
+    setError(null);
+    await runValidation();
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!appointment) return;
@@ -402,6 +476,14 @@ export function ClaimModal({ isOpen, appointment, onClose, onSuccess }: ClaimMod
     setError(null);
 
     try {
+      // Scrub first; errors block submission, warnings do not
+      const checked = await runValidation();
+      if (!checked) return;
+      if (!checked.isValid) {
+        setError('Fix the errors below before submitting');
+        return;
+      }
+
       const response = await fetch('/api/claims', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
@@ -420,6 +502,14 @@ export function ClaimModal({ isOpen, appointment, onClose, onSuccess }: ClaimMod
           onClose();
         }, 2000);
       } else {
+        if (result.validationErrors) {
+          const errors: ValidationError[] = result.validationErrors;
+          setValidation({
+            isValid: false,
+            errors: errors.filter((v) => v.severity === 'error'),
+            warnings: errors.filter((v) => v.severity === 'warning'),
+          });
+        }
         setError(result.error || 'Failed to submit claim');
       }
     } catch (err) {
@@ -494,6 +584,27 @@ export function ClaimModal({ isOpen, appointment, onClose, onSuccess }: ClaimMod
               {error}
             </div>
           )}
+          {validation && (validation.errors.length > 0 || validation.warnings.length > 0) && (
+            <div className="mx-6 mt-4 p-4 bg-gray-50 border border-gray-200 rounded-md text-sm">
+              <p className="font-medium text-gray-900 mb-2">
+                {validation.errors.length} error{validation.errors.length === 1 ? '' : 's'},{' '}
+                {validation.warnings.length} warning{validation.warnings.length === 1 ? '' : 's'}
+              </p>
+              <ul className="space-y-1">
+                {validation.errors.map((v, i) => (
+                  <li key={`e-${i}`} className="text-red-700">{v.message}</li>
+                ))}
+                {validation.warnings.map((v, i) => (
+                  <li key={`w-${i}`} className="text-yellow-700">{v.message}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {validation && validation.isValid && validation.warnings.length === 0 && (
+            <div className="mx-6 mt-4 p-4 bg-green-50 border border-green-200 text-green-700 rounded-md text-sm">
+              No problems found
+            </div>
+          )}
 
           {/* V2: Loading Client Data Banner */}
           {isLoadingClient && (
@@ -576,6 +687,7 @@ export function ClaimModal({ isOpen, appointment, onClose, onSuccess }: ClaimMod
                       autoPopulatedFields.patient_first_name ? 'border-green-300 bg-green-50' : 'border-gray-300'
                     }`}
                   />
+                  <FieldMessages messages={messagesFor('patient_first_name')} />
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -591,6 +703,7 @@ export function ClaimModal({ isOpen, appointment, onClose, onSuccess }: ClaimMod
                       autoPopulatedFields.patient_last_name ? 'border-green-300 bg-green-50' : 'border-gray-300'
                     }`}
                   />
+                  <FieldMessages messages={messagesFor('patient_last_name')} />
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -606,6 +719,7 @@ export function ClaimModal({ isOpen, appointment, onClose, onSuccess }: ClaimMod
                       autoPopulatedFields.patient_dob ? 'border-green-300 bg-green-50' : 'border-gray-300'
                     }`}
                   />
+                  <FieldMessages messages={messagesFor('patient_dob')} />
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -623,6 +737,7 @@ export function ClaimModal({ isOpen, appointment, onClose, onSuccess }: ClaimMod
                     <option value="F">Female</option>
                     <option value="U">Unknown</option>
                   </select>
+                  <FieldMessages messages={messagesFor('patient_gender')} />
                 </div>
                 <div className="col-span-2">
                   <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -637,6 +752,7 @@ export function ClaimModal({ isOpen, appointment, onClose, onSuccess }: ClaimMod
                       autoPopulatedFields.patient_address_street ? 'border-green-300 bg-green-50' : 'border-gray-300'
                     }`}
                   />
+                  <FieldMessages messages={messagesFor('patient_address_street')} />
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -667,6 +783,7 @@ export function ClaimModal({ isOpen, appointment, onClose, onSuccess }: ClaimMod
                         autoPopulatedFields.patient_address_state ? 'border-green-300 bg-green-50' : 'border-gray-300'
                       }`}
                     />
+                    <FieldMessages messages={messagesFor('patient_address_state')} />
                   </div>
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -682,6 +799,7 @@ export function ClaimModal({ isOpen, appointment, onClose, onSuccess }: ClaimMod
                         autoPopulatedFields.patient_address_zip ? 'border-green-300 bg-green-50' : 'border-gray-300'
                       }`}
                     />
+                    <FieldMessages messages={messagesFor('patient_address_zip')} />
                   </div>
                 </div>
               </div>
@@ -711,6 +829,7 @@ export function ClaimModal({ isOpen, appointment, onClose, onSuccess }: ClaimMod
                       </option>
                     ))}
                   </select>
+                  <FieldMessages messages={messagesFor('payer_id')} />
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -726,6 +845,7 @@ export function ClaimModal({ isOpen, appointment, onClose, onSuccess }: ClaimMod
                       autoPopulatedFields.member_id ? 'border-green-300 bg-green-50' : 'border-gray-300'
                     }`}
                   />
+                  <FieldMessages messages={messagesFor('member_id')} />
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -759,6 +879,40 @@ export function ClaimModal({ isOpen, appointment, onClose, onSuccess }: ClaimMod
                     <option value="other">Other</option>
                   </select>
                 </div>
+                {formData.subscriber_relationship !== 'self' && (
+                  <>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Subscriber Name *
+                        {autoPopulatedFields.subscriber_name && <span className="ml-1 text-xs text-green-600">Auto</span>}
+                      </label>
+                      <input
+                        type="text"
+                        value={formData.subscriber_name || ''}
+                        onChange={(e) => handleInputChange('subscriber_name', e.target.value)}
+                        className={`w-full rounded-md border px-3 py-2 focus:border-blue-500 focus:ring-1 focus:ring-blue-500 ${
+                          autoPopulatedFields.subscriber_name ? 'border-green-300 bg-green-50' : 'border-gray-300'
+                        }`}
+                      />
+                      <FieldMessages messages={messagesFor('subscriber_name')} />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Subscriber DOB *
+                        {autoPopulatedFields.subscriber_dob && <span className="ml-1 text-xs text-green-600">Auto</span>}
+                      </label>
+                      <input
+                        type="date"
+                        value={formData.subscriber_dob || ''}
+                        onChange={(e) => handleInputChange('subscriber_dob', e.target.value)}
+                        className={`w-full rounded-md border px-3 py-2 focus:border-blue-500 focus:ring-1 focus:ring-blue-500 ${
+                          autoPopulatedFields.subscriber_dob ? 'border-green-300 bg-green-50' : 'border-gray-300'
+                        }`}
+                      />
+                      <FieldMessages messages={messagesFor('subscriber_dob')} />
+                    </div>
+                  </>
+                )}
               </div>
             </section>
 
@@ -774,44 +928,48 @@ export function ClaimModal({ isOpen, appointment, onClose, onSuccess }: ClaimMod
                   + Add Diagnosis
                 </button>
               </div>
+              <FieldMessages messages={messagesFor('diagnosis_codes', false)} />
               <div className="space-y-3">
                 {formData.diagnosis_codes.map((dx, index) => (
-                  <div key={index} className="flex items-center gap-3">
-                    <span className="text-sm text-gray-500 w-6">{index + 1}.</span>
-                    <input
-                      type="text"
-                      placeholder="F41.1"
-                      value={dx.code}
-                      onChange={(e) => handleDiagnosisChange(index, 'code', e.target.value.toUpperCase())}
-                      className="w-24 rounded-md border border-gray-300 px-3 py-2 focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
-                    />
-                    <input
-                      type="text"
-                      placeholder="Description (optional)"
-                      value={dx.description || ''}
-                      onChange={(e) => handleDiagnosisChange(index, 'description', e.target.value)}
-                      className="flex-1 rounded-md border border-gray-300 px-3 py-2 focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
-                    />
-                    <label className="flex items-center gap-1 text-sm">
+                  <div key={index}>
+                    <div className="flex items-center gap-3">
+                      <span className="text-sm text-gray-500 w-6">{index + 1}.</span>
                       <input
-                        type="checkbox"
-                        checked={dx.isPrimary}
-                        onChange={(e) => handleDiagnosisChange(index, 'isPrimary', e.target.checked)}
-                        className="rounded border-gray-300"
+                        type="text"
+                        placeholder="F41.1"
+                        value={dx.code}
+                        onChange={(e) => handleDiagnosisChange(index, 'code', e.target.value.toUpperCase())}
+                        className="w-24 rounded-md border border-gray-300 px-3 py-2 focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
                       />
-                      Primary
-                    </label>
-                    {formData.diagnosis_codes.length > 1 && (
-                      <button
-                        type="button"
-                        onClick={() => removeDiagnosis(index)}
-                        className="text-red-500 hover:text-red-700"
-                      >
-                        <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                        </svg>
-                      </button>
-                    )}
+                      <input
+                        type="text"
+                        placeholder="Description (optional)"
+                        value={dx.description || ''}
+                        onChange={(e) => handleDiagnosisChange(index, 'description', e.target.value)}
+                        className="flex-1 rounded-md border border-gray-300 px-3 py-2 focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
+                      />
+                      <label className="flex items-center gap-1 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={dx.isPrimary}
+                          onChange={(e) => handleDiagnosisChange(index, 'isPrimary', e.target.checked)}
+                          className="rounded border-gray-300"
+                        />
+                        Primary
+                      </label>
+                      {formData.diagnosis_codes.length > 1 && (
+                        <button
+                          type="button"
+                          onClick={() => removeDiagnosis(index)}
+                          className="text-red-500 hover:text-red-700"
+                        >
+                          <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                          </svg>
+                        </button>
+                      )}
+                    </div>
+                    <FieldMessages messages={messagesFor(`diagnosis_codes[${index}]`)} />
                   </div>
                 ))}
               </div>
@@ -829,71 +987,111 @@ export function ClaimModal({ isOpen, appointment, onClose, onSuccess }: ClaimMod
                   + Add Service Line
                 </button>
               </div>
+              <FieldMessages messages={messagesFor('service_lines', false)} />
+              <div className="mb-3">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Place of Service *</label>
+                <select
+                  required
+                  value={formData.place_of_service}
+                  onChange={(e) => handleInputChange('place_of_service', e.target.value)}
+                  className="w-72 rounded-md border border-gray-300 px-3 py-2 focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
+                >
+                  {Object.entries(PLACE_OF_SERVICE_CODES).map(([code, description]) => (
+                    <option key={code} value={code}>
+                      {code} - {description}
+                    </option>
+                  ))}
+                </select>
+                <FieldMessages messages={messagesFor('place_of_service')} />
+              </div>
               <div className="space-y-3">
                 {formData.service_lines.map((line, index) => (
-                  <div key={index} className="flex items-center gap-3 p-3 bg-gray-50 rounded-md">
-                    <span className="text-sm text-gray-500 w-6">{index + 1}.</span>
-                    <div>
-                      <label className="block text-xs text-gray-500 mb-1">Date of Service</label>
-                      <input
-                        type="date"
-                        value={line.dos}
-                        onChange={(e) => handleServiceLineChange(index, 'dos', e.target.value)}
-                        className="w-36 rounded-md border border-gray-300 px-2 py-1.5 text-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
-                      />
-                    </div>
-                    <div>
-                      <label className="block text-xs text-gray-500 mb-1">CPT Code</label>
-                      <input
-                        type="text"
-                        placeholder="99214"
-                        value={line.cpt}
-                        onChange={(e) => handleServiceLineChange(index, 'cpt', e.target.value)}
-                        className="w-24 rounded-md border border-gray-300 px-2 py-1.5 text-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
-                      />
-                    </div>
-                    <div>
-                      <label className="block text-xs text-gray-500 mb-1">Modifier</label>
-                      <input
-                        type="text"
-                        placeholder="95"
-                        value={line.modifier || ''}
-                        onChange={(e) => handleServiceLineChange(index, 'modifier', e.target.value)}
-                        className="w-16 rounded-md border border-gray-300 px-2 py-1.5 text-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
-                      />
-                    </div>
-                    <div>
-                      <label className="block text-xs text-gray-500 mb-1">Units</label>
-                      <input
-                        type="number"
-                        min="1"
-                        value={line.units}
-                        onChange={(e) => handleServiceLineChange(index, 'units', parseInt(e.target.value) || 1)}
-                        className="w-16 rounded-md border border-gray-300 px-2 py-1.5 text-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
-                      />
-                    </div>
-                    <div>
-                      <label className="block text-xs text-gray-500 mb-1">Charge ($)</label>
-                      <input
-                        type="number"
-                        step="0.01"
-                        min="0"
-                        value={line.charge}
-                        onChange={(e) => handleServiceLineChange(index, 'charge', parseFloat(e.target.value) || 0)}
-                        className="w-24 rounded-md border border-gray-300 px-2 py-1.5 text-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
-                      />
+                  <div key={index} className="p-3 bg-gray-50 rounded-md">
+                    <div className="flex items-center gap-3">
+                      <span className="text-sm text-gray-500 w-6">{index + 1}.</span>
+                      <div>
+                        <label className="block text-xs text-gray-500 mb-1">Date of Service</label>
+                        <input
+                          type="date"
+                          value={line.dos}
+                          onChange={(e) => handleServiceLineChange(index, 'dos', e.target.value)}
+                          className="w-36 rounded-md border border-gray-300 px-2 py-1.5 text-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs text-gray-500 mb-1">CPT Code</label>
+                        <input
+                          type="text"
+                          placeholder="99214"
+                          value={line.cpt}
+                          onChange={(e) => handleServiceLineChange(index, 'cpt', e.target.value)}
+                          className="w-24 rounded-md border border-gray-300 px-2 py-1.5 text-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs text-gray-500 mb-1">Modifiers</label>
+                        <div className="flex gap-1">
+                          {Array.from({ length: MAX_MODIFIERS }, (_, position) => (
+                            <input
+                              key={position}
+                              type="text"
+                              placeholder={position === 0 ? '95' : ''}
+                              value={getLineModifiers(line)[position] || ''}
+                              onChange={(e) => handleModifierChange(index, position, e.target.value)}
+                              className="w-11 rounded-md border border-gray-300 px-2 py-1.5 text-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
+                            />
+                          ))}
+                        </div>
+                      </div>
+                      <div>
+                        <label className="block text-xs text-gray-500 mb-1">POS</label>
+                        <select
+                          value={line.place_of_service || ''}
+                          onChange={(e) => handleServiceLineChange(index, 'place_of_service', e.target.value || undefined)}
+                          className="w-20 rounded-md border border-gray-300 px-2 py-1.5 text-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
+                        >
+                          <option value="">Claim</option>
+                          {Object.keys(PLACE_OF_SERVICE_CODES).map((code) => (
+                            <option key={code} value={code}>
+                              {code}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <label className="block text-xs text-gray-500 mb-1">Units</label>
+                        <input
+                          type="number"
+                          min="1"
+                          value={line.units}
+                          onChange={(e) => handleServiceLineChange(index, 'units', parseInt(e.target.value) || 1)}
+                          className="w-16 rounded-md border border-gray-300 px-2 py-1.5 text-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs text-gray-500 mb-1">Charge ($)</label>
+                        <input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          value={line.charge}
+                          onChange={(e) => handleServiceLineChange(index, 'charge', parseFloat(e.target.value) || 0)}
+                          className="w-24 rounded-md border border-gray-300 px-2 py-1.5 text-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
+                        />
+                      </div>
+                      {formData.service_lines.length > 1 && (
+                        <button
+                          type="button"
+                          onClick={() => removeServiceLine(index)}
+                          className="text-red-500 hover:text-red-700 mt-4"
+                        >
+                          <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                          </svg>
+                        </button>
+                      )}
                     </div>
-                    {formData.service_lines.length > 1 && (
-                      <button
-                        type="button"
-                        onClick={() => removeServiceLine(index)}
-                        className="text-red-500 hover:text-red-700 mt-4"
-                      >
-                        <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                        </svg>
-                      </button>
-                    )}
+                    <FieldMessages messages={messagesFor(`service_lines[${index}]`)} />
                   </div>
                 ))}
               </div>
@@ -918,6 +1116,7 @@ export function ClaimModal({ isOpen, appointment, onClose, onSuccess }: ClaimMod
                       </option>
                     ))}
                   </select>
+                  <FieldMessages messages={messagesFor('rendering_provider_npi')} />
                   {formData.rendering_provider_npi && (
                     <p className="text-xs text-gray-500 mt-1">
                       NPI: {formData.rendering_provider_npi}
@@ -934,10 +1133,14 @@ export function ClaimModal({ isOpen, appointment, onClose, onSuccess }: ClaimMod
                   <input
                     type="text"
                     disabled
-                    value="1275348807"
+                    value={billingProvider?.npi || ''}
                     className="w-full rounded-md border border-gray-200 bg-gray-50 px-3 py-2 text-gray-500"
                   />
-                  <p className="text-xs text-gray-400 mt-1">Moonlit PLLC (Type 2)</p>
+                  {billingProvider ? (
+                    <p className="text-xs text-gray-400 mt-1">{billingProvider.name} (Type 2)</p>
+                  ) : (
+                    <p className="text-xs text-red-600 mt-1">Billing provider not configured</p>
+                  )}
                 </div>
               </div>
             </section>
@@ -965,6 +1168,14 @@ export function ClaimModal({ isOpen, appointment, onClose, onSuccess }: ClaimMod
                 >
                   {isSavingDraft ? 'Saving...' : 'Save Draft'}
                 </button>
+                <button
+                  type="button"
+                  onClick={handleValidate}
+                  disabled={isValidating || isSubmitting}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:bg-gray-100 disabled:text-gray-400"
+                >
+                  {isValidating ? 'Checking...' : 'Check Claim'}
+                </button>
                 <button
                   type="submit"
                   disabled={isSubmitting}
@@ -980,3 +1191,20 @@ export function ClaimModal({ isOpen, appointment, onClose, onSuccess }: ClaimMod
     </div>
   );
 }
+
+/**
+ * Inline scrubber errors (red) and warnings (yellow) for one field
+ */
+function FieldMessages({ messages }: { messages: ValidationError[] }) {
+  if (messages.length === 0) return null;
+
+  return (
+    <ul className="mt-1 space-y-0.5">
+      {messages.map((m, i) => (
+        <li key={i} className={`text-xs ${m.severity === 'error' ? 'text-red-600' : 'text-yellow-700'}`}>
+          {m.message}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,273 @@
+/**
+ * Claim Adjustment and Remark Code Dictionary
+ * Claim Adjustment Reason Codes (CARC, CAS02) and Remittance Advice Remark
+ * Codes (RARC, from LQ/MOA/MIA) with plain-English descriptions, plus the
+ * provider-level adjustment reasons used in PLB
+ *
+ * Covers the codes payers commonly send on professional behavioral health
+ * claims. Unknown codes fall back to their bare code so nothing is dropped.
+ * Full lists: x12.org/codes/claim-adjustment-reason-codes and
+ * x12.org/codes/remittance-advice-remark-codes
+ */
+
+import type { AdjustmentCategory } from '@/types';
+
+/**
+ * CAS01 claim adjustment group codes
+ */
+export const CAS_GROUP_CODES: Record<string, string> = {
+  CO: 'Contractual Obligations',
+  CR: 'Corrections and Reversals',
+  OA: 'Other Adjustments',
+  PI: 'Payer Initiated Reductions',
+  PR: 'Patient Responsibility',
+};
+
+export const ADJUSTMENT_CATEGORY_LABELS: Record<AdjustmentCategory, string> = {
+  contractual: 'Contractual',
+  patient_responsibility: 'Patient responsibility',
+  missing_info: 'Missing or invalid information',
+  non_covered: 'Not covered',
+  timely_filing: 'Timely filing',
+  other: 'Other',
+};
+
+/**
+ * Claim Adjustment Reason Codes
+ */
+export const CLAIM_ADJUSTMENT_REASON_CODES: Record<
+  string,
+  { description: string; category: AdjustmentCategory }
+> = {
+  '1': { description: 'Deductible amount', category: 'patient_responsibility' },
+  '2': { description: 'Coinsurance amount', category: 'patient_responsibility' },
+  '3': { description: 'Co-payment amount', category: 'patient_responsibility' },
+  '4': { description: 'Procedure code is inconsistent with the modifier, or a required modifier is missing', category: 'missing_info' },
+  '5': { description: 'Procedure code is inconsistent with the place of service', category: 'missing_info' },
+  '6': { description: "Procedure is inconsistent with the patient's age", category: 'other' },
+  '7': { description: "Procedure is inconsistent with the patient's gender", category: 'other' },
+  '8': { description: 'Procedure is inconsistent with the provider type or specialty', category: 'other' },
+  '9': { description: "Diagnosis is inconsistent with the patient's age", category: 'other' },
+  '10': { description: "Diagnosis is inconsistent with the patient's gender", category: 'other' },
+  '11': { description: 'Diagnosis is inconsistent with the procedure', category: 'other' },
+  '12': { description: 'Diagnosis is inconsistent with the provider type', category: 'other' },
+  '13': { description: 'Date of death precedes the date of service', category: 'other' },
+  '14': { description: 'Date of birth follows the date of service', category: 'missing_info' },
+  '16': { description: 'Claim lacks information or has submission/billing errors', category: 'missing_info' },
+  '18': { description: 'Exact duplicate claim or service', category: 'other' },
+  '19': { description: "Work-related injury; bill the Workers' Compensation carrier", category: 'other' },
+  '22': { description: 'May be covered by another payer (coordination of benefits)', category: 'other' },
+  '23': { description: 'Impact of prior payer adjudication, including payments and adjustments', category: 'other' },
+  '24': { description: 'Covered under a capitation agreement or managed care plan', category: 'contractual' },
+  '26': { description: 'Expenses incurred before coverage began', category: 'non_covered' },
+  '27': { description: 'Expenses incurred after coverage terminated', category: 'non_covered' },
+  '29': { description: 'The time limit for filing has expired', category: 'timely_filing' },
+  '31': { description: 'Patient cannot be identified as our insured', category: 'missing_info' },
+  '32': { description: 'Patient is not an eligible dependent', category: 'non_covered' },
+  '33': { description: 'Insured has no dependent coverage', category: 'non_covered' },
+  '35': { description: 'Lifetime benefit maximum has been reached', category: 'non_covered' },
+  '39': { description: 'Services denied when authorization was requested', category: 'non_covered' },
+  '40': { description: 'Charges do not meet the qualifications for emergent/urgent care', category: 'non_covered' },
+  '45': { description: 'Charge exceeds the fee schedule or contracted amount', category: 'contractual' },
+  '49': { description: 'Routine or preventive service not covered', category: 'non_covered' },
+  '50': { description: 'Not deemed medically necessary by the payer', category: 'non_covered' },
+  '51': { description: 'Pre-existing condition', category: 'non_covered' },
+  '55': { description: 'Procedure deemed experimental or investigational', category: 'non_covered' },
+  '56': { description: 'Procedure not deemed proven to be effective', category: 'non_covered' },
+  '58': { description: 'Rendered in an inappropriate or invalid place of service', category: 'non_covered' },
+  '59': { description: 'Processed under multiple or concurrent procedure rules', category: 'contractual' },
+  '66': { description: 'Blood deductible', category: 'patient_responsibility' },
+  '94': { description: 'Processed in excess of charges', category: 'contractual' },
+  '96': { description: 'Non-covered charge', category: 'non_covered' },
+  '97': { description: 'Included in the payment for another service already adjudicated', category: 'contractual' },
+  '100': { description: 'Payment made to the patient or insured', category: 'other' },
+  '101': { description: 'Predetermination: anticipated payment upon completion of services', category: 'other' },
+  '104': { description: 'Managed care withholding', category: 'contractual' },
+  '107': { description: 'The related or qualifying claim/service was not identified on this claim', category: 'missing_info' },
+  '109': { description: 'Not covered by this payer; send to the correct payer', category: 'non_covered' },
+  '110': { description: 'Billing date predates the service date', category: 'missing_info' },
+  '111': { description: 'Not covered unless the provider accepts assignment', category: 'non_covered' },
+  '114': { description: 'Procedure or product not approved by the FDA', category: 'non_covered' },
+  '116': { description: 'Advance notice requirements were not followed', category: 'non_covered' },
+  '119': { description: 'Benefit maximum for this period or occurrence has been reached', category: 'non_covered' },
+  '125': { description: 'Submission/billing error', category: 'missing_info' },
+  '129': { description: 'Prior processing information appears incorrect', category: 'missing_info' },
+  '130': { description: 'Claim submission fee', category: 'contractual' },
+  '131': { description: 'Claim-specific negotiated discount', category: 'contractual' },
+  '133': { description: 'Pending further review', category: 'other' },
+  '136': { description: "Prior payer's coverage rules were not followed", category: 'other' },
+  '140': { description: 'Patient identification number and name do not match', category: 'missing_info' },
+  '142': { description: 'Monthly Medicaid patient liability amount', category: 'patient_responsibility' },
+  '146': { description: 'Diagnosis was invalid for the date of service', category: 'missing_info' },
+  '149': { description: 'Lifetime benefit maximum for this service has been reached', category: 'non_covered' },
+  '150': { description: 'Information submitted does not support this level of service', category: 'non_covered' },
+  '151': { description: 'Information submitted does not support this many or this frequency of services', category: 'non_covered' },
+  '163': { description: 'Attachment or documentation referenced on the claim was not received', category: 'missing_info' },
+  '164': { description: 'Attachment or documentation was not received in a timely fashion', category: 'missing_info' },
+  '167': { description: 'Diagnosis is not covered', category: 'non_covered' },
+  '170': { description: 'Not paid when performed or billed by this type of provider', category: 'non_covered' },
+  '171': { description: 'Not paid when performed by this type of provider in this type of facility', category: 'non_covered' },
+  '177': { description: 'Patient has not met the eligibility requirements', category: 'non_covered' },
+  '181': { description: 'Procedure code was invalid on the date of service', category: 'missing_info' },
+  '182': { description: 'Procedure modifier was invalid on the date of service', category: 'missing_info' },
+  '183': { description: 'Referring provider is not eligible to refer the service billed', category: 'missing_info' },
+  '185': { description: 'Rendering provider is not eligible to perform the service billed', category: 'non_covered' },
+  '187': { description: 'Consumer spending account payment', category: 'patient_responsibility' },
+  '189': { description: 'Unlisted procedure code billed when a specific code exists', category: 'missing_info' },
+  '192': { description: 'Non-standard adjustment code from a paper remittance', category: 'other' },
+  '197': { description: 'Prior authorization or precertification was absent', category: 'missing_info' },
+  '198': { description: 'Prior authorization or precertification was exceeded', category: 'non_covered' },
+  '200': { description: 'Expenses incurred during a lapse in coverage', category: 'non_covered' },
+  '204': { description: "Not covered under the patient's current benefit plan", category: 'non_covered' },
+  '206': { description: 'NPI is missing', category: 'missing_info' },
+  '207': { description: 'NPI has an invalid format', category: 'missing_info' },
+  '208': { description: 'NPI does not match the payer records', category: 'missing_info' },
+  '226': { description: 'Information requested from the provider was not provided or was incomplete', category: 'missing_info' },
+  '227': { description: 'Information requested from the patient was not provided or was incomplete', category: 'missing_info' },
+  '231': { description: 'Mutually exclusive procedures cannot be done in the same day or setting', category: 'non_covered' },
+  '234': { description: 'This procedure is not paid separately', category: 'contractual' },
+  '236': { description: 'Procedure or modifier combination is not compatible with another procedure on this date (NCCI)', category: 'contractual' },
+  '242': { description: 'Services not provided by network or primary care providers', category: 'non_covered' },
+  '243': { description: 'Services not authorized by network or primary care providers', category: 'non_covered' },
+  '252': { description: 'An attachment or other documentation is required to adjudicate this claim', category: 'missing_info' },
+  '253': { description: 'Sequestration: reduction in federal payment', category: 'contractual' },
+  '256': { description: 'Service not payable under the managed care contract', category: 'contractual' },
+  A1: { description: 'Claim or service denied', category: 'other' },
+  B7: { description: 'Provider was not certified or eligible to be paid for this service on this date', category: 'non_covered' },
+  B9: { description: 'Patient is enrolled in a hospice', category: 'non_covered' },
+  B15: { description: 'Requires a qualifying service that was not received or covered', category: 'non_covered' },
+  B16: { description: "'New patient' qualifications were not met", category: 'missing_info' },
+};
+
+/**
+ * Remittance Advice Remark Codes
+ */
+export const REMITTANCE_REMARK_CODES: Record<string, string> = {
+  M15: 'Separately billed services have been bundled as components of the same procedure',
+  M20: 'Missing, incomplete or invalid HCPCS code',
+  M51: 'Missing, incomplete or invalid procedure code',
+  M76: 'Missing, incomplete or invalid diagnosis or condition',
+  M77: 'Missing, incomplete, invalid or inappropriate place of service',
+  M79: 'Missing, incomplete or invalid charge',
+  M80: 'Not covered when performed during the same session as a previously processed service',
+  M86: 'Payment already made for the same or a similar procedure within the set time frame',
+  MA01: 'You may appeal this decision if you do not agree with what was approved',
+  MA04: 'Secondary payment cannot be considered without the primary payer information',
+  MA07: 'Claim information has also been forwarded to Medicaid',
+  MA13: 'You may be subject to penalties if you bill the patient for amounts not reported as patient responsibility',
+  MA18: "Claim information is also being forwarded to the patient's supplemental insurer",
+  MA130: 'Claim has incomplete or invalid information and is unprocessable; no appeal rights are afforded',
+  N1: 'You may appeal this decision in writing within the required time limits',
+  N4: 'Missing, incomplete or invalid prior insurance carrier EOB',
+  N19: 'Procedure code is incidental to the primary procedure',
+  N20: 'Service not payable with another service rendered on the same date',
+  N30: 'Patient is ineligible for this service',
+  N54: 'Claim information is inconsistent with the authorized services',
+  N56: 'Procedure code billed is not correct or valid for the services or date of service',
+  N59: 'Refer to your provider manual for program and provider information',
+  N65: 'Procedure code or rate could not be determined for the date of service or provider',
+  N95: 'This provider type or specialty may not bill this service',
+  N115: 'Decision based on a Local Coverage Determination (LCD)',
+  N122: 'Add-on code cannot be billed by itself',
+  N130: 'Consult plan benefit documents for restrictions on this service',
+  N179: 'Additional information has been requested from the member',
+  N180: 'Item or service does not meet the criteria for the category it was billed under',
+  N211: 'You may not appeal this decision',
+  N216: 'Service is not covered or the patient is not enrolled in this part of the benefit package',
+  N257: 'Missing, incomplete or invalid billing provider identifier',
+  N286: 'Missing, incomplete or invalid referring provider identifier',
+  N290: 'Missing, incomplete or invalid rendering provider identifier',
+  N350: 'Missing, incomplete or invalid description of service for an unlisted procedure code',
+  N362: 'Days or units of service exceed the acceptable maximum',
+  N381: 'Consult the contractual agreement for restrictions on these charges',
+  N425: 'Statutorily excluded service',
+  N432: 'Adjustment based on a recovery audit',
+  N517: 'Resubmit a new claim with the requested information',
+  N519: 'Invalid combination of HCPCS modifiers',
+  N522: 'Duplicate of a claim processed, or to be processed, as a crossover claim',
+  N575: 'Ordering/referring provider name does not match payer records',
+  N620: 'Procedure code is for quality reporting only',
+  N657: 'Should be billed with the appropriate code for these services',
+  N704: 'You may not appeal this decision but can resubmit with corrected information',
+  N767: "Provider must be enrolled in the member's state Medicaid program",
+  N822: 'Missing procedure modifier',
+  N823: 'Incomplete or invalid procedure modifier',
+};
+
+/**
+ * Provider-level adjustment reason codes (PLB03-1)
+ * Positive PLB amounts are taken out of the payment, negative amounts are added to it.
+ */
+export const PROVIDER_ADJUSTMENT_REASON_CODES: Record<string, string> = {
+  '50': 'Late charge',
+  '51': 'Interest penalty charge',
+  '72': 'Authorized return (refund of a prior overpayment)',
+  '90': 'Early payment allowance',
+  AH: 'Origination fee',
+  AM: 'Applied to borrower account',
+  AP: 'Acceleration of benefits',
+  B2: 'Rebate',
+  B3: 'Recovery allowance',
+  BD: 'Bad debt adjustment',
+  BN: 'Bonus',
+  C5: 'Temporary allowance',
+  CR: 'Capitation interest',
+  CS: 'Adjustment',
+  CT: 'Capitation payment',
+  CV: 'Capital passthru',
+  CW: 'Certified registered nurse anesthetist passthru',
+  DM: 'Direct medical education passthru',
+  E3: 'Withholding',
+  FB: 'Forward balance',
+  FC: 'Fund allocation',
+  GO: 'Graduate medical education passthru',
+  HM: 'Hemophilia clotting factor supplement',
+  IP: 'Incentive premium payment',
+  IR: 'Internal Revenue Service withholding',
+  IS: 'Interim settlement',
+  J1: 'Nonreimbursable',
+  L3: 'Penalty',
+  L6: 'Interest owed',
+  LE: 'Levy',
+  LS: 'Lump sum',
+  OA: 'Organ acquisition passthru',
+  OB: 'Offset for affiliated providers',
+  PI: 'Periodic interim payment',
+  PL: 'Payment final',
+  RA: 'Retro-activity adjustment',
+  RE: 'Return on equity',
+  SL: 'Student loan repayment',
+  TL: 'Third party liability',
+  WO: 'Overpayment recovery',
+  WU: 'Unspecified recovery',
+};
+
+/**
+ * Describe a CAS adjustment and categorize it
+ * Anything in the PR group is the patient's responsibility, whatever the reason
+ */
+export function describeAdjustment(
+  groupCode: string,
+  reasonCode: string
+): { description: string; category: AdjustmentCategory } {
+  const entry = CLAIM_ADJUSTMENT_REASON_CODES[reasonCode];
+
+  return {
+    description: entry?.description || `Adjustment reason ${reasonCode}`,
+    category: groupCode === 'PR' ? 'patient_responsibility' : entry?.category || 'other',
+  };
+}
+
+/**
+ * Describe a remittance advice remark code
+ */
+export function describeRemark(code: string): string {
+  return REMITTANCE_REMARK_CODES[code] || `Remark ${code}`;
+}
+
+/**
+ * Describe a provider-level (PLB) adjustment reason
+ */
+export function describeProviderAdjustment(reasonCode: string): string {
+  return PROVIDER_ADJUSTMENT_REASON_CODES[reasonCode] || `Provider adjustment ${reasonCode}`;
+}
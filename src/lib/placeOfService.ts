@@ -0,0 +1,66 @@
+/**
+ * Place of Service and Modifier Helpers
+ * CMS place of service codes (CLM05-1 / SV105) and CPT modifiers for service lines
+ */
+
+import type { IntakeQAppointment, ServiceLine } from '@/types';
+
+/**
+ * Place of service codes used by the practice
+ */
+export const PLACE_OF_SERVICE_CODES: Record<string, string> = {
+  '02': 'Telehealth (not in patient home)',
+  '10': 'Telehealth (in patient home)',
+  '11': 'Office',
+  '12': 'Home',
+  '53': 'Community Mental Health Center',
+};
+
+export const DEFAULT_PLACE_OF_SERVICE = '11';
+
+/**
+ * Telehealth modifiers (95 = synchronous video, GT = interactive audio/video,
+ * FQ = audio-only, 93 = audio-only per AMA)
+ */
+export const TELEHEALTH_MODIFIERS = ['95', 'GT', 'FQ', '93'];
+
+// X12 allows up to four procedure modifiers per SV101
+export const MAX_MODIFIERS = 4;
+
+const TELEHEALTH_LOCATION_PATTERN = /tele|video|virtual|online|zoom|remote/i;
+
+/**
+ * Derive the place of service from an IntakeQ appointment
+ * Uses IntakeQ's PlaceOfService when it is a CMS code, otherwise infers
+ * telehealth from the location name; falls back to office
+ */
+export function derivePlaceOfService(
+  appointment: Pick<IntakeQAppointment, 'PlaceOfService' | 'LocationName'>
+): string {
+  const code = appointment.PlaceOfService?.trim().match(/^\d{1,2}/)?.[0];
+  if (code) {
+    return code.padStart(2, '0');
+  }
+
+  if (TELEHEALTH_LOCATION_PATTERN.test(appointment.LocationName || '')) {
+    return '10';
+  }
+
+  return DEFAULT_PLACE_OF_SERVICE;
+}
+
+/**
+ * Whether a place of service is a telehealth code
+ */
+export function isTelehealthPlaceOfService(pos: string): boolean {
+  return pos === '02' || pos === '10';
+}
+
+/**
+ * Get a service line's modifiers
+ * Supports claims saved before multiple modifiers (single `modifier` field)
+ */
+export function getLineModifiers(line: Pick<ServiceLine, 'modifiers' | 'modifier'>): string[] {
+  const modifiers = line.modifiers ?? (line.modifier ? [line.modifier] : []);
+  return modifiers.map((m) => m.trim().toUpperCase()).filter(Boolean);
+}
@@ -53,3 +53,11 @@ export function daysAgo(days: number): Date {
 export function toEDIDate(dateStr: string): string {
   return dateStr.replace(/-/g, '');
 }
+
+/**
+ * Convert EDI CCYYMMDD date to YYYY-MM-DD (null when not a full date)
+ */
+export function fromEDIDate(ediDate: string | undefined): string | null {
+  if (!ediDate || !/^\d{8}$/.test(ediDate)) return null;
+  return `${ediDate.slice(0, 4)}-${ediDate.slice(4, 6)}-${ediDate.slice(6, 8)}`;
+}
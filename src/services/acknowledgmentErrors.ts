@@ -0,0 +1,223 @@
+/**
+ * Acknowledgment Errors Service
+ * Locates the errors a 999 reports in the 837P we sent and maps them back to
+ * the claim form field they came from
+ *
+ * A 999 only names positions: IK3 gives the segment (counted from ST = 1)
+ * and its loop, IK4 the element and the bad value, CTX the claim (CLM01).
+ * Reading the stored edi_content of the claim (or its batch) at that position
+ * turns "R" into "Loop 2010BA NM109 member_id: Invalid code value".
+ */
+
+import { parseEDISegments, getElement, getComponent, Segment } from './ediParsers/base';
+import { splitTransactionSets, sameControlNumber } from './ediParsers/envelope';
+import { buildTransactionSetTree, findLoops, Loop } from './ediParsers/loops';
+import type { AcknowledgmentError, Claim, Parsed999ElementError, Parsed999SegmentError } from '@/types';
+
+export type AcknowledgedClaim = Pick<Claim, 'control_number' | 'diagnosis_codes' | 'subscriber_name'>;
+
+// ClaimFormData fields behind the elements ediGenerator sends, by loop and
+// segment; element positions are 1-based (NM109 = 9)
+const FIELD_MAP: Record<string, Record<number, string>> = {
+  '2000B:SBR': { 2: 'subscriber_relationship', 3: 'group_number' },
+  '2010BA:NM1': { 3: 'subscriber_name', 4: 'subscriber_name', 9: 'member_id' },
+  '2010BA:N3': { 1: 'patient_address_street' },
+  '2010BA:N4': { 1: 'patient_address_city', 2: 'patient_address_state', 3: 'patient_address_zip' },
+  '2010BA:DMG': { 2: 'patient_dob', 3: 'patient_gender' },
+  '2010BB:NM1': { 3: 'payer_id', 9: 'payer_id' },
+  '2000C:PAT': { 1: 'subscriber_relationship' },
+  '2010CA:NM1': { 3: 'patient_last_name', 4: 'patient_first_name' },
+  '2010CA:N3': { 1: 'patient_address_street' },
+  '2010CA:N4': { 1: 'patient_address_city', 2: 'patient_address_state', 3: 'patient_address_zip' },
+  '2010CA:DMG': { 2: 'patient_dob', 3: 'patient_gender' },
+  '2300:CLM': { 2: 'service_lines', 5: 'place_of_service' },
+  '2310B:NM1': { 3: 'rendering_provider_npi', 4: 'rendering_provider_npi', 9: 'rendering_provider_npi' },
+  '2310B:PRV': { 3: 'rendering_provider_npi' },
+};
+
+// Service line fields, under service_lines[<LX01 - 1>]
+const LINE_FIELD_MAP: Record<string, Record<number, string>> = {
+  SV1: { 1: 'cpt', 2: 'charge', 4: 'units', 5: 'place_of_service', 7: 'diagnosis_pointers' },
+  DTP: { 3: 'dos' },
+};
+
+/**
+ * The errors of one acknowledged transaction set that concern a claim
+ * Errors in another claim's 2300 loop, or under another subscriber or
+ * patient, are left out. Without the EDI content the errors are kept but
+ * cannot be mapped to a field.
+ */
+export function locateAcknowledgmentErrors(
+  ediContent: string | null,
+  transactionSetControlNumber: string,
+  segmentErrors: Parsed999SegmentError[],
+  claim: AcknowledgedClaim
+): AcknowledgmentError[] {
+  if (segmentErrors.length === 0) return [];
+
+  const transactionSet = ediContent
+    ? splitTransactionSets(parseEDISegments(ediContent), '837').transactionSets.find((ts) =>
+        sameControlNumber(ts.controlNumber, transactionSetControlNumber)
+      )
+    : undefined;
+
+  const tree = transactionSet ? buildTransactionSetTree('837', transactionSet.segments) : undefined;
+  const paths = tree ? indexLoopPaths(tree) : new Map<Segment, Loop[]>();
+  const claimLoop = tree
+    ? findLoops(tree, '2300').find((loop) => getElement(loop.segments[0], 0) === claim.control_number)
+    : undefined;
+
+  return segmentErrors.flatMap((segmentError): AcknowledgmentError[] => {
+    // IK302 counts from ST; for a missing segment it is where the segment was expected
+    const segment = transactionSet?.segments[segmentError.segmentPosition - 1];
+    const path = segment ? paths.get(segment) || [] : [];
+
+    if (!concernsClaim(segmentError, path, claimLoop, paths, claim)) return [];
+
+    const loop = path[path.length - 1];
+    const located = segment?.id === segmentError.segmentId ? segment : undefined;
+    const loopId = segmentError.loopId || (loop && loop.id !== 'ST' ? loop.id : null);
+
+    if (segmentError.elementErrors.length === 0) {
+      const field = located ? segmentField(path, located) : null;
+      return [
+        {
+          loopId,
+          segmentId: segmentError.segmentId,
+          segmentPosition: segmentError.segmentPosition,
+          elementPosition: null,
+          errorCode: segmentError.errorCode,
+          description: segmentError.description,
+          badValue: null,
+          field,
+          message: formatMessage(loopId, segmentError.segmentId, null, field, segmentError.description, null),
+        },
+      ];
+    }
+
+    return segmentError.elementErrors.map((elementError) => {
+      const field = located ? elementField(path, located, elementError, claim) : null;
+      const badValue = elementError.badValue || null;
+      return {
+        loopId,
+        segmentId: segmentError.segmentId,
+        segmentPosition: segmentError.segmentPosition,
+        elementPosition: elementError.elementPosition,
+        errorCode: elementError.errorCode,
+        description: elementError.description,
+        badValue,
+        field,
+        message: formatMessage(
+          loopId,
+          segmentError.segmentId,
+          elementError.elementPosition,
+          field,
+          elementError.description,
+          badValue
+        ),
+      };
+    });
+  });
+}
+
+/**
+ * Whether a segment error is about a claim
+ * CTX*CLM01 names the claim outright. Otherwise errors inside a 2300 loop
+ * belong to that claim, and errors in shared loops (billing provider,
+ * subscriber, patient) to every claim under them.
+ */
+function concernsClaim(
+  segmentError: Parsed999SegmentError,
+  path: Loop[],
+  claimLoop: Loop | undefined,
+  paths: Map<Segment, Loop[]>,
+  claim: AcknowledgedClaim
+): boolean {
+  const claimContext = segmentError.context.find((ctx) => ctx.name === 'CLM01' && ctx.reference);
+  if (claimContext) return claimContext.reference === claim.control_number;
+
+  if (!claimLoop || path.length === 0) return true;
+
+  const claimLoops = path.filter((loop) => loop.id === '2300');
+  if (claimLoops.length > 0) return claimLoops.includes(claimLoop);
+
+  const claimPath = paths.get(claimLoop.segments[0]) || [];
+  return path.filter((loop) => loop.id.startsWith('2000')).every((loop) => claimPath.includes(loop));
+}
+
+/**
+ * Form field of an element in error, e.g. member_id or service_lines[0].cpt
+ */
+function elementField(
+  path: Loop[],
+  segment: Segment,
+  elementError: Parsed999ElementError,
+  claim: AcknowledgedClaim
+): string | null {
+  const loop = path[path.length - 1];
+  const position = elementError.elementPosition;
+
+  if (loop.id === '2400') {
+    // SV101-2..5 are the modifiers
+    const field =
+      segment.id === 'SV1' && position === 1 && (elementError.componentPosition || 0) > 1
+        ? 'modifiers'
+        : LINE_FIELD_MAP[segment.id]?.[position];
+    return field ? `${lineField(loop)}.${field}` : null;
+  }
+
+  // HI is sent primary first, so find the diagnosis by its code
+  if (loop.id === '2300' && segment.id === 'HI') {
+    const code = getComponent(segment, position - 1, 1);
+    const index = (claim.diagnosis_codes || []).findIndex((dx) => dx.code.replace('.', '') === code);
+    return index === -1 ? 'diagnosis_codes' : `diagnosis_codes[${index}].code`;
+  }
+
+  // Without a subscriber name the patient's name is sent as the subscriber's
+  if (loop.id === '2010BA' && segment.id === 'NM1' && !claim.subscriber_name) {
+    if (position === 3) return 'patient_last_name';
+    if (position === 4) return 'patient_first_name';
+  }
+
+  return FIELD_MAP[`${loop.id}:${segment.id}`]?.[position] || null;
+}
+
+/**
+ * Form field of a segment in error, when the segment stands for one
+ */
+function segmentField(path: Loop[], segment: Segment): string | null {
+  const loop = path[path.length - 1];
+  if (loop.id === '2400') return lineField(loop);
+  if (loop.id === '2300' && segment.id === 'HI') return 'diagnosis_codes';
+  return null;
+}
+
+function lineField(loop: Loop): string {
+  return `service_lines[${parseInt(getElement(loop.segments[0], 0) || '1') - 1}]`;
+}
+
+/**
+ * "Loop 2010BA NM109 member_id: Invalid code value (ABC)"
+ */
+function formatMessage(
+  loopId: string | null,
+  segmentId: string,
+  elementPosition: number | null,
+  field: string | null,
+  description: string,
+  badValue: string | null
+): string {
+  const reference = elementPosition ? `${segmentId}${String(elementPosition).padStart(2, '0')}` : segmentId;
+  const location = [loopId ? `Loop ${loopId}` : null, reference, field].filter(Boolean).join(' ');
+  return `${location}: ${description}${badValue ? ` (${badValue})` : ''}`;
+}
+
+/**
+ * Loops from the root down to the one each segment is in
+ */
+function indexLoopPaths(loop: Loop, path: Loop[] = [], index = new Map<Segment, Loop[]>()): Map<Segment, Loop[]> {
+  const current = [...path, loop];
+  for (const segment of loop.segments) index.set(segment, current);
+  for (const child of loop.loops) indexLoopPaths(child, current, index);
+  return index;
+}
@@ -0,0 +1,164 @@
+/**
+ * Billing Providers Service
+ * Resolves the provider data an 837P needs from the billing_providers table
+ *
+ * - Billing provider (2010AA): the organization whose NPI is MOONLIT_BILLING_NPI
+ * - Pay-to address (2010AB): the billing provider's pay_to_address_*, if set
+ * - Rendering provider (2310B): the individual matching the claim's rendering NPI
+ *
+ * Missing data is returned as validation errors; nothing is defaulted.
+ */
+
+import { getServerSupabase } from './supabase';
+import type { BillingProvider, EDIClaimData, ValidationError } from '@/types';
+
+export type ClaimProviderData = Pick<
+  EDIClaimData,
+  | 'billingNpi'
+  | 'billingTin'
+  | 'billingName'
+  | 'billingTaxonomy'
+  | 'billingPhone'
+  | 'billingAddress'
+  | 'payToAddress'
+  | 'renderingNpi'
+  | 'renderingFirstName'
+  | 'renderingLastName'
+  | 'renderingTaxonomy'
+>;
+
+export interface ResolveProvidersResult {
+  success: boolean;
+  providers?: ClaimProviderData;
+  errors: ValidationError[];
+}
+
+/**
+ * Get the billing organization record (MOONLIT_BILLING_NPI)
+ */
+export async function getBillingProvider(
+  supabase: ReturnType<typeof getServerSupabase>
+): Promise<BillingProvider | null> {
+  const npi = process.env.MOONLIT_BILLING_NPI;
+  if (!npi) return null;
+
+  const { data, error } = await supabase
+    .from('billing_providers')
+    .select('*')
+    .eq('npi', npi)
+    .single();
+
+  if (error || !data) {
+    console.error('[BillingProviders] Billing provider not found:', npi, error);
+    return null;
+  }
+
+  return data as BillingProvider;
+}
+
+/**
+ * Resolve billing, pay-to and rendering provider data for a claim
+ */
+export async function resolveClaimProviders(
+  supabase: ReturnType<typeof getServerSupabase>,
+  renderingNpi: string
+): Promise<ResolveProvidersResult> {
+  const errors: ValidationError[] = [];
+
+  const addError = (field: string, message: string) =>
+    errors.push({ field, message, severity: 'error' });
+
+  // Billing provider
+  const billing = await getBillingProvider(supabase);
+
+  if (!billing) {
+    addError(
+      'billing_provider_npi',
+      process.env.MOONLIT_BILLING_NPI
+        ? `Billing provider ${process.env.MOONLIT_BILLING_NPI} not found in billing_providers`
+        : 'MOONLIT_BILLING_NPI is not configured'
+    );
+  } else {
+    const required: [keyof BillingProvider, string][] = [
+      ['taxonomy_code', 'taxonomy code'],
+      ['tax_id', 'tax ID'],
+      ['phone', 'phone'],
+      ['address_street', 'street address'],
+      ['address_city', 'city'],
+      ['address_state', 'state'],
+      ['address_zip', 'ZIP code'],
+    ];
+
+    for (const [column, label] of required) {
+      if (!billing[column]) {
+        addError(`billing_provider.${column}`, `Billing provider ${billing.name} is missing ${label}`);
+      }
+    }
+
+    // Pay-to address is all or nothing
+    const payTo = [
+      billing.pay_to_address_street,
+      billing.pay_to_address_city,
+      billing.pay_to_address_state,
+      billing.pay_to_address_zip,
+    ];
+    if (payTo.some(Boolean) && !payTo.every(Boolean)) {
+      addError('billing_provider.pay_to_address', `Billing provider ${billing.name} has an incomplete pay-to address`);
+    }
+  }
+
+  // Rendering provider
+  const { data: rendering } = await supabase
+    .from('billing_providers')
+    .select('*')
+    .eq('npi', renderingNpi)
+    .eq('type', 'individual')
+    .single();
+
+  if (!rendering) {
+    addError('rendering_provider_npi', `Rendering provider ${renderingNpi} not found in billing_providers`);
+  } else if (!rendering.taxonomy_code) {
+    addError('rendering_provider.taxonomy_code', `Rendering provider ${rendering.name} is missing taxonomy code`);
+  }
+
+  if (errors.length > 0 || !billing || !rendering) {
+    return { success: false, errors };
+  }
+
+  const renderingProvider = rendering as BillingProvider;
+  const nameParts = renderingProvider.name.trim().split(/\s+/);
+
+  return {
+    success: true,
+    errors,
+    providers: {
+      billingNpi: billing.npi,
+      billingTin: digitsOnly(billing.tax_id!),
+      billingName: billing.name.toUpperCase(),
+      billingTaxonomy: billing.taxonomy_code!,
+      billingPhone: digitsOnly(billing.phone!),
+      billingAddress: {
+        street: billing.address_street!,
+        city: billing.address_city!,
+        state: billing.address_state!,
+        zip: digitsOnly(billing.address_zip!),
+      },
+      payToAddress: billing.pay_to_address_street
+        ? {
+            street: billing.pay_to_address_street,
+            city: billing.pay_to_address_city!,
+            state: billing.pay_to_address_state!,
+            zip: digitsOnly(billing.pay_to_address_zip!),
+          }
+        : undefined,
+      renderingNpi: renderingProvider.npi,
+      renderingFirstName: nameParts.length > 1 ? nameParts.slice(0, -1).join(' ').toUpperCase() : '',
+      renderingLastName: nameParts[nameParts.length - 1].toUpperCase(),
+      renderingTaxonomy: renderingProvider.taxonomy_code!,
+    },
+  };
+}
+
+function digitsOnly(value: string): string {
+  return value.replace(/\D/g, '');
+}
@@ -0,0 +1,292 @@
+/**
+ * Claim Batch Service
+ * Submits many draft claims to Office Ally as one 837P interchange
+ *
+ * Flow:
+ * 1. Load draft claims and their payers
+ * 2. Scrub each claim and resolve its providers (invalid claims are skipped)
+ * 3. Issue ISA13/GS06 for the file and a CLM01 per claim, then build EDI data
+ * 4. Generate one interchange (one ST per billing provider + payer)
+ * 5. Save the batch and link claims to it (claims stay draft)
+ * 6. Upload once to the clearinghouse and record the control numbers used
+ * 7. Update the batch status and move each claim through the status state machine
+ */
+
+import { getServerSupabase } from './supabase';
+import { generateBatchEDI } from './ediGenerator';
+import { uploadBatch } from './officeAlly';
+import { transitionClaimStatus } from './claimStatusMachine';
+import {
+  resolveClaimProviders,
+  type ClaimProviderData,
+  type ResolveProvidersResult,
+} from './billingProviders';
+import { buildEDIClaimData, claimToFormData } from './claimSubmission';
+import { issueControlNumbers, recordControlNumbers } from './controlNumbers';
+import { validateClaim } from './claimValidator';
+import type {
+  BatchClaimError,
+  Claim,
+  EDIClaimData,
+  Payer,
+  SubmitBatchResponse,
+} from '@/types';
+
+export interface SubmitBatchResult {
+  status: number; // HTTP status for the calling route
+  response: SubmitBatchResponse;
+}
+
+/**
+ * Build, save and upload a batch of draft claims
+ */
+export async function submitClaimBatch(
+  supabase: ReturnType<typeof getServerSupabase>,
+  claimIds: string[]
+): Promise<SubmitBatchResult> {
+  const skipped: BatchClaimError[] = [];
+
+  // Load claims
+  const { data: claimRows, error: claimsError } = await supabase
+    .from('claims')
+    .select('*')
+    .in('id', claimIds);
+
+  if (claimsError) {
+    console.error('[Batch] Failed to load claims:', claimsError);
+    return { status: 500, response: { success: false, error: 'Failed to load claims' } };
+  }
+
+  const claimsById = new Map((claimRows as Claim[] || []).map((c) => [c.id, c]));
+
+  // Load payers
+  const payerIds = [...new Set((claimRows as Claim[] || []).map((c) => c.payer_id).filter(Boolean))];
+  const { data: payerRows } = await supabase.from('payers').select('*').in('id', payerIds);
+  const payersById = new Map((payerRows as Payer[] || []).map((p) => [p.id, p]));
+
+  // Provider lookups are shared by every claim with the same rendering provider
+  const providerCache = new Map<string, Promise<ResolveProvidersResult>>();
+
+  const validClaims: Array<{ claim: Claim; payer: Payer; providers: ClaimProviderData }> = [];
+
+  for (const claimId of claimIds) {
+    const claim = claimsById.get(claimId);
+
+    if (!claim) {
+      skipped.push({ claimId, error: 'Claim not found' });
+      continue;
+    }
+
+    if (claim.status !== 'draft') {
+      skipped.push({ claimId, error: `Only draft claims can be batched (status: ${claim.status})` });
+      continue;
+    }
+
+    const payer = payersById.get(claim.payer_id);
+    if (!payer) {
+      skipped.push({ claimId, error: 'Invalid payer' });
+      continue;
+    }
+
+    const validation = validateClaim(claimToFormData(claim));
+    if (!validation.isValid) {
+      skipped.push({
+        claimId,
+        error: validation.errors.map((e) => e.message).join('; '),
+        validationErrors: validation.errors,
+      });
+      continue;
+    }
+
+    const renderingNpi = claim.rendering_provider_npi;
+    if (!providerCache.has(renderingNpi)) {
+      providerCache.set(renderingNpi, resolveClaimProviders(supabase, renderingNpi));
+    }
+    const providerResult = await providerCache.get(renderingNpi)!;
+
+    if (!providerResult.success || !providerResult.providers) {
+      skipped.push({
+        claimId,
+        error: providerResult.errors.map((e) => e.message).join('; '),
+        validationErrors: providerResult.errors,
+      });
+      continue;
+    }
+
+    validClaims.push({ claim, payer, providers: providerResult.providers });
+  }
+
+  if (validClaims.length === 0) {
+    return {
+      status: 400,
+      response: { success: false, error: 'No claims could be added to the batch', skipped },
+    };
+  }
+
+  // Issue control numbers: ISA13/GS06 for the file, CLM01 per claim
+  const controlNumbers = await issueControlNumbers(supabase, validClaims.length);
+
+  if (!controlNumbers.success || !controlNumbers.envelope || !controlNumbers.claimControlNumbers) {
+    return {
+      status: 500,
+      response: {
+        success: false,
+        error: controlNumbers.error || 'Failed to issue control numbers',
+        skipped,
+      },
+    };
+  }
+
+  const { envelope, claimControlNumbers } = controlNumbers;
+  const controlNumber = envelope.groupControlNumber;
+
+  const batchClaims: Array<{ claim: Claim; ediData: EDIClaimData }> = validClaims.map(
+    ({ claim, payer, providers }, index) => ({
+      claim,
+      ediData: buildEDIClaimData(claimToFormData(claim), payer, claimControlNumbers[index], providers),
+    })
+  );
+
+  // Generate EDI content
+  const ediResult = generateBatchEDI(
+    batchClaims.map((c) => c.ediData),
+    envelope
+  );
+
+  if (!ediResult.success || !ediResult.ediContent) {
+    return {
+      status: 500,
+      response: { success: false, error: ediResult.error || 'EDI generation failed', skipped },
+    };
+  }
+
+  const transactionSetControlNumbers = ediResult.transactionSetControlNumbers || {};
+  const totalCharge = batchClaims.reduce(
+    (sum, { ediData }) => sum + ediData.serviceLines.reduce((s, line) => s + line.charge, 0),
+    0
+  );
+
+  // Save batch (status: draft)
+  const { data: batch, error: batchError } = await supabase
+    .from('claim_batches')
+    .insert({
+      control_number: controlNumber,
+      interchange_control_number: envelope.interchangeControlNumber,
+      status: 'draft',
+      claim_count: batchClaims.length,
+      transaction_set_count: new Set(Object.values(transactionSetControlNumbers)).size,
+      total_charge: totalCharge,
+      edi_content: ediResult.ediContent,
+    })
+    .select()
+    .single();
+
+  if (batchError || !batch) {
+    console.error('[Batch] Failed to save batch:', batchError);
+    return { status: 500, response: { success: false, error: 'Failed to save batch', skipped } };
+  }
+
+  // Link claims to the batch; a claim missing its control numbers could never
+  // be matched by the 999 (AK2/ST02), so the batch is not uploaded
+  for (const { claim, ediData } of batchClaims) {
+    const { error: linkError } = await supabase
+      .from('claims')
+      .update({
+        batch_id: batch.id,
+        control_number: ediData.controlNumber,
+        transaction_set_control_number: transactionSetControlNumbers[ediData.controlNumber],
+        billing_provider_npi: ediData.billingNpi,
+        place_of_service: ediData.placeOfService,
+        total_charge: ediData.serviceLines.reduce((sum, line) => sum + line.charge, 0),
+      })
+      .eq('id', claim.id);
+
+    if (linkError) {
+      console.error('[Batch] Failed to link claim to batch:', claim.id, linkError);
+      const error = `Failed to link claim ${claim.id} to the batch: ${linkError.message}`;
+
+      await supabase
+        .from('claim_batches')
+        .update({ status: 'failed', submission_error: error })
+        .eq('id', batch.id);
+
+      return {
+        status: 500,
+        response: { success: false, batchId: batch.id, controlNumber, error, skipped },
+      };
+    }
+  }
+
+  // Upload to the clearinghouse (one file for the whole batch)
+  const uploadResult = await uploadBatch(ediResult.ediContent, batch.id);
+  const submittedClaimIds = batchClaims.map(({ claim }) => claim.id);
+  const now = new Date().toISOString();
+
+  await recordControlNumbers(
+    supabase,
+    batchClaims.map(({ claim, ediData }) => ({
+      claimId: claim.id,
+      batchId: batch.id,
+      ...envelope,
+      transactionSetControlNumber: transactionSetControlNumbers[ediData.controlNumber],
+      claimControlNumber: ediData.controlNumber,
+      ediFilename: uploadResult.fileName,
+    }))
+  );
+
+  await supabase
+    .from('claim_batches')
+    .update(
+      uploadResult.success
+        ? { status: 'submitted', submitted_at: now, edi_filename: uploadResult.fileName }
+        : { status: 'failed', submission_error: uploadResult.error }
+    )
+    .eq('id', batch.id);
+
+  for (const claimId of submittedClaimIds) {
+    await transitionClaimStatus(supabase, {
+      claimId,
+      to: uploadResult.success ? 'submitted' : 'failed',
+      source: 'submission',
+      fields: uploadResult.success
+        ? { edi_filename: uploadResult.fileName }
+        : { submission_error: uploadResult.error },
+      event: {
+        responseDescription: uploadResult.success
+          ? `Batch ${controlNumber}`
+          : uploadResult.error,
+      },
+    });
+  }
+
+  console.log('[Batch]', controlNumber, uploadResult.success ? 'submitted' : 'failed', {
+    claims: submittedClaimIds.length,
+    skipped: skipped.length,
+  });
+
+  if (!uploadResult.success) {
+    return {
+      status: 500,
+      response: {
+        success: false,
+        batchId: batch.id,
+        controlNumber,
+        error: uploadResult.error || 'Upload failed',
+        skipped,
+      },
+    };
+  }
+
+  return {
+    status: 200,
+    response: {
+      success: true,
+      batchId: batch.id,
+      controlNumber,
+      filename: uploadResult.fileName,
+      submittedClaimIds,
+      skipped,
+      message: `Batch submitted with ${submittedClaimIds.length} claim(s)`,
+    },
+  };
+}
@@ -0,0 +1,301 @@
+/**
+ * Claim Change Set Service
+ * Buffers the claim updates and status events one response file produces, and
+ * the rows it records besides them (batch statuses, inquiry answers, unmatched
+ * responses, remittance ledger), so they are applied in a single transaction
+ * (apply_response_file) together with the file's processed status
+ *
+ * Transitions are planned by the status state machine against the claim as
+ * the file has left it so far, so a reversal followed by its correction in
+ * the same 835 sees the reversal.
+ *
+ * When a file is replayed, transitions matching an event the file already
+ * recorded are skipped, so replaying never repeats an event or nets a
+ * reversal twice.
+ */
+
+import { getServerSupabase } from './supabase';
+import { statusEventRow, StatusEventInput } from './claimStatusEvents';
+import { planTransition, ClaimStatusState, StatusTransition, TransitionResult } from './claimStatusMachine';
+import type { StagedRemittance } from './remittanceLedger';
+import type { ClaimChange, ClaimStatus } from '@/types';
+
+export interface StagedClaim extends ClaimStatusState {
+  paid_amount: number | null;
+  lastPaymentAmount: number | null; // Payment amount of the latest applied 835 event
+}
+
+export interface ClaimChangeSet {
+  claims: Map<string, StagedClaim>;                  // Claim state after the staged changes
+  updates: Map<string, Record<string, unknown>>;     // Merged column updates per claim
+  events: StatusEventInput[];                        // In the order they happened
+  originals: Map<string, Record<string, unknown>>;   // Compared columns before the staged changes
+  recordedEvents: Set<string>;                       // Events the file recorded before (replays)
+  duplicates: number;                                // Transitions skipped as already recorded
+  batchStatuses: Map<string, string>;                // New status per batch (TA1/999)
+  inquiryResponses: Record<string, unknown>[];       // Claims a solicited 277 answered
+  unmatchedResponses: Record<string, unknown>[];     // Responses that matched no claim (277/835)
+  remittances: StagedRemittance[];                   // Ledger entries of the file's payments (835)
+}
+
+export interface CommitFileInput {
+  fileId: string;
+  runId: string;
+  processingStatus: 'processed' | 'failed';
+  processingError?: string;
+  claimsMatched: number;
+  claimsUpdated: number;
+}
+
+// Claim columns getStagedClaim loads and diffClaimChangeSet compares (status timestamps move on every update)
+const COMPARED_COLUMNS = [
+  'status',
+  'status_source',
+  'payer_claim_number',
+  'paid_amount',
+  'adjustment_codes',
+  'rejection_reason',
+  'rejection_codes',
+  'service_line_statuses',
+  'acknowledgment_errors',
+];
+
+export function createClaimChangeSet(recordedEvents: Set<string> = new Set()): ClaimChangeSet {
+  return {
+    claims: new Map(),
+    updates: new Map(),
+    events: [],
+    originals: new Map(),
+    recordedEvents,
+    duplicates: 0,
+    batchStatuses: new Map(),
+    inquiryResponses: [],
+    unmatchedResponses: [],
+    remittances: [],
+  };
+}
+
+/**
+ * Identifies an event within one response file
+ */
+function eventKey(
+  claimId: string,
+  newStatus: string,
+  source: string,
+  responseCode?: string | null,
+  paymentAmount?: number | string | null
+): string {
+  const amount = paymentAmount === null || paymentAmount === undefined ? '' : Number(paymentAmount).toFixed(2);
+  return [claimId, newStatus, source, responseCode || '', amount].join('|');
+}
+
+/**
+ * Keys of the events a response file has already recorded
+ */
+export async function loadRecordedEvents(
+  supabase: ReturnType<typeof getServerSupabase>,
+  fileId: string
+): Promise<Set<string>> {
+  const { data: events, error } = await supabase
+    .from('claim_status_events')
+    .select('claim_id, new_status, source, response_code, payment_amount')
+    .eq('response_file_id', fileId);
+
+  if (error) {
+    throw new Error(`Failed to load recorded events: ${error.message}`);
+  }
+
+  return new Set(
+    (events || []).map((e) => eventKey(e.claim_id, e.new_status, e.source, e.response_code, e.payment_amount))
+  );
+}
+
+/**
+ * A claim as the staged changes leave it (loaded on first use)
+ */
+export async function getStagedClaim(
+  supabase: ReturnType<typeof getServerSupabase>,
+  changes: ClaimChangeSet,
+  claimId: string
+): Promise<StagedClaim | null> {
+  const staged = changes.claims.get(claimId);
+  if (staged) return staged;
+
+  const [{ data: claim }, { data: events }] = await Promise.all([
+    supabase
+      .from('claims')
+      .select(
+        'status, status_source, payer_claim_number, paid_amount, adjustment_codes, rejection_reason, rejection_codes, service_line_statuses, acknowledgment_errors'
+      )
+      .eq('id', claimId)
+      .single(),
+    supabase
+      .from('claim_status_events')
+      .select('payment_amount')
+      .eq('claim_id', claimId)
+      .eq('source', '835')
+      .eq('applied', true)
+      .order('created_at', { ascending: false })
+      .limit(1),
+  ]);
+
+  if (!claim) return null;
+
+  const lastPayment = events?.[0]?.payment_amount ?? null;
+
+  const loaded: StagedClaim = {
+    status: claim.status,
+    status_source: claim.status_source,
+    paid_amount: claim.paid_amount === null ? null : Number(claim.paid_amount),
+    lastPaymentAmount: lastPayment === null ? null : Number(lastPayment),
+  };
+
+  changes.claims.set(claimId, loaded);
+  changes.originals.set(claimId, { ...claim, paid_amount: loaded.paid_amount });
+  return loaded;
+}
+
+/**
+ * Plan a status transition and stage its claim update and event
+ */
+export async function stageTransition(
+  supabase: ReturnType<typeof getServerSupabase>,
+  changes: ClaimChangeSet,
+  transition: StatusTransition
+): Promise<TransitionResult> {
+  const claim = await getStagedClaim(supabase, changes, transition.claimId);
+
+  if (!claim) {
+    return { applied: false, error: `Claim ${transition.claimId} not found` };
+  }
+
+  const key = eventKey(
+    transition.claimId,
+    transition.to,
+    transition.source,
+    transition.event?.responseCode,
+    transition.event?.paymentAmount
+  );
+  if (changes.recordedEvents.has(key)) {
+    changes.duplicates++;
+    return { applied: false, previousStatus: claim.status, duplicate: true };
+  }
+
+  const { claimUpdate, event, ...result } = planTransition(claim, transition);
+  changes.events.push(event);
+
+  if (claimUpdate) {
+    changes.updates.set(transition.claimId, {
+      ...changes.updates.get(transition.claimId),
+      ...claimUpdate,
+    });
+
+    claim.status = transition.to;
+    claim.status_source = transition.source;
+    if (typeof claimUpdate.paid_amount === 'number') {
+      claim.paid_amount = claimUpdate.paid_amount;
+    }
+    if (transition.source === '835') {
+      claim.lastPaymentAmount = event.paymentAmount ?? null;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Claims whose compared columns the staged changes would change, with old and new values
+ */
+export function diffClaimChangeSet(
+  changes: ClaimChangeSet,
+  file: { id: string | null; filename: string }
+): ClaimChange[] {
+  const same = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+  return [...changes.updates].flatMap(([claimId, update]) => {
+    const before = changes.originals.get(claimId) || {};
+    const changed = COMPARED_COLUMNS.filter((column) => column in update && !same(before[column], update[column]));
+    if (changed.length === 0) return [];
+
+    const fields = Object.fromEntries(
+      changed.map((column) => [column, { from: before[column] ?? null, to: update[column] ?? null }])
+    );
+
+    const after = changes.claims.get(claimId);
+
+    return [
+      {
+        claimId,
+        fileId: file.id,
+        filename: file.filename,
+        previousStatus: before.status as ClaimStatus,
+        newStatus: (after?.status ?? before.status) as ClaimStatus,
+        previousPaidAmount: (before.paid_amount as number | null) ?? null,
+        newPaidAmount: after?.paid_amount ?? null,
+        fields,
+      },
+    ];
+  });
+}
+
+/**
+ * Apply a file's staged changes and mark it processed (or failed) in one transaction
+ * On failure nothing is applied and the file stays pending for the next run.
+ */
+export async function commitClaimChangeSet(
+  supabase: ReturnType<typeof getServerSupabase>,
+  changes: ClaimChangeSet,
+  file: CommitFileInput
+): Promise<{ success: boolean; error?: string }> {
+  const { error } = await supabase.rpc('apply_response_file', {
+    p_file_id: file.fileId,
+    p_run_id: file.runId,
+    ...changeSetPayload(changes),
+    p_batch_statuses: [...changes.batchStatuses].map(([batchId, status]) => ({ batch_id: batchId, status })),
+    p_inquiry_responses: changes.inquiryResponses,
+    p_unmatched_responses: changes.unmatchedResponses,
+    p_remittances: changes.remittances,
+    p_processing_status: file.processingStatus,
+    p_processing_error: file.processingError || null,
+    p_claims_matched: file.claimsMatched,
+    p_claims_updated: file.claimsUpdated,
+  });
+
+  if (error) {
+    console.error('[ClaimChangeSet] Failed to apply response file:', file.fileId, error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Apply the staged changes of a confirmed unmatched response in one transaction
+ * (resolve_unmatched_response also learns the payer claim number)
+ */
+export async function commitUnmatchedResolution(
+  supabase: ReturnType<typeof getServerSupabase>,
+  changes: ClaimChangeSet,
+  unmatchedId: string,
+  claimId: string
+): Promise<{ success: boolean; error?: string }> {
+  const { error } = await supabase.rpc('resolve_unmatched_response', {
+    p_unmatched_id: unmatchedId,
+    p_claim_id: claimId,
+    ...changeSetPayload(changes),
+  });
+
+  if (error) {
+    console.error('[ClaimChangeSet] Failed to resolve unmatched response:', unmatchedId, error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+function changeSetPayload(changes: ClaimChangeSet) {
+  return {
+    p_claim_updates: [...changes.updates].map(([claimId, fields]) => ({ claim_id: claimId, fields })),
+    p_events: changes.events.map(statusEventRow),
+  };
+}
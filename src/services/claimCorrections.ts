@@ -0,0 +1,148 @@
+/**
+ * Claim Corrections Service
+ * Replacement (frequency code 7) and void (frequency code 8) of submitted claims
+ *
+ * A correction is a new claim that points at the original via original_claim_id.
+ * The 837P carries CLM05-3 = 7/8 and REF*F8 with the original payer_claim_number,
+ * and both claims get a claim_status_events entry linking them.
+ *
+ * Correcting a secondary claim files it as a secondary claim again: the COB
+ * loops (2320/2330/2430) are rebuilt from the primary claim and its 835.
+ */
+
+import { getServerSupabase } from './supabase';
+import { recordStatusEvent } from './claimStatusEvents';
+import { findPrimaryRemittance, buildPrimaryAdjudication, buildOtherPayer } from './secondaryClaims';
+import type { Claim, ClaimFrequencyCode, EDIClaimData, Payer, ServiceLine } from '@/types';
+
+export const CLAIM_FREQUENCY_DESCRIPTIONS: Record<ClaimFrequencyCode, string> = {
+  '1': 'Original Claim',
+  '7': 'Replacement of Prior Claim',
+  '8': 'Void/Cancel of Prior Claim',
+};
+
+// A payer only knows about claims it has at least acknowledged
+const CORRECTABLE_STATUSES = ['accepted', 'rejected', 'pending', 'paid', 'denied'];
+
+/**
+ * Load and check the claim being replaced or voided
+ */
+export async function loadOriginalClaim(
+  supabase: ReturnType<typeof getServerSupabase>,
+  originalClaimId: string | undefined,
+  frequencyCode: ClaimFrequencyCode
+): Promise<{ claim?: Claim; error?: string }> {
+  if (frequencyCode !== '7' && frequencyCode !== '8') {
+    return { error: `Invalid claim frequency code: ${frequencyCode}` };
+  }
+
+  if (!originalClaimId) {
+    return { error: 'original_claim_id is required for replacement and void claims' };
+  }
+
+  const { data, error } = await supabase
+    .from('claims')
+    .select('*')
+    .eq('id', originalClaimId)
+    .single();
+
+  if (error || !data) {
+    return { error: 'Original claim not found' };
+  }
+
+  const original = data as Claim;
+
+  if (!CORRECTABLE_STATUSES.includes(original.status)) {
+    return { error: `Cannot correct a claim with status '${original.status}'` };
+  }
+
+  if (!original.payer_claim_number) {
+    return { error: 'Original claim has no payer claim number to reference' };
+  }
+
+  if (original.claim_frequency_code === '8') {
+    return { error: 'Cannot correct a void claim' };
+  }
+
+  return { claim: original };
+}
+
+/**
+ * Record the correction on the original claim's history
+ * The status is unchanged - the payer decides the outcome via 277/835
+ */
+export async function recordCorrectionEvent(
+  supabase: ReturnType<typeof getServerSupabase>,
+  original: Claim,
+  correctionClaimId: string,
+  frequencyCode: ClaimFrequencyCode
+): Promise<void> {
+  await recordStatusEvent(supabase, {
+    claimId: original.id,
+    previousStatus: original.status,
+    newStatus: original.status,
+    source: 'submission',
+    responseCode: frequencyCode,
+    responseDescription:
+      frequencyCode === '8' ? 'Voided by a later claim' : 'Replaced by a corrected claim',
+    relatedClaimId: correctionClaimId,
+  });
+}
+
+/**
+ * COB data for correcting a secondary claim
+ * The primary adjudication is matched to the correction's own service lines.
+ */
+export async function buildSecondaryCorrection(
+  supabase: ReturnType<typeof getServerSupabase>,
+  original: Claim,
+  serviceLines: ServiceLine[]
+): Promise<{
+  ediOverrides?: Partial<EDIClaimData>;
+  claimColumns?: Record<string, unknown>;
+  error?: string;
+}> {
+  if (!original.primary_claim_id) {
+    return { error: 'Original secondary claim has no primary claim' };
+  }
+
+  const { data: primaryClaim, error } = await supabase
+    .from('claims')
+    .select('*')
+    .eq('id', original.primary_claim_id)
+    .single();
+
+  if (error || !primaryClaim) {
+    return { error: 'Primary claim not found' };
+  }
+
+  const primary = primaryClaim as Claim;
+
+  const { data: primaryPayer } = await supabase
+    .from('payers')
+    .select('*')
+    .eq('id', primary.payer_id)
+    .single();
+
+  if (!primaryPayer) {
+    return { error: 'Primary payer not found' };
+  }
+
+  const remittance = await findPrimaryRemittance(supabase, primary);
+
+  if (!remittance) {
+    return { error: 'No 835 remittance found for the primary claim' };
+  }
+
+  return {
+    ediOverrides: {
+      claimFilingOrder: 'secondary',
+      otherPayer: buildOtherPayer(primary, primaryPayer as Payer),
+      primaryAdjudication: buildPrimaryAdjudication(remittance.payment, remittance.paymentDate, serviceLines),
+    },
+    claimColumns: {
+      claim_filing_order: 'secondary',
+      primary_claim_id: primary.id,
+    },
+  };
+}
@@ -0,0 +1,70 @@
+/**
+ * Claim Status Events Service
+ * Records entries in the claim_status_events audit trail
+ */
+
+import { getServerSupabase } from './supabase';
+import type {
+  AcknowledgmentError,
+  ClaimStatus,
+  ClaimStatusEvent,
+  ClaimAdjustmentCode,
+  RemarkCode,
+  ServiceLineStatus,
+} from '@/types';
+
+export interface StatusEventInput {
+  claimId: string;
+  responseFileId?: string | null;
+  previousStatus: ClaimStatus | string | null;
+  newStatus: ClaimStatus;
+  source: ClaimStatusEvent['source'];
+  responseCode?: string;
+  responseDescription?: string;
+  paymentAmount?: number;
+  relatedClaimId?: string;
+  adjustmentCodes?: ClaimAdjustmentCode[];
+  remarkCodes?: RemarkCode[];
+  serviceLineStatuses?: ServiceLineStatus[];
+  acknowledgmentErrors?: AcknowledgmentError[];
+  applied?: boolean; // false records a refused status change
+  refusalReason?: string;
+}
+
+/**
+ * Record a claim status change event
+ * Failures are logged, never thrown - the audit trail must not block claim updates
+ */
+export async function recordStatusEvent(
+  supabase: ReturnType<typeof getServerSupabase>,
+  event: StatusEventInput
+): Promise<void> {
+  try {
+    await supabase.from('claim_status_events').insert(statusEventRow(event));
+  } catch (error) {
+    console.error('[ClaimStatusEvents] Failed to record status event:', error);
+  }
+}
+
+/**
+ * claim_status_events row for an event
+ */
+export function statusEventRow(event: StatusEventInput) {
+  return {
+    claim_id: event.claimId,
+    response_file_id: event.responseFileId || null,
+    previous_status: event.previousStatus,
+    new_status: event.newStatus,
+    source: event.source,
+    response_code: event.responseCode || null,
+    response_description: event.responseDescription || null,
+    payment_amount: event.paymentAmount || null,
+    related_claim_id: event.relatedClaimId || null,
+    adjustment_codes: event.adjustmentCodes?.length ? event.adjustmentCodes : null,
+    remark_codes: event.remarkCodes?.length ? event.remarkCodes : null,
+    service_line_statuses: event.serviceLineStatuses?.length ? event.serviceLineStatuses : null,
+    acknowledgment_errors: event.acknowledgmentErrors?.length ? event.acknowledgmentErrors : null,
+    applied: event.applied ?? true,
+    refusal_reason: event.refusalReason || null,
+  };
+}
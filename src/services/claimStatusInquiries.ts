@@ -0,0 +1,344 @@
+/**
+ * Claim Status Inquiry Service
+ * Asks payers about claims stuck waiting for a 277 instead of waiting longer
+ *
+ * Flow:
+ * 1. Load the selected claims; only claims already at the payer (submitted,
+ *    acknowledged, accepted, pending) with a CLM01 can be asked about
+ * 2. Resolve providers and build the claims' EDI data as for the 837P
+ * 3. Issue ISA13/GS06 and generate one 276 interchange
+ * 4. Save the inquiry and the claims it asks about
+ * 5. Upload once to the clearinghouse and record the outcome
+ *
+ * The 276 TRN02 is each claim's CLM01, so the solicited 277 reconciles like
+ * any other 277; reconciliation then marks the inquiry answered
+ * (buildInquiryResponse), which gives the per-payer turnaround.
+ */
+
+import { getServerSupabase } from './supabase';
+import { generateClaimStatusInquiry } from './ediGenerator';
+import { uploadStatusInquiry } from './officeAlly';
+import { resolveClaimProviders, type ResolveProvidersResult } from './billingProviders';
+import { buildEDIClaimData, claimToFormData } from './claimSubmission';
+import { issueControlNumbers } from './controlNumbers';
+import { daysAgo } from '@/lib/utils';
+import type {
+  BatchClaimError,
+  Claim,
+  ClaimStatus,
+  EDIClaimStatusInquiryData,
+  Parsed277ClaimStatus,
+  Payer,
+  PayerInquiryTurnaround,
+  SubmitInquiryResponse,
+} from '@/types';
+
+export interface SubmitInquiryResult {
+  status: number; // HTTP status for the calling route
+  response: SubmitInquiryResponse;
+}
+
+// Claims the payer has but has not finished with
+const INQUIRABLE_STATUSES: ClaimStatus[] = ['submitted', 'acknowledged', 'accepted', 'pending'];
+
+// Statuses a claim gets stuck in while the payer is silent
+const STALE_STATUSES: ClaimStatus[] = ['acknowledged', 'pending'];
+
+export type StaleClaim = Pick<
+  Claim,
+  | 'id'
+  | 'patient_first_name'
+  | 'patient_last_name'
+  | 'payer_id'
+  | 'status'
+  | 'control_number'
+  | 'total_charge'
+  | 'submitted_at'
+  | 'updated_at'
+>;
+
+/**
+ * Build, save and upload a 276 for the selected claims
+ */
+export async function submitClaimStatusInquiry(
+  supabase: ReturnType<typeof getServerSupabase>,
+  claimIds: string[]
+): Promise<SubmitInquiryResult> {
+  const skipped: BatchClaimError[] = [];
+
+  const { data: claimRows, error: claimsError } = await supabase
+    .from('claims')
+    .select('*')
+    .in('id', claimIds);
+
+  if (claimsError) {
+    console.error('[Inquiry] Failed to load claims:', claimsError);
+    return { status: 500, response: { success: false, error: 'Failed to load claims' } };
+  }
+
+  const claimsById = new Map((claimRows as Claim[] || []).map((c) => [c.id, c]));
+
+  const payerIds = [...new Set((claimRows as Claim[] || []).map((c) => c.payer_id).filter(Boolean))];
+  const { data: payerRows } = await supabase.from('payers').select('*').in('id', payerIds);
+  const payersById = new Map((payerRows as Payer[] || []).map((p) => [p.id, p]));
+
+  const providerCache = new Map<string, Promise<ResolveProvidersResult>>();
+  const inquiries: Array<{ claim: Claim; data: EDIClaimStatusInquiryData }> = [];
+
+  for (const claimId of claimIds) {
+    const claim = claimsById.get(claimId);
+
+    if (!claim) {
+      skipped.push({ claimId, error: 'Claim not found' });
+      continue;
+    }
+
+    if (!INQUIRABLE_STATUSES.includes(claim.status)) {
+      skipped.push({ claimId, error: `Only claims at the payer can be asked about (status: ${claim.status})` });
+      continue;
+    }
+
+    if (!claim.control_number) {
+      skipped.push({ claimId, error: 'Claim has no control number' });
+      continue;
+    }
+
+    const payer = payersById.get(claim.payer_id);
+    if (!payer) {
+      skipped.push({ claimId, error: 'Invalid payer' });
+      continue;
+    }
+
+    const renderingNpi = claim.rendering_provider_npi;
+    if (!providerCache.has(renderingNpi)) {
+      providerCache.set(renderingNpi, resolveClaimProviders(supabase, renderingNpi));
+    }
+    const providerResult = await providerCache.get(renderingNpi)!;
+
+    if (!providerResult.success || !providerResult.providers) {
+      skipped.push({ claimId, error: providerResult.errors.map((e) => e.message).join('; ') });
+      continue;
+    }
+
+    const ediData = buildEDIClaimData(claimToFormData(claim), payer, claim.control_number, providerResult.providers);
+    inquiries.push({
+      claim,
+      data: {
+        ...ediData,
+        payerName: payer.name,
+        payerClaimNumber: claim.payer_claim_number || undefined,
+      },
+    });
+  }
+
+  if (inquiries.length === 0) {
+    return {
+      status: 400,
+      response: { success: false, error: 'No claims could be added to the inquiry', skipped },
+    };
+  }
+
+  // Envelope numbers only: the claims keep their CLM01
+  const controlNumbers = await issueControlNumbers(supabase, 0);
+
+  if (!controlNumbers.success || !controlNumbers.envelope) {
+    return {
+      status: 500,
+      response: { success: false, error: controlNumbers.error || 'Failed to issue control numbers', skipped },
+    };
+  }
+
+  const { envelope } = controlNumbers;
+  const ediResult = generateClaimStatusInquiry(
+    inquiries.map((i) => i.data),
+    envelope
+  );
+
+  if (!ediResult.success || !ediResult.ediContent) {
+    return {
+      status: 500,
+      response: { success: false, error: ediResult.error || 'EDI generation failed', skipped },
+    };
+  }
+
+  // Save inquiry (status: draft) and the claims it asks about
+  const { data: inquiry, error: inquiryError } = await supabase
+    .from('claim_status_inquiries')
+    .insert({
+      interchange_control_number: envelope.interchangeControlNumber,
+      group_control_number: envelope.groupControlNumber,
+      status: 'draft',
+      claim_count: inquiries.length,
+      edi_content: ediResult.ediContent,
+    })
+    .select()
+    .single();
+
+  if (inquiryError || !inquiry) {
+    console.error('[Inquiry] Failed to save inquiry:', inquiryError);
+    return { status: 500, response: { success: false, error: 'Failed to save inquiry', skipped } };
+  }
+
+  const { error: linkError } = await supabase.from('claim_status_inquiry_claims').insert(
+    inquiries.map(({ claim, data }) => ({
+      inquiry_id: inquiry.id,
+      claim_id: claim.id,
+      payer_id: claim.payer_id,
+      trace_number: data.controlNumber,
+    }))
+  );
+
+  if (linkError) {
+    console.error('[Inquiry] Failed to link claims:', linkError);
+    return { status: 500, response: { success: false, error: 'Failed to save inquiry claims', skipped } };
+  }
+
+  const uploadResult = await uploadStatusInquiry(ediResult.ediContent, inquiry.id);
+  const inquiredClaimIds = inquiries.map(({ claim }) => claim.id);
+
+  await supabase
+    .from('claim_status_inquiries')
+    .update(
+      uploadResult.success
+        ? { status: 'submitted', submitted_at: new Date().toISOString(), edi_filename: uploadResult.fileName }
+        : { status: 'failed', submission_error: uploadResult.error }
+    )
+    .eq('id', inquiry.id);
+
+  console.log('[Inquiry]', envelope.interchangeControlNumber, uploadResult.success ? 'submitted' : 'failed', {
+    claims: inquiredClaimIds.length,
+    skipped: skipped.length,
+  });
+
+  if (!uploadResult.success) {
+    return {
+      status: 500,
+      response: {
+        success: false,
+        inquiryId: inquiry.id,
+        error: uploadResult.error || 'Upload failed',
+        skipped,
+      },
+    };
+  }
+
+  return {
+    status: 200,
+    response: {
+      success: true,
+      inquiryId: inquiry.id,
+      filename: uploadResult.fileName,
+      claimIds: inquiredClaimIds,
+      skipped,
+      message: `Status inquiry sent for ${inquiredClaimIds.length} claim(s)`,
+    },
+  };
+}
+
+/**
+ * A solicited 277's answer for a claim
+ * apply_response_file marks the claim's unanswered inquiries answered with it.
+ */
+export function buildInquiryResponse(
+  claimId: string,
+  claimStatus: Parsed277ClaimStatus
+): Record<string, unknown> {
+  return {
+    claim_id: claimId,
+    response_category_code: claimStatus.statusCategoryCode || null,
+    response_status: claimStatus.claimStatus,
+  };
+}
+
+/**
+ * Per-payer turnaround of submitted inquiries, slowest first
+ * Unanswered inquiries count toward the totals but not the averages.
+ */
+export async function getInquiryTurnaround(
+  supabase: ReturnType<typeof getServerSupabase>,
+  since?: string
+): Promise<{ success: boolean; data?: PayerInquiryTurnaround[]; error?: string }> {
+  let query = supabase
+    .from('claim_status_inquiry_claims')
+    .select('payer_id, responded_at, payers(name), claim_status_inquiries!inner(status, submitted_at)')
+    .eq('claim_status_inquiries.status', 'submitted');
+
+  if (since) query = query.gte('claim_status_inquiries.submitted_at', since);
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('[Inquiry] Failed to load turnaround:', error);
+    return { success: false, error: error.message };
+  }
+
+  const rows = (data || []) as unknown as Array<{
+    payer_id: string;
+    responded_at: string | null;
+    payers: { name: string } | null;
+    claim_status_inquiries: { submitted_at: string | null };
+  }>;
+
+  const byPayer = new Map<string, { name: string; inquiries: number; hours: number[] }>();
+  for (const row of rows) {
+    const payer = byPayer.get(row.payer_id) || { name: row.payers?.name || row.payer_id, inquiries: 0, hours: [] };
+    payer.inquiries++;
+
+    const submittedAt = row.claim_status_inquiries.submitted_at;
+    if (row.responded_at && submittedAt) {
+      payer.hours.push((new Date(row.responded_at).getTime() - new Date(submittedAt).getTime()) / 3600000);
+    }
+    byPayer.set(row.payer_id, payer);
+  }
+
+  const turnaround = [...byPayer.entries()].map(([payerId, payer]) => {
+    const hours = [...payer.hours].sort((a, b) => a - b);
+    const middle = Math.floor(hours.length / 2);
+
+    return {
+      payer_id: payerId,
+      payer_name: payer.name,
+      inquiries: payer.inquiries,
+      answered: hours.length,
+      unanswered: payer.inquiries - hours.length,
+      average_hours: hours.length > 0 ? roundHours(hours.reduce((sum, h) => sum + h, 0) / hours.length) : null,
+      median_hours:
+        hours.length === 0
+          ? null
+          : roundHours(hours.length % 2 === 1 ? hours[middle] : (hours[middle - 1] + hours[middle]) / 2),
+    };
+  });
+
+  // Payers that never answered sort as the slowest
+  turnaround.sort((a, b) => (b.average_hours ?? Number.MAX_VALUE) - (a.average_hours ?? Number.MAX_VALUE));
+
+  return { success: true, data: turnaround };
+}
+
+/**
+ * Claims that have sat in acknowledged/pending for at least `days` days
+ */
+export async function findStaleClaims(
+  supabase: ReturnType<typeof getServerSupabase>,
+  days: number
+): Promise<{ success: boolean; data?: StaleClaim[]; error?: string }> {
+  const { data, error } = await supabase
+    .from('claims')
+    .select(
+      'id, patient_first_name, patient_last_name, payer_id, status, control_number, total_charge, submitted_at, updated_at'
+    )
+    .in('status', STALE_STATUSES)
+    .lte('updated_at', daysAgo(days).toISOString())
+    .order('updated_at', { ascending: true });
+
+  if (error) {
+    console.error('[Inquiry] Failed to load stale claims:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true, data: (data || []) as StaleClaim[] };
+}
+
+function roundHours(hours: number): number {
+  return Math.round(hours * 10) / 10;
+}
@@ -0,0 +1,212 @@
+/**
+ * Claim Status State Machine
+ * The one place claim statuses change
+ *
+ * A transition is applied only when:
+ * 1. The source may set the target status (a 999 cannot mark a claim paid)
+ * 2. The move is declared from the current status
+ * 3. The source ranks at least as high as the one that set the current status:
+ *    submission < TA1 < 999 < 277 < 835 < manual
+ *    (so a late 277 cannot move a paid claim back to accepted)
+ *
+ * Manual overrides may set any status except draft. Applied transitions set
+ * the status timestamps and record a claim_status_events entry; refused ones
+ * leave the claim alone and record an event with applied = false.
+ */
+
+import { getServerSupabase } from './supabase';
+import { recordStatusEvent, StatusEventInput } from './claimStatusEvents';
+import type { ClaimStatus, ClaimStatusSource } from '@/types';
+
+type ClaimTimestamp =
+  | 'submitted_at'
+  | 'acknowledgment_date'
+  | 'accepted_date'
+  | 'rejected_date'
+  | 'paid_date';
+
+export const SOURCE_PRECEDENCE: Record<ClaimStatusSource, number> = {
+  submission: 0,
+  TA1: 1,
+  '999': 2,
+  '277': 3,
+  '835': 4,
+  manual: 5,
+};
+
+// Statuses each source may set
+const SOURCE_STATUSES: Record<ClaimStatusSource, ClaimStatus[]> = {
+  submission: ['submitted', 'failed'],
+  TA1: ['rejected'], // Accepted interchanges are left to their 999
+  '999': ['acknowledged', 'rejected'],
+  '277': ['accepted', 'rejected', 'pending'],
+  '835': ['paid', 'denied', 'pending'],
+  manual: ['submitted', 'acknowledged', 'accepted', 'rejected', 'pending', 'paid', 'denied', 'failed'],
+};
+
+// Allowed moves for payer and submission sources (repeating a status refreshes its details)
+export const ALLOWED_TRANSITIONS: Record<ClaimStatus, ClaimStatus[]> = {
+  draft: ['submitted', 'failed'],
+  failed: ['submitted', 'failed'],
+  submitted: ['acknowledged', 'accepted', 'rejected', 'pending', 'paid', 'denied'],
+  acknowledged: ['acknowledged', 'accepted', 'rejected', 'pending', 'paid', 'denied'],
+  accepted: ['accepted', 'rejected', 'pending', 'paid', 'denied'],
+  pending: ['accepted', 'rejected', 'pending', 'paid', 'denied'],
+  rejected: ['rejected', 'accepted', 'pending', 'paid', 'denied'],
+  paid: ['paid', 'denied', 'pending'],   // 835 corrections and reversals
+  denied: ['denied', 'paid', 'pending'], // Reprocessed or appealed
+};
+
+// Timestamp columns set when a claim enters a status
+const STATUS_TIMESTAMPS: Partial<Record<ClaimStatus, ClaimTimestamp[]>> = {
+  submitted: ['submitted_at'],
+  acknowledged: ['acknowledgment_date'],
+  accepted: ['accepted_date'],
+  rejected: ['rejected_date'],
+  paid: ['paid_date'],
+  denied: ['paid_date'],
+};
+
+// Timestamp columns set by any transition from a source
+const SOURCE_TIMESTAMPS: Partial<Record<ClaimStatusSource, ClaimTimestamp[]>> = {
+  TA1: ['acknowledgment_date'],
+  '999': ['acknowledgment_date'],
+};
+
+export interface StatusTransition {
+  claimId: string;
+  to: ClaimStatus;
+  source: ClaimStatusSource;
+  fields?: Record<string, unknown>; // Other claim columns written with the status
+  event?: Omit<StatusEventInput, 'claimId' | 'previousStatus' | 'newStatus' | 'source'>;
+}
+
+export interface TransitionResult {
+  applied: boolean;
+  previousStatus?: ClaimStatus;
+  reason?: string; // Why the transition was refused
+  duplicate?: boolean; // Skipped: the response file already recorded this event
+  error?: string;
+}
+
+/**
+ * Current status of a claim and the source that set it
+ */
+export interface ClaimStatusState {
+  status: ClaimStatus;
+  status_source: ClaimStatusSource | null;
+}
+
+/**
+ * Check a transition without applying it
+ */
+export function checkTransition(
+  from: ClaimStatus,
+  fromSource: ClaimStatusSource | null,
+  to: ClaimStatus,
+  source: ClaimStatusSource
+): { allowed: boolean; reason?: string } {
+  if (!SOURCE_STATUSES[source].includes(to)) {
+    return { allowed: false, reason: `A ${source} update cannot set a claim to '${to}'` };
+  }
+
+  if (source !== 'manual' && !ALLOWED_TRANSITIONS[from].includes(to)) {
+    return { allowed: false, reason: `Cannot move a claim from '${from}' to '${to}'` };
+  }
+
+  if (fromSource && SOURCE_PRECEDENCE[source] < SOURCE_PRECEDENCE[fromSource]) {
+    return {
+      allowed: false,
+      reason: `'${from}' was set by ${fromSource}, which outranks ${source}`,
+    };
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Work out a transition without touching the database
+ * Returns the claim columns to write (when applied) and the event to record.
+ */
+export function planTransition(
+  current: ClaimStatusState,
+  transition: StatusTransition
+): TransitionResult & { claimUpdate?: Record<string, unknown>; event: StatusEventInput } {
+  const { claimId, to, source } = transition;
+  const previousStatus = current.status;
+  const check = checkTransition(previousStatus, current.status_source, to, source);
+
+  const event: StatusEventInput = {
+    ...transition.event,
+    claimId,
+    previousStatus,
+    newStatus: to,
+    source,
+  };
+
+  if (!check.allowed) {
+    console.warn('[ClaimStatus] Refused transition', claimId, { from: previousStatus, to, source, reason: check.reason });
+    return {
+      applied: false,
+      previousStatus,
+      reason: check.reason,
+      event: { ...event, applied: false, refusalReason: check.reason },
+    };
+  }
+
+  const now = new Date().toISOString();
+  const timestamps = [...(STATUS_TIMESTAMPS[to] || []), ...(SOURCE_TIMESTAMPS[source] || [])];
+
+  return {
+    applied: true,
+    previousStatus,
+    claimUpdate: {
+      ...Object.fromEntries(timestamps.map((column) => [column, now])),
+      ...transition.fields,
+      status: to,
+      status_source: source,
+    },
+    event,
+  };
+}
+
+/**
+ * Move a claim to a new status
+ * The current status is read from the database, not trusted from the caller.
+ * Reconciliation stages its transitions in a claim change set instead, so a
+ * response file is applied in one transaction.
+ */
+export async function transitionClaimStatus(
+  supabase: ReturnType<typeof getServerSupabase>,
+  transition: StatusTransition
+): Promise<TransitionResult> {
+  const { claimId } = transition;
+
+  const { data: claim, error: loadError } = await supabase
+    .from('claims')
+    .select('status, status_source')
+    .eq('id', claimId)
+    .single();
+
+  if (loadError || !claim) {
+    return { applied: false, error: `Claim ${claimId} not found` };
+  }
+
+  const { claimUpdate, event, ...result } = planTransition(claim as ClaimStatusState, transition);
+
+  if (claimUpdate) {
+    const { error: updateError } = await supabase
+      .from('claims')
+      .update(claimUpdate)
+      .eq('id', claimId);
+
+    if (updateError) {
+      console.error('[ClaimStatus] Failed to update claim status:', claimId, updateError);
+      return { applied: false, previousStatus: result.previousStatus, error: updateError.message };
+    }
+  }
+
+  await recordStatusEvent(supabase, event);
+
+  return result;
+}
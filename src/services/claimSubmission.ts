@@ -0,0 +1,290 @@
+/**
+ * Claim Submission Service
+ * Shared by every route that creates and submits a claim to Office Ally
+ *
+ * Flow:
+ * 1. Scrub form data (claimValidator) and resolve billing/pay-to/rendering
+ *    providers from billing_providers
+ * 2. Issue ISA13/GS06/CLM01 control numbers
+ * 3. Build EDI claim data from CMS-1500 form data
+ * 4. Generate EDI content
+ * 5. Save claim to DB (status: draft) and record its control numbers
+ * 6. Upload to the clearinghouse
+ * 7. Move the claim to submitted or failed through the status state
+ *    machine, which records the submission in claim_status_events
+ */
+
+import { getServerSupabase } from './supabase';
+import { generateEDI } from './ediGenerator';
+import { uploadClaim } from './officeAlly';
+import { transitionClaimStatus } from './claimStatusMachine';
+import { resolveClaimProviders, type ClaimProviderData } from './billingProviders';
+import { issueControlNumbers, recordControlNumbers } from './controlNumbers';
+import { validateClaim } from './claimValidator';
+import { toEDIDate } from '@/lib/utils';
+import { DEFAULT_PLACE_OF_SERVICE, getLineModifiers } from '@/lib/placeOfService';
+import type {
+  Claim,
+  ClaimFormData,
+  EDIClaimData,
+  Payer,
+  SubmitClaimResponse,
+} from '@/types';
+
+export interface SubmitClaimInput {
+  intakeqAppointmentId: string;
+  formData: ClaimFormData;
+  payer: Payer;
+  // Extra EDI data (e.g. COB loops) merged over the form-derived data
+  ediOverrides?: Partial<EDIClaimData>;
+  // Extra columns saved on the claim record
+  claimColumns?: Record<string, unknown>;
+  // Extra detail for the submission event (e.g. replacement chain)
+  submissionEvent?: {
+    responseCode?: string;
+    responseDescription?: string;
+    relatedClaimId?: string;
+  };
+}
+
+export interface SubmitClaimResult {
+  status: number; // HTTP status for the calling route
+  response: SubmitClaimResponse;
+}
+
+/**
+ * Build EDI claim data from CMS-1500 form data
+ */
+export function buildEDIClaimData(
+  formData: ClaimFormData,
+  payer: Payer,
+  controlNumber: string,
+  providers: ClaimProviderData
+): EDIClaimData {
+  return {
+    patientFirstName: formData.patient_first_name,
+    patientLastName: formData.patient_last_name,
+    patientDob: toEDIDate(formData.patient_dob),
+    patientGender: formData.patient_gender || 'U',
+    patientAddress: {
+      street: formData.patient_address_street || '',
+      city: formData.patient_address_city || '',
+      state: formData.patient_address_state || '',
+      zip: formData.patient_address_zip || '',
+    },
+    // Support both v1 and v2 schema column names
+    payerId: payer.oa_professional_837p_id || payer.office_ally_payer_id || '',
+    memberId: formData.member_id,
+    groupNumber: formData.group_number,
+    subscriberName: formData.subscriber_name || `${formData.patient_first_name} ${formData.patient_last_name}`,
+    subscriberDob: toEDIDate(formData.subscriber_dob || formData.patient_dob),
+    subscriberRelationship: formData.subscriber_relationship || 'self',
+    diagnosisCodes: formData.diagnosis_codes.map((d) => ({
+      code: d.code,
+      isPrimary: d.isPrimary,
+    })),
+    serviceLines: formData.service_lines.map((line) => ({
+      dos: toEDIDate(line.dos),
+      cpt: line.cpt,
+      modifiers: getLineModifiers(line),
+      placeOfService: line.place_of_service || undefined,
+      units: line.units,
+      charge: line.charge,
+      diagnosisPointers: line.diagnosis_pointers || [1],
+    })),
+    placeOfService: formData.place_of_service || DEFAULT_PLACE_OF_SERVICE,
+    ...providers,
+    controlNumber,
+  };
+}
+
+/**
+ * Convert a saved claim record back into CMS-1500 form data
+ */
+export function claimToFormData(claim: Claim): ClaimFormData {
+  return {
+    patient_first_name: claim.patient_first_name,
+    patient_last_name: claim.patient_last_name,
+    patient_dob: claim.patient_dob,
+    patient_gender: claim.patient_gender || 'U',
+    patient_address_street: claim.patient_address_street || '',
+    patient_address_city: claim.patient_address_city || '',
+    patient_address_state: claim.patient_address_state || '',
+    patient_address_zip: claim.patient_address_zip || '',
+    payer_id: claim.payer_id,
+    member_id: claim.member_id,
+    group_number: claim.group_number || undefined,
+    subscriber_name: claim.subscriber_name || undefined,
+    subscriber_dob: claim.subscriber_dob || undefined,
+    subscriber_relationship: claim.subscriber_relationship || 'self',
+    diagnosis_codes: claim.diagnosis_codes || [],
+    service_lines: claim.service_lines || [],
+    // Claims saved before place of service was tracked were all sent as office
+    place_of_service: claim.place_of_service || DEFAULT_PLACE_OF_SERVICE,
+    rendering_provider_npi: claim.rendering_provider_npi,
+  };
+}
+
+/**
+ * Generate, save and upload a claim
+ */
+export async function submitClaim(
+  supabase: ReturnType<typeof getServerSupabase>,
+  input: SubmitClaimInput
+): Promise<SubmitClaimResult> {
+  const { formData, payer } = input;
+
+  // Scrub form data before generating anything
+  const validation = validateClaim(formData);
+
+  if (!validation.isValid) {
+    return {
+      status: 400,
+      response: {
+        success: false,
+        error: validation.errors.map((e) => e.message).join('; '),
+        validationErrors: validation.errors,
+      },
+    };
+  }
+
+  // Resolve provider data - missing data fails instead of producing fake values
+  const providerResult = await resolveClaimProviders(supabase, formData.rendering_provider_npi);
+
+  if (!providerResult.success || !providerResult.providers) {
+    return {
+      status: 400,
+      response: {
+        success: false,
+        error: providerResult.errors.map((e) => e.message).join('; '),
+        validationErrors: providerResult.errors,
+      },
+    };
+  }
+
+  // Issue control numbers
+  const controlNumbers = await issueControlNumbers(supabase, 1);
+
+  if (!controlNumbers.success || !controlNumbers.envelope || !controlNumbers.claimControlNumbers) {
+    return {
+      status: 500,
+      response: { success: false, error: controlNumbers.error || 'Failed to issue control numbers' },
+    };
+  }
+
+  const { envelope } = controlNumbers;
+  const controlNumber = controlNumbers.claimControlNumbers[0];
+
+  // Calculate total charge
+  const totalCharge = formData.service_lines.reduce((sum, line) => sum + line.charge, 0);
+
+  // Build EDI data
+  const ediData: EDIClaimData = {
+    ...buildEDIClaimData(formData, payer, controlNumber, providerResult.providers),
+    ...input.ediOverrides,
+  };
+
+  // Generate EDI content
+  const ediResult = generateEDI(ediData, envelope);
+
+  if (!ediResult.success || !ediResult.ediContent) {
+    return {
+      status: 500,
+      response: { success: false, error: ediResult.error || 'EDI generation failed' },
+    };
+  }
+
+  // Save claim to database (status: draft)
+  const { data: claim, error: insertError } = await supabase
+    .from('claims')
+    .insert({
+      intakeq_appointment_id: input.intakeqAppointmentId,
+      patient_first_name: formData.patient_first_name,
+      patient_last_name: formData.patient_last_name,
+      patient_dob: formData.patient_dob,
+      patient_gender: formData.patient_gender,
+      patient_address_street: formData.patient_address_street,
+      patient_address_city: formData.patient_address_city,
+      patient_address_state: formData.patient_address_state,
+      patient_address_zip: formData.patient_address_zip,
+      payer_id: formData.payer_id,
+      member_id: formData.member_id,
+      group_number: formData.group_number,
+      subscriber_name: formData.subscriber_name,
+      subscriber_dob: formData.subscriber_dob,
+      subscriber_relationship: formData.subscriber_relationship || 'self',
+      diagnosis_codes: formData.diagnosis_codes,
+      service_lines: formData.service_lines,
+      place_of_service: ediData.placeOfService,
+      rendering_provider_npi: formData.rendering_provider_npi,
+      billing_provider_npi: ediData.billingNpi,
+      total_charge: totalCharge,
+      status: 'draft',
+      edi_content: ediResult.ediContent,
+      // V2: Save control number for reconciliation matching
+      control_number: controlNumber,
+      transaction_set_control_number: '0001',
+      submission_source: 'moonlit',
+      ...input.claimColumns,
+    })
+    .select()
+    .single();
+
+  if (insertError || !claim) {
+    console.error('Database insert error:', insertError);
+    return {
+      status: 500,
+      response: { success: false, error: 'Failed to save claim' },
+    };
+  }
+
+  // Upload to the clearinghouse
+  const uploadResult = await uploadClaim(ediResult.ediContent, claim.id);
+
+  await recordControlNumbers(supabase, [
+    {
+      claimId: claim.id,
+      ...envelope,
+      transactionSetControlNumber: '0001',
+      claimControlNumber: controlNumber,
+      ediFilename: uploadResult.fileName,
+    },
+  ]);
+
+  await transitionClaimStatus(supabase, {
+    claimId: claim.id,
+    to: uploadResult.success ? 'submitted' : 'failed',
+    source: 'submission',
+    fields: uploadResult.success
+      ? { edi_filename: uploadResult.fileName }
+      : { submission_error: uploadResult.error },
+    event: {
+      responseCode: input.submissionEvent?.responseCode,
+      responseDescription: uploadResult.success
+        ? input.submissionEvent?.responseDescription
+        : uploadResult.error,
+      relatedClaimId: input.submissionEvent?.relatedClaimId,
+    },
+  });
+
+  if (uploadResult.success) {
+    return {
+      status: 200,
+      response: {
+        success: true,
+        claimId: claim.id,
+        filename: uploadResult.fileName,
+        message: 'Claim submitted successfully',
+      },
+    };
+  }
+
+  return {
+    status: 500,
+    response: {
+      success: false,
+      claimId: claim.id,
+      error: uploadResult.error || 'Upload failed',
+    },
+  };
+}
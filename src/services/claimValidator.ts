@@ -0,0 +1,314 @@
+/**
+ * Claim Validator (scrubber)
+ * Rules run against CMS-1500 form data before EDI generation
+ *
+ * Each rule returns errors (block submission) and warnings (shown, not blocking).
+ * Field names match ClaimFormData, with array paths for nested fields,
+ * e.g. "diagnosis_codes[0].code", "service_lines[1].diagnosis_pointers".
+ */
+
+import {
+  isTelehealthPlaceOfService,
+  getLineModifiers,
+  MAX_MODIFIERS,
+  TELEHEALTH_MODIFIERS,
+} from '@/lib/placeOfService';
+import type { ClaimFormData, ValidationError, ValidationResult } from '@/types';
+
+type ClaimRule = (form: ClaimFormData, today: string) => ValidationError[];
+
+// X12 limits: HI carries 12 diagnoses, SV107 carries 4 pointers
+const MAX_DIAGNOSES = 12;
+const MAX_DIAGNOSIS_POINTERS = 4;
+
+// Claims older than this are likely past payer timely-filing limits
+const TIMELY_FILING_WARNING_DAYS = 90;
+
+const ICD10_CM_PATTERN = /^[A-Z][0-9][0-9A-Z](\.?[0-9A-Z]{1,4})?$/;
+const CPT_PATTERN = /^\d{4}[0-9FTU]$/; // Category I (5 digits), II (F), III (T), PLA (U)
+const HCPCS_PATTERN = /^[A-V]\d{4}$/;
+const MODIFIER_PATTERN = /^[0-9A-Z]{2}$/;
+const ZIP_PATTERN = /^\d{5}(-?\d{4})?$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const US_STATE_CODES = new Set([
+  'AL', 'AK', 'AZ', 'AR', 'CA', 'CO', 'CT', 'DE', 'DC', 'FL', 'GA', 'HI', 'ID', 'IL', 'IN',
+  'IA', 'KS', 'KY', 'LA', 'ME', 'MD', 'MA', 'MI', 'MN', 'MS', 'MO', 'MT', 'NE', 'NV', 'NH',
+  'NJ', 'NM', 'NY', 'NC', 'ND', 'OH', 'OK', 'OR', 'PA', 'RI', 'SC', 'SD', 'TN', 'TX', 'UT',
+  'VT', 'VA', 'WA', 'WV', 'WI', 'WY', 'AS', 'GU', 'MP', 'PR', 'VI', 'AA', 'AE', 'AP',
+]);
+
+/**
+ * Validate claim form data
+ * `today` (YYYY-MM-DD) defaults to the current date
+ */
+export function validateClaim(form: ClaimFormData, today?: string): ValidationResult {
+  const currentDate = today || new Date().toISOString().split('T')[0];
+  const results = CLAIM_RULES.flatMap((rule) => rule(form, currentDate));
+
+  const errors = results.filter((r) => r.severity === 'error');
+  const warnings = results.filter((r) => r.severity === 'warning');
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings,
+  };
+}
+
+/**
+ * Validate an NPI check digit (Luhn with the 80840 card-issuer prefix)
+ */
+export function isValidNPI(npi: string): boolean {
+  if (!/^\d{10}$/.test(npi)) return false;
+
+  // The 80840 prefix contributes a constant 24 to the Luhn sum
+  let sum = 24;
+  for (let i = 0; i < 9; i++) {
+    let digit = parseInt(npi[8 - i], 10);
+    if (i % 2 === 0) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+
+  const checkDigit = (10 - (sum % 10)) % 10;
+  return checkDigit === parseInt(npi[9], 10);
+}
+
+/**
+ * Rules
+ */
+
+const requiredFields: ClaimRule = (form) => {
+  const required: [keyof ClaimFormData, string][] = [
+    ['patient_first_name', 'Patient first name'],
+    ['patient_last_name', 'Patient last name'],
+    ['patient_dob', 'Patient date of birth'],
+    ['payer_id', 'Payer'],
+    ['member_id', 'Member ID'],
+    ['rendering_provider_npi', 'Rendering provider'],
+    ['place_of_service', 'Place of service'],
+  ];
+
+  return required
+    .filter(([field]) => !form[field])
+    .map(([field, label]) => error(field, `${label} is required`));
+};
+
+const patientDemographics: ClaimRule = (form, today) => {
+  const results: ValidationError[] = [];
+
+  if (form.patient_dob) {
+    if (!isValidDate(form.patient_dob)) {
+      results.push(error('patient_dob', 'Date of birth is not a valid date'));
+    } else if (form.patient_dob > today) {
+      results.push(error('patient_dob', 'Date of birth cannot be in the future'));
+    }
+  }
+
+  if (form.patient_gender === 'U') {
+    results.push(warning('patient_gender', 'Gender is unknown; some payers reject claims without it'));
+  }
+
+  return results;
+};
+
+const patientAddress: ClaimRule = (form) => {
+  const results: ValidationError[] = [];
+
+  if (!form.patient_address_street || !form.patient_address_city) {
+    results.push(warning('patient_address_street', 'Patient address is incomplete'));
+  }
+
+  if (!form.patient_address_state) {
+    results.push(warning('patient_address_state', 'State is missing'));
+  } else if (!US_STATE_CODES.has(form.patient_address_state.toUpperCase())) {
+    results.push(error('patient_address_state', `"${form.patient_address_state}" is not a valid state code`));
+  }
+
+  if (!form.patient_address_zip) {
+    results.push(warning('patient_address_zip', 'ZIP code is missing'));
+  } else if (!ZIP_PATTERN.test(form.patient_address_zip)) {
+    results.push(error('patient_address_zip', 'ZIP code must be 5 or 9 digits'));
+  }
+
+  return results;
+};
+
+const subscriber: ClaimRule = (form, today) => {
+  if (form.subscriber_relationship === 'self') return [];
+
+  const results: ValidationError[] = [];
+
+  if (!form.subscriber_name?.trim()) {
+    results.push(error('subscriber_name', 'Subscriber name is required when the patient is not the subscriber'));
+  }
+
+  if (!form.subscriber_dob) {
+    results.push(error('subscriber_dob', 'Subscriber date of birth is required when the patient is not the subscriber'));
+  } else if (!isValidDate(form.subscriber_dob) || form.subscriber_dob > today) {
+    results.push(error('subscriber_dob', 'Subscriber date of birth is not valid'));
+  }
+
+  return results;
+};
+
+const renderingProvider: ClaimRule = (form) => {
+  if (!form.rendering_provider_npi) return [];
+
+  return isValidNPI(form.rendering_provider_npi)
+    ? []
+    : [error('rendering_provider_npi', `NPI ${form.rendering_provider_npi} fails the check-digit test`)];
+};
+
+const diagnoses: ClaimRule = (form) => {
+  const results: ValidationError[] = [];
+  const codes = form.diagnosis_codes || [];
+
+  if (codes.length === 0) {
+    return [error('diagnosis_codes', 'At least one diagnosis code is required')];
+  }
+
+  if (codes.length > MAX_DIAGNOSES) {
+    results.push(error('diagnosis_codes', `At most ${MAX_DIAGNOSES} diagnosis codes are allowed (${codes.length} entered)`));
+  }
+
+  codes.forEach((dx, i) => {
+    const code = (dx.code || '').trim().toUpperCase();
+    if (!code) {
+      results.push(error(`diagnosis_codes[${i}].code`, `Diagnosis ${i + 1} is empty`));
+    } else if (!ICD10_CM_PATTERN.test(code)) {
+      results.push(error(`diagnosis_codes[${i}].code`, `"${dx.code}" is not a valid ICD-10-CM code`));
+    }
+  });
+
+  if (!codes.some((dx) => dx.isPrimary)) {
+    results.push(warning('diagnosis_codes', 'No primary diagnosis selected; the first code will be sent as primary'));
+  }
+
+  return results;
+};
+
+const serviceLines: ClaimRule = (form, today) => {
+  const results: ValidationError[] = [];
+  const lines = form.service_lines || [];
+  const diagnosisCount = (form.diagnosis_codes || []).length;
+
+  if (lines.length === 0) {
+    return [error('service_lines', 'At least one service line is required')];
+  }
+
+  lines.forEach((line, i) => {
+    const field = (name: string) => `service_lines[${i}].${name}`;
+    const label = `Line ${i + 1}`;
+
+    // Date of service
+    if (!line.dos) {
+      results.push(error(field('dos'), `${label}: date of service is required`));
+    } else if (!isValidDate(line.dos)) {
+      results.push(error(field('dos'), `${label}: date of service is not a valid date`));
+    } else if (line.dos > today) {
+      results.push(error(field('dos'), `${label}: date of service cannot be in the future`));
+    } else if (daysBetween(line.dos, today) > TIMELY_FILING_WARNING_DAYS) {
+      results.push(warning(field('dos'), `${label}: date of service is more than ${TIMELY_FILING_WARNING_DAYS} days ago; check timely filing`));
+    }
+
+    // Procedure code
+    const cpt = (line.cpt || '').trim().toUpperCase();
+    if (!cpt) {
+      results.push(error(field('cpt'), `${label}: procedure code is required`));
+    } else if (!CPT_PATTERN.test(cpt) && !HCPCS_PATTERN.test(cpt)) {
+      results.push(error(field('cpt'), `${label}: "${line.cpt}" is not a valid CPT/HCPCS code`));
+    }
+
+    // Modifiers
+    const modifiers = getLineModifiers(line);
+    if (modifiers.length > MAX_MODIFIERS) {
+      results.push(error(field('modifiers'), `${label}: at most ${MAX_MODIFIERS} modifiers are allowed`));
+    }
+    modifiers
+      .filter((m) => !MODIFIER_PATTERN.test(m))
+      .forEach((m) => results.push(error(field('modifiers'), `${label}: "${m}" is not a valid modifier`)));
+
+    const pos = line.place_of_service || form.place_of_service;
+    if (pos && isTelehealthPlaceOfService(pos) && !modifiers.some((m) => TELEHEALTH_MODIFIERS.includes(m))) {
+      results.push(warning(field('modifiers'), `${label}: telehealth place of service without a telehealth modifier`));
+    }
+
+    // Units and charge
+    if (!line.units || line.units < 1) {
+      results.push(error(field('units'), `${label}: units must be at least 1`));
+    }
+    if (!line.charge || line.charge <= 0) {
+      results.push(error(field('charge'), `${label}: charge must be greater than zero`));
+    }
+
+    // Diagnosis pointers
+    const pointers = line.diagnosis_pointers || [];
+    if (pointers.length === 0) {
+      results.push(error(field('diagnosis_pointers'), `${label}: at least one diagnosis pointer is required`));
+    } else if (pointers.length > MAX_DIAGNOSIS_POINTERS) {
+      results.push(error(field('diagnosis_pointers'), `${label}: at most ${MAX_DIAGNOSIS_POINTERS} diagnosis pointers are allowed`));
+    }
+    pointers
+      .filter((p) => !Number.isInteger(p) || p < 1 || p > diagnosisCount)
+      .forEach((p) =>
+        results.push(error(field('diagnosis_pointers'), `${label}: diagnosis pointer ${p} does not match a diagnosis code`))
+      );
+  });
+
+  return results;
+};
+
+const placeOfService: ClaimRule = (form) => {
+  const results: ValidationError[] = [];
+
+  if (form.place_of_service && !/^\d{2}$/.test(form.place_of_service)) {
+    results.push(error('place_of_service', 'Place of service must be a 2-digit code'));
+  }
+
+  (form.service_lines || []).forEach((line, i) => {
+    if (line.place_of_service && !/^\d{2}$/.test(line.place_of_service)) {
+      results.push(error(`service_lines[${i}].place_of_service`, `Line ${i + 1}: place of service must be a 2-digit code`));
+    }
+  });
+
+  return results;
+};
+
+const CLAIM_RULES: ClaimRule[] = [
+  requiredFields,
+  patientDemographics,
+  patientAddress,
+  subscriber,
+  renderingProvider,
+  diagnoses,
+  serviceLines,
+  placeOfService,
+];
+
+/**
+ * Helper functions
+ */
+
+function error(field: string, message: string): ValidationError {
+  return { field, message, severity: 'error' };
+}
+
+function warning(field: string, message: string): ValidationError {
+  return { field, message, severity: 'warning' };
+}
+
+function isValidDate(value: string): boolean {
+  if (!DATE_PATTERN.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.floor(
+    (new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / 86400000
+  );
+}
@@ -0,0 +1,346 @@
+/**
+ * Clearinghouse
+ * Where we upload EDI files and pick up the clearinghouse's responses
+ *
+ * - sftp: Office Ally's SFTP server; uploads and responses both live in
+ *   /outbound/, and picked-up responses move to OFFICE_ALLY_SFTP_ARCHIVE_DIR
+ *   when one is configured (otherwise they stay where they are)
+ * - local: a directory on this machine (LOCAL_CLEARINGHOUSE_DIR); uploads go
+ *   to outbound/, responses are read from inbound/ and archived to archive/.
+ *   Each upload gets simulated 999/277/835 responses (see
+ *   clearinghouseSimulator), so submission and reconciliation run offline.
+ *
+ * CLEARINGHOUSE picks one. Without it, sftp is used whenever the
+ * OFFICE_ALLY_SFTP_* credentials are set, and in production (where missing
+ * credentials fail loudly); only an environment with neither falls back to
+ * local.
+ *
+ * IMPORTANT: This module uses Node.js fs and native SFTP bindings and can ONLY
+ * run on the server.
+ */
+
+import { promises as fs, constants } from 'fs';
+import path from 'path';
+import type SftpClient from 'ssh2-sftp-client';
+import { simulateResponses, SIMULATED_RESPONSE_TYPES, SimulatedResponseType } from './clearinghouseSimulator';
+
+export interface SFTPConfig {
+  host: string;
+  port: number;
+  username: string;
+  password: string;
+}
+
+export interface UploadResult {
+  success: boolean;
+  fileName?: string;
+  remotePath?: string;
+  error?: string;
+}
+
+export interface ClearinghouseFile {
+  name: string;
+  size: number;
+}
+
+export interface Clearinghouse {
+  name: string;
+  /** Upload one EDI file */
+  upload(fileName: string, content: string): Promise<UploadResult>;
+  /** Response files waiting to be picked up */
+  listInbound(): Promise<{ success: boolean; files?: ClearinghouseFile[]; error?: string }>;
+  /** Content of one inbound file */
+  fetch(fileName: string): Promise<{ success: boolean; content?: string; error?: string }>;
+  /** Move a picked-up inbound file out of the way */
+  archive(fileName: string): Promise<{ success: boolean; error?: string }>;
+  testConnection(): Promise<{ success: boolean; error?: string }>;
+  /** Release any open connection; the clearinghouse reconnects if used again */
+  close(): Promise<void>;
+}
+
+const SFTP_OUTBOUND_DIR = '/outbound';
+
+// Logged once per process, on first use
+let announced = false;
+
+/**
+ * The clearinghouse configured for this environment
+ */
+export function getClearinghouse(): Clearinghouse {
+  const name = getClearinghouseName();
+
+  if (!announced) {
+    announced = true;
+    console.log(
+      `[Clearinghouse] Using ${name}${process.env.CLEARINGHOUSE ? '' : ' (CLEARINGHOUSE not set)'}`
+    );
+  }
+
+  switch (name) {
+    case 'sftp':
+      return createSftpClearinghouse(getSftpConfig());
+    case 'local':
+      return createLocalClearinghouse(
+        process.env.LOCAL_CLEARINGHOUSE_DIR || path.join(process.cwd(), '.clearinghouse'),
+        getSimulatedResponseTypes()
+      );
+    default:
+      throw new Error(`Unknown clearinghouse: ${name}`);
+  }
+}
+
+function getClearinghouseName(): string {
+  if (process.env.CLEARINGHOUSE) return process.env.CLEARINGHOUSE;
+
+  const { host, username, password } = getSftpConfig();
+  if ((host && username && password) || process.env.NODE_ENV === 'production') return 'sftp';
+
+  return 'local';
+}
+
+function getSftpConfig(): SFTPConfig {
+  return {
+    host: process.env.OFFICE_ALLY_SFTP_HOST || '',
+    port: parseInt(process.env.OFFICE_ALLY_SFTP_PORT || '22'),
+    username: process.env.OFFICE_ALLY_SFTP_USERNAME || process.env.OFFICE_ALLY_SFTP_USER || '',
+    password: process.env.OFFICE_ALLY_SFTP_PASSWORD || '',
+  };
+}
+
+/**
+ * LOCAL_CLEARINGHOUSE_SIMULATE: comma-separated response types, or "none"
+ * (default: all of them)
+ */
+function getSimulatedResponseTypes(): SimulatedResponseType[] {
+  const setting = process.env.LOCAL_CLEARINGHOUSE_SIMULATE;
+  if (!setting) return [...SIMULATED_RESPONSE_TYPES];
+  if (setting === 'none') return [];
+
+  const types = setting.split(',').map((t) => t.trim());
+  return SIMULATED_RESPONSE_TYPES.filter((t) => types.includes(t));
+}
+
+/**
+ * Office Ally SFTP clearinghouse
+ * One SFTP session is opened on first use and shared until close().
+ */
+export function createSftpClearinghouse(
+  config: SFTPConfig,
+  archiveDir: string | undefined = process.env.OFFICE_ALLY_SFTP_ARCHIVE_DIR
+): Clearinghouse {
+  let session: Promise<SftpClient> | null = null;
+
+  const connect = (): Promise<SftpClient> => {
+    if (!config.host || !config.username || !config.password) {
+      return Promise.reject(new Error('Office Ally SFTP credentials not configured'));
+    }
+
+    if (!session) {
+      session = (async () => {
+        // Dynamic import to avoid bundling ssh2-sftp-client on client side
+        const SftpClientClass = (await import('ssh2-sftp-client')).default;
+        const sftp = new SftpClientClass();
+
+        console.log('[SFTP] Connecting to', config.host);
+        await sftp.connect(config);
+        return sftp;
+      })();
+      // Let the next call retry a failed connection
+      session.catch(() => {
+        session = null;
+      });
+    }
+
+    return session;
+  };
+
+  return {
+    name: 'sftp',
+
+    async upload(fileName, content) {
+      const remotePath = `${SFTP_OUTBOUND_DIR}/${fileName}`;
+      const buffer = Buffer.from(content, 'utf-8');
+
+      try {
+        const sftp = await connect();
+        console.log('[SFTP] Uploading file:', { fileName, remotePath, size: buffer.length });
+        await sftp.put(buffer, remotePath);
+        console.log('[SFTP] File uploaded successfully');
+
+        return { success: true, fileName, remotePath };
+      } catch (error) {
+        console.error('[SFTP] Upload failed:', error);
+        return { success: false, error: errorMessage(error, 'SFTP upload failed') };
+      }
+    },
+
+    async listInbound() {
+      try {
+        const sftp = await connect();
+        const fileList = await sftp.list(`${SFTP_OUTBOUND_DIR}/`);
+
+        return {
+          success: true,
+          files: fileList.filter((f) => f.type !== 'd').map((f) => ({ name: f.name, size: f.size })),
+        };
+      } catch (error) {
+        console.error('[SFTP] Listing failed:', error);
+        return { success: false, error: errorMessage(error, 'Failed to list files') };
+      }
+    },
+
+    async fetch(fileName) {
+      try {
+        const sftp = await connect();
+        const buffer = await sftp.get(`${SFTP_OUTBOUND_DIR}/${fileName}`);
+
+        return { success: true, content: buffer.toString('utf-8') };
+      } catch (error) {
+        console.error(`[SFTP] Failed to download ${fileName}:`, error);
+        return { success: false, error: errorMessage(error, 'SFTP download failed') };
+      }
+    },
+
+    async archive(fileName) {
+      if (!archiveDir) return { success: true };
+
+      try {
+        const sftp = await connect();
+        await sftp.rename(`${SFTP_OUTBOUND_DIR}/${fileName}`, `${archiveDir.replace(/\/$/, '')}/${fileName}`);
+
+        return { success: true };
+      } catch (error) {
+        console.error(`[SFTP] Failed to archive ${fileName}:`, error);
+        return { success: false, error: errorMessage(error, 'SFTP archive failed') };
+      }
+    },
+
+    async testConnection() {
+      try {
+        const sftp = await connect();
+
+        // Try to list root directory to verify access
+        const files = await sftp.list('/');
+        console.log('[SFTP] Connection successful, found directories:', files.map((f) => f.name).join(', '));
+
+        return { success: true };
+      } catch (error) {
+        console.error('[SFTP] Connection test failed:', error);
+        return { success: false, error: errorMessage(error, 'SFTP connection failed') };
+      }
+    },
+
+    async close() {
+      const open = session;
+      session = null;
+      if (!open) return;
+
+      try {
+        await (await open).end();
+      } catch {
+        // Ignore disconnect errors (including a connection that never opened)
+      }
+    },
+  };
+}
+
+/**
+ * Local directory clearinghouse for development, demos and tests
+ */
+export function createLocalClearinghouse(
+  directory: string,
+  simulate: SimulatedResponseType[] = [...SIMULATED_RESPONSE_TYPES]
+): Clearinghouse {
+  const outbound = path.join(directory, 'outbound');
+  const inbound = path.join(directory, 'inbound');
+  const archived = path.join(directory, 'archive');
+
+  // Only plain file names: nothing may escape the clearinghouse directory
+  const inboundPath = (fileName: string) => path.join(inbound, path.basename(fileName));
+
+  return {
+    name: 'local',
+
+    async upload(fileName, content) {
+      const remotePath = path.join(outbound, path.basename(fileName));
+
+      try {
+        await fs.mkdir(outbound, { recursive: true });
+        await fs.writeFile(remotePath, content);
+        console.log('[Clearinghouse] Wrote', remotePath);
+
+        if (simulate.length > 0) {
+          const responses = simulateResponses(fileName, content, simulate);
+          await fs.mkdir(inbound, { recursive: true });
+          for (const response of responses) {
+            await fs.writeFile(inboundPath(response.fileName), response.content);
+          }
+          console.log('[Clearinghouse] Simulated', responses.map((r) => r.fileName).join(', ') || 'no responses');
+        }
+
+        return { success: true, fileName, remotePath };
+      } catch (error) {
+        console.error('[Clearinghouse] Upload failed:', error);
+        return { success: false, error: errorMessage(error, 'Local upload failed') };
+      }
+    },
+
+    async listInbound() {
+      try {
+        await fs.mkdir(inbound, { recursive: true });
+        const entries = await fs.readdir(inbound, { withFileTypes: true });
+        const files = await Promise.all(
+          entries
+            .filter((entry) => entry.isFile())
+            .map(async (entry) => ({ name: entry.name, size: (await fs.stat(inboundPath(entry.name))).size }))
+        );
+
+        return { success: true, files: files.sort((a, b) => a.name.localeCompare(b.name)) };
+      } catch (error) {
+        console.error('[Clearinghouse] Listing failed:', error);
+        return { success: false, error: errorMessage(error, 'Failed to list files') };
+      }
+    },
+
+    async fetch(fileName) {
+      try {
+        return { success: true, content: await fs.readFile(inboundPath(fileName), 'utf8') };
+      } catch (error) {
+        console.error(`[Clearinghouse] Failed to read ${fileName}:`, error);
+        return { success: false, error: errorMessage(error, 'Local read failed') };
+      }
+    },
+
+    async archive(fileName) {
+      try {
+        await fs.mkdir(archived, { recursive: true });
+        await fs.rename(inboundPath(fileName), path.join(archived, path.basename(fileName)));
+
+        return { success: true };
+      } catch (error) {
+        console.error(`[Clearinghouse] Failed to archive ${fileName}:`, error);
+        return { success: false, error: errorMessage(error, 'Local archive failed') };
+      }
+    },
+
+    async testConnection() {
+      try {
+        await fs.mkdir(outbound, { recursive: true });
+        await fs.mkdir(inbound, { recursive: true });
+        await fs.access(directory, constants.W_OK);
+
+        return { success: true };
+      } catch (error) {
+        return { success: false, error: errorMessage(error, 'Local clearinghouse directory is not writable') };
+      }
+    },
+
+    async close() {
+      // Nothing to release
+    },
+  };
+}
+
+function errorMessage(error: unknown, fallback: string): string {
+  return error instanceof Error ? error.message : fallback;
+}
@@ -0,0 +1,453 @@
+/**
+ * Clearinghouse Response Simulator
+ * Builds the responses Office Ally and the payer would send back for one of
+ * our uploads, for the local clearinghouse
+ *
+ * An 837P gets:
+ * - 999: every transaction set accepted (IK5*A)
+ * - 277CA: each claim accepted into adjudication (STC A2:20), with a payer
+ *   claim number; a subscriber member ID starting with REJECT gets a
+ *   rejection (STC A7:164) instead. Claims sit under patient levels
+ *   (HL03 = PT) with their service lines (2220D), as Office Ally sends them.
+ * - 835: one payment per payer paying LOCAL_CLEARINGHOUSE_PAID_RATIO
+ *   (default 0.8) of each accepted service line, the rest adjusted CO-45
+ *
+ * A 276 gets a 999 and a solicited 277 (BHT01 0010) answering each claim.
+ *
+ * Responses are named like Office Ally's, after the uploaded file:
+ * <upload>_999.999, <upload>_277CA.277 (<upload>_277.277 for a 276) and
+ * <upload>_ERA_835.835.
+ */
+
+import { randomInt } from 'crypto';
+import {
+  parseEDISegments,
+  findSegment,
+  getElement,
+  splitTransactionSets,
+  buildTransactionSetTree,
+  childLoops,
+  findLoops,
+  loopSegment,
+  loopSegments,
+  Loop,
+  Segment,
+  TransactionSet,
+} from './ediParsers';
+
+export const SIMULATED_RESPONSE_TYPES = ['999', '277', '835'] as const;
+export type SimulatedResponseType = (typeof SIMULATED_RESPONSE_TYPES)[number];
+
+export interface SimulatedResponse {
+  fileName: string;
+  content: string;
+}
+
+interface SimulatedServiceLine {
+  procedure: string; // SV1-01 / SVC-01 composite (HC:90837:95)
+  charge: number;
+  units: string;
+  serviceDate: string;
+}
+
+interface SimulatedClaim {
+  controlNumber: string; // CLM01
+  charge: number;
+  memberId: string;
+  lastName: string;
+  firstName: string;
+  serviceDate: string;
+  serviceLines: SimulatedServiceLine[];
+}
+
+// A response transaction set without its ST/SE
+interface ResponseTransactionSet {
+  id: string;
+  version: string;
+  segments: string[];
+}
+
+// One 837P or 276 transaction set: claims for one billing provider at one payer
+interface SimulatedSubmission {
+  payerName: string;
+  payerId: string;
+  providerName: string;
+  providerNpi: string;
+  claims: SimulatedClaim[];
+}
+
+const CLEARINGHOUSE_ID = 'OFFALLY';
+const DEFAULT_PAID_RATIO = 0.8;
+
+// 277 STC01: accepted into adjudication, or rejected for an invalid member ID
+const ACCEPTED_STATUS = 'A2:20:PR';
+const REJECTED_STATUS = 'A7:164:PR';
+const REJECTED_MEMBER_PREFIX = 'REJECT';
+
+function getPaidRatio(): number {
+  const ratio = parseFloat(process.env.LOCAL_CLEARINGHOUSE_PAID_RATIO || String(DEFAULT_PAID_RATIO));
+  return Number.isFinite(ratio) ? Math.min(Math.max(ratio, 0), 1) : DEFAULT_PAID_RATIO;
+}
+
+/**
+ * Responses for an uploaded 837P or 276 file
+ * Anything else (or a file that does not parse) gets no responses.
+ */
+export function simulateResponses(
+  fileName: string,
+  content: string,
+  types: readonly SimulatedResponseType[] = SIMULATED_RESPONSE_TYPES
+): SimulatedResponse[] {
+  const segments = parseEDISegments(content);
+  const receiverId = getElement(findSegment(segments, 'ISA'), 5).trim() || 'MOONLIT';
+  const gs = findSegment(segments, 'GS');
+  const base = fileName.replace(/\.[^.]+$/, '');
+  const now = new Date();
+
+  const claimSets = splitTransactionSets(segments, '837').transactionSets.filter((ts) => ts.transactionSetId === '837');
+  const inquirySets = splitTransactionSets(segments, '276').transactionSets.filter((ts) => ts.transactionSetId === '276');
+  const transactionSets = [...claimSets, ...inquirySets];
+
+  if (!gs || transactionSets.length === 0) return [];
+
+  const responses: SimulatedResponse[] = [];
+
+  if (types.includes('999')) {
+    responses.push({
+      fileName: `${base}_999.999`,
+      content: buildInterchange(receiverId, 'FA', '005010X231A1', now, [build999(gs, transactionSets)]),
+    });
+  }
+
+  if (claimSets.length > 0) {
+    const submissions = claimSets.map(readClaimSubmission);
+
+    if (types.includes('277')) {
+      responses.push({
+        fileName: `${base}_277CA.277`,
+        content: buildInterchange(
+          receiverId,
+          'HN',
+          '005010X214',
+          now,
+          submissions.map((s) => build277(s, '0085', receiverId, now))
+        ),
+      });
+    }
+
+    const payments = submissions
+      .map((s) => ({ ...s, claims: s.claims.filter((c) => !isRejected(c)) }))
+      .filter((s) => s.claims.length > 0);
+
+    if (types.includes('835') && payments.length > 0) {
+      responses.push({
+        fileName: `${base}_ERA_835.835`,
+        content: buildInterchange(
+          receiverId,
+          'HP',
+          '005010X221A1',
+          now,
+          payments.map((s) => build835(s, now))
+        ),
+      });
+    }
+  }
+
+  if (inquirySets.length > 0 && types.includes('277')) {
+    responses.push({
+      fileName: `${base}_277.277`,
+      content: buildInterchange(
+        receiverId,
+        'HN',
+        '005010X212',
+        now,
+        inquirySets.map(readInquirySubmission).map((s) => build277(s, '0010', receiverId, now))
+      ),
+    });
+  }
+
+  return responses;
+}
+
+/**
+ * Payer, billing provider and claims of one 837P transaction set
+ */
+function readClaimSubmission(transactionSet: TransactionSet): SimulatedSubmission {
+  const tree = buildTransactionSetTree('837', transactionSet.segments);
+  const billing = loopSegment(findLoops(tree, '2010AA')[0], 'NM1');
+  const payer = loopSegment(findLoops(tree, '2010BB')[0], 'NM1');
+  const claims: SimulatedClaim[] = [];
+
+  for (const subscriber of findLoops(tree, '2000B')) {
+    const subscriberName = loopSegment(childLoops(subscriber, '2010BA')[0], 'NM1');
+    const memberId = getElement(subscriberName, 8);
+
+    for (const claim of childLoops(subscriber, '2300')) {
+      claims.push(readClaim(claim, memberId, subscriberName));
+    }
+
+    for (const patient of childLoops(subscriber, '2000C')) {
+      const patientName = loopSegment(childLoops(patient, '2010CA')[0], 'NM1');
+      for (const claim of childLoops(patient, '2300')) {
+        claims.push(readClaim(claim, memberId, patientName));
+      }
+    }
+  }
+
+  return {
+    payerName: getElement(payer, 2),
+    payerId: getElement(payer, 8),
+    providerName: getElement(billing, 2),
+    providerNpi: getElement(billing, 8),
+    claims,
+  };
+}
+
+function readClaim(claim: Loop, memberId: string, name: Segment | undefined): SimulatedClaim {
+  const clm = claim.segments[0];
+  const serviceLines = childLoops(claim, '2400').map((line) => {
+    const sv1 = loopSegment(line, 'SV1');
+    return {
+      procedure: getElement(sv1, 0),
+      charge: parseFloat(getElement(sv1, 1) || '0'),
+      units: getElement(sv1, 3) || '1',
+      serviceDate: getElement(loopSegment(line, 'DTP', '472'), 2),
+    };
+  });
+
+  return {
+    controlNumber: getElement(clm, 0),
+    charge: parseFloat(getElement(clm, 1) || '0'),
+    memberId,
+    lastName: getElement(name, 2),
+    firstName: getElement(name, 3),
+    serviceDate: serviceLines[0]?.serviceDate || '',
+    serviceLines,
+  };
+}
+
+/**
+ * Payer, provider and claims asked about in one 276 transaction set
+ * A 276 has the same HL structure as a 277, so it is read with the 277 loops.
+ */
+function readInquirySubmission(transactionSet: TransactionSet): SimulatedSubmission {
+  const tree = buildTransactionSetTree('277', transactionSet.segments);
+  const payer = loopSegment(findLoops(tree, '2100A')[0], 'NM1');
+  const provider = loopSegment(findLoops(tree, '2100C')[0], 'NM1');
+  const claims: SimulatedClaim[] = [];
+
+  for (const subscriber of findLoops(tree, '2000D')) {
+    const subscriberName = loopSegment(childLoops(subscriber, '2100D')[0], 'NM1');
+    const memberId = getElement(subscriberName, 8);
+    const patients = [
+      { name: subscriberName, claims: childLoops(subscriber, '2200D') },
+      ...childLoops(subscriber, '2000E').map((dependent) => ({
+        name: loopSegment(childLoops(dependent, '2100E')[0], 'NM1'),
+        claims: childLoops(dependent, '2200E'),
+      })),
+    ];
+
+    for (const patient of patients) {
+      for (const claim of patient.claims) {
+        const charge = loopSegments(claim, 'AMT').find((amt) => getElement(amt, 0) === 'T3');
+        claims.push({
+          controlNumber: getElement(claim.segments[0], 1),
+          charge: parseFloat(getElement(charge, 1) || '0'),
+          memberId,
+          lastName: getElement(patient.name, 2),
+          firstName: getElement(patient.name, 3),
+          // D8 date or the start of an RD8 range
+          serviceDate: getElement(loopSegment(claim, 'DTP', '472'), 2).split('-')[0],
+          serviceLines: [],
+        });
+      }
+    }
+  }
+
+  return {
+    payerName: getElement(payer, 2),
+    payerId: getElement(payer, 8),
+    providerName: getElement(provider, 2),
+    providerNpi: getElement(provider, 8),
+    claims,
+  };
+}
+
+function isRejected(claim: SimulatedClaim): boolean {
+  return claim.memberId.toUpperCase().startsWith(REJECTED_MEMBER_PREFIX);
+}
+
+/**
+ * 999 accepting every transaction set of the uploaded functional group
+ */
+function build999(gs: Segment, transactionSets: TransactionSet[]): ResponseTransactionSet {
+  const segments = [`AK1*${getElement(gs, 0)}*${getElement(gs, 5)}*${getElement(gs, 7)}`];
+
+  for (const ts of transactionSets) {
+    segments.push(`AK2*${ts.transactionSetId}*${ts.controlNumber}*${getElement(gs, 7)}`);
+    segments.push('IK5*A');
+  }
+
+  const count = transactionSets.length;
+  segments.push(`AK9*A*${count}*${count}*${count}`);
+
+  return { id: '999', version: '005010X231A1', segments };
+}
+
+/**
+ * 277CA (BHT01 0085) or solicited 277 (BHT01 0010) for one payer's claims
+ */
+function build277(
+  submission: SimulatedSubmission,
+  purpose: '0085' | '0010',
+  receiverId: string,
+  now: Date
+): ResponseTransactionSet {
+  const date = formatDate(now);
+  const reference = `SIM${randomControlNumber()}`;
+  const total = sum(submission.claims.map((c) => c.charge));
+  const segments = [
+    `BHT*${purpose}*08*${reference}*${date}*${formatTime(now)}*TH`,
+    // Payer (2000A)
+    'HL*1**20*1',
+    `NM1*PR*2*${submission.payerName}*****PI*${submission.payerId}`,
+    `TRN*1*${reference}`,
+    `DTP*050*D8*${date}`,
+    `DTP*009*D8*${date}`,
+    // Information receiver (2000B)
+    'HL*2*1*21*1',
+    `NM1*41*2*${submission.providerName}*****46*${receiverId}`,
+    `TRN*2*${reference}`,
+    `STC*A1:19:PR*${date}*WQ*${total.toFixed(2)}`,
+    // Billing provider (2000C)
+    'HL*3*2*19*1',
+    `NM1*85*2*${submission.providerName}*****XX*${submission.providerNpi}`,
+  ];
+
+  submission.claims.forEach((claim, index) => {
+    const rejected = isRejected(claim);
+
+    // Patient (2000D) and claim status (2200D); a 277CA patient is HL03 = PT
+    segments.push(purpose === '0085' ? `HL*${index + 4}*3*PT` : `HL*${index + 4}*3*22*0`);
+    segments.push(`NM1*QC*1*${claim.lastName}*${claim.firstName}****MI*${claim.memberId}`);
+    segments.push(`TRN*2*${claim.controlNumber}`);
+    segments.push(
+      `STC*${rejected ? REJECTED_STATUS : ACCEPTED_STATUS}*${date}*${rejected ? 'U' : 'WQ'}*${claim.charge.toFixed(2)}`
+    );
+    if (!rejected) {
+      segments.push(`REF*1K*${payerClaimNumber(claim)}`);
+    }
+    if (claim.serviceDate) {
+      segments.push(`DTP*472*D8*${claim.serviceDate}`);
+    }
+
+    // Service line statuses (2220D), each line with the claim's status
+    claim.serviceLines.forEach((line, lineIndex) => {
+      segments.push(['SVC', line.procedure, line.charge.toFixed(2), '', '', '', '', line.units].join('*'));
+      segments.push(`STC*${rejected ? REJECTED_STATUS : ACCEPTED_STATUS}*${date}`);
+      segments.push(`REF*FJ*${lineIndex + 1}`);
+      if (line.serviceDate) segments.push(`DTP*472*D8*${line.serviceDate}`);
+    });
+  });
+
+  return { id: '277', version: purpose === '0010' ? '005010X212' : '005010X214', segments };
+}
+
+/**
+ * 835 paying one payer's accepted claims
+ */
+function build835(submission: SimulatedSubmission, now: Date): ResponseTransactionSet {
+  const date = formatDate(now);
+  const ratio = getPaidRatio();
+  const claims = submission.claims.map((claim) => {
+    const lines = claim.serviceLines.map((line) => ({ ...line, paid: round(line.charge * ratio) }));
+    return { claim, lines, paid: round(sum(lines.map((l) => l.paid))) };
+  });
+  const totalPaid = round(sum(claims.map((c) => c.paid)));
+  const checkNumber = `SIM${randomControlNumber()}`;
+
+  const segments = [
+    `BPR*I*${totalPaid.toFixed(2)}*C*CHK************${date}`,
+    `TRN*1*${checkNumber}*1${submission.payerId}`,
+    `DTM*405*D8*${date}`,
+    `N1*PR*${submission.payerName}`,
+    `N1*PE*${submission.providerName}*XX*${submission.providerNpi}`,
+    'LX*1',
+  ];
+
+  for (const { claim, lines, paid } of claims) {
+    segments.push(
+      `CLP*${claim.controlNumber}*1*${claim.charge.toFixed(2)}*${paid.toFixed(2)}*0*CI*${payerClaimNumber(claim)}*11*1`
+    );
+    segments.push(`NM1*QC*1*${claim.lastName}*${claim.firstName}****MI*${claim.memberId}`);
+
+    lines.forEach((line, index) => {
+      segments.push(`SVC*${line.procedure}*${line.charge.toFixed(2)}*${line.paid.toFixed(2)}**${line.units}`);
+      if (line.serviceDate) segments.push(`DTM*472*${line.serviceDate}`);
+
+      const adjustment = round(line.charge - line.paid);
+      if (adjustment > 0) segments.push(`CAS*CO*45*${adjustment.toFixed(2)}`);
+      segments.push(`REF*6R*${index + 1}`);
+    });
+  }
+
+  return { id: '835', version: '005010X221A1', segments };
+}
+
+/**
+ * One interchange from the clearinghouse back to us
+ * Transaction sets are numbered 0001, 0002, ... within the group; SE01
+ * counts ST and SE.
+ */
+function buildInterchange(
+  receiverId: string,
+  functionalIdCode: string,
+  version: string,
+  now: Date,
+  transactionSets: ResponseTransactionSet[]
+): string {
+  const controlNumber = randomControlNumber();
+  const groupControlNumber = String(parseInt(controlNumber));
+  const time = formatTime(now).slice(0, 4);
+
+  const segments = [
+    `ISA*00*          *00*          *ZZ*${CLEARINGHOUSE_ID.padEnd(15)}*ZZ*${receiverId.padEnd(15)}*${formatDate(now).slice(2)}*${time}*^*00501*${controlNumber}*0*P*:`,
+    `GS*${functionalIdCode}*${CLEARINGHOUSE_ID}*${receiverId}*${formatDate(now)}*${time}*${groupControlNumber}*X*${version}`,
+    ...transactionSets.flatMap((ts, index) => {
+      const stControlNumber = String(index + 1).padStart(4, '0');
+      return [
+        `ST*${ts.id}*${stControlNumber}*${ts.version}`,
+        ...ts.segments,
+        `SE*${ts.segments.length + 2}*${stControlNumber}`,
+      ];
+    }),
+    `GE*${transactionSets.length}*${groupControlNumber}`,
+    `IEA*1*${controlNumber}`,
+  ];
+
+  return segments.map((segment) => `${segment}~`).join('\n');
+}
+
+function payerClaimNumber(claim: SimulatedClaim): string {
+  return `SIM${claim.controlNumber}`;
+}
+
+function randomControlNumber(): string {
+  return String(randomInt(1, 1000000000)).padStart(9, '0');
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+function formatTime(date: Date): string {
+  return date.toISOString().slice(11, 19).replace(/:/g, '');
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
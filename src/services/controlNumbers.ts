@@ -0,0 +1,181 @@
+/**
+ * EDI Control Number Service
+ * Issues collision-free control numbers from database sequences and records
+ * which claim and file used them
+ *
+ * - ISA13 (interchange) and GS06 (group): one each per file
+ * - ST02 (transaction set): 0001.. within the group, assigned by the generator
+ * - CLM01 (patient control number): one per claim
+ *
+ * Reconciliation uses the issued numbers to map a TA1 (ISA13), a 999
+ * (GS06 + ST02) or a 277/835 (CLM01) back to its claims.
+ */
+
+import { getServerSupabase } from './supabase';
+import type { EDIEnvelope } from '@/types';
+
+type ControlNumberKind = 'interchange' | 'group' | 'claim';
+
+export interface IssueControlNumbersResult {
+  success: boolean;
+  envelope?: EDIEnvelope;
+  claimControlNumbers?: string[];
+  error?: string;
+}
+
+export interface IssuedControlNumber {
+  claimId: string;
+  batchId?: string;
+  interchangeControlNumber: string;
+  groupControlNumber: string;
+  transactionSetControlNumber: string;
+  claimControlNumber: string;
+  ediFilename?: string;
+}
+
+/**
+ * Issue envelope numbers for one file plus a CLM01 for each claim in it
+ */
+export async function issueControlNumbers(
+  supabase: ReturnType<typeof getServerSupabase>,
+  claimCount: number
+): Promise<IssueControlNumbersResult> {
+  try {
+    const [interchange, group, claims] = await Promise.all([
+      nextControlNumbers(supabase, 'interchange', 1),
+      nextControlNumbers(supabase, 'group', 1),
+      nextControlNumbers(supabase, 'claim', claimCount),
+    ]);
+
+    return {
+      success: true,
+      envelope: {
+        interchangeControlNumber: interchange[0],
+        groupControlNumber: group[0],
+      },
+      claimControlNumbers: claims,
+    };
+  } catch (error) {
+    console.error('[ControlNumbers] Failed to issue control numbers:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to issue control numbers',
+    };
+  }
+}
+
+/**
+ * Record the control numbers a file used for each of its claims
+ */
+export async function recordControlNumbers(
+  supabase: ReturnType<typeof getServerSupabase>,
+  issued: IssuedControlNumber[]
+): Promise<void> {
+  const { error } = await supabase.from('edi_control_numbers').insert(
+    issued.map((n) => ({
+      claim_id: n.claimId,
+      batch_id: n.batchId || null,
+      interchange_control_number: n.interchangeControlNumber,
+      group_control_number: n.groupControlNumber,
+      transaction_set_control_number: n.transactionSetControlNumber,
+      claim_control_number: n.claimControlNumber,
+      edi_filename: n.ediFilename || null,
+    }))
+  );
+
+  if (error) {
+    console.error('[ControlNumbers] Failed to record control numbers:', error);
+  }
+}
+
+/**
+ * Find the claims in the most recent file sent with an ISA13 interchange control number
+ * TA101 is zero-padded to nine digits; issued numbers are stored without padding.
+ */
+export async function findClaimsByInterchangeControlNumber(
+  supabase: ReturnType<typeof getServerSupabase>,
+  interchangeControlNumber: string
+): Promise<Array<{ claimId: string; batchId: string | null }>> {
+  const { data } = await supabase
+    .from('edi_control_numbers')
+    .select('claim_id, batch_id, group_control_number, created_at')
+    .eq('interchange_control_number', interchangeControlNumber.trim().replace(/^0+(?=\d)/, ''))
+    .order('created_at', { ascending: false });
+
+  if (!data || data.length === 0) return [];
+
+  // ISA13 cycles after 999999999 - only the latest file using it applies
+  const group = data[0].group_control_number;
+
+  return data
+    .filter((row) => row.group_control_number === group)
+    .map((row) => ({ claimId: row.claim_id, batchId: row.batch_id }));
+}
+
+/**
+ * Find the claims in the most recent file sent with a GS06 group control number
+ * Returns each claim's ST02 so 999 transaction set responses can be applied per claim
+ */
+export async function findClaimsByGroupControlNumber(
+  supabase: ReturnType<typeof getServerSupabase>,
+  groupControlNumber: string
+): Promise<Array<{ claimId: string; batchId: string | null; transactionSetControlNumber: string }>> {
+  const { data } = await supabase
+    .from('edi_control_numbers')
+    .select('claim_id, batch_id, interchange_control_number, transaction_set_control_number, created_at')
+    .eq('group_control_number', groupControlNumber)
+    .order('created_at', { ascending: false });
+
+  if (!data || data.length === 0) return [];
+
+  // GS06 cycles after 999999999 - only the latest interchange using it applies
+  const interchange = data[0].interchange_control_number;
+
+  return data
+    .filter((row) => row.interchange_control_number === interchange)
+    .map((row) => ({
+      claimId: row.claim_id,
+      batchId: row.batch_id,
+      transactionSetControlNumber: row.transaction_set_control_number,
+    }));
+}
+
+/**
+ * Find the claim a CLM01 patient control number was issued to
+ * Falls back to claims.control_number for claims submitted before issued numbers were recorded
+ */
+export async function findClaimByControlNumber(
+  supabase: ReturnType<typeof getServerSupabase>,
+  claimControlNumber: string
+): Promise<{ id: string; status: string; control_number: string | null } | null> {
+  const { data: issued } = await supabase
+    .from('edi_control_numbers')
+    .select('claim_id')
+    .eq('claim_control_number', claimControlNumber)
+    .single();
+
+  const query = supabase.from('claims').select('id, status, control_number');
+
+  const { data: claims } = issued
+    ? await query.eq('id', issued.claim_id)
+    : await query.eq('control_number', claimControlNumber).order('created_at', { ascending: false });
+
+  return claims?.[0] || null;
+}
+
+async function nextControlNumbers(
+  supabase: ReturnType<typeof getServerSupabase>,
+  kind: ControlNumberKind,
+  count: number
+): Promise<string[]> {
+  const { data, error } = await supabase.rpc('next_edi_control_numbers', {
+    p_kind: kind,
+    p_count: count,
+  });
+
+  if (error || !Array.isArray(data) || data.length !== count) {
+    throw new Error(`Failed to issue ${kind} control numbers: ${error?.message || 'no data'}`);
+  }
+
+  return (data as Array<number | string>).map(String);
+}
@@ -12,9 +12,35 @@
  * - HI: Health Care Diagnosis Codes
  * - LX/SV1: Service Lines
  * - SE/GE/IEA: Trailers
+ *
+ * Batches carry many claims in one interchange: one ST per billing provider
+ * and payer, with HL levels numbered across all subscribers and patients.
+ *
+ * Secondary (COB) claims additionally carry:
+ * - 2320: Other Subscriber Information (SBR/CAS/AMT/OI)
+ * - 2330A/2330B: Other Subscriber and Other Payer names
+ * - 2430: Line Adjudication Information (SVD/CAS/DTP)
+ *
+ * 270 eligibility inquiries (005010X279A1) use the same ISA/GS envelope:
+ * - 2000A/2100A: Information Source (payer)
+ * - 2000B/2100B: Information Receiver (billing provider)
+ * - 2000C/2100C: Subscriber (the patient, with TRN, DMG, DTP*291 and EQ)
+ *
+ * 276 claim status inquiries (005010X212) likewise, one ST per billing
+ * provider and payer:
+ * - 2000A/2100A: Payer, 2000B/2100B: Information Receiver (submitter),
+ *   2000C/2100C: Service Provider (billing provider)
+ * - 2000D/2100D: Subscriber, 2000E/2100E: Dependent (when not the subscriber)
+ * - 2200D/2200E: Claim (TRN with our CLM01, REF*1K/EJ, AMT*T3, DTP*472)
  */
 
-import type { EDIClaimData } from '@/types';
+import type {
+  EDIClaimData,
+  EDIClaimStatusInquiryData,
+  EDIEnvelope,
+  EDIOtherPayerAdjustment,
+  EligibilityRequestData,
+} from '@/types';
 
 export interface EDIGenerationResult {
   success: boolean;
@@ -22,14 +48,19 @@ export interface EDIGenerationResult {
   error?: string;
 }
 
+export interface EDIBatchGenerationResult extends EDIGenerationResult {
+  // ST02 control number for each claim, keyed by claim (CLM01) control number
+  transactionSetControlNumbers?: Record<string, string>;
+}
+
 /**
  * Generate X12 837P EDI content from claim data
  */
-export function generateEDI(data: EDIClaimData): EDIGenerationResult {
+export function generateEDI(data: EDIClaimData, envelope: EDIEnvelope): EDIGenerationResult {
   try {
     console.log('[EDI] Generating 837P for patient:', `${data.patientFirstName} ${data.patientLastName}`);
 
-    const ediContent = buildX12_837P(data);
+    const ediContent = buildX12_837P(data, envelope);
 
     console.log('[EDI] Generation successful, segment count:', ediContent.split('~').length);
 
@@ -48,94 +79,433 @@ export function generateEDI(data: EDIClaimData): EDIGenerationResult {
 }
 
 /**
- * Build X12 837P content
+ * Generate one X12 837P interchange containing many claims
+ */
+export function generateBatchEDI(
+  claims: EDIClaimData[],
+  envelope: EDIEnvelope
+): EDIBatchGenerationResult {
+  try {
+    if (claims.length === 0) {
+      throw new Error('Batch has no claims');
+    }
+
+    console.log('[EDI] Generating 837P batch:', envelope.groupControlNumber, 'claims:', claims.length);
+
+    const ediContent = buildInterchange(claims, envelope);
+
+    const transactionSetControlNumbers: Record<string, string> = {};
+    groupTransactionSets(claims).forEach((group, index) => {
+      for (const claim of group.claims) {
+        transactionSetControlNumbers[claim.controlNumber] = padLeft(String(index + 1), 4, '0');
+      }
+    });
+
+    console.log('[EDI] Batch generation successful, segment count:', ediContent.split('~').length);
+
+    return {
+      success: true,
+      ediContent,
+      transactionSetControlNumbers,
+    };
+  } catch (error) {
+    console.error('[EDI] Batch generation failed:', error);
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'EDI generation failed',
+    };
+  }
+}
+
+/**
+ * Generate an X12 270 eligibility inquiry for one patient
+ */
+export function generateEligibilityRequest(
+  data: EligibilityRequestData,
+  envelope: EDIEnvelope
+): EDIGenerationResult {
+  try {
+    console.log('[EDI] Generating 270 for member:', data.memberId, 'payer:', data.payerId);
+
+    const now = new Date();
+    const segments = buildEnvelopeHeader(envelope, 'HS', '005010X279A1', now);
+
+    // ST - Transaction Set Header (270)
+    const body: string[] = [];
+    body.push(`ST*270*0001*005010X279A1~`);
+
+    // BHT - 0022 information source/receiver hierarchy, 13 = request
+    body.push(`BHT*0022*13*${data.traceNumber}*${formatDate(now, 'YYYYMMDD')}*${formatTime(now, 'HHMMSS')}~`);
+
+    // 2000A/2100A - Information Source (payer)
+    body.push(`HL*1**20*1~`);
+    body.push(`NM1*PR*2*${data.payerName}*****PI*${data.payerId}~`);
+
+    // 2000B/2100B - Information Receiver (billing provider)
+    body.push(`HL*2*1*21*1~`);
+    body.push(`NM1*1P*2*${data.providerName}*****XX*${data.providerNpi}~`);
+
+    // 2000C/2100C - Subscriber; the 271 echoes TRN02 back
+    body.push(`HL*3*2*22*0~`);
+    body.push(`TRN*1*${data.traceNumber}*1${data.providerTin.replace(/\D/g, '')}~`);
+    body.push(`NM1*IL*1*${data.lastName}*${data.firstName}****MI*${data.memberId}~`);
+    body.push(`DMG*D8*${data.dob}~`);
+    body.push(`DTP*291*D8*${data.serviceDate}~`);
+
+    // EQ - one per service type asked about (30 = health benefit plan coverage)
+    for (const serviceType of data.serviceTypes) {
+      body.push(`EQ*${serviceType}~`);
+    }
+
+    // SE - Transaction Set Trailer
+    body.push(`SE*${body.length + 1}*0001~`);
+
+    segments.push(...body);
+    segments.push(...buildEnvelopeTrailer(envelope, 1));
+
+    return { success: true, ediContent: segments.join('\n') };
+  } catch (error) {
+    console.error('[EDI] 270 generation failed:', error);
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'EDI generation failed',
+    };
+  }
+}
+
+/**
+ * Generate an X12 276 claim status inquiry for many claims
+ */
+export function generateClaimStatusInquiry(
+  claims: EDIClaimStatusInquiryData[],
+  envelope: EDIEnvelope
+): EDIGenerationResult {
+  try {
+    if (claims.length === 0) {
+      throw new Error('No claims to inquire about');
+    }
+
+    console.log('[EDI] Generating 276 for', claims.length, 'claim(s)');
+
+    const now = new Date();
+    const dateYYYYMMDD = formatDate(now, 'YYYYMMDD');
+    const timeHHMMSS = formatTime(now, 'HHMMSS');
+    const segments = buildEnvelopeHeader(envelope, 'HR', '005010X212', now);
+
+    const transactionSets = groupBy(claims, (c) => `${c.billingNpi}|${c.payerId}`);
+
+    transactionSets.forEach((group, index) => {
+      const stControlNumber = padLeft(String(index + 1), 4, '0');
+      const referenceNumber =
+        transactionSets.length === 1 ? envelope.groupControlNumber : `${envelope.groupControlNumber}${stControlNumber}`;
+      segments.push(
+        ...buildInquiryTransactionSet(group, stControlNumber, referenceNumber, dateYYYYMMDD, timeHHMMSS)
+      );
+    });
+
+    segments.push(...buildEnvelopeTrailer(envelope, transactionSets.length));
+
+    return { success: true, ediContent: segments.join('\n') };
+  } catch (error) {
+    console.error('[EDI] 276 generation failed:', error);
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'EDI generation failed',
+    };
+  }
+}
+
+/**
+ * Build X12 837P content for a single claim
+ */
+function buildX12_837P(data: EDIClaimData, envelope: EDIEnvelope): string {
+  return buildInterchange([data], envelope);
+}
+
+/**
+ * Build an X12 837P interchange
  * Each segment ends with ~
  * Elements separated by *
  * Sub-elements separated by :
+ *
+ * One ISA/GS envelope; one ST per billing provider + payer.
+ * Control numbers: ISA13 and GS06 from the envelope, ST02 0001.., CLM01 per claim.
  */
-function buildX12_837P(data: EDIClaimData): string {
-  const segments: string[] = [];
-
+function buildInterchange(claims: EDIClaimData[], envelope: EDIEnvelope): string {
   // Get current date/time for timestamps
   const now = new Date();
-  const dateYYMMDD = formatDate(now, 'YYMMDD');
   const dateYYYYMMDD = formatDate(now, 'YYYYMMDD');
-  const timeHHMM = formatTime(now, 'HHMM');
   const timeHHMMSS = formatTime(now, 'HHMMSS');
 
-  // ISA - Interchange Control Header (exactly 106 chars before ~)
-  segments.push(
-    `ISA*00*          *00*          *ZZ*${padRight(process.env.MOONLIT_SENDER_ID || 'MOONLIT', 15)}*ZZ*${padRight('OFFALLY', 15)}*${dateYYMMDD}*${timeHHMM}*^*00501*${padLeft(data.controlNumber, 9, '0')}*0*P*:~`
-  );
+  const { groupControlNumber } = envelope;
+  const segments = buildEnvelopeHeader(envelope, 'HC', '005010X222A1', now);
+
+  const transactionSets = groupTransactionSets(claims);
+
+  transactionSets.forEach((group, index) => {
+    const stControlNumber = padLeft(String(index + 1), 4, '0');
+    // BHT03 must be unique per transaction set within the interchange
+    const referenceNumber =
+      transactionSets.length === 1 ? groupControlNumber : `${groupControlNumber}${stControlNumber}`;
+    segments.push(
+      ...buildTransactionSet(group.claims, stControlNumber, referenceNumber, dateYYYYMMDD, timeHHMMSS)
+    );
+  });
+
+  segments.push(...buildEnvelopeTrailer(envelope, transactionSets.length));
+
+  return segments.join('\n');
+}
+
+/**
+ * One 276 transaction set: claims of one billing provider at one payer
+ * Every claim gets its own subscriber (and dependent) level.
+ */
+function buildInquiryTransactionSet(
+  claims: EDIClaimStatusInquiryData[],
+  stControlNumber: string,
+  referenceNumber: string,
+  dateYYYYMMDD: string,
+  timeHHMMSS: string
+): string[] {
+  const segments: string[] = [];
+  const first = claims[0];
+
+  // ST - Transaction Set Header (276)
+  segments.push(`ST*276*${stControlNumber}*005010X212~`);
+
+  // BHT - 0010 information source/receiver/provider/subscriber/dependent, 13 = request
+  segments.push(`BHT*0010*13*${referenceNumber}*${dateYYYYMMDD}*${timeHHMMSS}~`);
+
+  // 2000A/2100A - Payer
+  segments.push(`HL*1**20*1~`);
+  segments.push(`NM1*PR*2*${first.payerName}*****PI*${first.payerId}~`);
+
+  // 2000B/2100B - Information Receiver (submitter ETIN)
+  segments.push(`HL*2*1*21*1~`);
+  segments.push(`NM1*41*2*${first.billingName}*****46*${process.env.MOONLIT_SENDER_ID || 'MOONLIT'}~`);
+
+  // 2000C/2100C - Service Provider
+  segments.push(`HL*3*2*19*1~`);
+  segments.push(`NM1*1P*2*${first.billingName}*****XX*${first.billingNpi}~`);
+
+  let hlCount = 3;
+  for (const claim of claims) {
+    const isSelf = claim.subscriberRelationship === 'self';
+
+    // 2000D/2100D - Subscriber (demographics only when the patient is the subscriber)
+    const subscriberHL = ++hlCount;
+    segments.push(`HL*${subscriberHL}*3*22*${isSelf ? '0' : '1'}~`);
+    if (isSelf) {
+      segments.push(`DMG*D8*${claim.patientDob}*${claim.patientGender}~`);
+    }
+    const subscriber = splitName(claim.subscriberName);
+    segments.push(`NM1*IL*1*${subscriber.last}*${subscriber.first}****MI*${claim.memberId}~`);
+
+    // 2000E/2100E - Dependent
+    if (!isSelf) {
+      segments.push(`HL*${++hlCount}*${subscriberHL}*23~`);
+      segments.push(`DMG*D8*${claim.patientDob}*${claim.patientGender}~`);
+      segments.push(`NM1*QC*1*${claim.patientLastName}*${claim.patientFirstName}~`);
+    }
+
+    segments.push(...buildInquiryClaimLoop(claim));
+  }
+
+  // SE - Transaction Set Trailer
+  segments.push(`SE*${segments.length + 1}*${stControlNumber}~`);
+
+  return segments;
+}
+
+/**
+ * 2200D/2200E - Claim Status Tracking Number
+ * TRN02 is our CLM01, so the 277 answer reconciles like any other 277
+ */
+function buildInquiryClaimLoop(claim: EDIClaimStatusInquiryData): string[] {
+  const segments: string[] = [];
+
+  segments.push(`TRN*1*${claim.controlNumber}~`);
+  if (claim.payerClaimNumber) {
+    segments.push(`REF*1K*${claim.payerClaimNumber}~`);
+  }
+  segments.push(`REF*EJ*${claim.controlNumber}~`);
+
+  const totalCharge = claim.serviceLines.reduce((sum, line) => sum + line.charge, 0);
+  segments.push(`AMT*T3*${totalCharge.toFixed(2)}~`);
 
-  // GS - Functional Group Header
-  segments.push(
-    `GS*HC*${process.env.MOONLIT_SENDER_ID || 'MOONLIT'}*OFFALLY*${dateYYYYMMDD}*${timeHHMM}*${data.controlNumber}*X*005010X222A1~`
-  );
+  // DTP*472 - Service date, a range when the lines span several days
+  const dates = claim.serviceLines.map((line) => line.dos).sort();
+  const from = dates[0];
+  const to = dates[dates.length - 1];
+  segments.push(from === to ? `DTP*472*D8*${from}~` : `DTP*472*RD8*${from}-${to}~`);
+
+  return segments;
+}
+
+/**
+ * ISA and GS segments for one functional group
+ * functionalIdCode: GS01 (HC = 837, HS = 270, HR = 276); version: GS08
+ */
+function buildEnvelopeHeader(
+  envelope: EDIEnvelope,
+  functionalIdCode: string,
+  version: string,
+  now: Date
+): string[] {
+  const senderId = process.env.MOONLIT_SENDER_ID || 'MOONLIT';
+  const timeHHMM = formatTime(now, 'HHMM');
+
+  return [
+    // ISA - Interchange Control Header (exactly 106 chars before ~)
+    `ISA*00*          *00*          *ZZ*${padRight(senderId, 15)}*ZZ*${padRight('OFFALLY', 15)}*${formatDate(now, 'YYMMDD')}*${timeHHMM}*^*00501*${padLeft(envelope.interchangeControlNumber, 9, '0')}*0*P*:~`,
+    // GS - Functional Group Header
+    `GS*${functionalIdCode}*${senderId}*OFFALLY*${formatDate(now, 'YYYYMMDD')}*${timeHHMM}*${envelope.groupControlNumber}*X*${version}~`,
+  ];
+}
+
+/**
+ * GE and IEA segments closing a functional group of transactionSetCount transaction sets
+ */
+function buildEnvelopeTrailer(envelope: EDIEnvelope, transactionSetCount: number): string[] {
+  return [
+    // GE - Functional Group Trailer
+    `GE*${transactionSetCount}*${envelope.groupControlNumber}~`,
+    // IEA - Interchange Control Trailer
+    `IEA*1*${padLeft(envelope.interchangeControlNumber, 9, '0')}~`,
+  ];
+}
+
+/**
+ * Build one 837P transaction set (ST through SE) for claims sharing a billing provider and payer
+ */
+function buildTransactionSet(
+  claims: EDIClaimData[],
+  stControlNumber: string,
+  referenceNumber: string,
+  dateYYYYMMDD: string,
+  timeHHMMSS: string
+): string[] {
+  const segments: string[] = [];
+  const billing = claims[0];
 
   // ST - Transaction Set Header (837P)
-  segments.push(`ST*837*0001*005010X222A1~`);
+  segments.push(`ST*837*${stControlNumber}*005010X222A1~`);
 
   // BHT - Beginning of Hierarchical Transaction
-  segments.push(`BHT*0019*00*${data.controlNumber}*${dateYYYYMMDD}*${timeHHMMSS}*CH~`);
+  segments.push(`BHT*0019*00*${referenceNumber}*${dateYYYYMMDD}*${timeHHMMSS}*CH~`);
 
   // 1000A - Submitter Name
-  segments.push(`NM1*41*2*${data.billingName}*****46*${data.billingNpi}~`);
-  segments.push(`PER*IC*BILLING*TE*8015550100~`);
+  segments.push(`NM1*41*2*${billing.billingName}*****46*${billing.billingNpi}~`);
+  segments.push(`PER*IC*${billing.billingName}*TE*${billing.billingPhone}~`);
 
   // 1000B - Receiver Name (Office Ally)
   segments.push(`NM1*40*2*OFFICE ALLY*****46*OFFALLY~`);
 
   // 2000A - Billing Provider Hierarchical Level
+  let hlCount = 1;
   segments.push(`HL*1**20*1~`);
-  segments.push(`PRV*BI*PXC*207Q00000X~`); // Taxonomy code for psychiatry
+  segments.push(`PRV*BI*PXC*${billing.billingTaxonomy}~`);
 
   // 2010AA - Billing Provider Name
-  segments.push(`NM1*85*2*${data.billingName}*****XX*${data.billingNpi}~`);
-  segments.push(`N3*${data.billingAddress.street}~`);
-  segments.push(`N4*${data.billingAddress.city}*${data.billingAddress.state}*${data.billingAddress.zip}~`);
-  segments.push(`REF*EI*${data.billingTin}~`);
-
-  // 2000B - Subscriber Hierarchical Level
-  const isPatientSubscriber = data.subscriberRelationship === 'self';
-  segments.push(`HL*2*1*22*${isPatientSubscriber ? '0' : '1'}~`);
-
-  // SBR - Subscriber Information
-  const sbrRelCode = getRelationshipCode(data.subscriberRelationship);
-  segments.push(`SBR*P*${sbrRelCode}*${data.groupNumber || ''}******CI~`);
-
-  // 2010BA - Subscriber Name
-  const subscriberParts = data.subscriberName.split(' ');
-  const subLast = subscriberParts.length > 1 ? subscriberParts.slice(-1)[0] : subscriberParts[0];
-  const subFirst = subscriberParts.length > 1 ? subscriberParts.slice(0, -1).join(' ') : '';
-  segments.push(`NM1*IL*1*${subLast}*${subFirst}****MI*${data.memberId}~`);
+  segments.push(`NM1*85*2*${billing.billingName}*****XX*${billing.billingNpi}~`);
+  segments.push(`N3*${billing.billingAddress.street}~`);
+  segments.push(`N4*${billing.billingAddress.city}*${billing.billingAddress.state}*${billing.billingAddress.zip}~`);
+  segments.push(`REF*EI*${billing.billingTin}~`);
+
+  // 2010AB - Pay-to Address (only when different from billing address)
+  if (billing.payToAddress) {
+    segments.push(`NM1*87*2~`);
+    segments.push(`N3*${billing.payToAddress.street}~`);
+    segments.push(`N4*${billing.payToAddress.city}*${billing.payToAddress.state}*${billing.payToAddress.zip}~`);
+  }
 
-  if (isPatientSubscriber) {
-    // Patient is subscriber - include demographics here
-    segments.push(`N3*${data.patientAddress.street}~`);
-    segments.push(`N4*${data.patientAddress.city}*${data.patientAddress.state}*${data.patientAddress.zip}~`);
-    segments.push(`DMG*D8*${data.patientDob}*${data.patientGender}~`);
+  for (const subscriberClaims of groupBy(claims, subscriberKey)) {
+    const subscriberData = subscriberClaims[0];
+    const selfClaims = subscriberClaims.filter((c) => c.subscriberRelationship === 'self');
+    const dependents = groupBy(
+      subscriberClaims.filter((c) => c.subscriberRelationship !== 'self'),
+      patientKey
+    );
+
+    // 2000B - Subscriber Hierarchical Level (HL04 = 1 when dependent patients follow)
+    const subscriberHL = ++hlCount;
+    segments.push(`HL*${subscriberHL}*1*22*${dependents.length > 0 ? '1' : '0'}~`);
+
+    // SBR - Subscriber Information
+    // SBR01: P = billing the primary payer, S = billing the secondary payer
+    // SBR02: 18 only when the subscriber is the patient
+    const isSecondary = subscriberData.claimFilingOrder === 'secondary';
+    const sbrRelCode = selfClaims.length > 0 ? '18' : '';
+    segments.push(`SBR*${isSecondary ? 'S' : 'P'}*${sbrRelCode}*${subscriberData.groupNumber || ''}******CI~`);
+
+    // 2010BA - Subscriber Name
+    const subscriber = splitName(subscriberData.subscriberName);
+    segments.push(`NM1*IL*1*${subscriber.last}*${subscriber.first}****MI*${subscriberData.memberId}~`);
+
+    if (selfClaims.length > 0) {
+      // Patient is subscriber - include demographics here
+      const patient = selfClaims[0];
+      segments.push(`N3*${patient.patientAddress.street}~`);
+      segments.push(`N4*${patient.patientAddress.city}*${patient.patientAddress.state}*${patient.patientAddress.zip}~`);
+      segments.push(`DMG*D8*${patient.patientDob}*${patient.patientGender}~`);
+    }
+
+    // 2010BB - Payer Name
+    segments.push(`NM1*PR*2*${subscriberData.payerId}*****PI*${subscriberData.payerId}~`);
+
+    // 2300 - Claims where the patient is the subscriber
+    for (const claim of selfClaims) {
+      segments.push(...buildClaimLoop(claim));
+    }
+
+    // 2000C - Patient Hierarchical Level (only if different from subscriber)
+    for (const patientClaims of dependents) {
+      const patient = patientClaims[0];
+      segments.push(`HL*${++hlCount}*${subscriberHL}*23*0~`);
+      segments.push(`PAT*${getRelationshipCode(patient.subscriberRelationship)}~`);
+
+      // 2010CA - Patient Name
+      segments.push(`NM1*QC*1*${patient.patientLastName}*${patient.patientFirstName}~`);
+      segments.push(`N3*${patient.patientAddress.street}~`);
+      segments.push(`N4*${patient.patientAddress.city}*${patient.patientAddress.state}*${patient.patientAddress.zip}~`);
+      segments.push(`DMG*D8*${patient.patientDob}*${patient.patientGender}~`);
+
+      for (const claim of patientClaims) {
+        segments.push(...buildClaimLoop(claim));
+      }
+    }
   }
 
-  // 2010BB - Payer Name
-  segments.push(`NM1*PR*2*${data.payerId}*****PI*${data.payerId}~`);
+  // SE - Transaction Set Trailer
+  const segmentCount = segments.length + 1; // +1 for SE itself
+  segments.push(`SE*${segmentCount}*${stControlNumber}~`);
 
-  // 2000C - Patient Hierarchical Level (only if different from subscriber)
-  if (!isPatientSubscriber) {
-    segments.push(`HL*3*2*23*0~`);
-    segments.push(`PAT*${sbrRelCode}~`);
+  return segments;
+}
 
-    // 2010CA - Patient Name
-    segments.push(`NM1*QC*1*${data.patientLastName}*${data.patientFirstName}~`);
-    segments.push(`N3*${data.patientAddress.street}~`);
-    segments.push(`N4*${data.patientAddress.city}*${data.patientAddress.state}*${data.patientAddress.zip}~`);
-    segments.push(`DMG*D8*${data.patientDob}*${data.patientGender}~`);
-  }
+/**
+ * Build the 2300 Claim loop and its 2310/2320/2330/2400/2430 children
+ */
+function buildClaimLoop(data: EDIClaimData): string[] {
+  const segments: string[] = [];
 
   // 2300 - Claim Information
   const totalCharge = data.serviceLines.reduce((sum, line) => sum + line.charge, 0);
-  const pos = data.serviceLines[0]?.dos ? '11' : '11'; // Default to office
-  segments.push(`CLM*${data.controlNumber}*${totalCharge.toFixed(2)}***${pos}:B:1*Y*A*Y*Y~`);
+  const pos = data.placeOfService;
+  const frequencyCode = data.claimFrequencyCode || '1';
+  segments.push(`CLM*${data.controlNumber}*${totalCharge.toFixed(2)}***${pos}:B:${frequencyCode}*Y*A*Y*Y~`);
+
+  // REF*F8 - Payer Claim Control Number of the claim being replaced or voided
+  if (frequencyCode !== '1') {
+    if (!data.originalPayerClaimNumber) {
+      throw new Error(`Frequency code ${frequencyCode} requires the original payer claim number`);
+    }
+    segments.push(`REF*F8*${data.originalPayerClaimNumber}~`);
+  }
 
   // HI - Diagnosis Codes
   const diagCodes = data.diagnosisCodes
@@ -145,8 +515,13 @@ function buildX12_837P(data: EDIClaimData): string {
   segments.push(`HI*${diagCodes}~`);
 
   // 2310B - Rendering Provider
-  segments.push(`NM1*82*1******XX*${data.renderingNpi}~`);
-  segments.push(`PRV*PE*PXC*207Q00000X~`);
+  segments.push(`NM1*82*1*${data.renderingLastName}*${data.renderingFirstName}****XX*${data.renderingNpi}~`);
+  segments.push(`PRV*PE*PXC*${data.renderingTaxonomy}~`);
+
+  // 2320/2330 - Other Subscriber and Other Payer (COB)
+  if (data.otherPayer) {
+    segments.push(...buildOtherPayerLoops(data));
+  }
 
   // 2400 - Service Lines
   data.serviceLines.forEach((line, index) => {
@@ -154,31 +529,169 @@ function buildX12_837P(data: EDIClaimData): string {
     segments.push(`LX*${lineNum}~`);
 
     // SV1 - Professional Service
+    // SV101: HC:CPT plus up to 4 modifiers; SV105: line POS only when it differs from CLM05-1
     const diagPointers = line.diagnosisPointers.join(':');
-    const modifier = line.modifier ? `:${line.modifier}` : '';
-    segments.push(`SV1*HC:${line.cpt}${modifier}*${line.charge.toFixed(2)}*UN*${line.units}***${diagPointers}~`);
+    const modifiers = line.modifiers || [];
+    if (modifiers.length > 4) {
+      throw new Error(`Service line ${lineNum} has ${modifiers.length} modifiers (maximum 4)`);
+    }
+    const procedure = ['HC', line.cpt, ...modifiers].join(':');
+    const linePos = line.placeOfService && line.placeOfService !== pos ? line.placeOfService : '';
+    segments.push(`SV1*${procedure}*${line.charge.toFixed(2)}*UN*${line.units}*${linePos}**${diagPointers}~`);
 
     // DTP - Service Date
     segments.push(`DTP*472*D8*${line.dos}~`);
+
+    // REF*6R - Line Item Control Number; a 277CA returns it in REF*FJ for line-level statuses
+    segments.push(`REF*6R*${lineNum}~`);
+
+    // 2430 - Line Adjudication Information from the other payer
+    const adjudicatedLine = data.primaryAdjudication?.serviceLines.find(
+      (l) => l.lineNumber === lineNum
+    );
+
+    if (data.otherPayer && data.primaryAdjudication && adjudicatedLine) {
+      const lineModifier = adjudicatedLine.modifier ? `:${adjudicatedLine.modifier}` : '';
+      segments.push(
+        `SVD*${data.otherPayer.payerId}*${adjudicatedLine.paidAmount.toFixed(2)}*HC:${adjudicatedLine.procedureCode}${lineModifier}**${adjudicatedLine.units}~`
+      );
+      segments.push(...buildCASSegments(adjudicatedLine.adjustments));
+      segments.push(`DTP*573*D8*${data.primaryAdjudication.adjudicationDate}~`);
+    }
   });
 
-  // SE - Transaction Set Trailer
-  const segmentCount = segments.length + 1; // +1 for SE itself
-  segments.push(`SE*${segmentCount}*0001~`);
+  return segments;
+}
 
-  // GE - Functional Group Trailer
-  segments.push(`GE*1*${data.controlNumber}~`);
+/**
+ * Group claims into transaction sets by billing provider and payer, preserving input order
+ */
+function groupTransactionSets(claims: EDIClaimData[]): Array<{ claims: EDIClaimData[] }> {
+  return groupBy(claims, (c) => `${c.billingNpi}|${c.payerId}`).map((group) => ({ claims: group }));
+}
 
-  // IEA - Interchange Control Trailer
-  segments.push(`IEA*1*${padLeft(data.controlNumber, 9, '0')}~`);
+// Subscriber loops also differ by filing order (SBR01) and group number (SBR03)
+function subscriberKey(claim: EDIClaimData): string {
+  return [
+    claim.memberId,
+    claim.subscriberName.trim().toUpperCase(),
+    claim.claimFilingOrder || 'primary',
+    claim.groupNumber || '',
+  ].join('|');
+}
 
-  return segments.join('\n');
+function patientKey(claim: EDIClaimData): string {
+  return [
+    claim.patientLastName.trim().toUpperCase(),
+    claim.patientFirstName.trim().toUpperCase(),
+    claim.patientDob,
+    claim.subscriberRelationship,
+  ].join('|');
+}
+
+/**
+ * Build 2320 (Other Subscriber Information), 2330A (Other Subscriber Name)
+ * and 2330B (Other Payer Name) for a COB claim
+ */
+function buildOtherPayerLoops(data: EDIClaimData): string[] {
+  const segments: string[] = [];
+  const otherPayer = data.otherPayer;
+  if (!otherPayer) return segments;
+
+  const adjudication = data.primaryAdjudication;
+
+  // 2320 SBR - the other payer's responsibility sequence is the opposite of ours
+  const otherResponsibility = data.claimFilingOrder === 'secondary' ? 'P' : 'S';
+  const otherRelCode = getRelationshipCode(otherPayer.subscriberRelationship);
+  segments.push(`SBR*${otherResponsibility}*${otherRelCode}*${otherPayer.groupNumber || ''}******CI~`);
+
+  if (adjudication) {
+    // Claim-level adjustments (line-level adjustments go in 2430)
+    segments.push(...buildCASSegments(adjudication.claimAdjustments));
+
+    // AMT*D - Payer Paid Amount
+    segments.push(`AMT*D*${adjudication.paidAmount.toFixed(2)}~`);
+
+    // AMT*EAF - Remaining Patient Liability
+    if (adjudication.patientResponsibility > 0) {
+      segments.push(`AMT*EAF*${adjudication.patientResponsibility.toFixed(2)}~`);
+    }
+  }
+
+  // OI - Other Insurance Coverage (benefits assigned, release of information on file)
+  segments.push(`OI***Y*P**Y~`);
+
+  // 2330A - Other Subscriber Name
+  const otherSubscriber = splitName(otherPayer.subscriberName);
+  segments.push(`NM1*IL*1*${otherSubscriber.last}*${otherSubscriber.first}****MI*${otherPayer.memberId}~`);
+
+  // 2330B - Other Payer Name
+  segments.push(`NM1*PR*2*${otherPayer.payerName}*****PI*${otherPayer.payerId}~`);
+
+  // DTP*573 - Claim Check or Remittance Date (only when there is no line-level adjudication)
+  if (adjudication && adjudication.serviceLines.length === 0) {
+    segments.push(`DTP*573*D8*${adjudication.adjudicationDate}~`);
+  }
+
+  if (adjudication?.payerClaimNumber) {
+    // REF*F8 - Other Payer Claim Control Number
+    segments.push(`REF*F8*${adjudication.payerClaimNumber}~`);
+  }
+
+  return segments;
+}
+
+/**
+ * Build CAS segments from a list of adjustments
+ * One CAS per group code, at most six reason/amount/quantity triplets per segment
+ */
+function buildCASSegments(adjustments: EDIOtherPayerAdjustment[]): string[] {
+  const segments: string[] = [];
+  const byGroup = new Map<string, EDIOtherPayerAdjustment[]>();
+
+  for (const adj of adjustments) {
+    if (!adj.groupCode || !adj.reasonCode) continue;
+    const group = byGroup.get(adj.groupCode) || [];
+    group.push(adj);
+    byGroup.set(adj.groupCode, group);
+  }
+
+  for (const [groupCode, groupAdjustments] of byGroup) {
+    for (let i = 0; i < groupAdjustments.length; i += 6) {
+      const triplets = groupAdjustments
+        .slice(i, i + 6)
+        .map((adj) => `${adj.reasonCode}*${adj.amount.toFixed(2)}*${adj.quantity ?? ''}`)
+        .join('*');
+      segments.push(`CAS*${groupCode}*${triplets.replace(/\*+$/, '')}~`);
+    }
+  }
+
+  return segments;
 }
 
 /**
  * Helper functions
  */
 
+function splitName(fullName: string): { first: string; last: string } {
+  const parts = fullName.trim().split(' ');
+  return {
+    last: parts.length > 1 ? parts.slice(-1)[0] : parts[0],
+    first: parts.length > 1 ? parts.slice(0, -1).join(' ') : '',
+  };
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): T[][] {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const k = key(item);
+    const group = groups.get(k) || [];
+    group.push(item);
+    groups.set(k, group);
+  }
+  return [...groups.values()];
+}
+
 function padRight(str: string, length: number): string {
   return (str + ' '.repeat(length)).substring(0, length);
 }
@@ -215,10 +728,3 @@ function getRelationshipCode(rel: string): string {
   };
   return codes[rel] || '18';
 }
-
-/**
- * Generate a unique control number for EDI
- */
-export function generateControlNumber(): string {
-  return Date.now().toString().slice(-9);
-}
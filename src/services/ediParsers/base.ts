@@ -3,42 +3,125 @@
  * Common functions for parsing X12 EDI files
  *
  * EDI Structure:
- * - Segments are terminated by ~ (tilde)
- * - Elements within segments are separated by * (asterisk)
- * - Sub-elements are separated by : (colon)
- * - ISA segment is always exactly 106 characters before ~
+ * - Segments are terminated by a segment terminator (usually ~)
+ * - Elements within segments are separated by an element separator (usually *)
+ * - Sub-elements are separated by a component separator (usually :)
+ * - Repeated elements are separated by a repetition separator (usually ^)
+ * - ISA segment is always exactly 106 characters including its terminator,
+ *   so the delimiters can be read from fixed positions in it
  */
 
+export interface Delimiters {
+  element: string;     // ISA04 position 3
+  repetition: string;  // ISA11 position 82
+  component: string;   // ISA16 position 104
+  segment: string;     // position 105, right after ISA16
+}
+
 export interface Segment {
   id: string;         // Segment identifier (ISA, GS, ST, etc.)
   elements: string[]; // Array of element values (excluding segment ID)
   raw: string;        // Original segment string
+  delimiters: Delimiters; // Delimiters of the interchange the segment came from
+}
+
+export const DEFAULT_DELIMITERS: Delimiters = {
+  element: '*',
+  repetition: '^',
+  component: ':',
+  segment: '~',
+};
+
+// Fixed ISA positions, relative to the start of "ISA"
+const ISA_LENGTH = 106;
+const ISA_ELEMENT_SEPARATOR_POSITION = 3;
+const ISA_REPETITION_SEPARATOR_POSITION = 82;
+const ISA_COMPONENT_SEPARATOR_POSITION = 104;
+const ISA_SEGMENT_TERMINATOR_POSITION = 105;
+
+/**
+ * Read the delimiters from the fixed-width ISA header
+ * Falls back to the defaults when the content has no ISA (e.g. a bare ST..SE fragment)
+ */
+export function detectDelimiters(content: string): Delimiters {
+  const isaStart = content.indexOf('ISA');
+  if (isaStart === -1 || content.length < isaStart + ISA_LENGTH) {
+    return DEFAULT_DELIMITERS;
+  }
+
+  const isa = content.slice(isaStart, isaStart + ISA_LENGTH);
+  const element = isa[ISA_ELEMENT_SEPARATOR_POSITION];
+
+  // ISA is fixed-width: it has exactly 16 elements before the terminator
+  if (isa.slice(0, ISA_SEGMENT_TERMINATOR_POSITION).split(element).length !== 17) {
+    throw new Error('ISA header is not 106 characters; cannot detect delimiters');
+  }
+
+  // Before 5010, ISA11 was the "U" standards identifier rather than a separator
+  const repetition = isa[ISA_REPETITION_SEPARATOR_POSITION];
+
+  return {
+    element,
+    repetition: /[A-Za-z0-9 ]/.test(repetition) ? DEFAULT_DELIMITERS.repetition : repetition,
+    component: isa[ISA_COMPONENT_SEPARATOR_POSITION],
+    segment: isa[ISA_SEGMENT_TERMINATOR_POSITION],
+  };
 }
 
 /**
  * Parse EDI content into segments
+ * Uses the delimiters from the ISA header. A file with several interchanges
+ * is parsed with each interchange's own delimiters.
  */
 export function parseEDISegments(content: string): Segment[] {
-  // Normalize line endings and split by segment terminator
-  const normalized = content.replace(/\r\n/g, '\n').replace(/\r/g, '\n');
-
-  // Split by ~ (segment terminator), handling potential line breaks
-  const segmentStrings = normalized
-    .split('~')
-    .map((s) => s.trim())
-    .filter((s) => s.length > 0);
-
-  return segmentStrings.map((raw) => {
-    // Remove any line breaks within the segment
-    const cleanRaw = raw.replace(/\n/g, '');
-    const parts = cleanRaw.split('*');
-
-    return {
-      id: parts[0] || '',
-      elements: parts.slice(1),
-      raw: cleanRaw,
-    };
-  });
+  let start = content.indexOf('ISA');
+  if (start === -1) {
+    return splitSegments(content, DEFAULT_DELIMITERS);
+  }
+
+  const segments: Segment[] = [];
+  while (start !== -1) {
+    const delimiters = detectDelimiters(content.slice(start));
+    const next = findNextInterchange(content, start, delimiters.segment);
+    segments.push(...splitSegments(content.slice(start, next === -1 ? undefined : next), delimiters));
+    start = next;
+  }
+  return segments;
+}
+
+function splitSegments(content: string, delimiters: Delimiters): Segment[] {
+  // Line breaks between segments are formatting; line breaks inside one are data
+  return content
+    .split(delimiters.segment)
+    .map((s) => s.replace(/^[\r\n]+|[\r\n]+$/g, ''))
+    .filter((s) => s.trim().length > 0)
+    .map((raw) => {
+      const parts = raw.split(delimiters.element);
+
+      return {
+        id: (parts[0] || '').trim(),
+        elements: parts.slice(1),
+        raw,
+        delimiters,
+      };
+    });
+}
+
+/**
+ * Find the next ISA that directly follows a segment terminator (ignoring line breaks)
+ */
+function findNextInterchange(content: string, start: number, terminator: string): number {
+  let index = content.indexOf('ISA', start + ISA_LENGTH);
+
+  while (index !== -1) {
+    const before = content.slice(start, index);
+    if (before.endsWith(terminator) || before.replace(/[\r\n]+$/, '').endsWith(terminator)) {
+      return index;
+    }
+    index = content.indexOf('ISA', index + 1);
+  }
+
+  return -1;
 }
 
 /**
@@ -64,16 +147,33 @@ export function getElement(segment: Segment | undefined, index: number): string
 }
 
 /**
- * Get sub-element value (element with colon separator)
+ * Get sub-element value (element with component separator)
  * element: The element string with potential sub-elements
  * subIndex: 0-indexed position of sub-element
+ * separator: The interchange's component separator (segment.delimiters.component)
  */
-export function getSubElement(element: string, subIndex: number): string {
+export function getSubElement(
+  element: string,
+  subIndex: number,
+  separator: string = DEFAULT_DELIMITERS.component
+): string {
   if (!element) return '';
-  const parts = element.split(':');
+  const parts = element.split(separator);
   return parts[subIndex] || '';
 }
 
+/**
+ * Get a sub-element of a segment's element using the segment's own delimiters
+ */
+export function getComponent(
+  segment: Segment | undefined,
+  index: number,
+  subIndex: number
+): string {
+  if (!segment) return '';
+  return getSubElement(getElement(segment, index), subIndex, segment.delimiters.component);
+}
+
 /**
  * Extract control number from ISA segment
  * ISA13 is the Interchange Control Number (positions 91-99)
@@ -119,6 +219,96 @@ export const AK9_STATUS_CODES: Record<string, string> = {
   R: 'Rejected',
 };
 
+/**
+ * Interchange acknowledgment codes for TA104
+ */
+export const TA1_ACKNOWLEDGMENT_CODES: Record<string, string> = {
+  A: 'Interchange accepted with no errors',
+  E: 'Interchange accepted, but errors were noted',
+  R: 'Interchange rejected because of errors',
+};
+
+/**
+ * Interchange note codes for TA105
+ */
+export const TA1_NOTE_CODES: Record<string, string> = {
+  '000': 'No error',
+  '001': 'The interchange control number in the header and trailer do not match',
+  '002': 'This standard as noted in the control standards identifier is not supported',
+  '003': 'This version of the controls is not supported',
+  '004': 'The segment terminator is invalid',
+  '005': 'Invalid interchange ID qualifier for sender',
+  '006': 'Invalid interchange sender ID',
+  '007': 'Invalid interchange ID qualifier for receiver',
+  '008': 'Invalid interchange receiver ID',
+  '009': 'Unknown interchange receiver ID',
+  '010': 'Invalid authorization information qualifier value',
+  '011': 'Invalid authorization information value',
+  '012': 'Invalid security information qualifier value',
+  '013': 'Invalid security information value',
+  '014': 'Invalid interchange date value',
+  '015': 'Invalid interchange time value',
+  '016': 'Invalid interchange standards identifier value',
+  '017': 'Invalid interchange version ID value',
+  '018': 'Invalid interchange control number value',
+  '019': 'Invalid acknowledgment requested value',
+  '020': 'Invalid test indicator value',
+  '021': 'Invalid number of included groups value',
+  '022': 'Invalid control structure',
+  '023': 'Improper (premature) end-of-file (transmission)',
+  '024': 'Invalid interchange content (e.g., invalid GS segment)',
+  '025': 'Duplicate interchange control number',
+  '026': 'Invalid data element separator',
+  '027': 'Invalid component element separator',
+  '028': 'Invalid delivery date in deferred delivery request',
+  '029': 'Invalid delivery time in deferred delivery request',
+  '030': 'Invalid delivery time code in deferred delivery request',
+  '031': 'Invalid grade of service code',
+};
+
+/**
+ * Segment error codes for 999 IK304
+ */
+export const IK3_ERROR_CODES: Record<string, string> = {
+  '1': 'Unrecognized segment ID',
+  '2': 'Unexpected segment',
+  '3': 'Required segment missing',
+  '4': 'Loop occurs over maximum times',
+  '5': 'Segment exceeds maximum use',
+  '6': 'Segment not in defined transaction set',
+  '7': 'Segment not in proper sequence',
+  '8': 'Segment has data element errors',
+  I4: 'Implementation "Not Used" segment present',
+  I6: 'Implementation dependent segment missing',
+  I7: 'Implementation loop occurs under minimum times',
+  I8: 'Implementation segment below minimum use',
+  I9: 'Implementation dependent "Not Used" segment present',
+};
+
+/**
+ * Element error codes for 999 IK403
+ */
+export const IK4_ERROR_CODES: Record<string, string> = {
+  '1': 'Required data element missing',
+  '2': 'Conditional required data element missing',
+  '3': 'Too many data elements',
+  '4': 'Data element too short',
+  '5': 'Data element too long',
+  '6': 'Invalid character in data element',
+  '7': 'Invalid code value',
+  '8': 'Invalid date',
+  '9': 'Invalid time',
+  '10': 'Exclusion condition violated',
+  '12': 'Too many repetitions',
+  '13': 'Too many components',
+  I6: 'Code value not used in implementation',
+  I9: 'Implementation dependent data element missing',
+  I10: 'Implementation "Not Used" data element present',
+  I11: 'Implementation too few repetitions',
+  I12: 'Implementation pattern match failure',
+  I13: 'Implementation dependent "Not Used" data element present',
+};
+
 /**
  * 277 Status Category codes (STC01-1)
  * These are the first element of the composite STC01
@@ -153,6 +343,49 @@ export const STC_CATEGORY_CODES: Record<string, { description: string; claimStat
   WQ: { description: 'Request Not Processed', claimStatus: 'pending' },
 };
 
+/**
+ * Common 277 Health Care Claim Status codes (STC01-2, STC10-2, STC11-2)
+ * Codes not listed are shown as "Status <code>"
+ */
+export const STC_STATUS_CODES: Record<string, string> = {
+  '0': 'Cannot provide further status electronically',
+  '1': 'For more detailed information, see remittance advice',
+  '3': 'Claim has been adjudicated and is awaiting payment cycle',
+  '15': 'Requested information was not provided or was insufficient/incomplete',
+  '16': 'Claim/encounter has been forwarded to entity',
+  '19': 'Entity acknowledges receipt of claim/encounter',
+  '20': 'Accepted for processing',
+  '21': 'Missing or invalid information',
+  '33': 'Subscriber and subscriber id not found',
+  '35': 'Claim/encounter not found',
+  '116': 'Claim submitted to incorrect payer',
+  '122': 'Missing/invalid data prevents payer from processing claim',
+  '164': "Entity's contract/member number",
+  '187': 'Date(s) of service',
+  '255': 'Diagnosis code',
+  '400': 'Claim is out of balance',
+  '453': 'Procedure code modifier(s) for service(s) rendered',
+  '454': 'Procedure code for services rendered',
+  '562': "Entity's National Provider Identifier (NPI)",
+};
+
+/**
+ * 277 entity identifier codes (STC01-3): who the status is about
+ */
+export const STC_ENTITY_CODES: Record<string, string> = {
+  '03': 'Dependent',
+  '1P': 'Provider',
+  '40': 'Receiver',
+  '41': 'Submitter',
+  '77': 'Service Location',
+  '82': 'Rendering Provider',
+  '85': 'Billing Provider',
+  DN: 'Referring Provider',
+  IL: 'Insured or Subscriber',
+  PR: 'Payer',
+  QC: 'Patient',
+};
+
 /**
  * 835 CLP02 Claim Status codes
  */
@@ -168,3 +401,95 @@ export const CLP_STATUS_CODES: Record<string, { description: string; isPaid: boo
   '23': { description: 'Not Our Claim, Forwarded to Additional Payer', isPaid: false },
   '25': { description: 'Predetermination Pricing Only', isPaid: false },
 };
+
+/**
+ * 271 EB01 Eligibility or Benefit Information codes
+ */
+export const EB_INFO_CODES: Record<string, string> = {
+  '1': 'Active Coverage',
+  '2': 'Active - Full Risk Capitation',
+  '3': 'Active - Services Capitated',
+  '4': 'Active - Services Capitated to Primary Care Physician',
+  '5': 'Active - Pending Investigation',
+  '6': 'Inactive',
+  '7': 'Inactive - Pending Eligibility Update',
+  '8': 'Inactive - Pending Investigation',
+  A: 'Co-Insurance',
+  B: 'Co-Payment',
+  C: 'Deductible',
+  CB: 'Coverage Basis',
+  D: 'Benefit Description',
+  E: 'Exclusions',
+  F: 'Limitations',
+  G: 'Out of Pocket (Stop Loss)',
+  H: 'Unlimited',
+  I: 'Non-Covered',
+  J: 'Cost Containment',
+  K: 'Reserve',
+  L: 'Primary Care Provider',
+  M: 'Pre-existing Condition',
+  MC: 'Managed Care Coordinator',
+  N: 'Services Restricted to Following Provider',
+  O: 'Not Deemed a Medical Necessity',
+  P: 'Benefit Disclaimer',
+  Q: 'Second Surgical Opinion Required',
+  R: 'Other or Additional Payor',
+  S: 'Prior Year(s) History',
+  T: 'Card(s) Reported Lost/Stolen',
+  U: 'Contact Following Entity for Eligibility or Benefit Information',
+  V: 'Cannot Process',
+  W: 'Other Source of Data',
+  X: 'Health Care Facility',
+  Y: 'Spend Down',
+};
+
+/**
+ * 271 AAA03 Reject Reason codes (request validation errors)
+ */
+export const AAA_REJECT_REASON_CODES: Record<string, string> = {
+  '04': 'Authorized Quantity Exceeded',
+  '15': 'Required application data missing',
+  '33': 'Input Errors',
+  '35': 'Out of Network',
+  '41': 'Authorization/Access Restrictions',
+  '42': 'Unable to Respond at Current Time',
+  '43': 'Invalid/Missing Provider Identification',
+  '44': 'Invalid/Missing Provider Name',
+  '45': 'Invalid/Missing Provider Specialty',
+  '46': 'Invalid/Missing Provider Phone Number',
+  '47': 'Invalid/Missing Provider State',
+  '48': 'Invalid/Missing Referring Provider Identification Number',
+  '49': 'Provider is Not Primary Care Physician',
+  '50': 'Provider Ineligible for Inquiries',
+  '51': 'Provider Not on File',
+  '52': 'Service Dates Not Within Provider Plan Enrollment',
+  '53': 'Inquired Benefit Inconsistent with Provider Type',
+  '54': 'Inappropriate Product/Service ID Qualifier',
+  '55': 'Inappropriate Product/Service ID',
+  '56': 'Inappropriate Date',
+  '57': 'Invalid/Missing Date(s) of Service',
+  '58': 'Invalid/Missing Date-of-Birth',
+  '60': 'Date of Birth Follows Date(s) of Service',
+  '61': 'Date of Death Precedes Date(s) of Service',
+  '62': 'Date of Service Not Within Allowable Inquiry Period',
+  '63': 'Date of Service in Future',
+  '64': 'Invalid/Missing Patient ID',
+  '65': 'Invalid/Missing Patient Name',
+  '66': 'Invalid/Missing Patient Gender Code',
+  '67': 'Patient Not Found',
+  '68': 'Duplicate Patient ID Number',
+  '69': 'Inconsistent with Patient\'s Age',
+  '70': 'Inconsistent with Patient\'s Gender',
+  '71': 'Patient Birth Date Does Not Match That for the Patient on the Database',
+  '72': 'Invalid/Missing Subscriber/Insured ID',
+  '73': 'Invalid/Missing Subscriber/Insured Name',
+  '74': 'Invalid/Missing Subscriber/Insured Gender Code',
+  '75': 'Subscriber/Insured Not Found',
+  '76': 'Duplicate Subscriber/Insured ID Number',
+  '77': 'Subscriber Found, Patient Not Found',
+  '78': 'Subscriber/Insured Not in Group/Plan Identified',
+  '79': 'Invalid Participant Identification',
+  '80': 'No Response received - Transaction Terminated',
+  '97': 'Invalid or Missing Provider Address',
+  T4: 'Payer Name or Identifier Missing',
+};
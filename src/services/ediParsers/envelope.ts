@@ -0,0 +1,291 @@
+/**
+ * X12 Envelope Parser
+ * Splits parsed segments into interchanges (ISA/IEA), functional groups
+ * (GS/GE) and transaction sets (ST/SE), and validates the trailers
+ *
+ * A single file may hold several interchanges, each with several groups and
+ * transaction sets. Trailer checks:
+ * - SE01 = number of segments from ST to SE inclusive, SE02 = ST02
+ * - GE01 = number of transaction sets in the group, GE02 = GS06
+ * - IEA01 = number of groups in the interchange, IEA02 = ISA13
+ *
+ * Envelope errors are returned rather than thrown so callers can decide
+ * whether a structurally damaged file is still usable.
+ */
+
+import { getElement, Delimiters, Segment } from './base';
+
+export type EnvelopeLevel = 'interchange' | 'group' | 'transaction_set';
+
+export interface EnvelopeError {
+  level: EnvelopeLevel;
+  controlNumber: string; // ISA13, GS06 or ST02 of the envelope in error
+  segmentId: string;     // Segment where the problem was found
+  message: string;
+}
+
+export interface TransactionSet {
+  transactionSetId: string;          // ST01 (999, 277, 835, ...)
+  controlNumber: string;             // ST02
+  groupControlNumber: string;        // GS06 of the enclosing group
+  interchangeControlNumber: string;  // ISA13 of the enclosing interchange
+  segments: Segment[];               // ST through SE inclusive
+}
+
+export interface FunctionalGroup {
+  functionalIdCode: string; // GS01 (FA = 999, HN = 277, HP = 835)
+  senderId: string;         // GS02
+  receiverId: string;       // GS03
+  date: string;             // GS04
+  controlNumber: string;    // GS06
+  version: string;          // GS08
+  transactionSets: TransactionSet[];
+}
+
+export interface Interchange {
+  senderId: string;       // ISA06
+  receiverId: string;     // ISA08
+  date: string;           // ISA09
+  time: string;           // ISA10
+  controlNumber: string;  // ISA13
+  usageIndicator: string; // ISA15 (P = production, T = test)
+  delimiters: Delimiters;
+  groups: FunctionalGroup[];
+  acknowledgments: Segment[]; // TA1 segments answering other interchanges
+}
+
+export interface ParsedEnvelope {
+  interchanges: Interchange[];
+  errors: EnvelopeError[];
+}
+
+/**
+ * Build the envelope structure from parsed segments and validate its trailers
+ */
+export function parseEnvelope(segments: Segment[]): ParsedEnvelope {
+  const interchanges: Interchange[] = [];
+  const errors: EnvelopeError[] = [];
+
+  let interchange: Interchange | null = null;
+  let group: FunctionalGroup | null = null;
+  let transactionSet: TransactionSet | null = null;
+
+  const addError = (level: EnvelopeLevel, controlNumber: string, segmentId: string, message: string) => {
+    errors.push({ level, controlNumber, segmentId, message });
+  };
+
+  const closeTransactionSet = (segmentId: string) => {
+    if (transactionSet && group) {
+      addError('transaction_set', transactionSet.controlNumber, segmentId, `Transaction set ${transactionSet.controlNumber} has no SE trailer`);
+      group.transactionSets.push(transactionSet);
+    }
+    transactionSet = null;
+  };
+
+  const closeGroup = (segmentId: string) => {
+    closeTransactionSet(segmentId);
+    if (group && interchange) {
+      addError('group', group.controlNumber, segmentId, `Functional group ${group.controlNumber} has no GE trailer`);
+      interchange.groups.push(group);
+    }
+    group = null;
+  };
+
+  const closeInterchange = (segmentId: string) => {
+    closeGroup(segmentId);
+    if (interchange) {
+      addError('interchange', interchange.controlNumber, segmentId, `Interchange ${interchange.controlNumber} has no IEA trailer`);
+      interchanges.push(interchange);
+    }
+    interchange = null;
+  };
+
+  for (const segment of segments) {
+    switch (segment.id) {
+      case 'ISA': {
+        closeInterchange('ISA');
+        interchange = {
+          senderId: getElement(segment, 5).trim(),
+          receiverId: getElement(segment, 7).trim(),
+          date: getElement(segment, 8),
+          time: getElement(segment, 9),
+          controlNumber: getElement(segment, 12).trim(),
+          usageIndicator: getElement(segment, 14),
+          delimiters: segment.delimiters,
+          groups: [],
+          acknowledgments: [],
+        };
+        break;
+      }
+
+      case 'GS': {
+        closeGroup('GS');
+        const controlNumber = getElement(segment, 5).trim();
+        if (!interchange) {
+          addError('group', controlNumber, 'GS', `Functional group ${controlNumber} is outside an interchange`);
+          break;
+        }
+        group = {
+          functionalIdCode: getElement(segment, 0),
+          senderId: getElement(segment, 1).trim(),
+          receiverId: getElement(segment, 2).trim(),
+          date: getElement(segment, 3),
+          controlNumber,
+          version: getElement(segment, 7),
+          transactionSets: [],
+        };
+        break;
+      }
+
+      case 'ST': {
+        closeTransactionSet('ST');
+        const controlNumber = getElement(segment, 1).trim();
+        if (!group) {
+          addError('transaction_set', controlNumber, 'ST', `Transaction set ${controlNumber} is outside a functional group`);
+          break;
+        }
+        if (group.transactionSets.some((ts) => ts.controlNumber === controlNumber)) {
+          addError('transaction_set', controlNumber, 'ST', `Transaction set control number ${controlNumber} is repeated in group ${group.controlNumber}`);
+        }
+        transactionSet = {
+          transactionSetId: getElement(segment, 0),
+          controlNumber,
+          groupControlNumber: group.controlNumber,
+          interchangeControlNumber: interchange?.controlNumber || '',
+          segments: [segment],
+        };
+        break;
+      }
+
+      case 'SE': {
+        if (!transactionSet || !group) {
+          addError('transaction_set', getElement(segment, 1).trim(), 'SE', 'SE trailer without a matching ST');
+          break;
+        }
+        const current: TransactionSet = transactionSet;
+        current.segments.push(segment);
+
+        const declaredCount = parseInt(getElement(segment, 0), 10);
+        if (declaredCount !== current.segments.length) {
+          addError('transaction_set', current.controlNumber, 'SE', `SE01 says ${getElement(segment, 0) || 'nothing'} segments but transaction set ${current.controlNumber} has ${current.segments.length}`);
+        }
+        if (!sameControlNumber(getElement(segment, 1), current.controlNumber)) {
+          addError('transaction_set', current.controlNumber, 'SE', `SE02 ${getElement(segment, 1)} does not match ST02 ${current.controlNumber}`);
+        }
+
+        group.transactionSets.push(current);
+        transactionSet = null;
+        break;
+      }
+
+      case 'GE': {
+        closeTransactionSet('GE');
+        if (!group || !interchange) {
+          addError('group', getElement(segment, 1).trim(), 'GE', 'GE trailer without a matching GS');
+          break;
+        }
+        const current: FunctionalGroup = group;
+
+        if (parseInt(getElement(segment, 0), 10) !== current.transactionSets.length) {
+          addError('group', current.controlNumber, 'GE', `GE01 says ${getElement(segment, 0) || 'nothing'} transaction sets but group ${current.controlNumber} has ${current.transactionSets.length}`);
+        }
+        if (!sameControlNumber(getElement(segment, 1), current.controlNumber)) {
+          addError('group', current.controlNumber, 'GE', `GE02 ${getElement(segment, 1)} does not match GS06 ${current.controlNumber}`);
+        }
+
+        interchange.groups.push(current);
+        group = null;
+        break;
+      }
+
+      case 'IEA': {
+        closeGroup('IEA');
+        if (!interchange) {
+          addError('interchange', getElement(segment, 1).trim(), 'IEA', 'IEA trailer without a matching ISA');
+          break;
+        }
+        const current: Interchange = interchange;
+
+        if (parseInt(getElement(segment, 0), 10) !== current.groups.length) {
+          addError('interchange', current.controlNumber, 'IEA', `IEA01 says ${getElement(segment, 0) || 'nothing'} functional groups but interchange ${current.controlNumber} has ${current.groups.length}`);
+        }
+        if (!sameControlNumber(getElement(segment, 1), current.controlNumber)) {
+          addError('interchange', current.controlNumber, 'IEA', `IEA02 ${getElement(segment, 1)} does not match ISA13 ${current.controlNumber}`);
+        }
+
+        interchanges.push(current);
+        interchange = null;
+        break;
+      }
+
+      // TA1 answers an interchange and sits between ISA and IEA, outside any group
+      case 'TA1': {
+        if (!interchange || group) {
+          addError('interchange', getElement(segment, 0).trim(), 'TA1', 'TA1 is outside an interchange or inside a functional group');
+          break;
+        }
+        (interchange as Interchange).acknowledgments.push(segment);
+        break;
+      }
+
+      default: {
+        if (transactionSet) {
+          (transactionSet as TransactionSet).segments.push(segment);
+        } else {
+          addError('transaction_set', '', segment.id, `Segment ${segment.id} is outside a transaction set`);
+        }
+      }
+    }
+  }
+
+  closeInterchange('end of file');
+
+  return { interchanges, errors };
+}
+
+/**
+ * All transaction sets in the file of one type (ST01), in order
+ */
+export function getTransactionSets(envelope: ParsedEnvelope, transactionSetId?: string): TransactionSet[] {
+  return envelope.interchanges
+    .flatMap((isa) => isa.groups.flatMap((gs) => gs.transactionSets))
+    .filter((ts) => !transactionSetId || ts.transactionSetId === transactionSetId);
+}
+
+/**
+ * Split a file into transaction sets of one type
+ * Content without an envelope (a bare fragment) is treated as one transaction set.
+ */
+export function splitTransactionSets(
+  segments: Segment[],
+  transactionSetId: string
+): { transactionSets: TransactionSet[]; errors: EnvelopeError[] } {
+  if (!segments.some((s) => s.id === 'ISA')) {
+    return {
+      transactionSets: [
+        {
+          transactionSetId,
+          controlNumber: getElement(segments.find((s) => s.id === 'ST'), 1),
+          groupControlNumber: getElement(segments.find((s) => s.id === 'GS'), 5),
+          interchangeControlNumber: '',
+          segments,
+        },
+      ],
+      errors: [],
+    };
+  }
+
+  const envelope = parseEnvelope(segments);
+  return {
+    transactionSets: getTransactionSets(envelope, transactionSetId),
+    errors: envelope.errors,
+  };
+}
+
+/**
+ * Compare control numbers ignoring padding (ISA13 is zero-padded, ST02/GS06 often are)
+ */
+export function sameControlNumber(a: string, b: string): boolean {
+  const normalize = (value: string) => value.trim().replace(/^0+(?=\d)/, '');
+  return normalize(a) === normalize(b);
+}
@@ -5,18 +5,54 @@
 // Base utilities
 export {
   parseEDISegments,
+  detectDelimiters,
+  DEFAULT_DELIMITERS,
   findSegment,
   findSegments,
   getElement,
   getSubElement,
+  getComponent,
   extractISAControlNumber,
   extractGSControlNumber,
+  TA1_ACKNOWLEDGMENT_CODES,
+  TA1_NOTE_CODES,
+  IK3_ERROR_CODES,
+  IK4_ERROR_CODES,
   IK5_STATUS_CODES,
   AK9_STATUS_CODES,
   STC_CATEGORY_CODES,
   CLP_STATUS_CODES,
+  EB_INFO_CODES,
+  AAA_REJECT_REASON_CODES,
 } from './base';
-export type { Segment } from './base';
+export type { Segment, Delimiters } from './base';
+
+// Envelope (ISA/GS/ST) parsing and validation
+export { parseEnvelope, getTransactionSets, splitTransactionSets } from './envelope';
+export type {
+  ParsedEnvelope,
+  Interchange,
+  FunctionalGroup,
+  TransactionSet,
+  EnvelopeError,
+  EnvelopeLevel,
+} from './envelope';
+
+// Loop tree built from per-transaction-set loop definitions
+export {
+  buildLoopTree,
+  buildTransactionSetTree,
+  childLoops,
+  findLoops,
+  loopSegment,
+  loopSegments,
+  TRANSACTION_SET_LOOPS,
+} from './loops';
+export type { Loop, LoopDefinition } from './loops';
+
+// TA1 Interchange Acknowledgment Parser
+export { parseTA1 } from './parseTA1';
+export type { ParseTA1Result } from './parseTA1';
 
 // 999 Functional Acknowledgment Parser
 export { parse999, is999Accepted } from './parse999';
@@ -31,6 +67,10 @@ export {
 } from './parse277';
 export type { Parse277Result } from './parse277';
 
+// 271 Eligibility Response Parser
+export { parse271 } from './parse271';
+export type { Parse271Result } from './parse271';
+
 // 835 Electronic Remittance Advice Parser
 export {
   parse835,
@@ -0,0 +1,346 @@
+/**
+ * X12 Loop Tree
+ * Builds the loop hierarchy of a transaction set from a declarative
+ * definition, so segments are read from the loop they belong to instead of
+ * "everything after this segment until the next one like it"
+ *
+ * Each loop is started by a trigger segment (optionally with a qualifier,
+ * e.g. HL03 = 22 or N1*PR) and owns the segments listed for it until a
+ * segment arrives that belongs to a sibling or an ancestor loop.
+ *
+ * Loop ids follow the implementation guides:
+ * - 999: header → 2000 (AK2) → 2100 (IK3) → 2110 (IK4)
+ * - 277: 2000A (HL*20) → 2000B (HL*21) → 2000C (HL*19) → 2000D (HL*22, or HL*PT in a
+ *        277CA, which has no 2000E) → 2000E (HL*23), each with 2100x (NM1), 2200x (TRN)
+ *        and, for D/E, 2220x (SVC)
+ * - 271: 2000A (HL*20) → 2000B (HL*21) → 2000C (HL*22) → 2000D (HL*23), each with 2100x (NM1),
+ *        benefits in 2110C/2110D (EB) → 2120x (NM1 between LS and LE)
+ * - 835: header → 1000A (N1*PR) / 1000B (N1*PE) → 2000 (LX) → 2100 (CLP) → 2110 (SVC)
+ * - 837P: 2000A (HL*20) → 2000B (HL*22) → 2000C (HL*23), each with 2010xx (NM1),
+ *         claims in 2300 (CLM) → 2310x / 2320 → 2330x / 2400 (LX) → 2430 (SVD)
+ */
+
+import { getElement, Segment } from './base';
+
+export interface LoopDefinition {
+  id: string;
+  trigger: string;                                // Segment that starts the loop
+  qualifier?: { element: number; values: string[] }; // Trigger element that must match
+  segments: string[];                             // Other segments the loop owns
+  children?: LoopDefinition[];
+}
+
+export interface Loop {
+  id: string;          // Loop id, or 'ST' for the transaction set itself
+  segments: Segment[]; // Segments directly in this loop, starting with its trigger
+  loops: Loop[];       // Child loops, in file order
+}
+
+/**
+ * 999 Implementation Acknowledgment (005010X231A1)
+ */
+const LOOPS_999: LoopDefinition = {
+  id: 'ST',
+  trigger: 'ST',
+  segments: ['AK1', 'AK9', 'SE'],
+  children: [
+    {
+      id: '2000',
+      trigger: 'AK2',
+      segments: ['IK5'],
+      children: [
+        {
+          id: '2100',
+          trigger: 'IK3',
+          segments: ['CTX'],
+          children: [{ id: '2110', trigger: 'IK4', segments: ['CTX'] }],
+        },
+      ],
+    },
+  ],
+};
+
+/**
+ * 277 Claim Status / Claim Acknowledgment (005010X212, 005010X214)
+ */
+const loops277 = (level: string, hlCodes: string[], children: LoopDefinition[] = []): LoopDefinition => ({
+  id: `2000${level}`,
+  trigger: 'HL',
+  qualifier: { element: 2, values: hlCodes },
+  segments: ['DMG'],
+  children: [
+    { id: `2100${level}`, trigger: 'NM1', segments: ['N3', 'N4', 'PER', 'REF'] },
+    {
+      id: `2200${level}`,
+      trigger: 'TRN',
+      segments: ['STC', 'REF', 'DTP', 'QTY', 'AMT'],
+      children:
+        level === 'D' || level === 'E'
+          ? [{ id: `2220${level}`, trigger: 'SVC', segments: ['STC', 'REF', 'DTP'] }]
+          : [],
+    },
+    ...children,
+  ],
+});
+
+const LOOPS_277: LoopDefinition = {
+  id: 'ST',
+  trigger: 'ST',
+  segments: ['BHT', 'SE'],
+  children: [
+    loops277('A', ['20'], [
+      loops277('B', ['21'], [
+        loops277('C', ['19'], [
+          // 277CA (005010X214) patients are HL03 = PT, with their claims directly under them
+          loops277('D', ['22', 'PT'], [loops277('E', ['23'])]),
+        ]),
+      ]),
+    ]),
+  ],
+};
+
+/**
+ * 271 Eligibility, Coverage or Benefit Information (005010X279A1)
+ */
+const loops271 = (level: string, hlCode: string, children: LoopDefinition[] = []): LoopDefinition => ({
+  id: `2000${level}`,
+  trigger: 'HL',
+  qualifier: { element: 2, values: [hlCode] },
+  segments: ['AAA', 'TRN'],
+  children: [
+    {
+      id: `2100${level}`,
+      trigger: 'NM1',
+      segments: ['REF', 'N3', 'N4', 'PER', 'AAA', 'PRV', 'DMG', 'INS', 'HI', 'DTP', 'MPI'],
+      children:
+        level === 'C' || level === 'D'
+          ? [
+              {
+                id: `2110${level}`,
+                trigger: 'EB',
+                segments: ['HSD', 'REF', 'DTP', 'AAA', 'MSG', 'III', 'LS', 'LE'],
+                children: [{ id: `2120${level}`, trigger: 'NM1', segments: ['N3', 'N4', 'PER', 'PRV'] }],
+              },
+            ]
+          : [],
+    },
+    ...children,
+  ],
+});
+
+const LOOPS_271: LoopDefinition = {
+  id: 'ST',
+  trigger: 'ST',
+  segments: ['BHT', 'SE'],
+  children: [
+    loops271('A', '20', [
+      loops271('B', '21', [
+        loops271('C', '22', [loops271('D', '23')]),
+      ]),
+    ]),
+  ],
+};
+
+/**
+ * 835 Health Care Claim Payment/Advice (005010X221A1)
+ * LX is situational, so a claim (2100) may also follow the header directly
+ */
+const LOOP_835_CLAIM: LoopDefinition = {
+  id: '2100',
+  trigger: 'CLP',
+  segments: ['CAS', 'NM1', 'MIA', 'MOA', 'REF', 'DTM', 'PER', 'AMT', 'QTY'],
+  children: [
+    { id: '2110', trigger: 'SVC', segments: ['DTM', 'CAS', 'REF', 'AMT', 'QTY', 'LQ'] },
+  ],
+};
+
+const LOOPS_835: LoopDefinition = {
+  id: 'ST',
+  trigger: 'ST',
+  segments: ['BPR', 'TRN', 'CUR', 'REF', 'DTM', 'PLB', 'SE'],
+  children: [
+    { id: '1000A', trigger: 'N1', qualifier: { element: 0, values: ['PR'] }, segments: ['N3', 'N4', 'REF', 'PER'] },
+    { id: '1000B', trigger: 'N1', qualifier: { element: 0, values: ['PE'] }, segments: ['N3', 'N4', 'REF', 'RDM'] },
+    { id: '2000', trigger: 'LX', segments: ['TS3', 'TS2'], children: [LOOP_835_CLAIM] },
+    LOOP_835_CLAIM,
+  ],
+};
+
+/**
+ * 837P Health Care Claim: Professional (005010X222A1)
+ * Read back from our own submissions to locate the segments a 999 reports errors in
+ */
+const nm1Loop = (id: string, qualifier: string, segments: string[] = ['N3', 'N4', 'REF']): LoopDefinition => ({
+  id,
+  trigger: 'NM1',
+  qualifier: { element: 0, values: [qualifier] },
+  segments,
+});
+
+const LOOP_837_CLAIM: LoopDefinition = {
+  id: '2300',
+  trigger: 'CLM',
+  segments: ['DTP', 'PWK', 'CN1', 'AMT', 'REF', 'K3', 'NTE', 'CR1', 'CRC', 'HI', 'HCP'],
+  children: [
+    nm1Loop('2310A', 'DN', ['REF']),
+    nm1Loop('2310B', '82', ['PRV', 'REF']),
+    nm1Loop('2310C', '77'),
+    {
+      id: '2320',
+      trigger: 'SBR',
+      segments: ['CAS', 'AMT', 'OI', 'MOA'],
+      children: [nm1Loop('2330A', 'IL'), nm1Loop('2330B', 'PR', ['N3', 'N4', 'DTP', 'REF'])],
+    },
+    {
+      id: '2400',
+      trigger: 'LX',
+      segments: ['SV1', 'PWK', 'CR1', 'DTP', 'QTY', 'MEA', 'CN1', 'REF', 'AMT', 'K3', 'NTE', 'PS1', 'HCP'],
+      children: [
+        nm1Loop('2420A', '82', ['PRV', 'REF']),
+        { id: '2430', trigger: 'SVD', segments: ['CAS', 'DTP', 'AMT'] },
+      ],
+    },
+  ],
+};
+
+const LOOPS_837: LoopDefinition = {
+  id: 'ST',
+  trigger: 'ST',
+  segments: ['BHT', 'SE'],
+  children: [
+    nm1Loop('1000A', '41', ['PER']),
+    nm1Loop('1000B', '40', []),
+    {
+      id: '2000A',
+      trigger: 'HL',
+      qualifier: { element: 2, values: ['20'] },
+      segments: ['PRV', 'CUR'],
+      children: [
+        nm1Loop('2010AA', '85', ['N3', 'N4', 'REF', 'PER']),
+        nm1Loop('2010AB', '87', ['N3', 'N4']),
+        {
+          id: '2000B',
+          trigger: 'HL',
+          qualifier: { element: 2, values: ['22'] },
+          segments: ['SBR', 'PAT'],
+          children: [
+            nm1Loop('2010BA', 'IL', ['N3', 'N4', 'DMG', 'REF']),
+            nm1Loop('2010BB', 'PR'),
+            LOOP_837_CLAIM,
+            {
+              id: '2000C',
+              trigger: 'HL',
+              qualifier: { element: 2, values: ['23'] },
+              segments: ['PAT'],
+              children: [nm1Loop('2010CA', 'QC', ['N3', 'N4', 'DMG', 'REF']), LOOP_837_CLAIM],
+            },
+          ],
+        },
+      ],
+    },
+  ],
+};
+
+/**
+ * Loop definitions by transaction set (ST01), rooted at the ST..SE level
+ */
+export const TRANSACTION_SET_LOOPS: Record<string, LoopDefinition> = {
+  '999': LOOPS_999,
+  '271': LOOPS_271,
+  '277': LOOPS_277,
+  '835': LOOPS_835,
+  '837': LOOPS_837,
+};
+
+/**
+ * Build the loop tree for one transaction set (ST through SE)
+ * Header and trailer segments (ST, BPR, AK1, PLB, SE, ...) stay on the root.
+ */
+export function buildLoopTree(segments: Segment[], definition: LoopDefinition): Loop {
+  const root: Loop = { id: definition.id, segments: [], loops: [] };
+
+  // Open loops from the root down to the current one
+  const stack: Array<{ loop: Loop; definition: LoopDefinition }> = [{ loop: root, definition }];
+
+  for (const segment of segments) {
+    if (segment.id === definition.trigger && root.segments.length === 0) {
+      root.segments.push(segment);
+      continue;
+    }
+
+    let placed = false;
+
+    // Walk up from the innermost open loop to the first one that can take the segment
+    for (let level = stack.length - 1; level >= 0 && !placed; level--) {
+      const current = stack[level];
+
+      const child = current.definition.children?.find((c) => startsLoop(c, segment));
+      if (child) {
+        const opened: Loop = { id: child.id, segments: [segment], loops: [] };
+        current.loop.loops.push(opened);
+        stack.length = level + 1;
+        stack.push({ loop: opened, definition: child });
+        placed = true;
+      } else if (current.definition.segments.includes(segment.id)) {
+        current.loop.segments.push(segment);
+        stack.length = level + 1;
+        placed = true;
+      }
+    }
+
+    // Unknown segments stay in the current loop rather than closing it
+    if (!placed) {
+      stack[stack.length - 1].loop.segments.push(segment);
+    }
+  }
+
+  return root;
+}
+
+/**
+ * Build the loop tree for a transaction set using its registered definition
+ */
+export function buildTransactionSetTree(transactionSetId: string, segments: Segment[]): Loop {
+  const definition = TRANSACTION_SET_LOOPS[transactionSetId];
+  if (!definition) {
+    throw new Error(`No loop definition for transaction set ${transactionSetId}`);
+  }
+  return buildLoopTree(segments, definition);
+}
+
+/**
+ * Direct child loops with an id
+ */
+export function childLoops(loop: Loop, id: string): Loop[] {
+  return loop.loops.filter((l) => l.id === id);
+}
+
+/**
+ * All descendant loops with an id, in file order
+ */
+export function findLoops(loop: Loop, id: string): Loop[] {
+  return loop.loops.flatMap((l) => (l.id === id ? [l, ...findLoops(l, id)] : findLoops(l, id)));
+}
+
+/**
+ * Segments directly in a loop, optionally filtered by their first element (qualifier)
+ */
+export function loopSegments(loop: Loop | undefined, id: string, qualifier?: string): Segment[] {
+  if (!loop) return [];
+  return loop.segments.filter(
+    (s) => s.id === id && (qualifier === undefined || getElement(s, 0) === qualifier)
+  );
+}
+
+/**
+ * First segment directly in a loop, optionally matching its first element (qualifier)
+ */
+export function loopSegment(loop: Loop | undefined, id: string, qualifier?: string): Segment | undefined {
+  return loopSegments(loop, id, qualifier)[0];
+}
+
+function startsLoop(definition: LoopDefinition, segment: Segment): boolean {
+  if (segment.id !== definition.trigger) return false;
+  if (!definition.qualifier) return true;
+  return definition.qualifier.values.includes(getElement(segment, definition.qualifier.element));
+}
@@ -0,0 +1,226 @@
+/**
+ * 271 Eligibility Response Parser
+ * Parses X12 271 (Eligibility, Coverage or Benefit Information) files
+ *
+ * A 271 answers our 270: the payer (2100A) tells the information receiver
+ * (2100B) about the subscriber (2100C) or a dependent (2100D).
+ *
+ * Key segments:
+ * - TRN: Trace Number (echoes the TRN02 of our 270)
+ * - AAA: Request validation error (subscriber not found, invalid DOB, ...)
+ * - REF: Group (6P) and plan (18) numbers
+ * - DTP: Plan and eligibility dates (291, 346/347, 356/357, 307)
+ * - EB: Eligibility or benefit information; one per coverage status, copay,
+ *   coinsurance, deductible, ... each for some service types (EB03)
+ * - MSG: Free-form benefit notes under an EB
+ */
+
+import type { Parsed271, Parsed271Benefit, Parsed271Error } from '@/types';
+import {
+  parseEDISegments,
+  getElement,
+  getComponent,
+  extractISAControlNumber,
+  Segment,
+  AAA_REJECT_REASON_CODES,
+  EB_INFO_CODES,
+} from './base';
+import { splitTransactionSets, EnvelopeError } from './envelope';
+import { buildTransactionSetTree, childLoops, findLoops, loopSegment, loopSegments, Loop } from './loops';
+
+export interface Parse271Result {
+  success: boolean;
+  data?: Parsed271;          // First response in the file
+  responses?: Parsed271[];   // One per subscriber or dependent answered
+  envelopeErrors?: EnvelopeError[];
+  error?: string;
+}
+
+// DTP qualifiers that open and close coverage
+const COVERAGE_START_QUALIFIERS = ['346', '356', '291', '307'];
+const COVERAGE_END_QUALIFIERS = ['347', '357'];
+
+/**
+ * Parse a 271 Eligibility Response file
+ */
+export function parse271(content: string): Parse271Result {
+  try {
+    const segments = parseEDISegments(content);
+
+    if (segments.length === 0) {
+      return { success: false, error: 'No segments found in 271 file' };
+    }
+
+    const isaControlNumber = extractISAControlNumber(segments);
+
+    const { transactionSets, errors } = splitTransactionSets(segments, '271');
+    const responses = transactionSets.flatMap((ts) =>
+      parseResponses(buildTransactionSetTree('271', ts.segments), isaControlNumber)
+    );
+
+    if (responses.length === 0) {
+      return { success: false, error: 'No eligibility responses found in 271 file', envelopeErrors: errors };
+    }
+
+    return {
+      success: true,
+      data: responses[0],
+      responses,
+      envelopeErrors: errors.length > 0 ? errors : undefined,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to parse 271 file',
+    };
+  }
+}
+
+/**
+ * One response per subscriber (2000C), or per dependent (2000D) under it
+ * Payer (2100A) and receiver (2100B) errors apply to every response below them.
+ */
+function parseResponses(tree: Loop, isaControlNumber: string): Parsed271[] {
+  const responses: Parsed271[] = [];
+
+  for (const source of findLoops(tree, '2000A')) {
+    const payer = loopSegment(childLoops(source, '2100A')[0], 'NM1');
+    const sourceErrors = [source, ...childLoops(source, '2100A')].flatMap(parseErrors);
+
+    for (const receiver of childLoops(source, '2000B')) {
+      const receiverErrors = [receiver, ...childLoops(receiver, '2100B')].flatMap(parseErrors);
+
+      for (const subscriber of childLoops(receiver, '2000C')) {
+        const subscriberName = childLoops(subscriber, '2100C')[0];
+        const subscriberNm1 = loopSegment(subscriberName, 'NM1');
+        const dependents = childLoops(subscriber, '2000D');
+        const members = dependents.length > 0 ? dependents : [subscriber];
+
+        for (const member of members) {
+          const level = member.id.slice(-1); // C or D
+          const nameLoop = childLoops(member, `2100${level}`)[0];
+          const name = loopSegment(nameLoop, 'NM1');
+          const benefitLoops = childLoops(nameLoop || member, `2110${level}`);
+          const benefits = benefitLoops.map(parseBenefit);
+          const dates = [...loopSegments(subscriberName, 'DTP'), ...(level === 'D' ? loopSegments(nameLoop, 'DTP') : [])];
+          const trace = loopSegment(member, 'TRN', '2') || loopSegment(subscriber, 'TRN', '2');
+
+          responses.push({
+            isaControlNumber,
+            traceNumber: trace ? getElement(trace, 1) : undefined,
+            payerName: payer ? getElement(payer, 2) || undefined : undefined,
+            payerId: payer ? getElement(payer, 8) || undefined : undefined,
+            memberId: subscriberNm1 ? getElement(subscriberNm1, 8) || undefined : undefined,
+            firstName: name ? getElement(name, 3) || undefined : undefined,
+            lastName: name ? getElement(name, 2) || undefined : undefined,
+            dob: readDob(nameLoop),
+            groupNumber: readReference([nameLoop, subscriberName], '6P'),
+            planNumber: readReference([nameLoop, subscriberName], '18'),
+            planName: benefits.find((b) => b.planDescription)?.planDescription,
+            coverageStart: findDate(dates, COVERAGE_START_QUALIFIERS, 'start'),
+            coverageEnd: findDate(dates, COVERAGE_END_QUALIFIERS, 'end') || findDate(dates, ['291', '307'], 'end'),
+            benefits,
+            errors: [
+              ...sourceErrors,
+              ...receiverErrors,
+              ...(level === 'D' ? [subscriber, subscriberName].flatMap(parseErrors) : []),
+              ...[member, nameLoop, ...benefitLoops].flatMap(parseErrors),
+            ],
+          });
+        }
+      }
+    }
+  }
+
+  return responses;
+}
+
+/**
+ * Parse an EB segment and the HSD/DTP/MSG segments in its 2110 loop
+ */
+function parseBenefit(loop: Loop): Parsed271Benefit {
+  const eb = loop.segments[0];
+  const infoCode = getElement(eb, 0);
+  const amount = getElement(eb, 6);
+  const percent = getElement(eb, 7);
+  const quantity = getElement(eb, 9);
+  const authorization = getElement(eb, 10);
+  const network = getElement(eb, 11);
+
+  return {
+    infoCode,
+    infoDescription: EB_INFO_CODES[infoCode] || `Unknown: ${infoCode}`,
+    coverageLevel: getElement(eb, 1) || undefined,
+    serviceTypes: getElement(eb, 2).split('^').filter(Boolean),
+    insuranceType: getElement(eb, 3) || undefined,
+    planDescription: getElement(eb, 4) || undefined,
+    timePeriod: getElement(eb, 5) || undefined,
+    amount: amount ? parseFloat(amount) : undefined,
+    percent: percent ? parseFloat(percent) : undefined,
+    quantityQualifier: getElement(eb, 8) || undefined,
+    quantity: quantity ? parseFloat(quantity) : undefined,
+    authorizationRequired: authorization === 'Y' ? true : authorization === 'N' ? false : undefined,
+    inNetwork: network === 'Y' ? true : network === 'N' ? false : undefined,
+    procedureCode: getComponent(eb, 12, 1) || undefined,
+    dates: loopSegments(loop, 'DTP').map((dtp) => ({ qualifier: getElement(dtp, 0), value: getElement(dtp, 2) })),
+    messages: loopSegments(loop, 'MSG').map((msg) => getElement(msg, 0)).filter(Boolean),
+  };
+}
+
+/**
+ * AAA segments directly in a loop
+ */
+function parseErrors(loop: Loop | undefined): Parsed271Error[] {
+  if (!loop) return [];
+
+  return loopSegments(loop, 'AAA').map((aaa) => {
+    const rejectReasonCode = getElement(aaa, 2);
+    return {
+      loopId: loop.id,
+      rejectReasonCode,
+      description: AAA_REJECT_REASON_CODES[rejectReasonCode] || `Unknown: ${rejectReasonCode}`,
+      followUpActionCode: getElement(aaa, 3) || undefined,
+    };
+  });
+}
+
+function readDob(loop: Loop | undefined): string | undefined {
+  const dmg = loopSegment(loop, 'DMG', 'D8');
+  return dmg ? getElement(dmg, 1) || undefined : undefined;
+}
+
+/**
+ * First REF with a qualifier, from the most specific loop that has one
+ */
+function readReference(loops: Array<Loop | undefined>, qualifier: string): string | undefined {
+  for (const loop of loops) {
+    const ref = loopSegment(loop, 'REF', qualifier);
+    if (ref) return getElement(ref, 1) || undefined;
+  }
+  return undefined;
+}
+
+/**
+ * First DTP date with one of the qualifiers, in qualifier order
+ * RD8 ranges (YYYYMMDD-YYYYMMDD) give their start or end.
+ */
+function findDate(
+  dates: Segment[],
+  qualifiers: string[],
+  edge: 'start' | 'end'
+): string | undefined {
+  for (const qualifier of qualifiers) {
+    const dtp = dates.find((d) => getElement(d, 0) === qualifier);
+    if (!dtp) continue;
+
+    const value = getElement(dtp, 2);
+    if (getElement(dtp, 1) === 'RD8') {
+      const [start, end] = value.split('-');
+      return (edge === 'start' ? start : end) || undefined;
+    }
+    // A single plan date (291/307) is not an end date
+    if (edge === 'end' && !COVERAGE_END_QUALIFIERS.includes(qualifier)) continue;
+    return value || undefined;
+  }
+  return undefined;
+}
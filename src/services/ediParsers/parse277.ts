@@ -7,41 +7,43 @@
  *
  * Key segments:
  * - TRN: Trace Number (contains our control number)
- * - STC: Status Information (claim status code)
- * - REF: Reference Identification (payer claim number, etc.)
+ * - STC: Status Information (claim status code); a claim may carry several,
+ *   and 277CA service lines (2220D/2220E SVC) carry their own
+ * - REF: Reference Identification (payer claim number, line item control number, etc.)
  * - QTY: Quantity (accepted/rejected amounts)
  * - AMT: Monetary Amount
  */
 
-import type { Parsed277, ClaimStatus } from '@/types';
+import type {
+  Parsed277,
+  Parsed277ClaimStatus,
+  Parsed277ServiceLine,
+  Parsed277Status,
+  Parsed277StatusCode,
+  ClaimStatus,
+} from '@/types';
 import {
   parseEDISegments,
-  findSegments,
+  findSegment,
   getElement,
-  getSubElement,
+  getComponent,
   extractISAControlNumber,
-  STC_CATEGORY_CODES,
   Segment,
+  STC_CATEGORY_CODES,
+  STC_STATUS_CODES,
+  STC_ENTITY_CODES,
 } from './base';
+import { splitTransactionSets, EnvelopeError } from './envelope';
+import { buildTransactionSetTree, childLoops, findLoops, loopSegment, loopSegments, Loop } from './loops';
 
 export interface Parse277Result {
   success: boolean;
   data?: Parsed277;
+  envelopeErrors?: EnvelopeError[];
   error?: string;
 }
 
-interface ClaimStatusInfo {
-  controlNumber: string;
-  payerClaimNumber?: string;
-  statusCategoryCode: string;
-  statusCode: string;
-  statusDescription: string;
-  claimStatus: ClaimStatus;
-  effectiveDate?: string;
-  totalChargeAmount?: number;
-  patientName?: string;
-  serviceDate?: string;
-}
+type ClaimStatusInfo = Parsed277ClaimStatus;
 
 /**
  * Parse a 277 Claim Status Response file
@@ -57,8 +59,11 @@ export function parse277(content: string): Parse277Result {
     // Extract ISA control number
     const isaControlNumber = extractISAControlNumber(segments);
 
-    // Parse all claim statuses from the file
-    const claimStatuses = parseClaimStatuses(segments);
+    // Parse all claim statuses from every 277 transaction set in the file
+    const { transactionSets, errors } = splitTransactionSets(segments, '277');
+    const claimStatuses = transactionSets.flatMap((ts) =>
+      parseClaimStatuses(buildTransactionSetTree('277', ts.segments))
+    );
 
     // Determine if any claims were rejected
     const hasRejections = claimStatuses.some(
@@ -70,14 +75,22 @@ export function parse277(content: string): Parse277Result {
         cs.statusCategoryCode.startsWith('A8')
     );
 
+    // BHT01 0010 answers a 276; 277CA acknowledgments use 0085
+    const solicited = transactionSets.some((ts) => getElement(findSegment(ts.segments, 'BHT'), 0) === '0010');
+
     const parsed277: Parsed277 = {
       isaControlNumber,
+      solicited,
       claimStatuses,
       hasRejections,
       totalClaims: claimStatuses.length,
     };
 
-    return { success: true, data: parsed277 };
+    return {
+      success: true,
+      data: parsed277,
+      envelopeErrors: errors.length > 0 ? errors : undefined,
+    };
   } catch (error) {
     return {
       success: false,
@@ -87,107 +100,175 @@ export function parse277(content: string): Parse277Result {
 }
 
 /**
- * Parse individual claim statuses from 277 segments
- * Each claim is in a 2100D loop (Patient level)
+ * Parse individual claim statuses from the 277 loop tree
+ * Each claim is a 2200D (patient is the subscriber, or any patient in a
+ * 277CA) or 2200E (dependent) loop.
+ * TRNs at the information source, receiver and provider levels (2200A-C) are
+ * batch-level statuses, not claims.
  */
-function parseClaimStatuses(segments: Segment[]): ClaimStatusInfo[] {
+function parseClaimStatuses(tree: Loop): ClaimStatusInfo[] {
   const statuses: ClaimStatusInfo[] = [];
 
-  // Find all TRN segments which identify claims
-  // TRN*2*ControlNumber*SubmitterID
-  const trnSegments = findSegments(segments, 'TRN');
-
-  for (const trn of trnSegments) {
-    const trnIndex = segments.indexOf(trn);
-    const controlNumber = getElement(trn, 1);
-
-    if (!controlNumber) continue;
-
-    // Look for associated segments after TRN
-    let payerClaimNumber: string | undefined;
-    let statusCategoryCode = '';
-    let statusCode = '';
-    let effectiveDate: string | undefined;
-    let totalChargeAmount: number | undefined;
-    let patientName: string | undefined;
-    let serviceDate: string | undefined;
-
-    // Scan segments until next TRN or end
-    for (let i = trnIndex + 1; i < segments.length; i++) {
-      const seg = segments[i];
-
-      // Stop at next TRN
-      if (seg.id === 'TRN') break;
-
-      // REF - Reference numbers
-      // REF*1K*PayerClaimNumber (1K = Payer Claim Control Number)
-      // REF*D9*ClaimNumber (D9 = Claim Number)
-      if (seg.id === 'REF') {
-        const refQualifier = getElement(seg, 0);
-        if (refQualifier === '1K' || refQualifier === 'D9') {
-          payerClaimNumber = getElement(seg, 1);
-        }
-      }
-
-      // STC - Status Information
-      // STC*A0:20:PR*20241115*WQ (StatusCategory:StatusCode:EntityCode*Date*ActionCode)
-      if (seg.id === 'STC') {
-        const stc01 = getElement(seg, 0); // Composite element
-        statusCategoryCode = getSubElement(stc01, 0);
-        statusCode = getSubElement(stc01, 1);
-        effectiveDate = getElement(seg, 1);
-      }
+  for (const subscriber of findLoops(tree, '2000D')) {
+    const patientLoops = [subscriber, ...childLoops(subscriber, '2000E')];
+    const subscriberMemberId = parseMemberId(childLoops(subscriber, '2100D')[0]);
 
-      // AMT - Monetary Amount
-      // AMT*YU*150.00 (YU = Total Claim Charge Amount)
-      if (seg.id === 'AMT') {
-        const amtQualifier = getElement(seg, 0);
-        if (amtQualifier === 'YU' || amtQualifier === 'T3') {
-          totalChargeAmount = parseFloat(getElement(seg, 1) || '0');
-        }
-      }
-
-      // NM1 - Patient Name (QC = Patient)
-      if (seg.id === 'NM1') {
-        const entityCode = getElement(seg, 0);
-        if (entityCode === 'QC') {
-          const lastName = getElement(seg, 2);
-          const firstName = getElement(seg, 3);
-          patientName = `${firstName} ${lastName}`.trim();
-        }
-      }
+    for (const patient of patientLoops) {
+      const level = patient.id.slice(-1); // D or E
+      const nameLoop = childLoops(patient, `2100${level}`)[0];
+      const patientName = parsePatientName(nameLoop);
+      const memberId = parseMemberId(nameLoop) || subscriberMemberId;
 
-      // DTP - Date (472 = Service Date)
-      if (seg.id === 'DTP') {
-        const dtpQualifier = getElement(seg, 0);
-        if (dtpQualifier === '472') {
-          serviceDate = getElement(seg, 2);
-        }
+      for (const claim of childLoops(patient, `2200${level}`)) {
+        const status = parseClaimStatus(claim, level, patientName, memberId);
+        if (status) statuses.push(status);
       }
     }
-
-    // Map status category to our claim status
-    const stcInfo = STC_CATEGORY_CODES[statusCategoryCode];
-    const claimStatus: ClaimStatus = stcInfo?.claimStatus as ClaimStatus || 'pending';
-    const statusDescription = stcInfo?.description || `Status ${statusCategoryCode}`;
-
-    statuses.push({
-      controlNumber,
-      payerClaimNumber,
-      statusCategoryCode,
-      statusCode,
-      statusDescription,
-      claimStatus,
-      effectiveDate,
-      totalChargeAmount,
-      patientName,
-      serviceDate,
-    });
   }
 
   return statuses;
 }
 
+/**
+ * Parse one claim status loop (2200D/2200E)
+ */
+function parseClaimStatus(
+  claim: Loop,
+  level: string,
+  patientName: string | undefined,
+  memberId: string | undefined
+): ClaimStatusInfo | null {
+  // TRN*2*ControlNumber (2 = Referenced Transaction Trace Number, our CLM01)
+  const controlNumber = getElement(claim.segments[0], 1);
+  if (!controlNumber) return null;
+
+  // REF*1K*PayerClaimNumber (1K = Payer Claim Control Number)
+  // REF*D9*ClaimNumber (D9 = Claim Number)
+  const payerClaimNumber =
+    getElement(loopSegment(claim, 'REF', '1K'), 1) ||
+    getElement(loopSegment(claim, 'REF', 'D9'), 1) ||
+    undefined;
+
+  // STC - Status Information, every one of them
+  // STC*A0:20:PR*20241115*WQ (StatusCategory:StatusCode:EntityCode*Date*ActionCode)
+  // The primary status is the first that rejects the claim, or else the first
+  const statuses = loopSegments(claim, 'STC').map(parseStatus);
+  const primary = statuses.find((status) => status.claimStatus === 'rejected') || statuses[0];
+
+  // SVC - Service lines with their own statuses (277CA)
+  const serviceLines = childLoops(claim, `2220${level}`).map(parseServiceLine);
+
+  // AMT*YU*150.00 (YU = Total Claim Charge Amount)
+  const amt = loopSegments(claim, 'AMT').find((a) => ['YU', 'T3'].includes(getElement(a, 0)));
+  const totalChargeAmount = amt ? parseFloat(getElement(amt, 1) || '0') : undefined;
+
+  // DTP*472 - Service Date, at claim level or else on the first service line (2220)
+  const serviceDate =
+    getElement(loopSegment(claim, 'DTP', '472'), 2) ||
+    getElement(loopSegment(childLoops(claim, `2220${level}`)[0], 'DTP', '472'), 2) ||
+    undefined;
+
+  return {
+    controlNumber,
+    payerClaimNumber,
+    statusCategoryCode: primary?.categoryCode || '',
+    statusCode: primary?.statusCode || '',
+    entityCode: primary?.entityCode,
+    statusDescription: primary?.description || 'Status unknown',
+    claimStatus: primary?.claimStatus || 'pending',
+    statuses,
+    serviceLines,
+    effectiveDate: primary?.effectiveDate,
+    totalChargeAmount,
+    patientName,
+    memberId,
+    serviceDate,
+  };
+}
+
+/**
+ * Parse one STC segment, with its secondary statuses (STC10, STC11)
+ */
+function parseStatus(stc: Segment): Parsed277Status {
+  const amount = getElement(stc, 3);
+
+  return {
+    ...parseStatusCode(stc, 0),
+    claimStatus: (STC_CATEGORY_CODES[getComponent(stc, 0, 0)]?.claimStatus as ClaimStatus) || 'pending',
+    effectiveDate: getElement(stc, 1) || undefined,
+    actionCode: getElement(stc, 2) || undefined,
+    amount: amount ? parseFloat(amount) : undefined,
+    secondary: [9, 10].map((index) => parseStatusCode(stc, index)).filter((code) => code.categoryCode),
+    message: getElement(stc, 11) || undefined,
+  };
+}
+
+/**
+ * Parse a Health Care Claim Status composite (Category:Status:Entity)
+ */
+function parseStatusCode(stc: Segment, index: number): Parsed277StatusCode {
+  const categoryCode = getComponent(stc, index, 0);
+  const statusCode = getComponent(stc, index, 1);
+  const entityCode = getComponent(stc, index, 2) || undefined;
+
+  const category = STC_CATEGORY_CODES[categoryCode]?.description || `Status ${categoryCode}`;
+  const detail = statusCode ? STC_STATUS_CODES[statusCode] || `Status ${statusCode}` : '';
+  const entity = entityCode ? ` (${STC_ENTITY_CODES[entityCode] || entityCode})` : '';
+
+  return {
+    categoryCode,
+    statusCode,
+    entityCode,
+    description: `${[category, detail].filter(Boolean).join(': ')}${entity}`,
+  };
+}
+
+/**
+ * Parse one service line loop (2220D/2220E)
+ * SVC*HC:99214:95*150*0****1 (Qualifier:Procedure:Modifiers*Charge*Paid****Units)
+ */
+function parseServiceLine(line: Loop): Parsed277ServiceLine {
+  const svc = line.segments[0];
+  const statuses = loopSegments(line, 'STC').map(parseStatus);
+
+  // REF*FJ - Line Item Control Number, the REF*6R we sent (our line number)
+  const lineItem = parseInt(getElement(loopSegment(line, 'REF', 'FJ'), 1), 10);
+  const units = getElement(svc, 6);
+
+  return {
+    lineNumber: lineItem > 0 ? lineItem : undefined,
+    procedureCode: getComponent(svc, 0, 1),
+    modifiers: [2, 3, 4, 5].map((i) => getComponent(svc, 0, i)).filter(Boolean),
+    chargeAmount: parseFloat(getElement(svc, 1) || '0'),
+    units: units ? parseFloat(units) : undefined,
+    serviceDate: getElement(loopSegment(line, 'DTP', '472'), 2) || undefined,
+    statuses,
+    lineStatus: statuses.some((status) => status.claimStatus === 'rejected')
+      ? 'rejected'
+      : statuses[0]?.claimStatus || 'pending',
+  };
+}
+
+/**
+ * Patient name from the 2100D/2100E NM1 (QC = Patient, IL = Insured)
+ */
+function parsePatientName(nameLoop: Loop | undefined): string | undefined {
+  const nm1 = nameLoop?.segments[0];
+  if (!nm1) return undefined;
+
+  const lastName = getElement(nm1, 2);
+  const firstName = getElement(nm1, 3);
+  return `${firstName} ${lastName}`.trim() || undefined;
+}
+
+/**
+ * Member ID from the 2100D/2100E NM1 (NM108 = MI)
+ */
+function parseMemberId(nameLoop: Loop | undefined): string | undefined {
+  const nm1 = nameLoop?.segments[0];
+  return getElement(nm1, 8) || undefined;
+}
+
 /**
  * Find the most recent status for a specific control number
  */
@@ -14,62 +14,56 @@
  * - PLB: Provider Level Adjustments
  */
 
-import type { Parsed835, ClaimStatus } from '@/types';
+import type {
+  Parsed835,
+  Parsed835Adjustment,
+  Parsed835ClaimPayment,
+  Parsed835ServiceLine,
+  Parsed835ProviderAdjustment,
+  ClaimStatus,
+  RemarkCode,
+} from '@/types';
+import {
+  CAS_GROUP_CODES,
+  describeAdjustment,
+  describeProviderAdjustment,
+  describeRemark,
+} from '@/lib/adjustmentCodes';
 import {
   parseEDISegments,
-  findSegment,
-  findSegments,
   getElement,
-  extractISAControlNumber,
+  getComponent,
   CLP_STATUS_CODES,
   Segment,
 } from './base';
+import { splitTransactionSets, EnvelopeError, TransactionSet } from './envelope';
+import { buildTransactionSetTree, childLoops, findLoops, loopSegment, loopSegments, Loop } from './loops';
 
 export interface Parse835Result {
   success: boolean;
-  data?: Parsed835;
+  data?: Parsed835;          // All remittances in the file combined
+  remittances?: Parsed835[]; // One per 835 transaction set (one payment each)
+  envelopeErrors?: EnvelopeError[];
   error?: string;
 }
 
-interface ClaimPaymentInfo {
-  patientControlNumber: string; // Our control number
-  payerClaimNumber: string;
-  statusCode: string;
-  statusDescription: string;
-  chargeAmount: number;
-  paidAmount: number;
-  patientResponsibility: number;
-  adjustments: AdjustmentInfo[];
-  serviceLines: ServiceLinePayment[];
-  patientName?: string;
-  serviceDate?: string;
-  claimStatus: ClaimStatus;
-}
+type ClaimPaymentInfo = Parsed835ClaimPayment;
+type AdjustmentInfo = Parsed835Adjustment;
+type ServiceLinePayment = Parsed835ServiceLine;
+type ProviderAdjustmentInfo = Parsed835ProviderAdjustment;
 
-interface AdjustmentInfo {
-  groupCode: string; // CO, PR, OA, PI, CR
-  groupDescription: string;
-  reasonCode: string;
-  amount: number;
-}
+// CAS carries up to six reason/amount/quantity triplets after the group code
+const CAS_MAX_TRIPLETS = 6;
 
-interface ServiceLinePayment {
-  procedureCode: string;
-  modifier?: string;
-  chargeAmount: number;
-  paidAmount: number;
-  units: number;
-  adjustments: AdjustmentInfo[];
-}
+// Balancing tolerance for rounding in payer amounts
+const BALANCE_TOLERANCE = 0.005;
 
-// CAS Group Codes
-const CAS_GROUP_CODES: Record<string, string> = {
-  CO: 'Contractual Obligations',
-  CR: 'Corrections and Reversals',
-  OA: 'Other Adjustments',
-  PI: 'Payer Initiated Reductions',
-  PR: 'Patient Responsibility',
-};
+// CLP02 for a reversal of a previous payment; the corrected claim follows as a new CLP
+const REVERSAL_STATUS_CODE = '22';
+
+// MOA03-MOA07 and MIA05, MIA20-MIA23 carry remark codes (0-indexed elements)
+const MOA_REMARK_ELEMENTS = [2, 3, 4, 5, 6];
+const MIA_REMARK_ELEMENTS = [4, 19, 20, 21, 22];
 
 /**
  * Parse an 835 Electronic Remittance Advice file
@@ -82,64 +76,20 @@ export function parse835(content: string): Parse835Result {
       return { success: false, error: 'No segments found in 835 file' };
     }
 
-    // Extract ISA control number
-    const isaControlNumber = extractISAControlNumber(segments);
-
-    // Parse BPR - Financial Information
-    const bpr = findSegment(segments, 'BPR');
-    const transactionHandlingCode = getElement(bpr, 0);
-    const totalPaymentAmount = parseFloat(getElement(bpr, 1) || '0');
-    const paymentMethodCode = getElement(bpr, 3);
-    const paymentDate = getElement(bpr, 15);
-
-    // Parse TRN - Trace/Check Number
-    const trn = findSegment(segments, 'TRN');
-    const checkNumber = getElement(trn, 1);
-    const payerIdentifier = getElement(trn, 2);
-
-    // Parse N1 segments for payer/payee names
-    let payerName = '';
-    let payeeName = '';
-    const n1Segments = findSegments(segments, 'N1');
-    for (const n1 of n1Segments) {
-      const entityCode = getElement(n1, 0);
-      const name = getElement(n1, 1);
-      if (entityCode === 'PR') payerName = name; // Payer
-      if (entityCode === 'PE') payeeName = name; // Payee (provider)
+    const { transactionSets, errors } = splitTransactionSets(segments, '835');
+
+    if (transactionSets.length === 0) {
+      return { success: false, error: 'No 835 transaction sets found in file', envelopeErrors: errors };
     }
 
-    // Parse all claim payments
-    const claimPayments = parseClaimPayments(segments);
-
-    // Calculate totals
-    const totalCharges = claimPayments.reduce((sum, cp) => sum + cp.chargeAmount, 0);
-    const totalPaid = claimPayments.reduce((sum, cp) => sum + cp.paidAmount, 0);
-    const totalPatientResponsibility = claimPayments.reduce(
-      (sum, cp) => sum + cp.patientResponsibility,
-      0
-    );
-
-    // Parse PLB - Provider Level Adjustments
-    const providerAdjustments = parseProviderAdjustments(segments);
-
-    const parsed835: Parsed835 = {
-      isaControlNumber,
-      checkNumber,
-      payerIdentifier,
-      payerName,
-      payeeName,
-      paymentDate,
-      paymentMethodCode,
-      totalPaymentAmount,
-      totalCharges,
-      totalPaid,
-      totalPatientResponsibility,
-      claimPayments,
-      providerAdjustments,
-      claimCount: claimPayments.length,
-    };
+    const remittances = transactionSets.map(parseRemittance);
 
-    return { success: true, data: parsed835 };
+    return {
+      success: true,
+      data: combineRemittances(remittances),
+      remittances,
+      envelopeErrors: errors.length > 0 ? errors : undefined,
+    };
   } catch (error) {
     return {
       success: false,
@@ -149,124 +99,236 @@ export function parse835(content: string): Parse835Result {
 }
 
 /**
- * Parse individual claim payments (CLP loops)
+ * Parse one 835 transaction set (one payment)
  */
-function parseClaimPayments(segments: Segment[]): ClaimPaymentInfo[] {
-  const payments: ClaimPaymentInfo[] = [];
-
-  // Find all CLP segments
-  const clpSegments = findSegments(segments, 'CLP');
-
-  for (const clp of clpSegments) {
-    const clpIndex = segments.indexOf(clp);
-
-    // CLP*ControlNumber*Status*ChargeAmt*PaidAmt*PatientResp*ClaimFilingInd*PayerClaimNumber
-    const patientControlNumber = getElement(clp, 0);
-    const statusCode = getElement(clp, 1);
-    const chargeAmount = parseFloat(getElement(clp, 2) || '0');
-    const paidAmount = parseFloat(getElement(clp, 3) || '0');
-    const patientResponsibility = parseFloat(getElement(clp, 4) || '0');
-    const payerClaimNumber = getElement(clp, 6);
-
-    // Get status info
-    const statusInfo = CLP_STATUS_CODES[statusCode];
-    const statusDescription = statusInfo?.description || `Status ${statusCode}`;
-    const claimStatus: ClaimStatus = statusInfo?.isPaid ? 'paid' : 'denied';
-
-    // Parse associated segments
-    let patientName: string | undefined;
-    let serviceDate: string | undefined;
-    const adjustments: AdjustmentInfo[] = [];
-    const serviceLines: ServiceLinePayment[] = [];
-
-    // Scan until next CLP or end
-    for (let i = clpIndex + 1; i < segments.length; i++) {
-      const seg = segments[i];
-
-      // Stop at next CLP
-      if (seg.id === 'CLP') break;
-
-      // NM1 - Patient Name (QC = Patient)
-      if (seg.id === 'NM1') {
-        const entityCode = getElement(seg, 0);
-        if (entityCode === 'QC') {
-          const lastName = getElement(seg, 2);
-          const firstName = getElement(seg, 3);
-          patientName = `${firstName} ${lastName}`.trim();
-        }
-      }
-
-      // DTM - Date (232 = Claim Statement Period Start)
-      if (seg.id === 'DTM') {
-        const dtmQualifier = getElement(seg, 0);
-        if (dtmQualifier === '232' || dtmQualifier === '233') {
-          serviceDate = getElement(seg, 1);
-        }
-      }
-
-      // CAS - Claim Adjustments (at claim level, before SVC)
-      if (seg.id === 'CAS') {
-        const adj = parseAdjustment(seg);
-        if (adj) adjustments.push(adj);
-      }
-
-      // SVC - Service Line Payment
-      if (seg.id === 'SVC') {
-        const svcLine = parseServiceLine(segments, i);
-        if (svcLine) serviceLines.push(svcLine);
-      }
+function parseRemittance(transactionSet: TransactionSet): Parsed835 {
+  const tree = buildTransactionSetTree('835', transactionSet.segments);
+  const isaControlNumber = transactionSet.interchangeControlNumber;
+
+  // Parse BPR - Financial Information
+  const bpr = loopSegment(tree, 'BPR');
+  const transactionHandlingCode = getElement(bpr, 0);
+  const totalPaymentAmount = parseFloat(getElement(bpr, 1) || '0');
+  const paymentMethodCode = getElement(bpr, 3);
+  const paymentDate = getElement(bpr, 15);
+
+  // Parse TRN - Trace/Check Number
+  const trn = loopSegment(tree, 'TRN');
+  const checkNumber = getElement(trn, 1);
+  const payerIdentifier = getElement(trn, 2);
+
+  // Payer (1000A) and payee/provider (1000B) names
+  const payerName = getElement(childLoops(tree, '1000A')[0]?.segments[0], 1);
+  const payeeName = getElement(childLoops(tree, '1000B')[0]?.segments[0], 1);
+
+  // Parse all claim payments (2100 loops, inside 2000 LX loops or directly under the header)
+  const claimPayments = findLoops(tree, '2100').map(parseClaimPayment);
+
+  // Calculate totals
+  const totalCharges = claimPayments.reduce((sum, cp) => sum + cp.chargeAmount, 0);
+  const totalPaid = claimPayments.reduce((sum, cp) => sum + cp.paidAmount, 0);
+  const totalPatientResponsibility = claimPayments.reduce(
+    (sum, cp) => sum + cp.patientResponsibility,
+    0
+  );
+
+  // Parse PLB - Provider Level Adjustments
+  const providerAdjustments = parseProviderAdjustments(loopSegments(tree, 'PLB'));
+
+  const parsed835: Parsed835 = {
+    isaControlNumber,
+    transactionSetControlNumber: transactionSet.controlNumber,
+    checkNumber,
+    payerIdentifier,
+    payerName,
+    payeeName,
+    paymentDate,
+    paymentMethodCode,
+    totalPaymentAmount,
+    totalCharges,
+    totalPaid,
+    totalPatientResponsibility,
+    claimPayments,
+    providerAdjustments,
+    claimCount: claimPayments.length,
+  };
+
+  return parsed835;
+}
+
+/**
+ * Combine the remittances in a file into one result
+ * Payment details (check number, payer, date) come from the first remittance
+ */
+function combineRemittances(remittances: Parsed835[]): Parsed835 {
+  if (remittances.length === 1) return remittances[0];
+
+  const sum = (pick: (r: Parsed835) => number) =>
+    remittances.reduce((total, r) => total + pick(r), 0);
+  const claimPayments = remittances.flatMap((r) => r.claimPayments);
+
+  return {
+    ...remittances[0],
+    totalPaymentAmount: sum((r) => r.totalPaymentAmount),
+    totalCharges: sum((r) => r.totalCharges),
+    totalPaid: sum((r) => r.totalPaid),
+    totalPatientResponsibility: sum((r) => r.totalPatientResponsibility),
+    claimPayments,
+    providerAdjustments: remittances.flatMap((r) => r.providerAdjustments),
+    claimCount: claimPayments.length,
+  };
+}
+
+/**
+ * Parse one claim payment (2100 loop)
+ */
+function parseClaimPayment(claim: Loop): ClaimPaymentInfo {
+  const clp = claim.segments[0];
+
+  // CLP*ControlNumber*Status*ChargeAmt*PaidAmt*PatientResp*ClaimFilingInd*PayerClaimNumber
+  const patientControlNumber = getElement(clp, 0);
+  const statusCode = getElement(clp, 1);
+  const chargeAmount = parseFloat(getElement(clp, 2) || '0');
+  const paidAmount = parseFloat(getElement(clp, 3) || '0');
+  const patientResponsibility = parseFloat(getElement(clp, 4) || '0');
+  const payerClaimNumber = getElement(clp, 6);
+
+  // Get status info
+  const statusInfo = CLP_STATUS_CODES[statusCode];
+  const statusDescription = statusInfo?.description || `Status ${statusCode}`;
+  const claimStatus: ClaimStatus = statusInfo?.isPaid ? 'paid' : 'denied';
+
+  // NM1 - Patient Name (QC = Patient)
+  const patient = loopSegment(claim, 'NM1', 'QC');
+  const patientName = patient
+    ? `${getElement(patient, 3)} ${getElement(patient, 2)}`.trim()
+    : undefined;
+
+  // NM109 - Member ID of the insured (IL), or of the patient when the insured is not sent
+  const memberId =
+    getElement(loopSegment(claim, 'NM1', 'IL'), 8) ||
+    getElement(patient, 8) ||
+    undefined;
+
+  // DTM - Date (232 = Claim Statement Period Start, 233 = End)
+  const dtm = loopSegments(claim, 'DTM').find((d) => ['232', '233'].includes(getElement(d, 0)));
+  const serviceDate = dtm ? getElement(dtm, 1) : undefined;
+
+  // CAS - Claim-level adjustments (line-level CAS belongs to the 2110 loops)
+  const adjustments = loopSegments(claim, 'CAS').flatMap(parseAdjustments);
+
+  // SVC - Service Line Payments
+  const serviceLines = childLoops(claim, '2110').map(parseServiceLine);
+
+  // MOA/MIA - Claim-level remark codes (outpatient/inpatient adjudication)
+  const remarkCodes = [
+    ...remarksFrom(loopSegment(claim, 'MOA'), MOA_REMARK_ELEMENTS),
+    ...remarksFrom(loopSegment(claim, 'MIA'), MIA_REMARK_ELEMENTS),
+  ];
+
+  // Older payers mark reversals only with negated amounts and CR (Corrections and Reversals) adjustments
+  const isReversal =
+    statusCode === REVERSAL_STATUS_CODE ||
+    (chargeAmount < 0 && adjustments.some((adj) => adj.groupCode === 'CR'));
+
+  // Charge - paid must equal every adjustment on the claim and its lines
+  const balanceErrors: string[] = [];
+  const claimDifference = balanceDifference(
+    chargeAmount,
+    paidAmount,
+    [...adjustments, ...serviceLines.flatMap((line) => line.adjustments)]
+  );
+  if (Math.abs(claimDifference) > BALANCE_TOLERANCE) {
+    balanceErrors.push(`Claim is out of balance by ${claimDifference.toFixed(2)}`);
+  }
+  serviceLines.forEach((line, i) => {
+    if (!line.balanced) {
+      const difference = balanceDifference(line.chargeAmount, line.paidAmount, line.adjustments);
+      balanceErrors.push(`Line ${i + 1} (${line.procedureCode}) is out of balance by ${difference.toFixed(2)}`);
     }
+  });
+
+  return {
+    patientControlNumber,
+    payerClaimNumber,
+    statusCode,
+    statusDescription,
+    chargeAmount,
+    paidAmount,
+    patientResponsibility,
+    adjustments,
+    serviceLines,
+    remarkCodes,
+    patientName,
+    memberId,
+    serviceDate,
+    claimStatus,
+    isReversal,
+    balanced: balanceErrors.length === 0,
+    balanceErrors: balanceErrors.length > 0 ? balanceErrors : undefined,
+  };
+}
+
+/**
+ * Parse a CAS (Claim Adjustment) segment into one adjustment per triplet
+ */
+function parseAdjustments(cas: Segment): AdjustmentInfo[] {
+  // CAS*GroupCode*Reason*Amount*Quantity*Reason*Amount*Quantity... (up to 6 triplets)
+  const groupCode = getElement(cas, 0);
+  if (!groupCode) return [];
+
+  const adjustments: AdjustmentInfo[] = [];
 
-    payments.push({
-      patientControlNumber,
-      payerClaimNumber,
-      statusCode,
-      statusDescription,
-      chargeAmount,
-      paidAmount,
-      patientResponsibility,
-      adjustments,
-      serviceLines,
-      patientName,
-      serviceDate,
-      claimStatus,
+  for (let i = 0; i < CAS_MAX_TRIPLETS; i++) {
+    const reasonCode = getElement(cas, 1 + i * 3);
+    if (!reasonCode) continue;
+
+    const quantity = getElement(cas, 3 + i * 3);
+
+    adjustments.push({
+      groupCode,
+      groupDescription: CAS_GROUP_CODES[groupCode] || groupCode,
+      reasonCode,
+      amount: parseFloat(getElement(cas, 2 + i * 3) || '0'),
+      quantity: quantity ? parseFloat(quantity) : undefined,
+      ...describeAdjustment(groupCode, reasonCode),
     });
   }
 
-  return payments;
+  return adjustments;
 }
 
 /**
- * Parse a CAS (Claim Adjustment) segment
+ * Remark codes from the given elements of a MOA or MIA segment
  */
-function parseAdjustment(cas: Segment): AdjustmentInfo | null {
-  // CAS*GroupCode*ReasonCode*Amount*Quantity...
-  const groupCode = getElement(cas, 0);
-  const reasonCode = getElement(cas, 1);
-  const amount = parseFloat(getElement(cas, 2) || '0');
+function remarksFrom(segment: Segment | undefined, elements: number[]): RemarkCode[] {
+  return elements
+    .map((index) => getElement(segment, index))
+    .filter((code) => code.length > 0)
+    .map(remark);
+}
 
-  if (!groupCode) return null;
+function remark(code: string): RemarkCode {
+  return { code, description: describeRemark(code) };
+}
 
-  return {
-    groupCode,
-    groupDescription: CAS_GROUP_CODES[groupCode] || groupCode,
-    reasonCode,
-    amount,
-  };
+/**
+ * Charge - paid - adjustments, rounded to cents (0 when balanced)
+ */
+function balanceDifference(charge: number, paid: number, adjustments: AdjustmentInfo[]): number {
+  const adjusted = adjustments.reduce((sum, adj) => sum + adj.amount, 0);
+  return Math.round((charge - paid - adjusted) * 100) / 100;
 }
 
 /**
- * Parse a service line (SVC and associated segments)
+ * Parse a service line (2110 loop: SVC and its adjustments)
  */
-function parseServiceLine(
-  segments: Segment[],
-  svcIndex: number
-): ServiceLinePayment | null {
-  const svc = segments[svcIndex];
+function parseServiceLine(line: Loop): ServiceLinePayment {
+  const svc = line.segments[0];
 
   // SVC*HC:CPT:Modifier*ChargeAmt*PaidAmt**Units
   const compositeProcedure = getElement(svc, 0);
-  const procedureParts = compositeProcedure.split(':');
+  const procedureParts = compositeProcedure.split(svc.delimiters.component);
   const procedureCode = procedureParts[1] || procedureParts[0];
   const modifier = procedureParts[2];
 
@@ -274,17 +336,10 @@ function parseServiceLine(
   const paidAmount = parseFloat(getElement(svc, 2) || '0');
   const units = parseInt(getElement(svc, 4) || '1');
 
-  // Look for CAS segments after this SVC
-  const adjustments: AdjustmentInfo[] = [];
-  for (let i = svcIndex + 1; i < segments.length; i++) {
-    const seg = segments[i];
-    // Stop at next SVC or CLP
-    if (seg.id === 'SVC' || seg.id === 'CLP') break;
-    if (seg.id === 'CAS') {
-      const adj = parseAdjustment(seg);
-      if (adj) adjustments.push(adj);
-    }
-  }
+  const adjustments = loopSegments(line, 'CAS').flatMap(parseAdjustments);
+
+  // LQ*HE*N130 - Line-level remark codes (HE = RARC)
+  const remarkCodes = loopSegments(line, 'LQ', 'HE').map((lq) => remark(getElement(lq, 1)));
 
   return {
     procedureCode,
@@ -293,28 +348,36 @@ function parseServiceLine(
     paidAmount,
     units,
     adjustments,
+    remarkCodes,
+    balanced: Math.abs(balanceDifference(chargeAmount, paidAmount, adjustments)) <= BALANCE_TOLERANCE,
   };
 }
 
 /**
  * Parse PLB - Provider Level Adjustments
  */
-function parseProviderAdjustments(
-  segments: Segment[]
-): Array<{ reasonCode: string; amount: number }> {
-  const adjustments: Array<{ reasonCode: string; amount: number }> = [];
+function parseProviderAdjustments(plbSegments: Segment[]): ProviderAdjustmentInfo[] {
+  const adjustments: ProviderAdjustmentInfo[] = [];
 
-  const plbSegments = findSegments(segments, 'PLB');
   for (const plb of plbSegments) {
-    // PLB*ProviderID*Date*ReasonCode*Amount...
-    // Can have multiple reason/amount pairs
-    const elements = plb.elements;
-    for (let i = 2; i < elements.length; i += 2) {
-      const reasonCode = elements[i];
-      const amount = parseFloat(elements[i + 1] || '0');
-      if (reasonCode) {
-        adjustments.push({ reasonCode, amount });
-      }
+    // PLB*ProviderID*FiscalPeriodDate*ReasonCode:Reference*Amount...
+    // Can have up to six reason/amount pairs
+    const providerIdentifier = getElement(plb, 0);
+    const fiscalPeriodDate = getElement(plb, 1);
+
+    for (let i = 2; i < plb.elements.length; i += 2) {
+      const reasonCode = getComponent(plb, i, 0);
+      const reference = getComponent(plb, i, 1);
+      if (!reasonCode) continue;
+
+      adjustments.push({
+        providerIdentifier,
+        fiscalPeriodDate,
+        reasonCode,
+        reasonDescription: describeProviderAdjustment(reasonCode),
+        reference: reference || undefined,
+        amount: parseFloat(plb.elements[i + 1] || '0'),
+      });
     }
   }
 
@@ -323,13 +386,14 @@ function parseProviderAdjustments(
 
 /**
  * Find payment info for a specific control number
+ * Reversals are skipped so a corrected claim returns its new adjudication.
  */
 export function findClaimPayment(
   parsed: Parsed835,
   controlNumber: string
 ): ClaimPaymentInfo | undefined {
   return parsed.claimPayments.find(
-    (cp) => cp.patientControlNumber === controlNumber
+    (cp) => cp.patientControlNumber === controlNumber && !cp.isReversal
   );
 }
 
@@ -8,25 +8,32 @@
  * Key segments:
  * - AK1: Functional Group Response Header
  * - AK2: Transaction Set Response Header
+ * - IK3: Error Identification (segment in error, 2100 loop)
+ * - IK4: Implementation Data Element Note (element in error, 2110 loop)
+ * - CTX: Context (the claim, or the segment that triggered a requirement)
  * - IK5: Transaction Set Response Trailer (acceptance status per transaction)
  * - AK9: Functional Group Response Trailer (overall status)
  */
 
-import type { Parsed999 } from '@/types';
+import type { Parsed999, Parsed999Context, Parsed999ElementError, Parsed999SegmentError } from '@/types';
 import {
   parseEDISegments,
-  findSegment,
-  findSegments,
   getElement,
-  extractISAControlNumber,
-  extractGSControlNumber,
+  getComponent,
+  Segment,
+  IK3_ERROR_CODES,
+  IK4_ERROR_CODES,
   IK5_STATUS_CODES,
   AK9_STATUS_CODES,
 } from './base';
+import { splitTransactionSets, EnvelopeError, TransactionSet } from './envelope';
+import { buildTransactionSetTree, childLoops, loopSegment, loopSegments, Loop } from './loops';
 
 export interface Parse999Result {
   success: boolean;
-  data?: Parsed999;
+  data?: Parsed999;               // First acknowledgment in the file
+  acknowledgments?: Parsed999[];  // One per 999 transaction set (each answers one GS group)
+  envelopeErrors?: EnvelopeError[];
   error?: string;
 }
 
@@ -41,48 +48,20 @@ export function parse999(content: string): Parse999Result {
       return { success: false, error: 'No segments found in 999 file' };
     }
 
-    // Extract control numbers for matching
-    const originalControlNumber = extractISAControlNumber(segments);
-    const originalGSControlNumber = extractGSControlNumber(segments);
-
-    // Find AK1 - Functional Group Response Header
-    // AK1*HC*123456 (HC = Healthcare, 123456 = original GS06)
-    const ak1 = findSegment(segments, 'AK1');
-    const ak1GroupControlNumber = getElement(ak1, 1);
-
-    // Find AK9 - Functional Group Response Trailer
-    // AK9*A*1*1*1 (A=Accepted, included=1, received=1, accepted=1)
-    const ak9 = findSegment(segments, 'AK9');
-    const ak9StatusCode = getElement(ak9, 0);
-    const ak9IncludedCount = parseInt(getElement(ak9, 1) || '0');
-    const ak9ReceivedCount = parseInt(getElement(ak9, 2) || '0');
-    const ak9AcceptedCount = parseInt(getElement(ak9, 3) || '0');
-
-    // Determine overall acceptance
-    const isAccepted = ak9StatusCode === 'A' || ak9StatusCode === 'E';
-    const statusDescription =
-      AK9_STATUS_CODES[ak9StatusCode] || `Unknown status: ${ak9StatusCode}`;
-
-    // Parse individual transaction set responses (AK2/IK5 pairs)
-    const transactionResponses = parseTransactionResponses(segments);
-
-    // Collect any error codes
-    const errorCodes = collectErrorCodes(segments);
-
-    const parsed999: Parsed999 = {
-      originalControlNumber: ak1GroupControlNumber || originalGSControlNumber,
-      isaControlNumber: originalControlNumber,
-      accepted: isAccepted,
-      statusCode: ak9StatusCode,
-      statusDescription,
-      transactionSetResponses: transactionResponses,
-      errorCodes: errorCodes.length > 0 ? errorCodes : undefined,
-      includedTransactionCount: ak9IncludedCount,
-      receivedTransactionCount: ak9ReceivedCount,
-      acceptedTransactionCount: ak9AcceptedCount,
-    };
+    const { transactionSets, errors } = splitTransactionSets(segments, '999');
+
+    if (transactionSets.length === 0) {
+      return { success: false, error: 'No 999 transaction sets found in file', envelopeErrors: errors };
+    }
+
+    const acknowledgments = transactionSets.map(parseAcknowledgment);
 
-    return { success: true, data: parsed999 };
+    return {
+      success: true,
+      data: acknowledgments[0],
+      acknowledgments,
+      envelopeErrors: errors.length > 0 ? errors : undefined,
+    };
   } catch (error) {
     return {
       success: false,
@@ -92,83 +71,158 @@ export function parse999(content: string): Parse999Result {
 }
 
 /**
- * Parse individual transaction set responses (AK2/IK5 pairs)
+ * Parse one 999 transaction set
  */
-function parseTransactionResponses(
-  segments: ReturnType<typeof parseEDISegments>
-): Parsed999['transactionSetResponses'] {
-  const responses: Parsed999['transactionSetResponses'] = [];
-
-  // Find all AK2 segments (Transaction Set Response Header)
-  const ak2Segments = findSegments(segments, 'AK2');
+function parseAcknowledgment(transactionSet: TransactionSet): Parsed999 {
+  const tree = buildTransactionSetTree('999', transactionSet.segments);
+
+  // Extract control numbers for matching
+  const originalControlNumber = transactionSet.interchangeControlNumber;
+  const originalGSControlNumber = transactionSet.groupControlNumber;
+
+  // Find AK1 - Functional Group Response Header
+  // AK1*HC*123456 (HC = Healthcare, 123456 = original GS06)
+  const ak1 = loopSegment(tree, 'AK1');
+  const ak1GroupControlNumber = getElement(ak1, 1);
+
+  // Find AK9 - Functional Group Response Trailer
+  // AK9*A*1*1*1 (A=Accepted, included=1, received=1, accepted=1)
+  const ak9 = loopSegment(tree, 'AK9');
+  const ak9StatusCode = getElement(ak9, 0);
+  const ak9IncludedCount = parseInt(getElement(ak9, 1) || '0');
+  const ak9ReceivedCount = parseInt(getElement(ak9, 2) || '0');
+  const ak9AcceptedCount = parseInt(getElement(ak9, 3) || '0');
+
+  // Determine overall acceptance
+  const isAccepted = ak9StatusCode === 'A' || ak9StatusCode === 'E';
+  const statusDescription =
+    AK9_STATUS_CODES[ak9StatusCode] || `Unknown status: ${ak9StatusCode}`;
+
+  // Parse individual transaction set responses (2000 loops)
+  const transactionResponses = parseTransactionResponses(tree);
+
+  // Collect any error codes
+  const errorCodes = collectErrorCodes(transactionResponses);
+
+  const parsed999: Parsed999 = {
+    originalControlNumber: ak1GroupControlNumber || originalGSControlNumber,
+    isaControlNumber: originalControlNumber,
+    accepted: isAccepted,
+    statusCode: ak9StatusCode,
+    statusDescription,
+    transactionSetResponses: transactionResponses,
+    errorCodes: errorCodes.length > 0 ? errorCodes : undefined,
+    includedTransactionCount: ak9IncludedCount,
+    receivedTransactionCount: ak9ReceivedCount,
+    acceptedTransactionCount: ak9AcceptedCount,
+  };
+
+  return parsed999;
+}
 
-  for (const ak2 of ak2Segments) {
+/**
+ * Parse individual transaction set responses (2000 loop: AK2 ... IK5)
+ */
+function parseTransactionResponses(tree: Loop): Parsed999['transactionSetResponses'] {
+  return childLoops(tree, '2000').map((loop) => {
     // AK2*837*0001 (837 = transaction type, 0001 = control number)
+    const ak2 = loop.segments[0];
     const transactionSetId = getElement(ak2, 0);
     const controlNumber = getElement(ak2, 1);
 
-    // Find the corresponding IK5 for this transaction
-    // IK5 follows AK2 and contains the acceptance status
-    const ak2Index = segments.indexOf(ak2);
-    let ik5StatusCode = '';
-    let ik5StatusDescription = '';
-
-    // Look for IK5 after this AK2
-    for (let i = ak2Index + 1; i < segments.length; i++) {
-      const seg = segments[i];
-      if (seg.id === 'IK5') {
-        ik5StatusCode = getElement(seg, 0);
-        ik5StatusDescription =
-          IK5_STATUS_CODES[ik5StatusCode] || `Unknown: ${ik5StatusCode}`;
-        break;
-      }
-      // Stop if we hit another AK2 or AK9
-      if (seg.id === 'AK2' || seg.id === 'AK9') {
-        break;
-      }
-    }
+    // IK5 closes the 2000 loop and carries the acceptance status
+    const ik5StatusCode = getElement(loopSegment(loop, 'IK5'), 0);
+    const ik5StatusDescription = ik5StatusCode
+      ? IK5_STATUS_CODES[ik5StatusCode] || `Unknown: ${ik5StatusCode}`
+      : '';
 
-    responses.push({
+    return {
       transactionSetId,
       controlNumber,
       accepted: ik5StatusCode === 'A' || ik5StatusCode === 'E',
       statusCode: ik5StatusCode,
       statusDescription: ik5StatusDescription,
-    });
-  }
+      segmentErrors: childLoops(loop, '2100').map(parseSegmentError),
+    };
+  });
+}
+
+/**
+ * Parse a segment error (2100 loop: IK3, CTX, then IK4 loops)
+ * IK3*NM1*12*2010BA*8 (segment NM1, 12th segment from ST, in loop 2010BA, has element errors)
+ */
+function parseSegmentError(loop: Loop): Parsed999SegmentError {
+  const ik3 = loop.segments[0];
+  const errorCode = getElement(ik3, 3);
+
+  return {
+    segmentId: getElement(ik3, 0),
+    segmentPosition: parseInt(getElement(ik3, 1) || '0'),
+    loopId: getElement(ik3, 2) || undefined,
+    errorCode,
+    description: IK3_ERROR_CODES[errorCode] || `Unknown: ${errorCode}`,
+    context: loopSegments(loop, 'CTX').map(parseContext),
+    elementErrors: childLoops(loop, '2110').map(parseElementError),
+  };
+}
+
+/**
+ * Parse an element error (2110 loop: IK4, CTX)
+ * IK4*9*67*7*ABC (9th element, data element 67, invalid code value "ABC")
+ */
+function parseElementError(loop: Loop): Parsed999ElementError {
+  const ik4 = loop.segments[0];
+  const errorCode = getElement(ik4, 2);
+  const componentPosition = getComponent(ik4, 0, 1);
+
+  return {
+    elementPosition: parseInt(getComponent(ik4, 0, 0) || '0'),
+    componentPosition: componentPosition ? parseInt(componentPosition) : undefined,
+    elementReference: getElement(ik4, 1) || undefined,
+    errorCode,
+    description: IK4_ERROR_CODES[errorCode] || `Unknown: ${errorCode}`,
+    badValue: getElement(ik4, 3) || undefined,
+    context: loopSegments(loop, 'CTX').map(parseContext),
+  };
+}
 
-  return responses;
+/**
+ * Parse a CTX segment
+ * CTX*CLM01:123456789 (business unit: the claim's patient control number)
+ * CTX*SITUATIONAL TRIGGER*CLM*43**5:3 (the segment that made the element required)
+ */
+function parseContext(ctx: Segment): Parsed999Context {
+  const segmentPosition = getElement(ctx, 2);
+
+  return {
+    name: getComponent(ctx, 0, 0),
+    reference: getComponent(ctx, 0, 1) || undefined,
+    segmentId: getElement(ctx, 1) || undefined,
+    segmentPosition: segmentPosition ? parseInt(segmentPosition) : undefined,
+    loopId: getElement(ctx, 3) || undefined,
+  };
 }
 
 /**
- * Collect error codes from IK3 and IK4 segments
- * IK3: Segment Error (data segment in error)
- * IK4: Element Error (specific element in error)
+ * Flatten the segment (IK3) and element (IK4) errors of every transaction set into codes
+ * Locating them in the original 837P is done by the acknowledgment errors service.
  */
-function collectErrorCodes(
-  segments: ReturnType<typeof parseEDISegments>
-): string[] {
+function collectErrorCodes(responses: Parsed999['transactionSetResponses']): string[] {
   const errors: string[] = [];
 
-  // IK3 - Segment errors
-  const ik3Segments = findSegments(segments, 'IK3');
-  for (const ik3 of ik3Segments) {
-    const segmentId = getElement(ik3, 0);
-    const segmentPosition = getElement(ik3, 1);
-    const errorCode = getElement(ik3, 3);
-    if (errorCode) {
-      errors.push(`Segment ${segmentId} at position ${segmentPosition}: Error ${errorCode}`);
+  for (const segmentError of responses.flatMap((r) => r.segmentErrors)) {
+    if (segmentError.errorCode) {
+      errors.push(
+        `Segment ${segmentError.segmentId} at position ${segmentError.segmentPosition}: Error ${segmentError.errorCode}`
+      );
     }
-  }
 
-  // IK4 - Element errors
-  const ik4Segments = findSegments(segments, 'IK4');
-  for (const ik4 of ik4Segments) {
-    const elementPosition = getElement(ik4, 0);
-    const elementReference = getElement(ik4, 1);
-    const errorCode = getElement(ik4, 2);
-    if (errorCode) {
-      errors.push(`Element ${elementPosition} (${elementReference}): Error ${errorCode}`);
+    for (const elementError of segmentError.elementErrors) {
+      if (elementError.errorCode) {
+        errors.push(
+          `Element ${elementError.elementPosition} (${elementError.elementReference || ''}): Error ${elementError.errorCode}`
+        );
+      }
     }
   }
 
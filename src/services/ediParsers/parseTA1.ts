@@ -0,0 +1,81 @@
+/**
+ * TA1 Interchange Acknowledgment Parser
+ * Parses X12 TA1 segments
+ *
+ * A TA1 answers an interchange (ISA/IEA) rather than a transaction set.
+ * Office Ally returns one when the envelope itself is bad (sender ID padding,
+ * ISA13/IEA02 mismatch, ...); nothing inside such an interchange is processed,
+ * so no 999 follows.
+ *
+ * TA1*000000123*240101*1200*R*001
+ * - TA101: Interchange control number (ISA13) being acknowledged
+ * - TA102/TA103: Interchange date and time
+ * - TA104: Acknowledgment code (A accepted, E accepted with errors, R rejected)
+ * - TA105: Note code (what was wrong)
+ */
+
+import type { ParsedTA1 } from '@/types';
+import { parseEDISegments, getElement, Segment, TA1_ACKNOWLEDGMENT_CODES, TA1_NOTE_CODES } from './base';
+import { parseEnvelope, EnvelopeError } from './envelope';
+
+export interface ParseTA1Result {
+  success: boolean;
+  data?: ParsedTA1;               // First acknowledgment in the file
+  acknowledgments?: ParsedTA1[];  // One per TA1 segment (each answers one interchange)
+  envelopeErrors?: EnvelopeError[];
+  error?: string;
+}
+
+/**
+ * Parse a TA1 Interchange Acknowledgment file
+ */
+export function parseTA1(content: string): ParseTA1Result {
+  try {
+    const segments = parseEDISegments(content);
+
+    if (segments.length === 0) {
+      return { success: false, error: 'No segments found in TA1 file' };
+    }
+
+    const { interchanges, errors } = parseEnvelope(segments);
+
+    const acknowledgments = interchanges.flatMap((isa) =>
+      isa.acknowledgments.map((ta1) => parseAcknowledgment(ta1, isa.controlNumber))
+    );
+
+    if (acknowledgments.length === 0) {
+      return { success: false, error: 'No TA1 segments found in file', envelopeErrors: errors };
+    }
+
+    return {
+      success: true,
+      data: acknowledgments[0],
+      acknowledgments,
+      envelopeErrors: errors.length > 0 ? errors : undefined,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to parse TA1 file',
+    };
+  }
+}
+
+/**
+ * Parse one TA1 segment
+ */
+function parseAcknowledgment(ta1: Segment, isaControlNumber: string): ParsedTA1 {
+  const acknowledgmentCode = getElement(ta1, 3);
+  const noteCode = getElement(ta1, 4);
+
+  return {
+    interchangeControlNumber: getElement(ta1, 0).trim(),
+    interchangeDate: getElement(ta1, 1),
+    interchangeTime: getElement(ta1, 2),
+    acknowledgmentCode,
+    accepted: acknowledgmentCode === 'A' || acknowledgmentCode === 'E',
+    noteCode,
+    noteDescription: TA1_NOTE_CODES[noteCode] || TA1_ACKNOWLEDGMENT_CODES[acknowledgmentCode] || `Unknown: ${noteCode}`,
+    isaControlNumber,
+  };
+}
@@ -0,0 +1,317 @@
+/**
+ * Eligibility Service
+ * Confirms a patient's coverage for a date of service before we bill it
+ *
+ * Flow:
+ * 1. Generate a 270 for the patient's member ID at the payer
+ * 2. Record the check (status: pending) with the request
+ * 3. Send it over the eligibility transport and wait for the 271
+ * 4. Summarize the 271: active/inactive, copay, coinsurance, deductible,
+ *    out-of-pocket and mental health benefits
+ *
+ * The patient is sent as the subscriber (2100C); payers that give
+ * dependents their own member IDs find them there.
+ */
+
+import { getServerSupabase } from './supabase';
+import { getBillingProvider } from './billingProviders';
+import { issueControlNumbers } from './controlNumbers';
+import { generateEligibilityRequest } from './ediGenerator';
+import { parse271 } from './ediParsers';
+import { getEligibilityTransport, EligibilityTransport } from './eligibilityTransport';
+import { toEDIDate, fromEDIDate } from '@/lib/utils';
+import type {
+  EligibilityCheck,
+  EligibilityStatus,
+  MentalHealthBenefits,
+  Parsed271,
+  Parsed271Benefit,
+  Payer,
+} from '@/types';
+
+export interface EligibilityInquiry {
+  payer: Payer;
+  claimId?: string | null;
+  memberId: string;
+  firstName: string;
+  lastName: string;
+  dob: string; // YYYY-MM-DD
+  serviceDate: string; // YYYY-MM-DD
+  serviceTypes?: string[];
+}
+
+export interface CheckEligibilityResult {
+  success: boolean;
+  check?: EligibilityCheck;
+  error?: string;
+}
+
+export type EligibilitySummary = Pick<
+  EligibilityCheck,
+  | 'status'
+  | 'plan_name'
+  | 'group_number'
+  | 'coverage_start'
+  | 'coverage_end'
+  | 'copay'
+  | 'coinsurance_percent'
+  | 'deductible'
+  | 'deductible_remaining'
+  | 'out_of_pocket'
+  | 'out_of_pocket_remaining'
+  | 'mental_health'
+  | 'benefits'
+  | 'errors'
+>;
+
+// 30 = Health Benefit Plan Coverage, MH = Mental Health
+export const DEFAULT_SERVICE_TYPES = ['30', 'MH'];
+
+// Behavioral health service types: mental health (MH), inpatient/outpatient
+// psychiatric (A4, A6-A8), substance abuse (AI), ...
+export const MENTAL_HEALTH_SERVICE_TYPES = ['MH', 'A4', 'A6', 'A7', 'A8', 'AI', 'CE', 'CF'];
+
+// Plan coverage (30) and office visits (98) carry the plan-wide amounts
+const GENERAL_SERVICE_TYPES = ['30', '98'];
+
+const ACTIVE_INFO_CODES = ['1', '2', '3', '4', '5'];
+const INACTIVE_INFO_CODES = ['6', '7', '8'];
+
+// EB06 time periods: 29 = Remaining, 24 = Year to Date (met so far)
+const REMAINING_PERIOD = '29';
+const MET_PERIOD = '24';
+
+/**
+ * Check a patient's eligibility and record the result
+ */
+export async function checkEligibility(
+  supabase: ReturnType<typeof getServerSupabase>,
+  inquiry: EligibilityInquiry,
+  transport: EligibilityTransport = getEligibilityTransport()
+): Promise<CheckEligibilityResult> {
+  const billing = await getBillingProvider(supabase);
+  if (!billing) {
+    return { success: false, error: 'Billing provider not configured (MOONLIT_BILLING_NPI)' };
+  }
+
+  const payerId = inquiry.payer.oa_professional_837p_id || inquiry.payer.office_ally_payer_id;
+  if (!payerId) {
+    return { success: false, error: `Payer ${inquiry.payer.name} has no Office Ally payer ID` };
+  }
+
+  const controlNumbers = await issueControlNumbers(supabase, 0);
+  if (!controlNumbers.success || !controlNumbers.envelope) {
+    return { success: false, error: controlNumbers.error || 'Failed to issue control numbers' };
+  }
+
+  // ISA13 is unique per interchange, so it doubles as the TRN02 trace number
+  const traceNumber = controlNumbers.envelope.interchangeControlNumber;
+
+  const generated = generateEligibilityRequest(
+    {
+      traceNumber,
+      payerId,
+      payerName: inquiry.payer.name,
+      providerName: billing.name,
+      providerNpi: billing.npi,
+      providerTin: billing.tax_id || '',
+      memberId: inquiry.memberId,
+      firstName: inquiry.firstName,
+      lastName: inquiry.lastName,
+      dob: toEDIDate(inquiry.dob),
+      serviceDate: toEDIDate(inquiry.serviceDate),
+      serviceTypes: inquiry.serviceTypes?.length ? inquiry.serviceTypes : DEFAULT_SERVICE_TYPES,
+    },
+    controlNumbers.envelope
+  );
+
+  if (!generated.success || !generated.ediContent) {
+    return { success: false, error: generated.error || 'Failed to generate 270' };
+  }
+
+  const { data: pending, error: insertError } = await supabase
+    .from('eligibility_checks')
+    .insert({
+      claim_id: inquiry.claimId || null,
+      payer_id: inquiry.payer.id,
+      member_id: inquiry.memberId,
+      patient_first_name: inquiry.firstName,
+      patient_last_name: inquiry.lastName,
+      patient_dob: inquiry.dob,
+      service_date: inquiry.serviceDate,
+      trace_number: traceNumber,
+      transport: transport.name,
+      status: 'pending',
+      request_edi: generated.ediContent,
+    })
+    .select('id')
+    .single();
+
+  if (insertError || !pending) {
+    console.error('[Eligibility] Failed to record check:', insertError);
+    return { success: false, error: 'Failed to record eligibility check' };
+  }
+
+  console.log('[Eligibility] Sending 270', traceNumber, 'via', transport.name);
+  const sent = await transport.send(generated.ediContent, traceNumber);
+
+  if (!sent.success || !sent.response) {
+    const check = await completeCheck(supabase, pending.id, { status: 'error', error: sent.error || 'No response' });
+    return { success: false, check, error: sent.error || 'No 271 response received' };
+  }
+
+  const parsed = parse271(sent.response);
+  // A 271 may answer several inquiries; ours carries our trace number
+  const response = parsed.responses?.find((r) => r.traceNumber === traceNumber) || parsed.data;
+
+  if (!parsed.success || !response) {
+    const error = parsed.error || 'Failed to parse 271';
+    const check = await completeCheck(supabase, pending.id, { status: 'error', error, response_edi: sent.response });
+    return { success: false, check, error };
+  }
+
+  if (response.traceNumber && response.traceNumber !== traceNumber) {
+    const error = `271 trace number ${response.traceNumber} does not match 270 trace number ${traceNumber}`;
+    const check = await completeCheck(supabase, pending.id, { status: 'error', error, response_edi: sent.response });
+    return { success: false, check, error };
+  }
+
+  const check = await completeCheck(supabase, pending.id, {
+    ...summarizeEligibility(response),
+    response_edi: sent.response,
+  });
+
+  console.log('[Eligibility] Check', pending.id, 'result:', check?.status);
+
+  return check ? { success: true, check } : { success: false, error: 'Failed to save eligibility result' };
+}
+
+/**
+ * Summarize a 271 response into coverage, cost sharing and mental health benefits
+ * In-network, individual amounts are preferred over out-of-network and family ones.
+ */
+export function summarizeEligibility(response: Parsed271): EligibilitySummary {
+  const { benefits, errors } = response;
+  const general = benefits.filter(
+    (b) => b.serviceTypes.length === 0 || b.serviceTypes.some((t) => GENERAL_SERVICE_TYPES.includes(t))
+  );
+
+  const isTotal = (b: Parsed271Benefit) => b.timePeriod !== REMAINING_PERIOD && b.timePeriod !== MET_PERIOD;
+  const isRemaining = (b: Parsed271Benefit) => b.timePeriod === REMAINING_PERIOD;
+  const coinsurance = pickValue(general, 'A', (b) => b.percent);
+
+  return {
+    status: coverageStatus(benefits, errors.length > 0),
+    plan_name: response.planName || null,
+    group_number: response.groupNumber || null,
+    coverage_start: fromEDIDate(response.coverageStart),
+    coverage_end: fromEDIDate(response.coverageEnd),
+    copay: pickValue(general, 'B', (b) => b.amount),
+    coinsurance_percent: coinsurance === null ? null : toPercent(coinsurance),
+    deductible: pickValue(general.filter(isTotal), 'C', (b) => b.amount),
+    deductible_remaining: pickValue(general.filter(isRemaining), 'C', (b) => b.amount),
+    out_of_pocket: pickValue(general.filter(isTotal), 'G', (b) => b.amount),
+    out_of_pocket_remaining: pickValue(general.filter(isRemaining), 'G', (b) => b.amount),
+    mental_health: summarizeMentalHealth(benefits),
+    benefits,
+    errors,
+  };
+}
+
+/**
+ * Recent eligibility checks for a claim or a member, newest first
+ */
+export async function listEligibilityChecks(
+  supabase: ReturnType<typeof getServerSupabase>,
+  filter: { claimId?: string; memberId?: string },
+  limit = 20
+): Promise<{ success: boolean; data?: EligibilityCheck[]; error?: string }> {
+  let query = supabase
+    .from('eligibility_checks')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (filter.claimId) query = query.eq('claim_id', filter.claimId);
+  if (filter.memberId) query = query.eq('member_id', filter.memberId);
+
+  const { data, error } = await query;
+  if (error) {
+    console.error('[Eligibility] Failed to list checks:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true, data: (data || []) as EligibilityCheck[] };
+}
+
+/**
+ * Store the outcome of a check and return the saved record
+ */
+async function completeCheck(
+  supabase: ReturnType<typeof getServerSupabase>,
+  checkId: string,
+  fields: Partial<EligibilityCheck>
+): Promise<EligibilityCheck | undefined> {
+  const { data, error } = await supabase
+    .from('eligibility_checks')
+    .update({ ...fields, completed_at: new Date().toISOString() })
+    .eq('id', checkId)
+    .select('*')
+    .single();
+
+  if (error) {
+    console.error('[Eligibility] Failed to update check', checkId, error);
+    return undefined;
+  }
+
+  return data as EligibilityCheck;
+}
+
+function coverageStatus(benefits: Parsed271Benefit[], hasErrors: boolean): EligibilityStatus {
+  if (benefits.some((b) => ACTIVE_INFO_CODES.includes(b.infoCode))) return 'active';
+  if (benefits.some((b) => INACTIVE_INFO_CODES.includes(b.infoCode))) return 'inactive';
+  return hasErrors ? 'error' : 'unknown';
+}
+
+function summarizeMentalHealth(benefits: Parsed271Benefit[]): MentalHealthBenefits | null {
+  const mentalHealth = benefits.filter((b) => b.serviceTypes.some((t) => MENTAL_HEALTH_SERVICE_TYPES.includes(t)));
+  if (mentalHealth.length === 0) return null;
+
+  const covered = mentalHealth.some((b) => b.infoCode !== 'I' && !INACTIVE_INFO_CODES.includes(b.infoCode));
+  const nonCovered = mentalHealth.some((b) => b.infoCode === 'I' || INACTIVE_INFO_CODES.includes(b.infoCode));
+  const authorizations = mentalHealth.map((b) => b.authorizationRequired).filter((a) => a !== undefined);
+  const coinsurance = pickValue(mentalHealth, 'A', (b) => b.percent);
+
+  return {
+    covered: covered ? true : nonCovered ? false : null,
+    copay: pickValue(mentalHealth, 'B', (b) => b.amount),
+    coinsurancePercent: coinsurance === null ? null : toPercent(coinsurance),
+    authorizationRequired: authorizations.length > 0 ? authorizations.includes(true) : null,
+    serviceTypes: [...new Set(mentalHealth.flatMap((b) => b.serviceTypes))].filter((t) =>
+      MENTAL_HEALTH_SERVICE_TYPES.includes(t)
+    ),
+    messages: mentalHealth.flatMap((b) => b.messages),
+  };
+}
+
+/**
+ * Value of the best benefit with an EB01 code: in-network before
+ * out-of-network, individual before family
+ */
+function pickValue(
+  benefits: Parsed271Benefit[],
+  infoCode: string,
+  value: (benefit: Parsed271Benefit) => number | undefined
+): number | null {
+  const rank = (b: Parsed271Benefit) => (b.inNetwork === false ? 2 : 0) + (b.coverageLevel === 'FAM' ? 1 : 0);
+  const best = benefits
+    .filter((b) => b.infoCode === infoCode && value(b) !== undefined)
+    .sort((a, b) => rank(a) - rank(b))[0];
+
+  return best ? value(best) ?? null : null;
+}
+
+// EB08 is a fraction (0.2 = 20%)
+function toPercent(fraction: number): number {
+  return Math.round(fraction * 10000) / 100;
+}
@@ -0,0 +1,208 @@
+/**
+ * Eligibility Transport
+ * Sends a 270 and waits for its 271
+ *
+ * - core: CAQH CORE real-time SOAP (Office Ally's real-time eligibility
+ *   endpoint), one request/response per check
+ * - file-drop: development stand-in; writes <trace>.270 to
+ *   ELIGIBILITY_DROP_DIR/outbound and waits for <trace>.271 to appear in
+ *   ELIGIBILITY_DROP_DIR/inbound (dropped there by hand or by a test script)
+ *
+ * ELIGIBILITY_TRANSPORT picks one; without it production uses core and
+ * everything else file-drop.
+ *
+ * IMPORTANT: This module uses Node.js fs and can ONLY run on the server.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+
+export interface EligibilityTransportResult {
+  success: boolean;
+  response?: string; // Raw 271
+  error?: string;
+}
+
+export interface EligibilityTransport {
+  name: string;
+  send(request: string, traceNumber: string): Promise<EligibilityTransportResult>;
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const POLL_INTERVAL_MS = 500;
+
+function getTimeout(): number {
+  return parseInt(process.env.ELIGIBILITY_TIMEOUT_MS || String(DEFAULT_TIMEOUT_MS));
+}
+
+/**
+ * The transport configured for this environment
+ */
+export function getEligibilityTransport(): EligibilityTransport {
+  const name =
+    process.env.ELIGIBILITY_TRANSPORT || (process.env.NODE_ENV === 'production' ? 'core' : 'file-drop');
+
+  switch (name) {
+    case 'core':
+      return createCoreTransport();
+    case 'file-drop':
+      return createFileDropTransport(process.env.ELIGIBILITY_DROP_DIR || path.join(process.cwd(), '.eligibility'));
+    default:
+      throw new Error(`Unknown eligibility transport: ${name}`);
+  }
+}
+
+/**
+ * Local file-drop transport for development
+ */
+export function createFileDropTransport(directory: string): EligibilityTransport {
+  return {
+    name: 'file-drop',
+    async send(request, traceNumber) {
+      const outbound = path.join(directory, 'outbound');
+      const inbound = path.join(directory, 'inbound');
+      const responsePath = path.join(inbound, `${traceNumber}.271`);
+
+      try {
+        await fs.mkdir(outbound, { recursive: true });
+        await fs.mkdir(inbound, { recursive: true });
+        await fs.writeFile(path.join(outbound, `${traceNumber}.270`), request);
+        console.log('[Eligibility] Dropped 270, waiting for', responsePath);
+
+        const deadline = Date.now() + getTimeout();
+        while (Date.now() < deadline) {
+          try {
+            return { success: true, response: await fs.readFile(responsePath, 'utf8') };
+          } catch {
+            await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+          }
+        }
+
+        return { success: false, error: `No 271 for trace ${traceNumber} within ${getTimeout()}ms` };
+      } catch (error) {
+        console.error('[Eligibility] File drop failed:', error);
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'File drop failed',
+        };
+      }
+    },
+  };
+}
+
+/**
+ * CAQH CORE Phase II real-time SOAP transport
+ */
+export function createCoreTransport(): EligibilityTransport {
+  const config = {
+    url: process.env.ELIGIBILITY_CORE_URL || '',
+    username: process.env.ELIGIBILITY_CORE_USERNAME || '',
+    password: process.env.ELIGIBILITY_CORE_PASSWORD || '',
+    senderId: process.env.MOONLIT_SENDER_ID || 'MOONLIT',
+    receiverId: process.env.ELIGIBILITY_CORE_RECEIVER_ID || 'OFFALLY',
+  };
+
+  return {
+    name: 'core',
+    async send(request) {
+      if (!config.url || !config.username || !config.password) {
+        return { success: false, error: 'Real-time eligibility credentials not configured' };
+      }
+
+      try {
+        const response = await fetch(config.url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/soap+xml; charset=utf-8' },
+          body: buildCoreEnvelope(request, config),
+          signal: AbortSignal.timeout(getTimeout()),
+        });
+
+        const body = await response.text();
+        if (!response.ok) {
+          return { success: false, error: `Eligibility endpoint returned ${response.status}` };
+        }
+
+        const errorCode = readXmlElement(body, 'ErrorCode');
+        if (errorCode && errorCode !== 'Success') {
+          return { success: false, error: `${errorCode}: ${readXmlElement(body, 'ErrorMessage') || 'Request failed'}` };
+        }
+
+        const payload = readXmlElement(body, 'Payload');
+        if (!payload) {
+          return { success: false, error: 'Eligibility response had no payload' };
+        }
+
+        return { success: true, response: payload };
+      } catch (error) {
+        console.error('[Eligibility] Real-time request failed:', error);
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Real-time request failed',
+        };
+      }
+    },
+  };
+}
+
+/**
+ * SOAP envelope with a WS-Security username token (CORE connectivity rule)
+ */
+function buildCoreEnvelope(
+  request: string,
+  config: { username: string; password: string; senderId: string; receiverId: string }
+): string {
+  return [
+    '<soapenv:Envelope xmlns:soapenv="http://www.w3.org/2003/05/soap-envelope" xmlns:cor="http://www.caqh.org/SOAP/WSDL/CORERule2.2.0.xsd">',
+    '<soapenv:Header>',
+    '<wsse:Security xmlns:wsse="http://docs.oasis-open.org/wss/2004/01/oasis-200401-wss-wssecurity-secext-1.0.xsd">',
+    '<wsse:UsernameToken>',
+    `<wsse:Username>${escapeXml(config.username)}</wsse:Username>`,
+    `<wsse:Password Type="http://docs.oasis-open.org/wss/2004/01/oasis-200401-wss-username-token-profile-1.0#PasswordText">${escapeXml(config.password)}</wsse:Password>`,
+    '</wsse:UsernameToken>',
+    '</wsse:Security>',
+    '</soapenv:Header>',
+    '<soapenv:Body>',
+    '<cor:COREEnvelopeRealTimeRequest>',
+    '<PayloadType>X12_270_Request_005010X279A1</PayloadType>',
+    '<ProcessingMode>RealTime</ProcessingMode>',
+    `<PayloadID>${randomUUID()}</PayloadID>`,
+    `<TimeStamp>${new Date().toISOString().replace(/\.\d{3}Z$/, 'Z')}</TimeStamp>`,
+    `<SenderID>${escapeXml(config.senderId)}</SenderID>`,
+    `<ReceiverID>${escapeXml(config.receiverId)}</ReceiverID>`,
+    '<CORERuleVersion>2.2.0</CORERuleVersion>',
+    `<Payload><![CDATA[${request}]]></Payload>`,
+    '</cor:COREEnvelopeRealTimeRequest>',
+    '</soapenv:Body>',
+    '</soapenv:Envelope>',
+  ].join('');
+}
+
+/**
+ * Text of the first element with a local name, with CDATA unwrapped and
+ * entities decoded
+ */
+function readXmlElement(xml: string, name: string): string | undefined {
+  const match = xml.match(new RegExp(`<(?:\\w+:)?${name}[^>]*>([\\s\\S]*?)</(?:\\w+:)?${name}>`));
+  if (!match) return undefined;
+
+  const text = match[1].trim();
+  const cdata = text.match(/^<!\[CDATA\[([\s\S]*)\]\]>$/);
+  if (cdata) return cdata[1];
+
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -1,82 +1,27 @@
 /**
- * Office Ally SFTP Client
- * Handles EDI file uploads to Office Ally clearinghouse
+ * Office Ally Uploads
+ * Names our EDI files the way Office Ally expects and uploads them to the
+ * configured clearinghouse (Office Ally's SFTP server, or the local
+ * clearinghouse in development)
  *
- * IMPORTANT: This module uses native Node.js bindings and can ONLY run on the server.
+ * IMPORTANT: This module can ONLY run on the server.
  * Never import this directly in client-side code.
  */
 
-// Dynamic import to avoid bundling in client
-// eslint-disable-next-line @typescript-eslint/no-require-imports
-const SftpClient = require('ssh2-sftp-client');
+import { getClearinghouse, type UploadResult } from './clearinghouse';
 
-export interface SFTPConfig {
-  host: string;
-  port: number;
-  username: string;
-  password: string;
-}
-
-export interface UploadResult {
-  success: boolean;
-  fileName?: string;
-  remotePath?: string;
-  error?: string;
-}
-
-function getConfig(): SFTPConfig {
-  return {
-    host: process.env.OFFICE_ALLY_SFTP_HOST || '',
-    port: parseInt(process.env.OFFICE_ALLY_SFTP_PORT || '22'),
-    username: process.env.OFFICE_ALLY_SFTP_USERNAME || process.env.OFFICE_ALLY_SFTP_USER || '',
-    password: process.env.OFFICE_ALLY_SFTP_PASSWORD || '',
-  };
-}
+export type { SFTPConfig, UploadResult } from './clearinghouse';
 
 /**
- * Test SFTP connection to Office Ally
+ * Test the connection to the clearinghouse
  */
 export async function testConnection(): Promise<{ success: boolean; error?: string }> {
-  const sftp = new SftpClient();
-  const config = getConfig();
-
-  if (!config.host || !config.username || !config.password) {
-    return {
-      success: false,
-      error: 'Office Ally SFTP credentials not configured',
-    };
-  }
+  const clearinghouse = getClearinghouse();
 
   try {
-    console.log('[SFTP] Testing connection to', config.host);
-
-    await sftp.connect({
-      host: config.host,
-      port: config.port,
-      username: config.username,
-      password: config.password,
-    });
-
-    // Try to list root directory to verify access
-    const files = await sftp.list('/');
-    console.log('[SFTP] Connection successful, found directories:', files.map((f: { name: string }) => f.name).join(', '));
-
-    await sftp.end();
-
-    return { success: true };
-  } catch (error) {
-    console.error('[SFTP] Connection test failed:', error);
-
-    try {
-      await sftp.end();
-    } catch {
-      // Ignore disconnect errors
-    }
-
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'SFTP connection failed',
-    };
+    return await clearinghouse.testConnection();
+  } finally {
+    await clearinghouse.close();
   }
 }
 
@@ -86,129 +31,63 @@ export async function testConnection(): Promise<{ success: boolean; error?: stri
  * For test mode: OATEST_837P_YYYYMMDD_HHMMSS_ClaimID.txt (per Office Ally docs)
  */
 export async function uploadClaim(ediContent: string, claimId: string, testMode: boolean = true): Promise<UploadResult> {
-  const sftp = new SftpClient();
-  const config = getConfig();
-
-  if (!config.host || !config.username || !config.password) {
-    return {
-      success: false,
-      error: 'Office Ally SFTP credentials not configured',
-    };
-  }
-
-  try {
-    console.log('[SFTP] Connecting to Office Ally for claim upload');
-
-    await sftp.connect({
-      host: config.host,
-      port: config.port,
-      username: config.username,
-      password: config.password,
-    });
-
-    // Generate filename based on mode
-    // Test mode: OATEST_837P_YYYY-MM-DDTHH-MM-SS_ClaimID.txt (Office Ally test format)
-    // Production: MOONLIT_YYYYMMDD_HHMMSS_ClaimID.837
-    const now = new Date();
-    const shortId = claimId.substring(0, 8); // Use first 8 chars of UUID
-
-    let fileName: string;
-    if (testMode) {
-      // Office Ally test format - must include "OATEST" to be treated as test
-      const isoTimestamp = now.toISOString().replace(/:/g, '-').split('.')[0];
-      fileName = `OATEST_837P_${isoTimestamp}_${shortId}.txt`;
-    } else {
-      const timestamp = now
-        .toISOString()
-        .replace(/[-:]/g, '')
-        .replace('T', '_')
-        .split('.')[0];
-      fileName = `MOONLIT_${timestamp}_${shortId}.837`;
-    }
-
-    // Office Ally uses /outbound for incoming files
-    const remotePath = `/outbound/${fileName}`;
-
-    // Convert content to Buffer
-    const buffer = Buffer.from(ediContent, 'utf-8');
-
-    console.log('[SFTP] Uploading claim file:', {
-      fileName,
-      remotePath,
-      size: buffer.length,
-      testMode,
-    });
-
-    if (testMode) {
-      console.log('[SFTP] TEST MODE - File includes OATEST prefix, will not be sent to payer');
-    }
-
-    await sftp.put(buffer, remotePath);
-
-    console.log('[SFTP] Claim file uploaded successfully');
-
-    await sftp.end();
-
-    return {
-      success: true,
-      fileName,
-      remotePath,
-    };
-  } catch (error) {
-    console.error('[SFTP] Upload failed:', error);
-
-    try {
-      await sftp.end();
-    } catch {
-      // Ignore disconnect errors
-    }
+  return uploadEDIFile(ediContent, claimId.substring(0, 8), testMode);
+}
 
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'SFTP upload failed',
-    };
-  }
+/**
+ * Upload a batch 837P file (many claims, one file) to Office Ally
+ * File naming convention: MOONLIT_YYYYMMDD_HHMMSS_BATCH_BatchID.837
+ */
+export async function uploadBatch(ediContent: string, batchId: string, testMode: boolean = true): Promise<UploadResult> {
+  return uploadEDIFile(ediContent, `BATCH_${batchId.substring(0, 8)}`, testMode);
 }
 
 /**
- * List files in a directory (for debugging)
+ * Upload a 276 claim status inquiry file to Office Ally
+ * File naming convention: MOONLIT_YYYYMMDD_HHMMSS_INQ_InquiryID.276
  */
-export async function listDirectory(path: string): Promise<{ success: boolean; files?: string[]; error?: string }> {
-  const sftp = new SftpClient();
-  const config = getConfig();
+export async function uploadStatusInquiry(ediContent: string, inquiryId: string, testMode: boolean = true): Promise<UploadResult> {
+  return uploadEDIFile(ediContent, `INQ_${inquiryId.substring(0, 8)}`, testMode, '276');
+}
 
-  if (!config.host || !config.username || !config.password) {
-    return {
-      success: false,
-      error: 'Office Ally SFTP credentials not configured',
-    };
+/**
+ * Name an EDI file and upload it to the clearinghouse
+ */
+async function uploadEDIFile(
+  ediContent: string,
+  fileSuffix: string,
+  testMode: boolean,
+  transaction: '837P' | '276' = '837P'
+): Promise<UploadResult> {
+  // Generate filename based on mode
+  // Test mode: OATEST_{837P|276}_YYYY-MM-DDTHH-MM-SS_{suffix}.txt (Office Ally test format)
+  // Production: MOONLIT_YYYYMMDD_HHMMSS_{suffix}.{837|276}
+  const now = new Date();
+
+  let fileName: string;
+  if (testMode) {
+    // Office Ally test format - must include "OATEST" to be treated as test
+    const isoTimestamp = now.toISOString().replace(/:/g, '-').split('.')[0];
+    fileName = `OATEST_${transaction}_${isoTimestamp}_${fileSuffix}.txt`;
+  } else {
+    const timestamp = now
+      .toISOString()
+      .replace(/[-:]/g, '')
+      .replace('T', '_')
+      .split('.')[0];
+    fileName = `MOONLIT_${timestamp}_${fileSuffix}.${transaction === '837P' ? '837' : transaction}`;
   }
 
-  try {
-    await sftp.connect({
-      host: config.host,
-      port: config.port,
-      username: config.username,
-      password: config.password,
-    });
-
-    const files = await sftp.list(path);
-    await sftp.end();
+  if (testMode) {
+    console.log('[Upload] TEST MODE - File includes OATEST prefix, will not be sent to payer');
+  }
 
-    return {
-      success: true,
-      files: files.map((f: { name: string }) => f.name),
-    };
-  } catch (error) {
-    try {
-      await sftp.end();
-    } catch {
-      // Ignore
-    }
+  const clearinghouse = getClearinghouse();
+  console.log('[Upload] Uploading', fileName, 'via', clearinghouse.name);
 
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Failed to list directory',
-    };
+  try {
+    return await clearinghouse.upload(fileName, ediContent);
+  } finally {
+    await clearinghouse.close();
   }
 }
@@ -3,50 +3,160 @@
  * V2: Downloads and processes EDI response files from Office Ally
  *
  * This service orchestrates the reconciliation process:
- * 1. Downloads new 999/277/835 files from SFTP
- * 2. Parses each file using appropriate parser
- * 3. Matches responses to claims in database
- * 4. Updates claim statuses and records events
+ * 1. Takes the run lock (reconciliation_runs) and resumes files left pending
+ * 2. Downloads new TA1/999/277/835 files from the clearinghouse and archives
+ *    each one there once it is saved
+ * 3. Parses each file using appropriate parser
+ * 4. Matches responses to claims in database
+ * 5. Stages claim status changes through the status state machine
+ * 6. Stages claim-level 277/835 responses that match no claim for manual
+ *    matching, 276 inquiries answered by solicited 277s, batch statuses and
+ *    the 835 remittance ledger
+ * 7. Applies each file's staged changes, events and records in one transaction
+ *
+ * Stored files can also be replayed (after a parser fix) without the clearinghouse; a replay
+ * runs under the same lock and reports which claims it changed.
+ *
+ * A dry run downloads, parses and matches the same way but writes nothing: no
+ * run, saved files, ledger entries or claim changes. It reports the claim
+ * changes a real run would make.
  */
 
 import { getServerSupabase } from './supabase';
 import { downloadResponseFiles } from './responseFileDownloader';
+import { getClearinghouse, type Clearinghouse } from './clearinghouse';
+import {
+  createClaimChangeSet,
+  getStagedClaim,
+  stageTransition,
+  commitClaimChangeSet,
+  commitUnmatchedResolution,
+  loadRecordedEvents,
+  diffClaimChangeSet,
+  ClaimChangeSet,
+  StagedClaim,
+} from './claimChangeSet';
+import {
+  buildRemittance,
+  buildClaimPayment,
+  buildProviderAdjustments,
+  depositDifference,
+} from './remittanceLedger';
+import { buildUnmatchedResponse } from './unmatchedResponses';
+import { buildInquiryResponse } from './claimStatusInquiries';
+import {
+  findClaimsByInterchangeControlNumber,
+  findClaimsByGroupControlNumber,
+  findClaimByControlNumber,
+} from './controlNumbers';
+import { locateAcknowledgmentErrors } from './acknowledgmentErrors';
+import type { TransitionResult } from './claimStatusMachine';
+import { parseTA1 } from './ediParsers/parseTA1';
 import { parse999 } from './ediParsers/parse999';
 import { parse277 } from './ediParsers/parse277';
 import { parse835 } from './ediParsers/parse835';
+import type { EnvelopeError } from './ediParsers/envelope';
+import { fromEDIDate } from '@/lib/utils';
 import type {
+  AcknowledgmentError,
   ReconciliationResult,
+  ReconciliationRun,
+  ClaimChange,
   ClaimStatus,
   EDIResponseFileType,
   Parsed999,
   Parsed277,
-  Parsed835,
+  Parsed277ClaimStatus,
+  Parsed277ServiceLine,
+  Parsed835Adjustment,
+  Parsed835ClaimPayment,
+  ClaimAdjustmentCode,
+  RemarkCode,
+  ServiceLine,
+  ServiceLineStatus,
+  UnmatchedResponse,
 } from '@/types';
 
 interface ProcessingStats {
+  fileTA1Count: number;
   file999Count: number;
   file277Count: number;
   file835Count: number;
+  filesResumed: number;
   claimsUpdated: number;
+  unmatchedResponses: number;
+  duplicateEvents: number;
+  changes: ClaimChange[];
   errors: string[];
 }
 
+interface StoredResponseFile {
+  id: string | null; // null for a file a dry run downloaded without saving
+  filename: string;
+  fileType: EDIResponseFileType;
+  content: string;
+}
+
+export interface ReconciliationOptions {
+  dryRun?: boolean;
+}
+
+export interface ReplayOptions extends ReconciliationOptions {
+  fileType: EDIResponseFileType;
+  since: string; // Replays files downloaded at or after this date
+}
+
+// A run that has not applied a file for this long is treated as crashed and loses the lock
+const STALE_RUN_MINUTES = 30;
+
 /**
  * Run full reconciliation process
- * Downloads files, parses them, updates claims
+ * Resumes files left pending by an earlier run, downloads new files, parses
+ * them and updates claims. Only one run executes at a time; dry runs take no
+ * lock.
  */
-export async function runReconciliation(): Promise<ReconciliationResult> {
+export async function runReconciliation(
+  options: ReconciliationOptions = {}
+): Promise<ReconciliationResult> {
   const supabase = getServerSupabase();
-  const stats: ProcessingStats = {
-    file999Count: 0,
-    file277Count: 0,
-    file835Count: 0,
-    claimsUpdated: 0,
-    errors: [],
-  };
+  const stats = createStats();
+  let runId: string | null = null;
+
+  if (!options.dryRun) {
+    const started = await startRun(supabase, 'download');
+    if (!started.runId) return notStarted(started.error);
+    runId = started.runId;
+  }
+
+  let filesDownloaded = 0;
+  let clearinghouse: Clearinghouse | null = null;
 
   try {
-    console.log('[Reconciliation] Starting reconciliation process...');
+    console.log(
+      runId ? '[Reconciliation] Starting reconciliation run' : '[Reconciliation] Starting dry run',
+      runId || ''
+    );
+
+    // Resume files an earlier run saved but never finished applying
+    const { data: pendingFiles } = await supabase
+      .from('edi_response_files')
+      .select('id, filename, file_type, file_content')
+      .eq('processing_status', 'pending')
+      .order('downloaded_at', { ascending: true });
+
+    if (pendingFiles && pendingFiles.length > 0) {
+      console.log(`[Reconciliation] Resuming ${pendingFiles.length} pending files`);
+    }
+
+    for (const file of pendingFiles || []) {
+      stats.filesResumed++;
+      await processStoredFile(
+        supabase,
+        runId,
+        { id: file.id, filename: file.filename, fileType: file.file_type, content: file.file_content || '' },
+        stats
+      );
+    }
 
     // Get list of already processed filenames
     const { data: existingFiles } = await supabase
@@ -56,147 +166,466 @@ export async function runReconciliation(): Promise<ReconciliationResult> {
     const existingFilenames = (existingFiles || []).map((f) => f.filename);
     console.log(`[Reconciliation] Found ${existingFilenames.length} previously downloaded files`);
 
-    // Download new files from SFTP
-    const downloadResult = await downloadResponseFiles(existingFilenames);
+    // Download new files from the clearinghouse
+    clearinghouse = getClearinghouse();
+    const downloadResult = await downloadResponseFiles(clearinghouse, existingFilenames);
 
     if (!downloadResult.success) {
-      return {
-        success: false,
-        filesDownloaded: 0,
-        filesProcessed: 0,
-        claimsUpdated: 0,
-        errors: [downloadResult.error || 'Download failed'],
-        details: { file999Count: 0, file277Count: 0, file835Count: 0 },
-      };
+      stats.errors.push(downloadResult.error || 'Download failed');
+      return finishRun(supabase, runId, 'failed', filesDownloaded, stats);
     }
 
-    console.log(`[Reconciliation] Downloaded ${downloadResult.files.length} new files`);
+    filesDownloaded = downloadResult.files.length;
+    console.log(`[Reconciliation] Downloaded ${filesDownloaded} new files`);
 
     // Process each file
     for (const file of downloadResult.files) {
-      try {
-        // Save file to database
-        const { data: savedFile, error: saveError } = await supabase
-          .from('edi_response_files')
-          .insert({
-            filename: file.filename,
-            file_type: file.fileType,
-            file_content: file.content,
-            processing_status: 'pending',
-            downloaded_at: new Date().toISOString(),
-          })
-          .select()
-          .single();
-
-        if (saveError) {
-          stats.errors.push(`Failed to save file ${file.filename}: ${saveError.message}`);
-          continue;
-        }
-
-        // Process based on file type
-        const processResult = await processResponseFile(
-          savedFile.id,
-          file.fileType,
-          file.content,
-          supabase
+      if (!runId) {
+        await processStoredFile(
+          supabase,
+          null,
+          { id: null, filename: file.filename, fileType: file.fileType, content: file.content },
+          stats
         );
+        continue;
+      }
 
-        // Update file record with results
-        await supabase
-          .from('edi_response_files')
-          .update({
-            processing_status: processResult.success ? 'processed' : 'failed',
-            processing_error: processResult.error,
-            claims_matched: processResult.claimsMatched,
-            claims_updated: processResult.claimsUpdated,
-            processed_at: new Date().toISOString(),
-          })
-          .eq('id', savedFile.id);
-
-        // Update stats
-        if (file.fileType === '999') stats.file999Count++;
-        if (file.fileType === '277') stats.file277Count++;
-        if (file.fileType === '835') stats.file835Count++;
-        stats.claimsUpdated += processResult.claimsUpdated;
-
-        if (processResult.error) {
-          stats.errors.push(`${file.filename}: ${processResult.error}`);
-        }
-      } catch (fileError) {
-        const errorMsg =
-          fileError instanceof Error ? fileError.message : 'Unknown processing error';
-        stats.errors.push(`${file.filename}: ${errorMsg}`);
+      // Save file to database
+      const { data: savedFile, error: saveError } = await supabase
+        .from('edi_response_files')
+        .insert({
+          filename: file.filename,
+          file_type: file.fileType,
+          file_content: file.content,
+          processing_status: 'pending',
+          downloaded_at: new Date().toISOString(),
+          run_id: runId,
+        })
+        .select()
+        .single();
+
+      if (saveError) {
+        stats.errors.push(`Failed to save file ${file.filename}: ${saveError.message}`);
+        continue;
       }
-    }
 
-    const totalProcessed =
-      stats.file999Count + stats.file277Count + stats.file835Count;
+      // Saved files are resumed from the database, so the clearinghouse copy can go
+      const archived = await clearinghouse.archive(file.filename);
+      if (!archived.success) {
+        console.error(`[Reconciliation] Failed to archive ${file.filename}:`, archived.error);
+      }
 
-    console.log(
-      `[Reconciliation] Complete. Processed ${totalProcessed} files, updated ${stats.claimsUpdated} claims`
-    );
+      await processStoredFile(
+        supabase,
+        runId,
+        { id: savedFile.id, filename: file.filename, fileType: file.fileType, content: file.content },
+        stats
+      );
+    }
 
-    return {
-      success: stats.errors.length === 0,
-      filesDownloaded: downloadResult.files.length,
-      filesProcessed: totalProcessed,
-      claimsUpdated: stats.claimsUpdated,
-      errors: stats.errors,
-      details: {
-        file999Count: stats.file999Count,
-        file277Count: stats.file277Count,
-        file835Count: stats.file835Count,
-      },
-    };
+    return finishRun(supabase, runId, 'completed', filesDownloaded, stats);
   } catch (error) {
     console.error('[Reconciliation] Fatal error:', error);
-    return {
-      success: false,
-      filesDownloaded: 0,
-      filesProcessed: 0,
-      claimsUpdated: 0,
-      errors: [error instanceof Error ? error.message : 'Unknown error'],
-      details: { file999Count: 0, file277Count: 0, file835Count: 0 },
-    };
+    stats.errors.push(error instanceof Error ? error.message : 'Unknown error');
+    return finishRun(supabase, runId, 'failed', filesDownloaded, stats);
+  } finally {
+    await clearinghouse?.close();
   }
 }
 
+/**
+ * Replay the stored files of one type downloaded since a date, oldest first
+ * Files are processed again from their saved content and run through the
+ * status state machine against the claims as they are now.
+ */
+export async function replayResponseFiles(options: ReplayOptions): Promise<ReconciliationResult> {
+  const supabase = getServerSupabase();
+
+  const { data: files, error } = await supabase
+    .from('edi_response_files')
+    .select('id, filename, file_type, file_content')
+    .eq('file_type', options.fileType)
+    .gte('downloaded_at', options.since)
+    .order('downloaded_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load response files: ${error.message}`);
+  }
+
+  return replayStoredFiles(supabase, files || [], options);
+}
+
+/**
+ * Replay a single stored file
+ * Returns null when the file does not exist.
+ */
+export async function reprocessResponseFile(
+  fileId: string,
+  options: ReconciliationOptions = {}
+): Promise<ReconciliationResult | null> {
+  const supabase = getServerSupabase();
+
+  const { data: file } = await supabase
+    .from('edi_response_files')
+    .select('id, filename, file_type, file_content')
+    .eq('id', fileId)
+    .single();
+
+  if (!file) return null;
+
+  return replayStoredFiles(supabase, [file], options);
+}
+
+/**
+ * Set files back to pending and process them in a replay run (a dry run only
+ * reports the changes)
+ * A replay that stops part way leaves its file pending for the next run, which
+ * skips whatever events the file had already recorded.
+ */
+async function replayStoredFiles(
+  supabase: ReturnType<typeof getServerSupabase>,
+  files: { id: string; filename: string; file_type: EDIResponseFileType; file_content: string | null }[],
+  options: ReconciliationOptions
+): Promise<ReconciliationResult> {
+  const stats = createStats();
+  let runId: string | null = null;
+
+  if (!options.dryRun) {
+    const started = await startRun(supabase, 'replay');
+    if (!started.runId) return notStarted(started.error);
+    runId = started.runId;
+  }
+
+  try {
+    console.log(`[Reconciliation] Replaying ${files.length} files`, runId ? `in run ${runId}` : '(dry run)');
+
+    for (const file of files) {
+      if (!runId) {
+        await processStoredFile(
+          supabase,
+          null,
+          { id: file.id, filename: file.filename, fileType: file.file_type, content: file.file_content || '' },
+          stats
+        );
+        continue;
+      }
+
+      const { error: resetError } = await supabase
+        .from('edi_response_files')
+        .update({ processing_status: 'pending', processing_error: null })
+        .eq('id', file.id);
+
+      if (resetError) {
+        stats.errors.push(`${file.filename}: not replayed (${resetError.message})`);
+        continue;
+      }
+
+      await processStoredFile(
+        supabase,
+        runId,
+        { id: file.id, filename: file.filename, fileType: file.file_type, content: file.file_content || '' },
+        stats
+      );
+    }
+
+    return finishRun(supabase, runId, 'completed', 0, stats);
+  } catch (error) {
+    console.error('[Reconciliation] Fatal error during replay:', error);
+    stats.errors.push(error instanceof Error ? error.message : 'Unknown error');
+    return finishRun(supabase, runId, 'failed', 0, stats);
+  }
+}
+
+function createStats(): ProcessingStats {
+  return {
+    fileTA1Count: 0,
+    file999Count: 0,
+    file277Count: 0,
+    file835Count: 0,
+    filesResumed: 0,
+    claimsUpdated: 0,
+    unmatchedResponses: 0,
+    duplicateEvents: 0,
+    changes: [],
+    errors: [],
+  };
+}
+
+/**
+ * Take the run lock; no run id means another run holds it
+ */
+async function startRun(
+  supabase: ReturnType<typeof getServerSupabase>,
+  mode: ReconciliationRun['mode']
+): Promise<{ runId?: string; error?: string }> {
+  const { data: runId, error } = await supabase.rpc('start_reconciliation_run', {
+    p_stale_minutes: STALE_RUN_MINUTES,
+    p_mode: mode,
+  });
+
+  if (error) return { error: `Failed to start reconciliation run: ${error.message}` };
+  if (!runId) return { error: 'Another reconciliation run is in progress' };
+
+  return { runId };
+}
+
+/**
+ * Result of a run that never started
+ */
+function notStarted(error?: string): ReconciliationResult {
+  return {
+    success: false,
+    filesDownloaded: 0,
+    filesProcessed: 0,
+    filesResumed: 0,
+    claimsUpdated: 0,
+    unmatchedResponses: 0,
+    duplicateEvents: 0,
+    changes: [],
+    errors: [error || 'Reconciliation run not started'],
+    details: { fileTA1Count: 0, file999Count: 0, file277Count: 0, file835Count: 0 },
+  };
+}
+
+/**
+ * Process a saved response file and apply its claim changes in one transaction
+ * If applying fails the file stays pending and the next run picks it up again.
+ * Without a run (dry run) the changes are only reported.
+ */
+async function processStoredFile(
+  supabase: ReturnType<typeof getServerSupabase>,
+  runId: string | null,
+  file: StoredResponseFile,
+  stats: ProcessingStats
+): Promise<void> {
+  try {
+    // Events an earlier pass recorded (replays, resumed files) are not repeated
+    const changes = createClaimChangeSet(file.id ? await loadRecordedEvents(supabase, file.id) : undefined);
+
+    // Process based on file type
+    const processResult = await processResponseFile(file.id, file.fileType, file.content, supabase, changes);
+
+    if (runId && file.id) {
+      const commit = await commitClaimChangeSet(supabase, changes, {
+        fileId: file.id,
+        runId,
+        processingStatus: processResult.success ? 'processed' : 'failed',
+        processingError: processResult.error,
+        claimsMatched: processResult.claimsMatched,
+        claimsUpdated: processResult.claimsUpdated,
+      });
+
+      if (!commit.success) {
+        stats.errors.push(`${file.filename}: changes not applied, will retry next run (${commit.error})`);
+        return;
+      }
+    }
+
+    // Update stats
+    if (file.fileType === 'TA1') stats.fileTA1Count++;
+    if (file.fileType === '999') stats.file999Count++;
+    if (file.fileType === '277') stats.file277Count++;
+    if (file.fileType === '835') stats.file835Count++;
+    stats.claimsUpdated += processResult.claimsUpdated;
+    stats.unmatchedResponses += processResult.unmatched || 0;
+    stats.duplicateEvents += changes.duplicates;
+    stats.changes.push(...diffClaimChangeSet(changes, file));
+
+    if (processResult.error) {
+      stats.errors.push(`${file.filename}: ${processResult.error}`);
+    }
+  } catch (fileError) {
+    const errorMsg =
+      fileError instanceof Error ? fileError.message : 'Unknown processing error';
+    stats.errors.push(`${file.filename}: ${errorMsg}`);
+  }
+}
+
+/**
+ * Record the outcome of a run, releasing the lock, and build its result
+ * A dry run (no run id) has nothing to record.
+ */
+async function finishRun(
+  supabase: ReturnType<typeof getServerSupabase>,
+  runId: string | null,
+  status: 'completed' | 'failed',
+  filesDownloaded: number,
+  stats: ProcessingStats
+): Promise<ReconciliationResult> {
+  const totalProcessed =
+    stats.fileTA1Count + stats.file999Count + stats.file277Count + stats.file835Count;
+
+  if (runId) {
+    const { error } = await supabase
+      .from('reconciliation_runs')
+      .update({
+        status,
+        files_downloaded: filesDownloaded,
+        files_resumed: stats.filesResumed,
+        files_processed: totalProcessed,
+        claims_updated: stats.claimsUpdated,
+        errors: stats.errors,
+        finished_at: new Date().toISOString(),
+      })
+      .eq('id', runId);
+
+    if (error) {
+      console.error('[Reconciliation] Failed to finish run:', runId, error);
+    }
+  }
+
+  console.log(
+    `[Reconciliation] ${runId ? 'Run' : 'Dry run'} ${status}. Processed ${totalProcessed} files, ${runId ? 'updated' : 'would update'} ${stats.claimsUpdated} claims`
+  );
+
+  return {
+    success: status === 'completed' && stats.errors.length === 0,
+    runId: runId || undefined,
+    dryRun: !runId,
+    filesDownloaded,
+    filesProcessed: totalProcessed,
+    filesResumed: stats.filesResumed,
+    claimsUpdated: stats.claimsUpdated,
+    unmatchedResponses: stats.unmatchedResponses,
+    duplicateEvents: stats.duplicateEvents,
+    changes: stats.changes,
+    errors: stats.errors,
+    details: {
+      fileTA1Count: stats.fileTA1Count,
+      file999Count: stats.file999Count,
+      file277Count: stats.file277Count,
+      file835Count: stats.file835Count,
+    },
+  };
+}
+
 interface ProcessResult {
   success: boolean;
   claimsMatched: number;
   claimsUpdated: number;
+  unmatched?: number; // Claim-level responses that matched no claim
   error?: string;
 }
 
 /**
- * Process a single response file
+ * Process a single response file, staging its claim changes and records
+ * Nothing is written here; a dry run never commits what was staged.
  */
 async function processResponseFile(
-  fileId: string,
+  fileId: string | null,
   fileType: EDIResponseFileType,
   content: string,
-  supabase: ReturnType<typeof getServerSupabase>
+  supabase: ReturnType<typeof getServerSupabase>,
+  changes: ClaimChangeSet
 ): Promise<ProcessResult> {
   switch (fileType) {
+    case 'TA1':
+      return processTA1File(fileId, content, supabase, changes);
     case '999':
-      return process999File(fileId, content, supabase);
+      return process999File(fileId, content, supabase, changes);
     case '277':
-      return process277File(fileId, content, supabase);
+      return process277File(fileId, content, supabase, changes);
     case '835':
-      return process835File(fileId, content, supabase);
+      return process835File(fileId, content, supabase, changes);
     default:
       return { success: false, claimsMatched: 0, claimsUpdated: 0, error: 'Unknown file type' };
   }
 }
 
+/**
+ * Process TA1 Interchange Acknowledgment
+ * A rejected interchange was never opened, so every claim sent in it (matched
+ * by ISA13) moves to 'rejected' with the TA1 note code. Accepted interchanges
+ * are left to their 999.
+ */
+async function processTA1File(
+  fileId: string | null,
+  content: string,
+  supabase: ReturnType<typeof getServerSupabase>,
+  changes: ClaimChangeSet
+): Promise<ProcessResult> {
+  const parseResult = parseTA1(content);
+
+  if (!parseResult.success || !parseResult.data) {
+    return {
+      success: false,
+      claimsMatched: 0,
+      claimsUpdated: 0,
+      error: parseResult.error || 'Failed to parse TA1 file',
+    };
+  }
+
+  logEnvelopeErrors('TA1', fileId, parseResult.envelopeErrors);
+
+  let claimsMatched = 0;
+  let claimsUpdated = 0;
+
+  for (const ta1 of parseResult.acknowledgments || [parseResult.data]) {
+    const issued = await findClaimsByInterchangeControlNumber(supabase, ta1.interchangeControlNumber);
+    claimsMatched += issued.length;
+
+    if (ta1.accepted) {
+      console.log('[Reconciliation] TA1 accepted interchange', ta1.interchangeControlNumber, {
+        claims: issued.length,
+        note: ta1.noteCode,
+      });
+      continue;
+    }
+
+    for (const { claimId } of issued) {
+      const transition = await stageTransition(supabase, changes, {
+        claimId,
+        to: 'rejected',
+        source: 'TA1',
+        fields: {
+          rejection_reason: `Interchange rejected: ${ta1.noteDescription}`,
+          rejection_codes: [`TA1-${ta1.noteCode}`],
+        },
+        event: {
+          responseFileId: fileId,
+          responseCode: ta1.noteCode,
+          responseDescription: ta1.noteDescription,
+        },
+      });
+
+      if (transition.applied) claimsUpdated++;
+    }
+
+    // Batch files: the whole batch was in the interchange
+    const batchId = issued.find((i) => i.batchId)?.batchId;
+
+    if (batchId) {
+      changes.batchStatuses.set(batchId, 'rejected');
+    }
+
+    console.log('[Reconciliation] TA1 rejected interchange', ta1.interchangeControlNumber, {
+      claims: issued.length,
+      note: ta1.noteCode,
+    });
+  }
+
+  return { success: true, claimsMatched, claimsUpdated };
+}
+
+interface ClaimAcknowledgment {
+  claim: { id: string; status: ClaimStatus };
+  accepted: boolean;
+  statusCode: string;
+  statusDescription: string;
+  errors: AcknowledgmentError[]; // IK3/IK4 errors located in the claim's 837P
+}
+
 /**
  * Process 999 Functional Acknowledgment
  * Updates claims from 'submitted' to 'acknowledged'
+ * Claims are matched by the GS06 they were sent with and acknowledged by their transaction set (AK2)
+ * Rejections carry the errors located in the 837P we sent (loop, element and form field).
  */
 async function process999File(
-  fileId: string,
+  fileId: string | null,
   content: string,
-  supabase: ReturnType<typeof getServerSupabase>
+  supabase: ReturnType<typeof getServerSupabase>,
+  changes: ClaimChangeSet
 ): Promise<ProcessResult> {
   const parseResult = parse999(content);
 
@@ -209,56 +638,73 @@ async function process999File(
     };
   }
 
-  const parsed: Parsed999 = parseResult.data;
+  logEnvelopeErrors('999', fileId, parseResult.envelopeErrors);
+
   let claimsMatched = 0;
   let claimsUpdated = 0;
 
-  // Match by control number
-  const controlNumber = parsed.originalControlNumber;
-
-  if (controlNumber) {
-    // Find claims with this control number
-    const { data: claims } = await supabase
-      .from('claims')
-      .select('id, status, control_number')
-      .eq('control_number', controlNumber);
-
-    claimsMatched = claims?.length || 0;
-
-    // Update claims to acknowledged status
-    for (const claim of claims || []) {
-      const previousStatus = claim.status;
-      const newStatus: ClaimStatus = parsed.accepted ? 'acknowledged' : 'rejected';
-
-      // Only update if status is changing and appropriate
-      if (
-        previousStatus === 'submitted' ||
-        (previousStatus === 'acknowledged' && newStatus === 'rejected')
-      ) {
-        const { error: updateError } = await supabase
+  // A file may answer several groups, one 999 transaction set each
+  for (const parsed of parseResult.acknowledgments || [parseResult.data]) {
+    // Match by control number
+    const controlNumber = parsed.originalControlNumber;
+
+    if (controlNumber) {
+      let acknowledgments = await findIssuedAcknowledgments(supabase, changes, parsed, controlNumber);
+
+      // Claims submitted before control numbers were recorded used GS06 = CLM01
+      if (acknowledgments.length === 0) {
+        const { data: claims } = await supabase
           .from('claims')
-          .update({
-            status: newStatus,
-            acknowledgment_date: new Date().toISOString(),
-            rejection_reason: parsed.accepted ? null : parsed.statusDescription,
-            rejection_codes: parsed.errorCodes || null,
-          })
-          .eq('id', claim.id);
+          .select('id, status, control_number, diagnosis_codes, subscriber_name, edi_content')
+          .eq('control_number', controlNumber);
+
+        // One claim per file, in its only transaction set
+        const transactionSet = parsed.transactionSetResponses[0];
+
+        acknowledgments = (claims || []).map((claim) => ({
+          claim,
+          accepted: parsed.accepted,
+          statusCode: parsed.statusCode,
+          statusDescription: parsed.statusDescription,
+          errors: transactionSet
+            ? locateAcknowledgmentErrors(
+                claim.edi_content,
+                transactionSet.controlNumber,
+                transactionSet.segmentErrors,
+                claim
+              )
+            : [],
+        }));
+      }
 
-        if (!updateError) {
-          claimsUpdated++;
+      claimsMatched += acknowledgments.length;
 
-          // Record status event
-          await recordStatusEvent(supabase, {
-            claimId: claim.id,
+      // Move claims to acknowledged (or rejected)
+      for (const { claim, accepted, statusCode, statusDescription, errors } of acknowledgments) {
+        const messages = errors.map((e) => e.message);
+        const transition = await stageTransition(supabase, changes, {
+          claimId: claim.id,
+          to: accepted ? 'acknowledged' : 'rejected',
+          source: '999',
+          fields: {
+            rejection_reason: accepted
+              ? null
+              : messages.length > 0
+                ? `${statusDescription}: ${messages.join('; ')}`
+                : statusDescription,
+            rejection_codes: accepted ? null : messages.length > 0 ? messages : parsed.errorCodes || null,
+            // Accepted-with-errors (E) acknowledgments keep their errors as notes
+            acknowledgment_errors: errors.length > 0 ? errors : null,
+          },
+          event: {
             responseFileId: fileId,
-            previousStatus,
-            newStatus,
-            source: '999',
-            responseCode: parsed.statusCode,
-            responseDescription: parsed.statusDescription,
-          });
-        }
+            responseCode: statusCode,
+            responseDescription: statusDescription,
+            acknowledgmentErrors: errors,
+          },
+        });
+
+        if (transition.applied) claimsUpdated++;
       }
     }
   }
@@ -266,14 +712,94 @@ async function process999File(
   return { success: true, claimsMatched, claimsUpdated };
 }
 
+/**
+ * Match a 999 to the claims sent with its GS06 and acknowledge each claim by
+ * its transaction set (AK2/IK5), falling back to the group result (AK9)
+ */
+async function findIssuedAcknowledgments(
+  supabase: ReturnType<typeof getServerSupabase>,
+  changes: ClaimChangeSet,
+  parsed: Parsed999,
+  groupControlNumber: string
+): Promise<ClaimAcknowledgment[]> {
+  const issued = await findClaimsByGroupControlNumber(supabase, groupControlNumber);
+  if (issued.length === 0) return [];
+
+  const { data: claims } = await supabase
+    .from('claims')
+    .select('id, status, control_number, diagnosis_codes, subscriber_name, edi_content')
+    .in('id', issued.map((i) => i.claimId));
+
+  // Batch files: errors are located in the batch's 837P
+  const batchId = issued.find((i) => i.batchId)?.batchId;
+  let batchContent: string | null = null;
+
+  if (batchId && parsed.transactionSetResponses.some((ts) => ts.segmentErrors.length > 0)) {
+    const { data: batch } = await supabase
+      .from('claim_batches')
+      .select('edi_content')
+      .eq('id', batchId)
+      .single();
+    batchContent = batch?.edi_content || null;
+  }
+
+  const acknowledgments = issued.flatMap((i) => {
+    const claim = claims?.find((c) => c.id === i.claimId);
+    if (!claim) return [];
+
+    const transactionSet = parsed.transactionSetResponses.find(
+      (ts) => ts.controlNumber === i.transactionSetControlNumber
+    );
+
+    return [
+      {
+        claim,
+        accepted: transactionSet ? transactionSet.accepted : parsed.accepted,
+        statusCode: transactionSet?.statusCode || parsed.statusCode,
+        statusDescription: transactionSet?.statusDescription || parsed.statusDescription,
+        errors: transactionSet
+          ? locateAcknowledgmentErrors(
+              i.batchId ? batchContent : claim.edi_content,
+              i.transactionSetControlNumber,
+              transactionSet.segmentErrors,
+              claim
+            )
+          : [],
+      },
+    ];
+  });
+
+  // Batch files: roll the claim results up to the batch
+  if (batchId) {
+    const acceptedCount = acknowledgments.filter((a) => a.accepted).length;
+
+    changes.batchStatuses.set(
+      batchId,
+      acceptedCount === acknowledgments.length
+        ? 'acknowledged'
+        : acceptedCount === 0
+          ? 'rejected'
+          : 'partially_accepted'
+    );
+
+    console.log('[Reconciliation] 999 matched batch', groupControlNumber, {
+      claims: acknowledgments.length,
+      accepted: acceptedCount,
+    });
+  }
+
+  return acknowledgments;
+}
+
 /**
  * Process 277 Claim Status Response
  * Updates claims to accepted/rejected/pending based on payer response
  */
 async function process277File(
-  fileId: string,
+  fileId: string | null,
   content: string,
-  supabase: ReturnType<typeof getServerSupabase>
+  supabase: ReturnType<typeof getServerSupabase>,
+  changes: ClaimChangeSet
 ): Promise<ProcessResult> {
   const parseResult = parse277(content);
 
@@ -286,22 +812,21 @@ async function process277File(
     };
   }
 
+  logEnvelopeErrors('277', fileId, parseResult.envelopeErrors);
+
   const parsed: Parsed277 = parseResult.data;
   let claimsMatched = 0;
   let claimsUpdated = 0;
+  let unmatched = 0;
 
   // Process each claim status
-  for (const claimStatus of parsed.claimStatuses) {
+  for (const [index, claimStatus] of parsed.claimStatuses.entries()) {
     // Try to match by control number first
     let claims: { id: string; status: string; control_number: string | null }[] = [];
 
     if (claimStatus.controlNumber) {
-      const { data } = await supabase
-        .from('claims')
-        .select('id, status, control_number')
-        .eq('control_number', claimStatus.controlNumber);
-
-      claims = data || [];
+      const claim = await findClaimByControlNumber(supabase, claimStatus.controlNumber);
+      claims = claim ? [claim] : [];
     }
 
     // If no match by control number and we have payer claim number, try that
@@ -316,60 +841,120 @@ async function process277File(
 
     claimsMatched += claims.length;
 
+    if (claims.length === 0) {
+      unmatched++;
+      changes.unmatchedResponses.push(
+        await buildUnmatchedResponse(supabase, { responseKey: String(index), fileType: '277', response: claimStatus })
+      );
+    }
+
     // Update matched claims
     for (const claim of claims) {
-      const previousStatus = claim.status as ClaimStatus;
-      const newStatus = claimStatus.claimStatus;
+      const transition = await stageClaimStatus(supabase, changes, fileId, claim.id, claimStatus);
+      if (transition.applied) claimsUpdated++;
 
-      // Determine what fields to update
-      const updateData: Record<string, unknown> = {
-        status: newStatus,
-      };
-
-      if (claimStatus.payerClaimNumber) {
-        updateData.payer_claim_number = claimStatus.payerClaimNumber;
+      // A 277 answering our 276 also closes the inquiry, whatever it did to the claim
+      if (parsed.solicited) {
+        changes.inquiryResponses.push(buildInquiryResponse(claim.id, claimStatus));
       }
+    }
+  }
 
-      if (newStatus === 'accepted') {
-        updateData.accepted_date = new Date().toISOString();
-      } else if (newStatus === 'rejected') {
-        updateData.rejected_date = new Date().toISOString();
-        updateData.rejection_reason = claimStatus.statusDescription;
-        updateData.rejection_codes = [claimStatus.statusCategoryCode];
-      }
+  return { success: true, claimsMatched, claimsUpdated, unmatched };
+}
 
-      const { error: updateError } = await supabase
-        .from('claims')
-        .update(updateData)
-        .eq('id', claim.id);
+/**
+ * Stage the status a 277 reports for a claim, with its service line statuses
+ */
+async function stageClaimStatus(
+  supabase: ReturnType<typeof getServerSupabase>,
+  changes: ClaimChangeSet,
+  fileId: string | null,
+  claimId: string,
+  claimStatus: Parsed277ClaimStatus
+): Promise<TransitionResult> {
+  const newStatus = claimStatus.claimStatus;
+  const fields: Record<string, unknown> = {};
+
+  if (claimStatus.payerClaimNumber) {
+    fields.payer_claim_number = claimStatus.payerClaimNumber;
+  }
+
+  if (newStatus === 'rejected') {
+    fields.rejection_reason = claimStatus.statusDescription;
+    fields.rejection_codes = [claimStatus.statusCategoryCode];
+  }
 
-      if (!updateError) {
-        claimsUpdated++;
+  // Responses queued before line statuses were parsed have no serviceLines
+  let lineStatuses: ServiceLineStatus[] = [];
+  if (claimStatus.serviceLines?.length) {
+    const { data: claim } = await supabase.from('claims').select('service_lines').eq('id', claimId).single();
+    lineStatuses = matchLineStatuses(claim?.service_lines || [], claimStatus.serviceLines);
+    fields.service_line_statuses = lineStatuses;
+  }
 
-        await recordStatusEvent(supabase, {
-          claimId: claim.id,
-          responseFileId: fileId,
-          previousStatus,
-          newStatus,
-          source: '277',
-          responseCode: claimStatus.statusCategoryCode,
-          responseDescription: claimStatus.statusDescription,
-        });
-      }
+  return stageTransition(supabase, changes, {
+    claimId,
+    to: newStatus,
+    source: '277',
+    fields,
+    event: {
+      responseFileId: fileId,
+      responseCode: claimStatus.statusCategoryCode,
+      responseDescription: claimStatus.statusDescription,
+      serviceLineStatuses: lineStatuses,
+    },
+  });
+}
+
+/**
+ * Match 277 service lines to the claim's lines
+ * By line item control number (REF*FJ) when sent, else by procedure code and date of service
+ */
+function matchLineStatuses(claimLines: ServiceLine[], lines: Parsed277ServiceLine[]): ServiceLineStatus[] {
+  const matched = new Set<number>();
+
+  return lines.map((line) => {
+    let lineNumber = line.lineNumber && line.lineNumber <= claimLines.length ? line.lineNumber : null;
+
+    if (!lineNumber) {
+      const serviceDate = fromEDIDate(line.serviceDate?.slice(0, 8));
+      const index = claimLines.findIndex(
+        (claimLine, i) =>
+          !matched.has(i + 1) &&
+          claimLine.cpt === line.procedureCode &&
+          (!serviceDate || claimLine.dos === serviceDate)
+      );
+      lineNumber = index >= 0 ? index + 1 : null;
     }
-  }
 
-  return { success: true, claimsMatched, claimsUpdated };
+    if (lineNumber) matched.add(lineNumber);
+
+    const codes = line.statuses.flatMap((status) => [status, ...status.secondary]);
+    const messages = line.statuses.flatMap((status) => (status.message ? [status.message] : []));
+
+    return {
+      lineNumber,
+      procedureCode: line.procedureCode,
+      status: line.lineStatus,
+      reason: [...new Set([...codes.map((code) => code.description), ...messages])].join('; '),
+      statusCodes: codes.map((code) => [code.categoryCode, code.statusCode, code.entityCode].filter(Boolean).join(':')),
+      effectiveDate: fromEDIDate(line.statuses[0]?.effectiveDate),
+    };
+  });
 }
 
 /**
  * Process 835 Electronic Remittance Advice (Payment)
  * Updates claims to paid/denied with payment amounts
+ * Reversals (CLP02 = 22) and their corrections are netted, so the claim keeps
+ * the net paid amount of its latest adjudication
  */
 async function process835File(
-  fileId: string,
+  fileId: string | null,
   content: string,
-  supabase: ReturnType<typeof getServerSupabase>
+  supabase: ReturnType<typeof getServerSupabase>,
+  changes: ClaimChangeSet
 ): Promise<ProcessResult> {
   const parseResult = parse835(content);
 
@@ -382,116 +967,246 @@ async function process835File(
     };
   }
 
-  const parsed: Parsed835 = parseResult.data;
+  logEnvelopeErrors('835', fileId, parseResult.envelopeErrors);
+
   let claimsMatched = 0;
   let claimsUpdated = 0;
+  let unmatched = 0;
+
+  // A file may carry several payments, one 835 transaction set each
+  for (const remittance of parseResult.remittances || [parseResult.data]) {
+    const ledger = buildRemittance(remittance);
+    changes.remittances.push(ledger);
+
+    // Reversals first, so a corrected claim nets its new adjudication against what is left
+    const payments = [
+      ...remittance.claimPayments.filter((cp) => cp.isReversal),
+      ...remittance.claimPayments.filter((cp) => !cp.isReversal),
+    ];
+
+    // Process each claim payment
+    for (const payment of payments) {
+      if (!payment.balanced) {
+        console.warn('[Reconciliation] 835 claim payment does not balance', payment.patientControlNumber, payment.balanceErrors);
+      }
 
-  // Process each claim payment
-  for (const payment of parsed.claimPayments) {
-    // Match by control number (patient control number)
-    let claims: { id: string; status: string; control_number: string | null }[] = [];
+      // Match by control number (patient control number)
+      let claims: { id: string; status: string; control_number: string | null }[] = [];
 
-    if (payment.patientControlNumber) {
-      const { data } = await supabase
-        .from('claims')
-        .select('id, status, control_number')
-        .eq('control_number', payment.patientControlNumber);
+      if (payment.patientControlNumber) {
+        const claim = await findClaimByControlNumber(supabase, payment.patientControlNumber);
+        claims = claim ? [claim] : [];
+      }
 
-      claims = data || [];
-    }
+      // Fallback: try payer claim number
+      if (claims.length === 0 && payment.payerClaimNumber) {
+        const { data } = await supabase
+          .from('claims')
+          .select('id, status, control_number')
+          .eq('payer_claim_number', payment.payerClaimNumber);
 
-    // Fallback: try payer claim number
-    if (claims.length === 0 && payment.payerClaimNumber) {
-      const { data } = await supabase
-        .from('claims')
-        .select('id, status, control_number')
-        .eq('payer_claim_number', payment.payerClaimNumber);
+        claims = data || [];
+      }
 
-      claims = data || [];
-    }
+      claimsMatched += claims.length;
 
-    claimsMatched += claims.length;
+      ledger.claim_payments.push(buildClaimPayment(payment, claims[0]?.id || null));
 
-    // Update matched claims
-    for (const claim of claims) {
-      const previousStatus = claim.status as ClaimStatus;
-      const newStatus: ClaimStatus = payment.paidAmount > 0 ? 'paid' : 'denied';
-
-      const updateData: Record<string, unknown> = {
-        status: newStatus,
-        payer_claim_number: payment.payerClaimNumber || null,
-        paid_amount: payment.paidAmount,
-        paid_date: new Date().toISOString(),
-      };
-
-      if (newStatus === 'denied') {
-        // Extract denial reason from adjustments
-        const denialReasons = payment.adjustments
-          .filter((adj) => adj.groupCode === 'CO' || adj.groupCode === 'PR')
-          .map((adj) => `${adj.groupCode}-${adj.reasonCode}`)
-          .join(', ');
-
-        updateData.rejection_reason = denialReasons || payment.statusDescription;
-        updateData.rejection_codes = payment.adjustments.map(
-          (adj) => `${adj.groupCode}-${adj.reasonCode}`
+      if (claims.length === 0) {
+        unmatched++;
+        changes.unmatchedResponses.push(
+          await buildUnmatchedResponse(supabase, {
+            responseKey: `${remittance.transactionSetControlNumber}:${remittance.claimPayments.indexOf(payment)}`,
+            fileType: '835',
+            response: payment,
+          })
         );
       }
 
-      const { error: updateError } = await supabase
-        .from('claims')
-        .update(updateData)
-        .eq('id', claim.id);
+      // Update matched claims
+      for (const claim of claims) {
+        const transition = await stageClaimPayment(supabase, changes, fileId, claim.id, payment);
+        if (transition.applied) claimsUpdated++;
+      }
+    }
 
-      if (!updateError) {
-        claimsUpdated++;
+    // PLB references may point at claim payments of any payment in this file
+    ledger.provider_adjustments = await buildProviderAdjustments(
+      supabase,
+      remittance.providerAdjustments,
+      changes.remittances.flatMap((r) => r.claim_payments)
+    );
 
-        await recordStatusEvent(supabase, {
-          claimId: claim.id,
-          responseFileId: fileId,
-          previousStatus,
-          newStatus,
-          source: '835',
-          responseCode: payment.statusCode,
-          responseDescription: payment.statusDescription,
-          paymentAmount: payment.paidAmount,
-        });
-      }
+    const difference = depositDifference(
+      remittance.totalPaymentAmount,
+      remittance.claimPayments.map((cp) => cp.paidAmount),
+      remittance.providerAdjustments.map((adj) => adj.amount)
+    );
+    if (difference !== 0) {
+      console.warn('[Reconciliation] 835 payment does not reconcile', remittance.checkNumber, { difference });
     }
   }
 
-  return { success: true, claimsMatched, claimsUpdated };
+  return { success: true, claimsMatched, claimsUpdated, unmatched };
 }
 
 /**
- * Record a claim status change event
+ * Stage the adjudication an 835 claim payment reports for a claim
  */
-async function recordStatusEvent(
+async function stageClaimPayment(
   supabase: ReturnType<typeof getServerSupabase>,
-  event: {
-    claimId: string;
-    responseFileId: string;
-    previousStatus: ClaimStatus | string;
-    newStatus: ClaimStatus;
-    source: '999' | '277' | '835' | 'submission' | 'manual';
-    responseCode?: string;
-    responseDescription?: string;
-    paymentAmount?: number;
+  changes: ClaimChangeSet,
+  fileId: string | null,
+  claimId: string,
+  payment: Parsed835ClaimPayment
+): Promise<TransitionResult> {
+  const staged = await getStagedClaim(supabase, changes, claimId);
+  if (!staged) {
+    return { applied: false, error: `Claim ${claimId} not found` };
   }
-): Promise<void> {
-  try {
-    await supabase.from('claim_status_events').insert({
-      claim_id: event.claimId,
-      response_file_id: event.responseFileId,
-      previous_status: event.previousStatus,
-      new_status: event.newStatus,
-      source: event.source,
-      response_code: event.responseCode || null,
-      response_description: event.responseDescription || null,
-      payment_amount: event.paymentAmount || null,
-    });
-  } catch (error) {
-    console.error('[Reconciliation] Failed to record status event:', error);
+
+  const adjustmentCodes = collectAdjustmentCodes(payment);
+  const remarkCodes = collectRemarkCodes(payment);
+  const { status: newStatus, paidAmount } = adjudicateClaimPayment(staged, payment);
+
+  const fields: Record<string, unknown> = {
+    payer_claim_number: payment.payerClaimNumber || null,
+    paid_amount: paidAmount,
+  };
+
+  // A reversal's CR adjustments only negate the earlier ones
+  if (!payment.isReversal) {
+    fields.adjustment_codes = adjustmentCodes.length > 0 ? adjustmentCodes : null;
+  }
+
+  if (newStatus === 'denied') {
+    fields.rejection_reason = explainDenial(adjustmentCodes) || payment.statusDescription;
+    fields.rejection_codes = [
+      ...new Set(adjustmentCodes.map((adj) => `${adj.groupCode}-${adj.reasonCode}`)),
+    ];
   }
+
+  return stageTransition(supabase, changes, {
+    claimId,
+    to: newStatus,
+    source: '835',
+    fields,
+    event: {
+      responseFileId: fileId,
+      responseCode: payment.statusCode,
+      responseDescription: payment.statusDescription,
+      paymentAmount: payment.paidAmount,
+      adjustmentCodes,
+      remarkCodes,
+    },
+  });
+}
+
+/**
+ * Apply a queued unmatched response to the claim a biller confirmed for it
+ * The response goes through the status state machine like any other; the
+ * payer claim number is learned even when the status change is refused.
+ */
+export async function resolveUnmatchedResponse(
+  response: UnmatchedResponse,
+  claimId: string
+): Promise<TransitionResult> {
+  const supabase = getServerSupabase();
+  const changes = createClaimChangeSet();
+
+  const transition =
+    response.file_type === '277'
+      ? await stageClaimStatus(supabase, changes, response.response_file_id, claimId, response.response as Parsed277ClaimStatus)
+      : await stageClaimPayment(supabase, changes, response.response_file_id, claimId, response.response as Parsed835ClaimPayment);
+
+  if (transition.error) return transition;
+
+  const commit = await commitUnmatchedResolution(supabase, changes, response.id, claimId);
+  if (!commit.success) {
+    return { applied: false, previousStatus: transition.previousStatus, error: commit.error };
+  }
+
+  console.log('[Reconciliation] Matched queued response', response.id, 'to claim', claimId, {
+    applied: transition.applied,
+  });
+
+  return transition;
+}
+
+/**
+ * Net paid amount and status of a claim after an 835 claim payment
+ * A reversal takes its (negative) amount off the earlier payment and leaves the
+ * claim pending until the correction arrives. The correction is then added to
+ * what is left rather than replacing it; any other payment replaces the paid amount.
+ */
+function adjudicateClaimPayment(
+  claim: StagedClaim,
+  payment: Parsed835ClaimPayment
+): { status: ClaimStatus; paidAmount: number } {
+  const previousPaid = claim.paid_amount || 0;
+  const netPaid = (amount: number) => Math.round(amount * 100) / 100;
+
+  if (payment.isReversal) {
+    const paidAmount = netPaid(previousPaid + payment.paidAmount);
+    return { status: paidAmount > 0 ? 'paid' : 'pending', paidAmount };
+  }
+
+  // Reversal events carry the negative amount taken back
+  const corrects = (claim.lastPaymentAmount ?? 0) < 0;
+  const paidAmount = corrects ? netPaid(previousPaid + payment.paidAmount) : payment.paidAmount;
+
+  return { status: paidAmount > 0 ? 'paid' : 'denied', paidAmount };
+}
+
+/**
+ * Claim and service line adjustments of an 835 claim payment, with explanations
+ */
+function collectAdjustmentCodes(payment: Parsed835ClaimPayment): ClaimAdjustmentCode[] {
+  const toCode = (adj: Parsed835Adjustment, lineNumber?: number): ClaimAdjustmentCode => ({
+    groupCode: adj.groupCode,
+    reasonCode: adj.reasonCode,
+    amount: adj.amount,
+    description: adj.description,
+    category: adj.category,
+    lineNumber,
+  });
+
+  return [
+    ...payment.adjustments.map((adj) => toCode(adj)),
+    ...payment.serviceLines.flatMap((line, i) => line.adjustments.map((adj) => toCode(adj, i + 1))),
+  ];
+}
+
+/**
+ * Claim and service line remark codes of an 835 claim payment, without repeats
+ */
+function collectRemarkCodes(payment: Parsed835ClaimPayment): RemarkCode[] {
+  const all = [...payment.remarkCodes, ...payment.serviceLines.flatMap((line) => line.remarkCodes)];
+  return all.filter((remark, i) => all.findIndex((r) => r.code === remark.code) === i);
+}
+
+/**
+ * Plain-English denial reason, e.g. "Not deemed medically necessary by the payer (CO-50)"
+ * Contractual write-offs and patient responsibility explain amounts, not denials,
+ * so they are only used when nothing else is present
+ */
+function explainDenial(adjustmentCodes: ClaimAdjustmentCode[]): string {
+  const denials = adjustmentCodes.filter(
+    (adj) => adj.category !== 'contractual' && adj.category !== 'patient_responsibility'
+  );
+  const reasons = (denials.length > 0 ? denials : adjustmentCodes).map(
+    (adj) => `${adj.description} (${adj.groupCode}-${adj.reasonCode})`
+  );
+  return [...new Set(reasons)].join('; ');
+}
+
+/**
+ * Log envelope (ISA/GS/ST trailer) problems; the file is still processed
+ */
+function logEnvelopeErrors(fileType: string, fileId: string | null, errors?: EnvelopeError[]): void {
+  if (!errors || errors.length === 0) return;
+
+  console.warn(`[Reconciliation] ${fileType} file ${fileId || '(not saved)'} has envelope errors:`, errors.map((e) => e.message));
 }
 
 /**
@@ -501,6 +1216,7 @@ export async function getReconciliationSummary(): Promise<{
   totalFiles: number;
   pendingFiles: number;
   lastProcessed: string | null;
+  lastRun: ReconciliationRun | null;
   claimStatusCounts: Record<ClaimStatus, number>;
 }> {
   const supabase = getServerSupabase();
@@ -515,6 +1231,12 @@ export async function getReconciliationSummary(): Promise<{
   const pendingFiles = files?.filter((f) => f.processing_status === 'pending').length || 0;
   const lastProcessed = files?.[0]?.processed_at || null;
 
+  const { data: runs } = await supabase
+    .from('reconciliation_runs')
+    .select('*')
+    .order('started_at', { ascending: false })
+    .limit(1);
+
   // Get claim status counts
   const { data: claims } = await supabase.from('claims').select('status');
 
@@ -541,6 +1263,7 @@ export async function getReconciliationSummary(): Promise<{
     totalFiles,
     pendingFiles,
     lastProcessed,
+    lastRun: (runs?.[0] as ReconciliationRun) || null,
     claimStatusCounts: statusCounts,
   };
 }
@@ -0,0 +1,306 @@
+/**
+ * Remittance Ledger Service
+ * Persists 835 payments with their claim payments, service lines and
+ * adjustments, and answers "what did this check pay for" and "why was this
+ * line reduced" from the ledger instead of the raw ERA
+ *
+ * remittances (one per 835 transaction set)
+ *   → remittance_claim_payments (CLP, linked to the matched claim)
+ *     → remittance_line_payments (SVC)
+ *     → remittance_adjustments (CAS, claim- or line-level)
+ *   → remittance_provider_adjustments (PLB, linked to the referenced claim)
+ *
+ * Reconciliation stages each payment's entries in the 835's change set, and
+ * apply_response_file records them with the file's claim changes.
+ *
+ * Deposits reconcile when BPR02 = claims paid (CLP04) - provider adjustments (PLB).
+ */
+
+import { getServerSupabase } from './supabase';
+import { findClaimByControlNumber } from './controlNumbers';
+import { fromEDIDate } from '@/lib/utils';
+import type {
+  DepositReconciliation,
+  DepositReport,
+  Parsed835,
+  Parsed835Adjustment,
+  Parsed835ClaimPayment,
+  Parsed835ProviderAdjustment,
+  Remittance,
+  RemittanceProviderAdjustment,
+} from '@/types';
+
+type LedgerRow = Record<string, unknown>;
+
+/**
+ * An 835 payment as apply_response_file records it: the remittances row with
+ * its claim payments and provider adjustments nested under it
+ */
+export type StagedRemittance = LedgerRow & {
+  claim_payments: StagedClaimPayment[];
+  provider_adjustments: LedgerRow[];
+};
+
+export type StagedClaimPayment = LedgerRow & {
+  line_payments: (LedgerRow & { adjustments: LedgerRow[] })[];
+  adjustments: LedgerRow[]; // Claim-level CAS
+};
+
+// Claim payments with their service lines and adjustments
+const CLAIM_PAYMENT_COLUMNS =
+  '*, line_payments:remittance_line_payments(*), adjustments:remittance_adjustments(*)';
+
+/**
+ * Ledger entry of an 835 payment (one transaction set), without its claim
+ * payments and provider adjustments yet
+ * apply_response_file replaces a payment already recorded for the same file
+ * and ST02, so reprocessing a file does not double-count it.
+ */
+export function buildRemittance(remittance: Parsed835): StagedRemittance {
+  return {
+    transaction_set_control_number: remittance.transactionSetControlNumber,
+    interchange_control_number: remittance.isaControlNumber || null,
+    trace_number: remittance.checkNumber,
+    payment_method: remittance.paymentMethodCode || null,
+    payment_date: fromEDIDate(remittance.paymentDate),
+    total_payment_amount: remittance.totalPaymentAmount,
+    payer_identifier: remittance.payerIdentifier || null,
+    payer_name: remittance.payerName || null,
+    payee_name: remittance.payeeName || null,
+    claim_count: remittance.claimCount,
+    claim_payments: [],
+    provider_adjustments: [],
+  };
+}
+
+/**
+ * Ledger entry of one claim payment with its lines and adjustments
+ * claimId is the matched claim, or null when the payment matched no claim
+ */
+export function buildClaimPayment(payment: Parsed835ClaimPayment, claimId: string | null): StagedClaimPayment {
+  return {
+    claim_id: claimId,
+    patient_control_number: payment.patientControlNumber || null,
+    payer_claim_number: payment.payerClaimNumber || null,
+    status_code: payment.statusCode || null,
+    status_description: payment.statusDescription || null,
+    charge_amount: payment.chargeAmount,
+    paid_amount: payment.paidAmount,
+    patient_responsibility: payment.patientResponsibility,
+    patient_name: payment.patientName || null,
+    service_date: fromEDIDate(payment.serviceDate),
+    remark_codes: payment.remarkCodes.length > 0 ? payment.remarkCodes : null,
+    balanced: payment.balanced,
+    line_payments: payment.serviceLines.map((line, i) => ({
+      line_number: i + 1,
+      procedure_code: line.procedureCode || null,
+      modifier: line.modifier || null,
+      charge_amount: line.chargeAmount,
+      paid_amount: line.paidAmount,
+      units: line.units,
+      remark_codes: line.remarkCodes.length > 0 ? line.remarkCodes : null,
+      balanced: line.balanced,
+      adjustments: line.adjustments.map(adjustmentRow),
+    })),
+    adjustments: payment.adjustments.map(adjustmentRow),
+  };
+}
+
+/**
+ * Ledger entries of a payment's provider-level adjustments (PLB)
+ * References to claim payments staged from the same file resolve against
+ * them, the rest against the ledger and claims.
+ */
+export async function buildProviderAdjustments(
+  supabase: ReturnType<typeof getServerSupabase>,
+  adjustments: Parsed835ProviderAdjustment[],
+  stagedPayments: StagedClaimPayment[]
+): Promise<LedgerRow[]> {
+  const rows: LedgerRow[] = [];
+
+  for (const adj of adjustments) {
+    rows.push({
+      claim_id: adj.reference ? await resolveReferencedClaim(supabase, adj.reference, stagedPayments) : null,
+      provider_identifier: adj.providerIdentifier || null,
+      fiscal_period_date: fromEDIDate(adj.fiscalPeriodDate),
+      reason_code: adj.reasonCode,
+      reason_description: adj.reasonDescription,
+      reference: adj.reference || null,
+      amount: adj.amount,
+    });
+  }
+
+  return rows;
+}
+
+/**
+ * Deposited amount minus what the claim payments and provider adjustments add up to
+ * Worked in cents; 0 when the deposit reconciles.
+ */
+export function depositDifference(
+  deposited: number,
+  claimsPaid: number[],
+  providerAdjustments: number[]
+): number {
+  const expected = sumCents(claimsPaid) - sumCents(providerAdjustments);
+  return (toCents(deposited) - expected) / 100;
+}
+
+/**
+ * Deposits in a payment date range, each reconciled against its claim payments
+ * and provider adjustments
+ */
+export async function getDepositReport(
+  supabase: ReturnType<typeof getServerSupabase>,
+  range: { from?: string | null; to?: string | null }
+): Promise<DepositReport> {
+  let query = supabase
+    .from('remittances')
+    .select(
+      '*, claim_payments:remittance_claim_payments(paid_amount), provider_adjustments:remittance_provider_adjustments(*)'
+    )
+    .order('payment_date', { ascending: true });
+
+  if (range.from) query = query.gte('payment_date', range.from);
+  if (range.to) query = query.lte('payment_date', range.to);
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch deposits: ${error.message}`);
+  }
+
+  const deposits: DepositReconciliation[] = ((data || []) as Remittance[]).map((remittance) => {
+    const paid = (remittance.claim_payments || []).map((cp) => Number(cp.paid_amount));
+    const adjustments: RemittanceProviderAdjustment[] = remittance.provider_adjustments || [];
+    const adjustmentAmounts = adjustments.map((adj) => Number(adj.amount));
+    const deposited = Number(remittance.total_payment_amount);
+    const difference = depositDifference(deposited, paid, adjustmentAmounts);
+
+    return {
+      remittanceId: remittance.id,
+      traceNumber: remittance.trace_number,
+      paymentMethod: remittance.payment_method,
+      paymentDate: remittance.payment_date,
+      payerName: remittance.payer_name,
+      deposited,
+      claimsPaid: sumCents(paid) / 100,
+      providerAdjustments: sumCents(adjustmentAmounts) / 100,
+      expectedDeposit: (sumCents(paid) - sumCents(adjustmentAmounts)) / 100,
+      difference,
+      reconciled: difference === 0,
+      adjustments,
+    };
+  });
+
+  return {
+    from: range.from || null,
+    to: range.to || null,
+    deposits,
+    totals: {
+      deposited: sumCents(deposits.map((d) => d.deposited)) / 100,
+      claimsPaid: sumCents(deposits.map((d) => d.claimsPaid)) / 100,
+      providerAdjustments: sumCents(deposits.map((d) => d.providerAdjustments)) / 100,
+      difference: sumCents(deposits.map((d) => d.difference)) / 100,
+    },
+    unreconciledCount: deposits.filter((d) => !d.reconciled).length,
+  };
+}
+
+/**
+ * Payments made on a claim, newest first
+ * Each remittance only carries the claim payments for this claim.
+ */
+export async function getClaimRemittances(
+  supabase: ReturnType<typeof getServerSupabase>,
+  claimId: string
+): Promise<Remittance[]> {
+  const { data, error } = await supabase
+    .from('remittances')
+    .select(`*, claim_payments:remittance_claim_payments!inner(${CLAIM_PAYMENT_COLUMNS})`)
+    .eq('claim_payments.claim_id', claimId)
+    .order('payment_date', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch remittances for claim ${claimId}: ${error.message}`);
+  }
+
+  return (data || []) as Remittance[];
+}
+
+/**
+ * Payments with a check or EFT trace number (TRN02), with everything they paid for
+ */
+export async function getRemittancesByTraceNumber(
+  supabase: ReturnType<typeof getServerSupabase>,
+  traceNumber: string
+): Promise<Remittance[]> {
+  const { data, error } = await supabase
+    .from('remittances')
+    .select(
+      `*, claim_payments:remittance_claim_payments(${CLAIM_PAYMENT_COLUMNS}), provider_adjustments:remittance_provider_adjustments(*)`
+    )
+    .eq('trace_number', traceNumber)
+    .order('payment_date', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch remittances for trace number ${traceNumber}: ${error.message}`);
+  }
+
+  return (data || []) as Remittance[];
+}
+
+function adjustmentRow(adj: Parsed835Adjustment): LedgerRow {
+  return {
+    group_code: adj.groupCode,
+    reason_code: adj.reasonCode,
+    amount: adj.amount,
+    quantity: adj.quantity ?? null,
+    description: adj.description,
+    category: adj.category,
+  };
+}
+
+/**
+ * Claim a PLB reference points at: a payer claim number or patient control
+ * number from the same or an earlier ERA, else a CLM01 we issued
+ */
+async function resolveReferencedClaim(
+  supabase: ReturnType<typeof getServerSupabase>,
+  reference: string,
+  stagedPayments: StagedClaimPayment[]
+): Promise<string | null> {
+  const staged = stagedPayments.findLast(
+    (cp) => cp.claim_id && (cp.payer_claim_number === reference || cp.patient_control_number === reference)
+  );
+  if (staged) return staged.claim_id as string;
+
+  const { data: payments } = await supabase
+    .from('remittance_claim_payments')
+    .select('claim_id')
+    .or(`payer_claim_number.eq."${reference}",patient_control_number.eq."${reference}"`)
+    .not('claim_id', 'is', null)
+    .order('created_at', { ascending: false })
+    .limit(1);
+
+  if (payments?.[0]?.claim_id) return payments[0].claim_id;
+
+  const claim = await findClaimByControlNumber(supabase, reference);
+  if (claim) return claim.id;
+
+  const { data: claims } = await supabase
+    .from('claims')
+    .select('id')
+    .eq('payer_claim_number', reference)
+    .limit(1);
+
+  return claims?.[0]?.id || null;
+}
+
+function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+function sumCents(amounts: number[]): number {
+  return amounts.reduce((sum, amount) => sum + toCents(amount), 0);
+}
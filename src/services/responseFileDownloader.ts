@@ -1,18 +1,24 @@
 /**
  * Response File Downloader Service
- * V2: Downloads 999, 277, and 835 response files from Office Ally SFTP
+ * V2: Downloads TA1, 999, 277, and 835 response files from the clearinghouse
+ * (Office Ally SFTP, or the local clearinghouse in development)
  *
  * Office Ally places response files in /outbound/ directory:
+ * - TA1: Interchange Acknowledgment (the ISA/IEA envelope was bad)
  * - 999: Functional Acknowledgment (file received confirmation)
  * - 277: Claim Status Response (payer accepted/rejected)
  * - 835: Electronic Remittance Advice (payment details)
  *
  * File naming conventions (per Office Ally docs):
+ * - TA1: FILEID_OriginalFileName_TA1.TA1
  * - 999: FILEID_OriginalFileName_999.999
  * - 277: USERNAME_FILEID_HCFA_277ca_YYYYMMDD.txt or FILEID_EDI_STATUS_HCFA_YYYYMMDD.277
  * - 835: FILEID_ERA_835_5010_YYYYMMDD.835
+ *
+ * Our own uploads (.837, .276) sit in the same directory and are skipped.
  */
 
+import type { Clearinghouse } from './clearinghouse';
 import type { EDIResponseFileType } from '@/types';
 
 interface DownloadedFile {
@@ -29,11 +35,36 @@ interface DownloadResult {
   error?: string;
 }
 
+const RESPONSE_EXTENSIONS: Record<string, EDIResponseFileType> = {
+  '.ta1': 'TA1',
+  '.999': '999',
+  '.277': '277',
+  '.835': '835',
+};
+
+const UPLOAD_EXTENSIONS = ['.837', '.276'];
+
 /**
  * Detect file type from filename
+ * The extension decides when it is a response or upload extension; otherwise
+ * the name is searched (the original filename may contain other types).
  */
 export function detectFileType(filename: string): EDIResponseFileType | null {
   const lower = filename.toLowerCase();
+  const extension = lower.slice(lower.lastIndexOf('.'));
+
+  if (RESPONSE_EXTENSIONS[extension]) {
+    return RESPONSE_EXTENSIONS[extension];
+  }
+
+  if (UPLOAD_EXTENSIONS.includes(extension)) {
+    return null;
+  }
+
+  // TA1 Interchange Acknowledgment (checked first: the original filename may contain other types)
+  if (/(^|[^a-z0-9])ta1([^a-z0-9]|$)/.test(lower)) {
+    return 'TA1';
+  }
 
   // 999 Functional Acknowledgment
   if (lower.includes('999') || lower.endsWith('.999')) {
@@ -68,153 +99,96 @@ export function isOurFile(filename: string): boolean {
 }
 
 /**
- * Download response files from Office Ally SFTP
+ * Download response files from the clearinghouse
  * Returns new files that haven't been downloaded yet
  */
 export async function downloadResponseFiles(
+  clearinghouse: Clearinghouse,
   existingFilenames: string[]
 ): Promise<DownloadResult> {
-  // Dynamic import to avoid bundling ssh2-sftp-client on client side
-  const SftpClient = (await import('ssh2-sftp-client')).default;
-  const sftp = new SftpClient();
-
   const existingSet = new Set(existingFilenames);
   const downloadedFiles: DownloadedFile[] = [];
   const skippedFiles: string[] = [];
 
-  try {
-    // Get SFTP config
-    const config = {
-      host: process.env.OFFICE_ALLY_SFTP_HOST || '',
-      port: parseInt(process.env.OFFICE_ALLY_SFTP_PORT || '22'),
-      username: process.env.OFFICE_ALLY_SFTP_USERNAME || process.env.OFFICE_ALLY_SFTP_USER || '',
-      password: process.env.OFFICE_ALLY_SFTP_PASSWORD || '',
+  console.log(`[ResponseDownloader] Listing ${clearinghouse.name} clearinghouse files...`);
+  const listResult = await clearinghouse.listInbound();
+
+  if (!listResult.success || !listResult.files) {
+    return {
+      success: false,
+      files: [],
+      skippedFiles: [],
+      error: listResult.error || 'Failed to list files',
     };
+  }
 
-    if (!config.host || !config.username || !config.password) {
-      return {
-        success: false,
-        files: [],
-        skippedFiles: [],
-        error: 'SFTP credentials not configured',
-      };
-    }
+  console.log(`[ResponseDownloader] Found ${listResult.files.length} files`);
 
-    console.log('[ResponseDownloader] Connecting to Office Ally SFTP...');
-    await sftp.connect(config);
-
-    // List files in /outbound/ directory
-    const fileList = await sftp.list('/outbound/');
-    console.log(`[ResponseDownloader] Found ${fileList.length} files in /outbound/`);
-
-    // Filter for response files (999, 277, 835)
-    for (const file of fileList) {
-      // Skip directories
-      if (file.type === 'd') continue;
-
-      const filename = file.name;
-      const fileType = detectFileType(filename);
-
-      // Skip non-response files
-      if (!fileType) continue;
-
-      // Skip already downloaded files
-      if (existingSet.has(filename)) {
-        skippedFiles.push(filename);
-        continue;
-      }
-
-      try {
-        // Download file content
-        console.log(`[ResponseDownloader] Downloading ${fileType} file: ${filename}`);
-        const remotePath = `/outbound/${filename}`;
-        const buffer = await sftp.get(remotePath);
-        const content = buffer.toString('utf-8');
-
-        downloadedFiles.push({
-          filename,
-          fileType,
-          content,
-          size: file.size,
-        });
-      } catch (downloadError) {
-        console.error(`[ResponseDownloader] Failed to download ${filename}:`, downloadError);
-        // Continue with other files
-      }
-    }
+  // Filter for response files (TA1, 999, 277, 835)
+  for (const file of listResult.files) {
+    const filename = file.name;
+    const fileType = detectFileType(filename);
 
-    await sftp.end();
+    // Skip non-response files
+    if (!fileType) continue;
 
-    console.log(`[ResponseDownloader] Downloaded ${downloadedFiles.length} new files, skipped ${skippedFiles.length} existing`);
+    // Skip already downloaded files
+    if (existingSet.has(filename)) {
+      skippedFiles.push(filename);
+      continue;
+    }
 
-    return {
-      success: true,
-      files: downloadedFiles,
-      skippedFiles,
-    };
-  } catch (error) {
-    try {
-      await sftp.end();
-    } catch {
-      // Ignore cleanup errors
+    // Download file content
+    console.log(`[ResponseDownloader] Downloading ${fileType} file: ${filename}`);
+    const fetched = await clearinghouse.fetch(filename);
+
+    if (!fetched.success || fetched.content === undefined) {
+      console.error(`[ResponseDownloader] Failed to download ${filename}:`, fetched.error);
+      // Continue with other files
+      continue;
     }
 
-    console.error('[ResponseDownloader] SFTP error:', error);
-    return {
-      success: false,
-      files: downloadedFiles,
-      skippedFiles,
-      error: error instanceof Error ? error.message : 'SFTP download failed',
-    };
+    downloadedFiles.push({
+      filename,
+      fileType,
+      content: fetched.content,
+      size: file.size,
+    });
   }
+
+  console.log(`[ResponseDownloader] Downloaded ${downloadedFiles.length} new files, skipped ${skippedFiles.length} existing`);
+
+  return {
+    success: true,
+    files: downloadedFiles,
+    skippedFiles,
+  };
 }
 
 /**
- * Test SFTP connection and list available response files
+ * List the response files waiting at the clearinghouse
  */
-export async function listResponseFiles(): Promise<{
+export async function listResponseFiles(clearinghouse: Clearinghouse): Promise<{
   success: boolean;
   files?: Array<{ name: string; type: EDIResponseFileType | null; size: number }>;
   error?: string;
 }> {
-  const SftpClient = (await import('ssh2-sftp-client')).default;
-  const sftp = new SftpClient();
-
-  try {
-    const config = {
-      host: process.env.OFFICE_ALLY_SFTP_HOST || '',
-      port: parseInt(process.env.OFFICE_ALLY_SFTP_PORT || '22'),
-      username: process.env.OFFICE_ALLY_SFTP_USERNAME || process.env.OFFICE_ALLY_SFTP_USER || '',
-      password: process.env.OFFICE_ALLY_SFTP_PASSWORD || '',
-    };
-
-    await sftp.connect(config);
-    const fileList = await sftp.list('/outbound/');
-    await sftp.end();
+  const listResult = await clearinghouse.listInbound();
 
-    const responseFiles = fileList
-      .filter((f) => f.type !== 'd')
-      .map((f) => ({
-        name: f.name,
-        type: detectFileType(f.name),
-        size: f.size,
-      }))
-      .filter((f) => f.type !== null);
-
-    return {
-      success: true,
-      files: responseFiles,
-    };
-  } catch (error) {
-    try {
-      await sftp.end();
-    } catch {
-      // Ignore cleanup errors
-    }
-
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Failed to list files',
-    };
+  if (!listResult.success || !listResult.files) {
+    return { success: false, error: listResult.error || 'Failed to list files' };
   }
+
+  const responseFiles = listResult.files
+    .map((f) => ({
+      name: f.name,
+      type: detectFileType(f.name),
+      size: f.size,
+    }))
+    .filter((f) => f.type !== null);
+
+  return {
+    success: true,
+    files: responseFiles,
+  };
 }
@@ -0,0 +1,180 @@
+/**
+ * Secondary Claims Service
+ * Builds coordination-of-benefits (COB) data for billing a secondary payer
+ * after the primary payer has adjudicated a claim
+ *
+ * - Other payer (2320/2330): the primary claim's payer and subscriber
+ * - Primary adjudication (2320 CAS/AMT, 2430): the primary's 835 claim payment
+ * - Secondary insurance: IntakeQ SecondaryInsurance* fields
+ */
+
+import { getServerSupabase } from './supabase';
+import { parse835, findClaimPayment } from './ediParsers/parse835';
+import {
+  matchPayer,
+  normalizeRelationship,
+  formatUnixTimestampToDate,
+} from './payerMatcher';
+import { toEDIDate } from '@/lib/utils';
+import type {
+  Claim,
+  ClaimFormData,
+  EDIOtherPayer,
+  EDIPrimaryAdjudication,
+  IntakeQClient,
+  Parsed835ClaimPayment,
+  Payer,
+  PayerMatchResult,
+  ServiceLine,
+} from '@/types';
+
+export interface PrimaryRemittance {
+  payment: Parsed835ClaimPayment;
+  paymentDate: string; // YYYYMMDD
+  responseFileId: string;
+}
+
+export interface SecondaryInsurance {
+  payerMatch: PayerMatchResult;
+  insurance: Pick<
+    ClaimFormData,
+    'member_id' | 'group_number' | 'subscriber_name' | 'subscriber_dob' | 'subscriber_relationship'
+  >;
+}
+
+/**
+ * Find the primary payer's 835 claim payment for a claim
+ * Re-parses the stored ERA referenced by the claim's most recent 835 event
+ */
+export async function findPrimaryRemittance(
+  supabase: ReturnType<typeof getServerSupabase>,
+  claim: Claim
+): Promise<PrimaryRemittance | null> {
+  const { data: events } = await supabase
+    .from('claim_status_events')
+    .select('response_file_id, created_at')
+    .eq('claim_id', claim.id)
+    .eq('source', '835')
+    .not('response_file_id', 'is', null)
+    .order('created_at', { ascending: false });
+
+  for (const event of events || []) {
+    const { data: file } = await supabase
+      .from('edi_response_files')
+      .select('id, file_content')
+      .eq('id', event.response_file_id)
+      .single();
+
+    if (!file?.file_content) continue;
+
+    const parseResult = parse835(file.file_content);
+    if (!parseResult.success || !parseResult.data) continue;
+
+    const payment =
+      (claim.control_number && findClaimPayment(parseResult.data, claim.control_number)) ||
+      parseResult.data.claimPayments.find(
+        (cp) =>
+          !!claim.payer_claim_number && cp.payerClaimNumber === claim.payer_claim_number && !cp.isReversal
+      );
+
+    if (payment) {
+      return {
+        payment,
+        paymentDate: parseResult.data.paymentDate || toEDIDate(event.created_at.split('T')[0]),
+        responseFileId: file.id,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Build the primary adjudication for a secondary claim
+ * 835 service lines are matched to the claim's service lines by CPT code, in order
+ */
+export function buildPrimaryAdjudication(
+  payment: Parsed835ClaimPayment,
+  paymentDate: string,
+  serviceLines: ServiceLine[]
+): EDIPrimaryAdjudication {
+  const usedLines = new Set<number>();
+
+  const adjudicatedLines = payment.serviceLines.flatMap((svc) => {
+    const index = serviceLines.findIndex(
+      (line, i) => !usedLines.has(i) && line.cpt === svc.procedureCode
+    );
+    if (index === -1) return [];
+    usedLines.add(index);
+
+    return [
+      {
+        lineNumber: index + 1,
+        procedureCode: svc.procedureCode,
+        modifier: svc.modifier,
+        paidAmount: svc.paidAmount,
+        units: svc.units,
+        adjustments: svc.adjustments.map((adj) => ({
+          groupCode: adj.groupCode,
+          reasonCode: adj.reasonCode,
+          amount: adj.amount,
+          quantity: adj.quantity,
+        })),
+      },
+    ];
+  });
+
+  return {
+    payerClaimNumber: payment.payerClaimNumber || undefined,
+    adjudicationDate: paymentDate,
+    paidAmount: payment.paidAmount,
+    patientResponsibility: payment.patientResponsibility,
+    claimAdjustments: payment.adjustments.map((adj) => ({
+      groupCode: adj.groupCode,
+      reasonCode: adj.reasonCode,
+      amount: adj.amount,
+      quantity: adj.quantity,
+    })),
+    serviceLines: adjudicatedLines,
+  };
+}
+
+/**
+ * Build the other payer (2320/2330) from the primary claim
+ */
+export function buildOtherPayer(primaryClaim: Claim, primaryPayer: Payer): EDIOtherPayer {
+  return {
+    payerName: primaryPayer.name,
+    // Support both v1 and v2 schema column names
+    payerId: primaryPayer.oa_professional_837p_id || primaryPayer.office_ally_payer_id || '',
+    memberId: primaryClaim.member_id,
+    groupNumber: primaryClaim.group_number || undefined,
+    subscriberName:
+      primaryClaim.subscriber_name ||
+      `${primaryClaim.patient_first_name} ${primaryClaim.patient_last_name}`,
+    subscriberRelationship: primaryClaim.subscriber_relationship || 'self',
+  };
+}
+
+/**
+ * Extract secondary insurance from an IntakeQ client profile
+ * Returns null if the client has no secondary policy on file
+ */
+export function getSecondaryInsurance(
+  client: IntakeQClient,
+  payers: Payer[]
+): SecondaryInsurance | null {
+  if (!client.SecondaryInsurancePolicyNumber) return null;
+
+  return {
+    payerMatch: matchPayer(client.SecondaryInsuranceCompany, payers),
+    insurance: {
+      member_id: client.SecondaryInsurancePolicyNumber,
+      group_number: client.SecondaryInsuranceGroupNumber || undefined,
+      subscriber_name: client.SecondaryInsuranceHolderName || undefined,
+      subscriber_dob:
+        formatUnixTimestampToDate(client.SecondaryInsuranceHolderDateOfBirth) || undefined,
+      subscriber_relationship: normalizeRelationship(client.SecondaryInsuranceRelationship),
+    },
+  };
+}
@@ -0,0 +1,296 @@
+/**
+ * Unmatched Responses Service
+ * Work queue for claim-level 277 statuses and 835 payments that matched no
+ * claim by control number or payer claim number
+ *
+ * Each queued response carries candidate claims scored on:
+ * - Member ID (35)
+ * - Patient last name (20) and first name (10)
+ * - Date of service (20)
+ * - Total charge (15)
+ * Confirming a candidate is done by the reconciliation engine
+ * (resolveUnmatchedResponse), which applies the response to the claim.
+ */
+
+import { getServerSupabase } from './supabase';
+import { fromEDIDate } from '@/lib/utils';
+import type {
+  Claim,
+  Parsed277ClaimStatus,
+  Parsed835ClaimPayment,
+  UnmatchedCandidate,
+  UnmatchedResponse,
+  UnmatchedResponseStatus,
+} from '@/types';
+
+export type UnmatchedResponseInput =
+  | { responseKey: string; fileType: '277'; response: Parsed277ClaimStatus }
+  | { responseKey: string; fileType: '835'; response: Parsed835ClaimPayment };
+
+/**
+ * What a response says about the claim it is for
+ */
+export interface ResponseDetails {
+  controlNumber: string | null;
+  payerClaimNumber: string | null;
+  patientName: string | null;
+  memberId: string | null;
+  serviceDate: string | null; // YYYY-MM-DD
+  totalCharge: number | null;
+  paidAmount: number | null;
+  statusCode: string | null;
+  statusDescription: string | null;
+}
+
+type CandidateClaim = Pick<
+  Claim,
+  'id' | 'patient_first_name' | 'patient_last_name' | 'member_id' | 'service_lines' | 'total_charge' | 'status'
+>;
+
+const SCORE_WEIGHTS = {
+  memberId: 35,
+  lastName: 20,
+  firstName: 10,
+  serviceDate: 20,
+  totalCharge: 15,
+};
+
+// Candidates below this score are not proposed
+const MIN_CANDIDATE_SCORE = 30;
+const MAX_CANDIDATES = 5;
+
+/**
+ * Claim details of a 277 claim status or 835 claim payment
+ */
+export function responseDetails(input: UnmatchedResponseInput): ResponseDetails {
+  if (input.fileType === '277') {
+    const status = input.response;
+    return {
+      controlNumber: status.controlNumber || null,
+      payerClaimNumber: status.payerClaimNumber || null,
+      patientName: status.patientName || null,
+      memberId: status.memberId || null,
+      // RD8 ranges (CCYYMMDD-CCYYMMDD) start with the first date of service
+      serviceDate: fromEDIDate(status.serviceDate?.slice(0, 8)),
+      totalCharge: status.totalChargeAmount ?? null,
+      paidAmount: null,
+      statusCode: status.statusCategoryCode || null,
+      statusDescription: status.statusDescription || null,
+    };
+  }
+
+  const payment = input.response;
+  return {
+    controlNumber: payment.patientControlNumber || null,
+    payerClaimNumber: payment.payerClaimNumber || null,
+    patientName: payment.patientName || null,
+    memberId: payment.memberId || null,
+    serviceDate: fromEDIDate(payment.serviceDate),
+    // Reversals carry negated amounts
+    totalCharge: Math.abs(payment.chargeAmount),
+    paidAmount: payment.paidAmount,
+    statusCode: payment.statusCode || null,
+    statusDescription: payment.statusDescription || null,
+  };
+}
+
+/**
+ * Queue entry of a response that matched no claim, with its candidate claims
+ * apply_response_file queues it with the file's claim changes; a response
+ * already queued (the file was replayed) is left as it is.
+ */
+export async function buildUnmatchedResponse(
+  supabase: ReturnType<typeof getServerSupabase>,
+  input: UnmatchedResponseInput
+): Promise<Record<string, unknown>> {
+  const details = responseDetails(input);
+  const candidates = await findCandidateClaims(supabase, details);
+
+  console.log('[UnmatchedResponses] Unmatched', input.fileType, details.controlNumber, {
+    candidates: candidates.length,
+    best: candidates[0]?.score,
+  });
+
+  return {
+    file_type: input.fileType,
+    response_key: input.responseKey,
+    control_number: details.controlNumber,
+    payer_claim_number: details.payerClaimNumber,
+    patient_name: details.patientName,
+    member_id: details.memberId,
+    service_date: details.serviceDate,
+    total_charge: details.totalCharge,
+    paid_amount: details.paidAmount,
+    status_code: details.statusCode,
+    status_description: details.statusDescription,
+    response: input.response,
+    candidates,
+  };
+}
+
+/**
+ * Claims that may be the one a response is for, best first
+ * Looks up claims sharing the member ID, a patient name part or the total
+ * charge, then scores each one.
+ */
+export async function findCandidateClaims(
+  supabase: ReturnType<typeof getServerSupabase>,
+  details: ResponseDetails
+): Promise<UnmatchedCandidate[]> {
+  const quote = (value: string) => `"${value.replace(/"/g, '')}"`;
+  const filters: string[] = [];
+
+  if (details.memberId) {
+    filters.push(`member_id.eq.${quote(details.memberId)}`);
+  }
+  // Any word of the name may be the last name ("MARY ANN SMITH-JONES")
+  for (const word of (details.patientName || '').split(/\s+/).filter((w) => w.length > 1)) {
+    filters.push(`patient_last_name.ilike.${quote(word)}`);
+  }
+  if (details.totalCharge !== null && details.totalCharge > 0) {
+    filters.push(`total_charge.eq.${details.totalCharge.toFixed(2)}`);
+  }
+
+  if (filters.length === 0) return [];
+
+  const { data: claims, error } = await supabase
+    .from('claims')
+    .select('id, patient_first_name, patient_last_name, member_id, service_lines, total_charge, status')
+    .neq('status', 'draft')
+    .or(filters.join(','))
+    .limit(50);
+
+  if (error) {
+    console.error('[UnmatchedResponses] Failed to search candidate claims:', error);
+    return [];
+  }
+
+  return ((claims || []) as CandidateClaim[])
+    .map((claim) => scoreCandidate(details, claim))
+    .filter((candidate) => candidate.score >= MIN_CANDIDATE_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_CANDIDATES);
+}
+
+/**
+ * Score how well a claim fits a response
+ */
+export function scoreCandidate(details: ResponseDetails, claim: CandidateClaim): UnmatchedCandidate {
+  const reasons: string[] = [];
+  let score = 0;
+
+  const add = (matched: boolean, weight: number, reason: string) => {
+    if (!matched) return;
+    score += weight;
+    reasons.push(reason);
+  };
+
+  const parts = nameParts(details.patientName);
+  const serviceDates = (claim.service_lines || []).map((line) => line.dos);
+
+  add(
+    !!details.memberId && normalizeId(details.memberId) === normalizeId(claim.member_id),
+    SCORE_WEIGHTS.memberId,
+    'Member ID'
+  );
+  add(parts.includes(normalizeName(claim.patient_last_name)), SCORE_WEIGHTS.lastName, 'Last name');
+  add(parts.includes(normalizeName(claim.patient_first_name)), SCORE_WEIGHTS.firstName, 'First name');
+  add(!!details.serviceDate && serviceDates.includes(details.serviceDate), SCORE_WEIGHTS.serviceDate, 'Date of service');
+  add(
+    details.totalCharge !== null &&
+      Math.round(details.totalCharge * 100) === Math.round(Number(claim.total_charge) * 100),
+    SCORE_WEIGHTS.totalCharge,
+    'Total charge'
+  );
+
+  return {
+    claimId: claim.id,
+    score,
+    reasons,
+    patientName: `${claim.patient_first_name} ${claim.patient_last_name}`,
+    serviceDate: serviceDates[0] || null,
+    totalCharge: Number(claim.total_charge),
+    status: claim.status,
+  };
+}
+
+function normalizeName(name: string | null | undefined): string {
+  return (name || '').toUpperCase().replace(/[^A-Z]/g, '');
+}
+
+function normalizeId(id: string | null | undefined): string {
+  return (id || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+/**
+ * Normalized parts of a patient name ("MARY-ANN SMITH" -> MARYANN, SMITH)
+ */
+function nameParts(name: string | null): string[] {
+  return (name || '')
+    .split(/\s+/)
+    .map(normalizeName)
+    .filter((part) => part.length > 1);
+}
+
+/**
+ * Queued responses, newest first
+ */
+export async function listUnmatchedResponses(
+  supabase: ReturnType<typeof getServerSupabase>,
+  status: UnmatchedResponseStatus = 'open'
+): Promise<{ success: boolean; data?: UnmatchedResponse[]; error?: string }> {
+  const { data, error } = await supabase
+    .from('unmatched_responses')
+    .select('*')
+    .eq('status', status)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('[UnmatchedResponses] Failed to list responses:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true, data: (data || []) as UnmatchedResponse[] };
+}
+
+/**
+ * A queued response, or null when it does not exist
+ */
+export async function getUnmatchedResponse(
+  supabase: ReturnType<typeof getServerSupabase>,
+  unmatchedId: string
+): Promise<UnmatchedResponse | null> {
+  const { data } = await supabase
+    .from('unmatched_responses')
+    .select('*')
+    .eq('id', unmatchedId)
+    .single();
+
+  return (data as UnmatchedResponse) || null;
+}
+
+/**
+ * Take a response off the queue without applying it
+ */
+export async function dismissUnmatchedResponse(
+  supabase: ReturnType<typeof getServerSupabase>,
+  unmatchedId: string
+): Promise<{ success: boolean; error?: string }> {
+  const { data, error } = await supabase
+    .from('unmatched_responses')
+    .update({ status: 'dismissed', resolved_at: new Date().toISOString() })
+    .eq('id', unmatchedId)
+    .eq('status', 'open')
+    .select('id');
+
+  if (error) {
+    console.error('[UnmatchedResponses] Failed to dismiss response:', unmatchedId, error);
+    return { success: false, error: error.message };
+  }
+
+  if (!data || data.length === 0) {
+    return { success: false, error: 'Unmatched response not found or already resolved' };
+  }
+
+  return { success: true };
+}
@@ -164,6 +164,33 @@ export interface Payer {
   created_at?: string;
 }
 
+/**
+ * Billing Provider (billing_providers table)
+ * Used for billing (2010AA), pay-to (2010AB) and rendering (2310B) providers
+ */
+export interface BillingProvider {
+  id: string;
+  name: string;
+  npi: string;
+  type: 'individual' | 'organization';
+  taxonomy_code: string | null;
+  phone: string | null;
+  address_street: string | null;
+  address_city: string | null;
+  address_state: string | null;
+  address_zip: string | null;
+  tax_id: string | null;
+  // Pay-to address, only when payments go somewhere other than the billing address
+  pay_to_address_street: string | null;
+  pay_to_address_city: string | null;
+  pay_to_address_state: string | null;
+  pay_to_address_zip: string | null;
+  is_active: boolean;
+  is_bookable: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
 /**
  * Diagnosis Code
  */
@@ -173,13 +200,42 @@ export interface DiagnosisCode {
   isPrimary: boolean;
 }
 
+/**
+ * Status a 277 reported for one of a claim's service lines
+ */
+export interface ServiceLineStatus {
+  lineNumber: number | null; // 1-based index into service_lines (null when it could not be matched)
+  procedureCode: string;
+  status: ClaimStatus;
+  reason: string; // Descriptions of the line's statuses
+  statusCodes: string[]; // Category:status:entity, e.g. "A7:454:85"
+  effectiveDate: string | null;
+}
+
+/**
+ * A 999 error located in the 837P it acknowledges
+ */
+export interface AcknowledgmentError {
+  loopId: string | null; // e.g. "2010BA"
+  segmentId: string; // e.g. "NM1"
+  segmentPosition: number; // Counted from ST = 1
+  elementPosition: number | null; // e.g. 9 for NM109 (null for segment errors)
+  errorCode: string; // IK403, or IK304 for segment errors
+  description: string;
+  badValue: string | null; // IK404
+  field: string | null; // ClaimFormData field, e.g. "member_id" or "service_lines[0].cpt"
+  message: string; // e.g. "Loop 2010BA NM109 member_id: Invalid code value"
+}
+
 /**
  * Service Line (CPT codes)
  */
 export interface ServiceLine {
   dos: string; // Date of service (YYYY-MM-DD)
   cpt: string; // e.g., "99214"
-  modifier?: string;
+  modifiers?: string[]; // Up to 4, e.g., ["95"]
+  modifier?: string; // Legacy single modifier (claims saved before modifiers)
+  place_of_service?: string; // Overrides the claim place of service (SV105)
   units: number;
   charge: number; // Dollar amount
   diagnosis_pointers: number[]; // 1-based indices into diagnosis codes
@@ -190,6 +246,17 @@ export interface ServiceLine {
  */
 export type SubscriberRelationship = 'self' | 'spouse' | 'child' | 'other';
 
+/**
+ * Claim Filing Order - which payer in the COB chain the claim is billed to
+ */
+export type ClaimFilingOrder = 'primary' | 'secondary';
+
+/**
+ * Claim Frequency Code (CLM05-3)
+ * 1 = Original, 7 = Replacement of prior claim, 8 = Void/cancel of prior claim
+ */
+export type ClaimFrequencyCode = '1' | '7' | '8';
+
 /**
  * Claim Form Data (for CMS-1500 modal)
  */
@@ -215,6 +282,7 @@ export interface ClaimFormData {
   // Clinical
   diagnosis_codes: DiagnosisCode[];
   service_lines: ServiceLine[];
+  place_of_service: string; // CMS place of service code, e.g., "10" for telehealth
 
   // Provider
   rendering_provider_npi: string;
@@ -248,6 +316,7 @@ export interface Claim {
   // Clinical (JSONB)
   diagnosis_codes: DiagnosisCode[];
   service_lines: ServiceLine[];
+  place_of_service: string | null;
 
   // Provider
   rendering_provider_npi: string;
@@ -258,6 +327,7 @@ export interface Claim {
 
   // Submission tracking
   status: ClaimStatus;
+  status_source: ClaimStatusSource | null; // Source that set the current status
   submitted_at: string | null;
   edi_filename: string | null;
   edi_content: string | null;
@@ -273,8 +343,23 @@ export interface Claim {
   paid_amount: number | null;
   rejection_reason: string | null;
   rejection_codes: string[] | null;
+  adjustment_codes: ClaimAdjustmentCode[] | null; // From the latest 835
+  service_line_statuses: ServiceLineStatus[] | null; // From the latest 277 with line statuses
+  acknowledgment_errors: AcknowledgmentError[] | null; // From the latest 999
   submission_source: 'moonlit' | 'intakeq' | 'manual' | 'unknown' | null;
 
+  // Coordination of benefits
+  claim_filing_order: ClaimFilingOrder;
+  primary_claim_id: string | null;
+
+  // Corrections: replacement (7) or void (8) of original_claim_id
+  claim_frequency_code: ClaimFrequencyCode;
+  original_claim_id: string | null;
+
+  // Batch submission: the 837P interchange and transaction set (ST02) carrying this claim
+  batch_id: string | null;
+  transaction_set_control_number: string | null;
+
   // Timestamps
   created_at: string;
   updated_at: string;
@@ -311,6 +396,14 @@ export interface ValidationResult {
   warnings: ValidationError[];
 }
 
+/**
+ * EDI Envelope control numbers for one file (issued by controlNumbers service)
+ */
+export interface EDIEnvelope {
+  interchangeControlNumber: string; // ISA13
+  groupControlNumber: string; // GS06
+}
+
 /**
  * EDI Claim Data (for 837P generation)
  */
@@ -345,26 +438,115 @@ export interface EDIClaimData {
   serviceLines: Array<{
     dos: string; // YYYYMMDD
     cpt: string;
-    modifier?: string;
+    modifiers?: string[]; // Up to 4
+    placeOfService?: string; // SV105, only when different from the claim
     units: number;
     charge: number;
     diagnosisPointers: number[]; // 1-based indices
   }>;
+  placeOfService: string; // CLM05-1
 
   // Providers
   renderingNpi: string;
+  renderingFirstName: string;
+  renderingLastName: string;
+  renderingTaxonomy: string;
   billingNpi: string;
   billingTin: string;
   billingName: string;
+  billingTaxonomy: string;
+  billingPhone: string; // Digits only
   billingAddress: {
     street: string;
     city: string;
     state: string;
     zip: string;
   };
+  payToAddress?: {
+    street: string;
+    city: string;
+    state: string;
+    zip: string;
+  };
 
   // Control numbers
-  controlNumber: string;
+  controlNumber: string; // CLM01 patient control number (envelope numbers are separate)
+
+  // Coordination of benefits (2320/2330 loops)
+  claimFilingOrder?: ClaimFilingOrder;
+  otherPayer?: EDIOtherPayer;
+  primaryAdjudication?: EDIPrimaryAdjudication;
+
+  // Corrections (CLM05-3 and 2300 REF*F8)
+  claimFrequencyCode?: ClaimFrequencyCode;
+  originalPayerClaimNumber?: string;
+}
+
+/**
+ * EDI Claim Status Inquiry Data (for 276 generation)
+ * The claim's 837P data plus what the payer knows it by
+ */
+export interface EDIClaimStatusInquiryData
+  extends Pick<
+    EDIClaimData,
+    | 'patientFirstName'
+    | 'patientLastName'
+    | 'patientDob'
+    | 'patientGender'
+    | 'payerId'
+    | 'memberId'
+    | 'subscriberName'
+    | 'subscriberRelationship'
+    | 'serviceLines'
+    | 'billingNpi'
+    | 'billingName'
+    | 'controlNumber'
+  > {
+  payerName: string;
+  payerClaimNumber?: string; // REF*1K, once a 277 or 835 has reported it
+}
+
+/**
+ * Other Payer (837P 2320 SBR + 2330A/2330B)
+ * On a secondary claim this is the primary payer that already adjudicated it
+ */
+export interface EDIOtherPayer {
+  payerName: string;
+  payerId: string; // Office Ally payer ID
+  memberId: string;
+  groupNumber?: string;
+  subscriberName: string;
+  subscriberRelationship: SubscriberRelationship;
+}
+
+/**
+ * Adjustment reported by another payer (837P 2320/2430 CAS)
+ */
+export interface EDIOtherPayerAdjustment {
+  groupCode: string; // CO, PR, OA, PI, CR
+  reasonCode: string;
+  amount: number;
+  quantity?: number;
+}
+
+/**
+ * Primary payer adjudication carried on a secondary claim
+ * Built from the primary's Parsed835ClaimPayment
+ */
+export interface EDIPrimaryAdjudication {
+  payerClaimNumber?: string;
+  adjudicationDate: string; // YYYYMMDD
+  paidAmount: number;
+  patientResponsibility: number;
+  claimAdjustments: EDIOtherPayerAdjustment[];
+  serviceLines: Array<{
+    lineNumber: number; // 1-based index of the 837 service line
+    procedureCode: string;
+    modifier?: string;
+    paidAmount: number;
+    units: number;
+    adjustments: EDIOtherPayerAdjustment[];
+  }>;
 }
 
 /**
@@ -376,6 +558,62 @@ export interface SubmitClaimResponse {
   filename?: string;
   message?: string;
   error?: string;
+  validationErrors?: ValidationError[];
+}
+
+/**
+ * Claim Batch Status
+ */
+export type ClaimBatchStatus =
+  | 'draft'              // Built but not uploaded
+  | 'submitted'          // Uploaded to Office Ally SFTP
+  | 'failed'             // Upload failed
+  | 'acknowledged'       // 999 accepted every transaction set
+  | 'partially_accepted' // 999 accepted some transaction sets
+  | 'rejected';          // 999 rejected the batch
+
+/**
+ * Claim Batch (database record)
+ * One 837P interchange carrying many claims
+ */
+export interface ClaimBatch {
+  id: string;
+  control_number: string; // GS06
+  interchange_control_number: string | null; // ISA13
+  status: ClaimBatchStatus;
+  claim_count: number;
+  transaction_set_count: number;
+  total_charge: number;
+  edi_content: string | null;
+  edi_filename: string | null;
+  submitted_at: string | null;
+  submission_error: string | null;
+  acknowledgment_date: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Claim skipped from a batch
+ */
+export interface BatchClaimError {
+  claimId: string;
+  error: string;
+  validationErrors?: ValidationError[];
+}
+
+/**
+ * Submit Batch Response
+ */
+export interface SubmitBatchResponse {
+  success: boolean;
+  batchId?: string;
+  controlNumber?: string; // GS06
+  filename?: string;
+  submittedClaimIds?: string[];
+  skipped?: BatchClaimError[];
+  message?: string;
+  error?: string;
 }
 
 // ============================================
@@ -385,7 +623,7 @@ export interface SubmitClaimResponse {
 /**
  * Response file types from Office Ally
  */
-export type EDIResponseFileType = '999' | '277' | '835';
+export type EDIResponseFileType = 'TA1' | '999' | '277' | '835';
 
 /**
  * EDI Response File (database record)
@@ -412,14 +650,59 @@ export interface ClaimStatusEvent {
   claim_id: string;
   response_file_id: string | null;
   previous_status: ClaimStatus | null;
-  new_status: ClaimStatus;
-  source: 'submission' | '999' | '277' | '835' | 'manual';
+  new_status: ClaimStatus; // Requested status when the change was refused
+  source: ClaimStatusSource;
   response_code: string | null;
   response_description: string | null;
   payment_amount: number | null;
+  related_claim_id: string | null; // Replacement/void chain
+  adjustment_codes: ClaimAdjustmentCode[] | null; // 835 adjustments behind this event
+  remark_codes: RemarkCode[] | null;
+  service_line_statuses: ServiceLineStatus[] | null; // 277 line statuses behind this event
+  acknowledgment_errors: AcknowledgmentError[] | null; // 999 errors behind this event
+  applied: boolean; // False when the state machine refused the change
+  refusal_reason: string | null;
   created_at: string;
 }
 
+/**
+ * Claim Status Source
+ * Who changed the status, in increasing precedence
+ */
+export type ClaimStatusSource = 'submission' | 'TA1' | '999' | '277' | '835' | 'manual';
+
+/**
+ * Adjustment Category
+ * Groups CARC codes by what the practice has to do about them
+ */
+export type AdjustmentCategory =
+  | 'contractual'
+  | 'patient_responsibility'
+  | 'missing_info'
+  | 'non_covered'
+  | 'timely_filing'
+  | 'other';
+
+/**
+ * Claim Adjustment Code (CAS group + CARC with its explanation)
+ */
+export interface ClaimAdjustmentCode {
+  groupCode: string; // CO, PR, OA, PI, CR
+  reasonCode: string;
+  amount: number;
+  description: string;
+  category: AdjustmentCategory;
+  lineNumber?: number; // Set for service line adjustments
+}
+
+/**
+ * Remittance Advice Remark Code (RARC from LQ, MOA or MIA)
+ */
+export interface RemarkCode {
+  code: string;
+  description: string;
+}
+
 /**
  * Parsed 999 Functional Acknowledgment
  */
@@ -435,6 +718,7 @@ export interface Parsed999 {
     accepted: boolean;
     statusCode: string;
     statusDescription: string;
+    segmentErrors: Parsed999SegmentError[];
   }>;
   errorCodes?: string[];
   includedTransactionCount: number;
@@ -442,19 +726,114 @@ export interface Parsed999 {
   acceptedTransactionCount: number;
 }
 
+/**
+ * Parsed TA1 Interchange Acknowledgment
+ * Sent instead of a 999 when the ISA/IEA envelope itself is bad
+ */
+export interface ParsedTA1 {
+  interchangeControlNumber: string; // TA101: ISA13 of the interchange being acknowledged
+  interchangeDate: string; // TA102 (YYMMDD)
+  interchangeTime: string; // TA103 (HHMM)
+  acknowledgmentCode: string; // TA104: A, E or R
+  accepted: boolean;
+  noteCode: string; // TA105
+  noteDescription: string;
+  isaControlNumber: string; // ISA13 of the TA1 file itself
+}
+
+/**
+ * 999 CTX context: the claim an error is in (CTX01 = CLM01:<patient control
+ * number>) or the segment that triggered a situational requirement
+ */
+export interface Parsed999Context {
+  name: string; // CTX01-1, e.g. "CLM01" or "SITUATIONAL TRIGGER"
+  reference?: string; // CTX01-2, e.g. the patient control number
+  segmentId?: string; // CTX02
+  segmentPosition?: number; // CTX03
+  loopId?: string; // CTX04
+}
+
+/**
+ * 999 IK4 element error
+ */
+export interface Parsed999ElementError {
+  elementPosition: number; // IK401-1, e.g. 9 for NM109
+  componentPosition?: number; // IK401-2
+  elementReference?: string; // IK402 data element reference number
+  errorCode: string; // IK403
+  description: string;
+  badValue?: string; // IK404
+  context: Parsed999Context[];
+}
+
+/**
+ * 999 IK3 segment error with its element errors
+ */
+export interface Parsed999SegmentError {
+  segmentId: string; // IK301
+  segmentPosition: number; // IK302, counted from ST = 1
+  loopId?: string; // IK303
+  errorCode: string; // IK304
+  description: string;
+  context: Parsed999Context[];
+  elementErrors: Parsed999ElementError[];
+}
+
+/**
+ * One health care claim status of a 277 STC (STC01, STC10 or STC11)
+ */
+export interface Parsed277StatusCode {
+  categoryCode: string;
+  statusCode: string;
+  entityCode?: string; // Who the status is about, e.g. 85 = Billing Provider
+  description: string; // e.g. "Acknowledgment/Rejected for Invalid Information: Procedure code for services rendered"
+}
+
+/**
+ * Parsed 277 STC segment
+ */
+export interface Parsed277Status extends Parsed277StatusCode {
+  claimStatus: ClaimStatus; // From the category code
+  effectiveDate?: string; // STC02
+  actionCode?: string; // STC03
+  amount?: number; // STC04
+  secondary: Parsed277StatusCode[]; // STC10, STC11
+  message?: string; // STC12 free-form text
+}
+
+/**
+ * Parsed 277 service line (2220D/2220E SVC) with its statuses
+ */
+export interface Parsed277ServiceLine {
+  lineNumber?: number; // Line item control number (REF*FJ), our 1-based line
+  procedureCode: string;
+  modifiers: string[];
+  chargeAmount: number;
+  units?: number;
+  serviceDate?: string;
+  statuses: Parsed277Status[];
+  lineStatus: ClaimStatus; // Rejected when any of its statuses rejects the line
+}
+
 /**
  * Parsed 277 Claim Status Info
+ * The status fields describe the claim's primary status: the first claim-level
+ * STC that rejects the claim, or else the first one.
  */
 export interface Parsed277ClaimStatus {
   controlNumber: string;
   payerClaimNumber?: string;
   statusCategoryCode: string;
   statusCode: string;
+  entityCode?: string;
   statusDescription: string;
   claimStatus: ClaimStatus;
+  statuses: Parsed277Status[]; // Every claim-level STC
+  serviceLines: Parsed277ServiceLine[];
   effectiveDate?: string;
   totalChargeAmount?: number;
   patientName?: string;
+  memberId?: string; // NM109 of the patient, or of the subscriber for dependents
   serviceDate?: string;
 }
 
@@ -463,6 +842,7 @@ export interface Parsed277ClaimStatus {
  */
 export interface Parsed277 {
   isaControlNumber: string;
+  solicited: boolean; // Answers a 276 inquiry (005010X212, BHT01 = 0010) rather than acknowledging an 837 (277CA)
   claimStatuses: Parsed277ClaimStatus[];
   hasRejections: boolean;
   totalClaims: number;
@@ -476,6 +856,9 @@ export interface Parsed835Adjustment {
   groupDescription: string;
   reasonCode: string;
   amount: number;
+  quantity?: number;
+  description: string;
+  category: AdjustmentCategory;
 }
 
 /**
@@ -488,6 +871,8 @@ export interface Parsed835ServiceLine {
   paidAmount: number;
   units: number;
   adjustments: Parsed835Adjustment[];
+  remarkCodes: RemarkCode[]; // LQ*HE
+  balanced: boolean; // charge - paid = sum of line adjustments
 }
 
 /**
@@ -503,9 +888,14 @@ export interface Parsed835ClaimPayment {
   patientResponsibility: number;
   adjustments: Parsed835Adjustment[];
   serviceLines: Parsed835ServiceLine[];
+  remarkCodes: RemarkCode[]; // MOA (professional) or MIA (inpatient)
   patientName?: string;
+  memberId?: string; // NM109 of the insured (IL), else of the patient (QC)
   serviceDate?: string;
   claimStatus: ClaimStatus;
+  isReversal: boolean; // Takes back an earlier payment (CLP02 = 22); amounts are negative
+  balanced: boolean; // The claim and every service line balance
+  balanceErrors?: string[];
 }
 
 /**
@@ -513,6 +903,7 @@ export interface Parsed835ClaimPayment {
  */
 export interface Parsed835 {
   isaControlNumber: string;
+  transactionSetControlNumber: string; // ST02
   checkNumber: string;
   payerIdentifier: string;
   payerName: string;
@@ -524,26 +915,248 @@ export interface Parsed835 {
   totalPaid: number;
   totalPatientResponsibility: number;
   claimPayments: Parsed835ClaimPayment[];
-  providerAdjustments: Array<{ reasonCode: string; amount: number }>;
+  providerAdjustments: Parsed835ProviderAdjustment[];
   claimCount: number;
 }
 
+/**
+ * Parsed 835 Provider-Level Adjustment (PLB)
+ * Positive amounts reduce the payment (recoupments, withholds), negative
+ * amounts increase it (interest, refunds), so BPR02 = claims paid - PLB total
+ */
+export interface Parsed835ProviderAdjustment {
+  providerIdentifier: string; // PLB01
+  fiscalPeriodDate: string;   // PLB02 (CCYYMMDD)
+  reasonCode: string;         // WO, 72, L6, FB, ...
+  reasonDescription: string;
+  reference?: string;         // Usually the payer claim number or patient control number being adjusted
+  amount: number;
+}
+
+/**
+ * Remittance (database record)
+ * One 835 payment (transaction set), from the remittance ledger
+ */
+export interface Remittance {
+  id: string;
+  response_file_id: string;
+  transaction_set_control_number: string;
+  interchange_control_number: string | null;
+  trace_number: string; // Check or EFT trace number (TRN02)
+  payment_method: string | null;
+  payment_date: string | null;
+  total_payment_amount: number;
+  payer_identifier: string | null;
+  payer_name: string | null;
+  payee_name: string | null;
+  claim_count: number;
+  created_at: string;
+  claim_payments?: RemittanceClaimPayment[];
+  provider_adjustments?: RemittanceProviderAdjustment[];
+}
+
+/**
+ * Remittance Claim Payment (database record)
+ */
+export interface RemittanceClaimPayment {
+  id: string;
+  remittance_id: string;
+  claim_id: string | null;
+  patient_control_number: string | null;
+  payer_claim_number: string | null;
+  status_code: string | null;
+  status_description: string | null;
+  charge_amount: number;
+  paid_amount: number;
+  patient_responsibility: number;
+  patient_name: string | null;
+  service_date: string | null;
+  remark_codes: RemarkCode[] | null;
+  balanced: boolean;
+  created_at: string;
+  line_payments?: RemittanceLinePayment[];
+  adjustments?: RemittanceAdjustment[]; // Claim and line adjustments
+}
+
+/**
+ * Remittance Service Line Payment (database record)
+ */
+export interface RemittanceLinePayment {
+  id: string;
+  claim_payment_id: string;
+  line_number: number;
+  procedure_code: string | null;
+  modifier: string | null;
+  charge_amount: number;
+  paid_amount: number;
+  units: number | null;
+  remark_codes: RemarkCode[] | null;
+  balanced: boolean;
+  created_at: string;
+}
+
+/**
+ * Remittance Provider-Level Adjustment (database record)
+ */
+export interface RemittanceProviderAdjustment {
+  id: string;
+  remittance_id: string;
+  claim_id: string | null; // Claim the PLB reference resolved to
+  provider_identifier: string | null;
+  fiscal_period_date: string | null;
+  reason_code: string;
+  reason_description: string | null;
+  reference: string | null;
+  amount: number;
+  created_at: string;
+}
+
+/**
+ * Deposit Reconciliation (one 835 payment)
+ * deposited = claims paid - provider adjustments, to the penny
+ */
+export interface DepositReconciliation {
+  remittanceId: string;
+  traceNumber: string;
+  paymentMethod: string | null;
+  paymentDate: string | null;
+  payerName: string | null;
+  deposited: number;            // BPR02
+  claimsPaid: number;           // Sum of CLP04
+  providerAdjustments: number;  // Sum of PLB amounts
+  expectedDeposit: number;      // claimsPaid - providerAdjustments
+  difference: number;           // deposited - expectedDeposit (0 when reconciled)
+  reconciled: boolean;
+  adjustments: RemittanceProviderAdjustment[];
+}
+
+/**
+ * Deposit Report
+ */
+export interface DepositReport {
+  from: string | null;
+  to: string | null;
+  deposits: DepositReconciliation[];
+  totals: {
+    deposited: number;
+    claimsPaid: number;
+    providerAdjustments: number;
+    difference: number;
+  };
+  unreconciledCount: number;
+}
+
+/**
+ * Remittance Adjustment (database record)
+ */
+export interface RemittanceAdjustment {
+  id: string;
+  claim_payment_id: string;
+  line_payment_id: string | null; // Null for claim-level adjustments
+  group_code: string;
+  reason_code: string;
+  amount: number;
+  quantity: number | null;
+  description: string | null;
+  category: AdjustmentCategory | null;
+  created_at: string;
+}
+
 /**
  * Reconciliation Result
  */
 export interface ReconciliationResult {
   success: boolean;
+  runId?: string;
+  dryRun?: boolean; // Nothing was written; changes are what a run would make
   filesDownloaded: number;
   filesProcessed: number;
+  filesResumed: number; // Pending files left by an earlier run
   claimsUpdated: number;
+  unmatchedResponses: number; // Claim-level 277/835 responses queued for manual matching
+  duplicateEvents: number; // Events skipped because the file already recorded them (replays)
+  changes: ClaimChange[];
   errors: string[];
   details: {
+    fileTA1Count: number;
     file999Count: number;
     file277Count: number;
     file835Count: number;
   };
 }
 
+/**
+ * A claim a response file changed (or would change), with the columns that changed
+ */
+export interface ClaimChange {
+  claimId: string;
+  fileId: string | null; // null for a file a dry run did not save
+  filename: string;
+  previousStatus: ClaimStatus;
+  newStatus: ClaimStatus;
+  previousPaidAmount: number | null;
+  newPaidAmount: number | null;
+  fields: Record<string, { from: unknown; to: unknown }>; // Changed claim columns (status timestamps are not compared)
+}
+
+/**
+ * Reconciliation Run (database record)
+ */
+export interface ReconciliationRun {
+  id: string;
+  status: 'running' | 'completed' | 'failed' | 'abandoned';
+  mode: 'download' | 'replay';
+  files_downloaded: number;
+  files_resumed: number;
+  files_processed: number;
+  claims_updated: number;
+  errors: string[];
+  started_at: string;
+  heartbeat_at: string;
+  finished_at: string | null;
+}
+
+/**
+ * Claim proposed for an unmatched response
+ */
+export interface UnmatchedCandidate {
+  claimId: string;
+  score: number; // 0-100
+  reasons: string[]; // What matched, e.g. "Member ID", "Date of service"
+  patientName: string;
+  serviceDate: string | null;
+  totalCharge: number;
+  status: ClaimStatus;
+}
+
+export type UnmatchedResponseStatus = 'open' | 'matched' | 'dismissed';
+
+/**
+ * Unmatched Response (database record)
+ * A claim-level 277 status or 835 payment that matched no claim
+ */
+export interface UnmatchedResponse {
+  id: string;
+  response_file_id: string;
+  file_type: '277' | '835';
+  response_key: string;
+  control_number: string | null;
+  payer_claim_number: string | null;
+  patient_name: string | null;
+  member_id: string | null;
+  service_date: string | null;
+  total_charge: number | null;
+  paid_amount: number | null;
+  status_code: string | null;
+  status_description: string | null;
+  response: Parsed277ClaimStatus | Parsed835ClaimPayment;
+  candidates: UnmatchedCandidate[];
+  status: UnmatchedResponseStatus;
+  matched_claim_id: string | null;
+  resolved_at: string | null;
+  created_at: string;
+}
+
 /**
  * Payer Name Mapping (database record)
  */
@@ -556,3 +1169,193 @@ export interface PayerNameMapping {
   last_matched_at: string | null;
   created_at: string;
 }
+
+// ============================================
+// Eligibility (270/271)
+// ============================================
+
+/**
+ * EDI Eligibility Request Data (for 270 generation)
+ * Dates are YYYYMMDD
+ */
+export interface EligibilityRequestData {
+  traceNumber: string; // TRN02, echoed back in the 271
+  payerId: string;
+  payerName: string;
+  providerName: string;
+  providerNpi: string;
+  providerTin: string;
+  memberId: string;
+  firstName: string;
+  lastName: string;
+  dob: string;
+  serviceDate: string;
+  serviceTypes: string[]; // EQ01 service type codes, e.g. 30, MH
+}
+
+/**
+ * Parsed 271 EB segment (2110C/2110D) with the segments under it
+ */
+export interface Parsed271Benefit {
+  infoCode: string; // EB01, e.g. 1 = Active Coverage, B = Co-Payment
+  infoDescription: string;
+  coverageLevel?: string; // EB02, e.g. IND, FAM
+  serviceTypes: string[]; // EB03 (repeats with ^)
+  insuranceType?: string; // EB04
+  planDescription?: string; // EB05
+  timePeriod?: string; // EB06, e.g. 23 = Calendar Year, 29 = Remaining
+  amount?: number; // EB07
+  percent?: number; // EB08, as a fraction (0.2 = 20%)
+  quantityQualifier?: string; // EB09
+  quantity?: number; // EB10
+  authorizationRequired?: boolean; // EB11
+  inNetwork?: boolean; // EB12 (undefined when W, not applicable)
+  procedureCode?: string; // EB13-2
+  dates: { qualifier: string; value: string }[]; // DTP
+  messages: string[]; // MSG
+}
+
+/**
+ * 271 AAA request validation error
+ */
+export interface Parsed271Error {
+  loopId: string; // Where the AAA was, e.g. 2100C
+  rejectReasonCode: string; // AAA03
+  description: string;
+  followUpActionCode?: string; // AAA04
+}
+
+/**
+ * Parsed 271 Eligibility Response for one subscriber or dependent
+ */
+export interface Parsed271 {
+  isaControlNumber: string;
+  traceNumber?: string; // TRN02 of our 270
+  payerName?: string;
+  payerId?: string;
+  memberId?: string;
+  firstName?: string;
+  lastName?: string;
+  dob?: string;
+  groupNumber?: string; // REF*6P
+  planNumber?: string; // REF*18
+  planName?: string; // First EB05
+  coverageStart?: string;
+  coverageEnd?: string;
+  benefits: Parsed271Benefit[];
+  errors: Parsed271Error[];
+}
+
+export type EligibilityStatus = 'pending' | 'active' | 'inactive' | 'unknown' | 'error';
+
+/**
+ * Mental health benefits of a 271, from EB segments for the behavioral
+ * health service types (MH, A4, A6-A8, CE, CF, AI)
+ */
+export interface MentalHealthBenefits {
+  covered: boolean | null; // null when the payer said nothing about them
+  copay: number | null;
+  coinsurancePercent: number | null;
+  authorizationRequired: boolean | null;
+  serviceTypes: string[];
+  messages: string[];
+}
+
+/**
+ * Eligibility Check (database record)
+ */
+export interface EligibilityCheck {
+  id: string;
+  claim_id: string | null;
+  payer_id: string;
+  member_id: string;
+  patient_first_name: string;
+  patient_last_name: string;
+  patient_dob: string;
+  service_date: string;
+  trace_number: string;
+  transport: string;
+  status: EligibilityStatus;
+  plan_name: string | null;
+  group_number: string | null;
+  coverage_start: string | null;
+  coverage_end: string | null;
+  copay: number | null;
+  coinsurance_percent: number | null;
+  deductible: number | null;
+  deductible_remaining: number | null;
+  out_of_pocket: number | null;
+  out_of_pocket_remaining: number | null;
+  mental_health: MentalHealthBenefits | null;
+  benefits: Parsed271Benefit[] | null;
+  errors: Parsed271Error[] | null;
+  request_edi: string | null;
+  response_edi: string | null;
+  error: string | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+// ============================================
+// Claim Status Inquiries (276)
+// ============================================
+
+export type ClaimStatusInquiryStatus = 'draft' | 'submitted' | 'failed';
+
+/**
+ * Claim Status Inquiry (database record): one 276 file
+ */
+export interface ClaimStatusInquiry {
+  id: string;
+  interchange_control_number: string;
+  group_control_number: string;
+  status: ClaimStatusInquiryStatus;
+  claim_count: number;
+  edi_filename: string | null;
+  edi_content: string | null;
+  submission_error: string | null;
+  submitted_at: string | null;
+  created_at: string;
+}
+
+/**
+ * A claim asked about in a 276, and the solicited 277 that answered it
+ */
+export interface ClaimStatusInquiryClaim {
+  id: string;
+  inquiry_id: string;
+  claim_id: string;
+  payer_id: string;
+  trace_number: string; // TRN02 sent (the claim's CLM01), echoed in the 277
+  response_file_id: string | null;
+  response_category_code: string | null;
+  response_status: ClaimStatus | null;
+  responded_at: string | null;
+  created_at: string;
+}
+
+/**
+ * How quickly a payer answers 276 inquiries
+ */
+export interface PayerInquiryTurnaround {
+  payer_id: string;
+  payer_name: string;
+  inquiries: number;
+  answered: number;
+  unanswered: number;
+  average_hours: number | null;
+  median_hours: number | null;
+}
+
+/**
+ * Submit Claim Status Inquiry Response (API response)
+ */
+export interface SubmitInquiryResponse {
+  success: boolean;
+  inquiryId?: string;
+  filename?: string;
+  claimIds?: string[];
+  skipped?: BatchClaimError[];
+  message?: string;
+  error?: string;
+}
@@ -0,0 +1,14 @@
+-- Secondary (COB) claims
+-- A secondary claim is billed to the patient's secondary payer after the
+-- primary payer adjudicated the original claim (837P 2320/2330/2430 loops)
+
+ALTER TABLE claims ADD COLUMN IF NOT EXISTS claim_filing_order TEXT NOT NULL DEFAULT 'primary'
+  CHECK (claim_filing_order IN ('primary', 'secondary'));
+
+-- Secondary claims point back at the primary claim they were built from
+ALTER TABLE claims ADD COLUMN IF NOT EXISTS primary_claim_id UUID REFERENCES claims(id);
+
+CREATE INDEX IF NOT EXISTS idx_claims_primary_claim ON claims(primary_claim_id);
+
+COMMENT ON COLUMN claims.claim_filing_order IS 'Which payer in the COB chain this claim is billed to';
+COMMENT ON COLUMN claims.primary_claim_id IS 'For secondary claims: the adjudicated primary claim';
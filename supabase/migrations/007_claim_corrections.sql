@@ -0,0 +1,16 @@
+-- Corrected and voided claims (CLM05-3 frequency codes 7 and 8)
+-- A correction is a new claim row that references the claim it replaces or voids
+
+ALTER TABLE claims ADD COLUMN IF NOT EXISTS claim_frequency_code TEXT NOT NULL DEFAULT '1'
+  CHECK (claim_frequency_code IN ('1', '7', '8'));
+
+ALTER TABLE claims ADD COLUMN IF NOT EXISTS original_claim_id UUID REFERENCES claims(id);
+
+CREATE INDEX IF NOT EXISTS idx_claims_original_claim ON claims(original_claim_id);
+
+-- Link history entries across the replacement/void chain
+ALTER TABLE claim_status_events ADD COLUMN IF NOT EXISTS related_claim_id UUID REFERENCES claims(id);
+
+COMMENT ON COLUMN claims.claim_frequency_code IS '1 = original, 7 = replacement, 8 = void';
+COMMENT ON COLUMN claims.original_claim_id IS 'For replacement/void claims: the claim being corrected';
+COMMENT ON COLUMN claim_status_events.related_claim_id IS 'Other claim in a replacement/void chain';
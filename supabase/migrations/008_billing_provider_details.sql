@@ -0,0 +1,23 @@
+-- Billing provider details for 837P generation
+-- Billing (2010AA), pay-to (2010AB) and rendering (2310B) data is read from
+-- billing_providers; claims fail validation when required fields are missing.
+--
+-- Before submitting claims, fill in for the billing organization
+-- (MOONLIT_BILLING_NPI): taxonomy_code, phone, address_*, tax_id
+-- and for each rendering provider: taxonomy_code
+
+-- Pay-to address (2010AB), only needed when it differs from the billing address
+ALTER TABLE billing_providers ADD COLUMN IF NOT EXISTS pay_to_address_street TEXT;
+ALTER TABLE billing_providers ADD COLUMN IF NOT EXISTS pay_to_address_city TEXT;
+ALTER TABLE billing_providers ADD COLUMN IF NOT EXISTS pay_to_address_state TEXT;
+ALTER TABLE billing_providers ADD COLUMN IF NOT EXISTS pay_to_address_zip TEXT;
+
+COMMENT ON COLUMN billing_providers.taxonomy_code IS 'Provider taxonomy (PRV*BI for billing, PRV*PE for rendering)';
+COMMENT ON COLUMN billing_providers.pay_to_address_street IS 'Pay-to address (2010AB); leave empty to use the billing address';
+
+-- Verify: providers missing data required for claims
+SELECT name, npi, type,
+  taxonomy_code IS NULL AS missing_taxonomy,
+  (type = 'organization' AND (phone IS NULL OR address_street IS NULL OR tax_id IS NULL)) AS missing_billing_details
+FROM billing_providers
+ORDER BY type, name;
@@ -0,0 +1,10 @@
+-- Place of service for claims (CLM05-1)
+-- Most visits are telehealth (02/10); existing claims were all submitted as office (11).
+-- Per-line overrides (SV105) and modifiers live in the service_lines JSONB.
+
+ALTER TABLE claims ADD COLUMN IF NOT EXISTS place_of_service TEXT;
+
+UPDATE claims SET place_of_service = '11'
+WHERE place_of_service IS NULL AND status <> 'draft';
+
+COMMENT ON COLUMN claims.place_of_service IS 'CMS place of service code, e.g. 10 = telehealth in patient home, 11 = office';
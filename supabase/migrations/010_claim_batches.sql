@@ -0,0 +1,43 @@
+-- Batch 837P submissions
+-- A batch is one interchange (ISA/GS) with one transaction set (ST) per
+-- billing provider + payer. 999s acknowledge the batch by GS06 and each
+-- transaction set by ST02.
+
+CREATE TABLE IF NOT EXISTS claim_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  control_number TEXT NOT NULL UNIQUE,  -- ISA13/GS06
+  status TEXT NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'submitted', 'failed', 'acknowledged', 'partially_accepted', 'rejected')),
+
+  claim_count INTEGER NOT NULL DEFAULT 0,
+  transaction_set_count INTEGER NOT NULL DEFAULT 0,
+  total_charge DECIMAL(10,2) NOT NULL DEFAULT 0,
+
+  -- Submission tracking
+  edi_content TEXT,
+  edi_filename TEXT,
+  submitted_at TIMESTAMPTZ,
+  submission_error TEXT,
+  acknowledgment_date TIMESTAMPTZ,
+
+  -- Metadata
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_claim_batches_status ON claim_batches(status);
+
+DROP TRIGGER IF EXISTS claim_batches_updated_at ON claim_batches;
+CREATE TRIGGER claim_batches_updated_at
+  BEFORE UPDATE ON claim_batches
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE claims ADD COLUMN IF NOT EXISTS batch_id UUID REFERENCES claim_batches(id);
+ALTER TABLE claims ADD COLUMN IF NOT EXISTS transaction_set_control_number TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_claims_batch ON claims(batch_id);
+
+COMMENT ON COLUMN claims.batch_id IS 'Batch 837P the claim was submitted in (null for single-claim files)';
+COMMENT ON COLUMN claims.transaction_set_control_number IS 'ST02 of the transaction set carrying the claim, matched against 999 AK2';
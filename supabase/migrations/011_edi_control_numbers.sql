@@ -0,0 +1,63 @@
+-- Database-issued EDI control numbers
+-- Replaces Date.now()-based numbers, which collided when two claims were
+-- submitted in the same millisecond or from two serverless instances.
+--
+-- Sequences issue ISA13 (interchange), GS06 (group) and CLM01 (patient
+-- control number). ST02 is numbered 0001.. within each group.
+-- edi_control_numbers records every number issued, one row per claim per
+-- file, so 999 (GS06 + ST02), 277 and 835 (CLM01) responses map back to
+-- exactly one claim.
+
+-- ISA13/GS06 are limited to 9 digits
+CREATE SEQUENCE IF NOT EXISTS edi_interchange_control_number_seq
+  START 1 MINVALUE 1 MAXVALUE 999999999 CYCLE;
+
+CREATE SEQUENCE IF NOT EXISTS edi_group_control_number_seq
+  START 1 MINVALUE 1 MAXVALUE 999999999 CYCLE;
+
+-- CLM01 starts above the 9-digit Date.now() values used for earlier claims
+CREATE SEQUENCE IF NOT EXISTS claim_control_number_seq
+  START 1000000000 MINVALUE 1000000000;
+
+-- Issue p_count numbers from one sequence ('interchange', 'group' or 'claim')
+CREATE OR REPLACE FUNCTION next_edi_control_numbers(p_kind TEXT, p_count INTEGER DEFAULT 1)
+RETURNS SETOF BIGINT AS $$
+BEGIN
+  IF p_kind = 'interchange' THEN
+    RETURN QUERY SELECT nextval('edi_interchange_control_number_seq') FROM generate_series(1, p_count);
+  ELSIF p_kind = 'group' THEN
+    RETURN QUERY SELECT nextval('edi_group_control_number_seq') FROM generate_series(1, p_count);
+  ELSIF p_kind = 'claim' THEN
+    RETURN QUERY SELECT nextval('claim_control_number_seq') FROM generate_series(1, p_count);
+  ELSE
+    RAISE EXCEPTION 'Unknown control number kind: %', p_kind;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Issued control numbers
+CREATE TABLE IF NOT EXISTS edi_control_numbers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  claim_id UUID NOT NULL REFERENCES claims(id) ON DELETE CASCADE,
+  batch_id UUID REFERENCES claim_batches(id),
+
+  interchange_control_number TEXT NOT NULL,      -- ISA13
+  group_control_number TEXT NOT NULL,            -- GS06
+  transaction_set_control_number TEXT NOT NULL,  -- ST02
+  claim_control_number TEXT NOT NULL UNIQUE,     -- CLM01
+
+  edi_filename TEXT,
+
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_edi_control_numbers_claim ON edi_control_numbers(claim_id);
+CREATE INDEX IF NOT EXISTS idx_edi_control_numbers_interchange ON edi_control_numbers(interchange_control_number);
+CREATE INDEX IF NOT EXISTS idx_edi_control_numbers_group ON edi_control_numbers(group_control_number, transaction_set_control_number);
+
+-- Batches are acknowledged by GS06; keep ISA13 alongside it
+ALTER TABLE claim_batches ADD COLUMN IF NOT EXISTS interchange_control_number TEXT;
+
+COMMENT ON TABLE edi_control_numbers IS 'Every ISA13/GS06/ST02/CLM01 issued, mapped to the claim and file that used it';
+COMMENT ON COLUMN claim_batches.control_number IS 'GS06 group control number';
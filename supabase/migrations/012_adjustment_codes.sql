@@ -0,0 +1,16 @@
+-- Explained 835 adjustments
+-- rejection_codes only held bare "CO-45" strings. adjustment_codes keeps each
+-- CAS adjustment with its CARC description and category, and remark_codes the
+-- RARCs from MOA/MIA/LQ, so denial reasons can be shown in plain English.
+--
+-- adjustment_codes: [{ groupCode, reasonCode, amount, description, category, lineNumber? }]
+-- remark_codes:     [{ code, description }]
+
+ALTER TABLE claims ADD COLUMN IF NOT EXISTS adjustment_codes JSONB;
+
+ALTER TABLE claim_status_events ADD COLUMN IF NOT EXISTS adjustment_codes JSONB;
+ALTER TABLE claim_status_events ADD COLUMN IF NOT EXISTS remark_codes JSONB;
+
+COMMENT ON COLUMN claims.adjustment_codes IS 'CAS adjustments from the latest 835, with CARC descriptions and categories';
+COMMENT ON COLUMN claim_status_events.adjustment_codes IS 'CAS adjustments from the 835 behind this event';
+COMMENT ON COLUMN claim_status_events.remark_codes IS 'Remittance advice remark codes (RARC) from the 835 behind this event';
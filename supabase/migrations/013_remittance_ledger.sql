@@ -0,0 +1,109 @@
+-- Remittance ledger
+-- process835File used to collapse an ERA into claims.paid_amount/paid_date.
+-- The ledger keeps every 835 payment (one per transaction set), the claim
+-- payments (CLP) it carries, their service lines (SVC) and every CAS
+-- adjustment, so payments can be queried by claim or by check/EFT trace
+-- number without re-parsing edi_response_files.file_content.
+
+CREATE TABLE IF NOT EXISTS remittances (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  response_file_id UUID NOT NULL REFERENCES edi_response_files(id) ON DELETE CASCADE,
+  transaction_set_control_number TEXT NOT NULL,  -- ST02
+  interchange_control_number TEXT,               -- ISA13
+
+  -- Payment (BPR/TRN)
+  trace_number TEXT NOT NULL,                    -- TRN02: check number or EFT trace number
+  payment_method TEXT,                           -- BPR04: CHK, ACH, NON, ...
+  payment_date DATE,                             -- BPR16
+  total_payment_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+
+  -- Parties
+  payer_identifier TEXT,                         -- TRN03
+  payer_name TEXT,                               -- 1000A N1*PR
+  payee_name TEXT,                               -- 1000B N1*PE
+
+  claim_count INTEGER NOT NULL DEFAULT 0,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE (response_file_id, transaction_set_control_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_remittances_trace ON remittances(trace_number);
+CREATE INDEX IF NOT EXISTS idx_remittances_payment_date ON remittances(payment_date);
+
+-- Claim payments (2100 CLP)
+CREATE TABLE IF NOT EXISTS remittance_claim_payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  remittance_id UUID NOT NULL REFERENCES remittances(id) ON DELETE CASCADE,
+  claim_id UUID REFERENCES claims(id) ON DELETE SET NULL,  -- Null when no claim matched
+
+  patient_control_number TEXT,                   -- CLP01
+  payer_claim_number TEXT,                       -- CLP07
+  status_code TEXT,                              -- CLP02
+  status_description TEXT,
+
+  charge_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+  paid_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+  patient_responsibility DECIMAL(10,2) NOT NULL DEFAULT 0,
+
+  patient_name TEXT,
+  service_date DATE,
+  remark_codes JSONB,                            -- MOA/MIA remarks: [{ code, description }]
+  balanced BOOLEAN NOT NULL DEFAULT TRUE,
+
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_remittance_claim_payments_remittance ON remittance_claim_payments(remittance_id);
+CREATE INDEX IF NOT EXISTS idx_remittance_claim_payments_claim ON remittance_claim_payments(claim_id);
+CREATE INDEX IF NOT EXISTS idx_remittance_claim_payments_pcn ON remittance_claim_payments(patient_control_number);
+
+-- Service line payments (2110 SVC)
+CREATE TABLE IF NOT EXISTS remittance_line_payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  claim_payment_id UUID NOT NULL REFERENCES remittance_claim_payments(id) ON DELETE CASCADE,
+  line_number INTEGER NOT NULL,                  -- Order of the SVC in the claim payment (1-based)
+
+  procedure_code TEXT,
+  modifier TEXT,
+  charge_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+  paid_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+  units DECIMAL(10,2),
+
+  remark_codes JSONB,                            -- LQ*HE remarks: [{ code, description }]
+  balanced BOOLEAN NOT NULL DEFAULT TRUE,
+
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_remittance_line_payments_claim_payment ON remittance_line_payments(claim_payment_id);
+
+-- Adjustments (CAS), one row per reason/amount triplet
+CREATE TABLE IF NOT EXISTS remittance_adjustments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  claim_payment_id UUID NOT NULL REFERENCES remittance_claim_payments(id) ON DELETE CASCADE,
+  line_payment_id UUID REFERENCES remittance_line_payments(id) ON DELETE CASCADE,  -- Null for claim-level CAS
+
+  group_code TEXT NOT NULL,                      -- CO, PR, OA, PI, CR
+  reason_code TEXT NOT NULL,                     -- CARC
+  amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+  quantity DECIMAL(10,2),
+  description TEXT,
+  category TEXT,
+
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_remittance_adjustments_claim_payment ON remittance_adjustments(claim_payment_id);
+CREATE INDEX IF NOT EXISTS idx_remittance_adjustments_line_payment ON remittance_adjustments(line_payment_id);
+
+COMMENT ON TABLE remittances IS '835 payments, one per transaction set';
+COMMENT ON TABLE remittance_claim_payments IS 'Claim payments (CLP) in an 835 payment';
+COMMENT ON TABLE remittance_line_payments IS 'Service line payments (SVC) of an 835 claim payment';
+COMMENT ON TABLE remittance_adjustments IS 'CAS adjustments of an 835 claim payment or service line';
+COMMENT ON COLUMN remittances.trace_number IS 'TRN02: check number for paper checks, EFT trace number for ACH';
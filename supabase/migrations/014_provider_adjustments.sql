@@ -0,0 +1,28 @@
+-- Provider-level adjustments (835 PLB)
+-- Recoupments (WO, 72), interest (L6), forward balances (FB) and other
+-- offsets are not tied to a CLP but change the deposit:
+--   BPR02 (deposited) = sum of CLP04 (claims paid) - sum of PLB amounts
+-- claim_id is set when the PLB03-2 reference identifies one of our claims.
+
+CREATE TABLE IF NOT EXISTS remittance_provider_adjustments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  remittance_id UUID NOT NULL REFERENCES remittances(id) ON DELETE CASCADE,
+  claim_id UUID REFERENCES claims(id) ON DELETE SET NULL,
+
+  provider_identifier TEXT,                      -- PLB01
+  fiscal_period_date DATE,                       -- PLB02
+  reason_code TEXT NOT NULL,                     -- PLB03-1: WO, 72, L6, FB, ...
+  reason_description TEXT,
+  reference TEXT,                                -- PLB03-2: payer claim number, patient control number, ...
+  amount DECIMAL(10,2) NOT NULL DEFAULT 0,       -- Positive reduces the deposit, negative increases it
+
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_remittance_provider_adjustments_remittance ON remittance_provider_adjustments(remittance_id);
+CREATE INDEX IF NOT EXISTS idx_remittance_provider_adjustments_claim ON remittance_provider_adjustments(claim_id);
+CREATE INDEX IF NOT EXISTS idx_remittance_provider_adjustments_reason ON remittance_provider_adjustments(reason_code);
+
+COMMENT ON TABLE remittance_provider_adjustments IS 'Provider-level adjustments (PLB) of an 835 payment';
+COMMENT ON COLUMN remittance_provider_adjustments.amount IS 'Positive amounts are taken out of the deposit, negative amounts are added to it';
@@ -0,0 +1,24 @@
+-- Claim status state machine
+-- Every status change goes through claimStatusMachine, which only allows
+-- declared moves and refuses changes from a lower-precedence source than the
+-- one that set the current status (submission < 999 < 277 < 835 < manual).
+-- Refused changes are kept in claim_status_events with applied = false.
+
+ALTER TABLE claims ADD COLUMN IF NOT EXISTS status_source TEXT
+  CHECK (status_source IN ('submission', '999', '277', '835', 'manual'));
+
+ALTER TABLE claim_status_events ADD COLUMN IF NOT EXISTS applied BOOLEAN NOT NULL DEFAULT TRUE;
+ALTER TABLE claim_status_events ADD COLUMN IF NOT EXISTS refusal_reason TEXT;
+
+-- Existing claims: attribute the current status to the source that normally sets it
+UPDATE claims SET status_source = CASE
+    WHEN status IN ('submitted', 'failed') THEN 'submission'
+    WHEN status = 'acknowledged' THEN '999'
+    WHEN status IN ('accepted', 'rejected', 'pending') THEN '277'
+    WHEN status IN ('paid', 'denied') THEN '835'
+  END
+WHERE status_source IS NULL AND status <> 'draft';
+
+COMMENT ON COLUMN claims.status_source IS 'Source of the current status; lower-precedence sources cannot change it';
+COMMENT ON COLUMN claim_status_events.applied IS 'False when the state machine refused the status change';
+COMMENT ON COLUMN claim_status_events.refusal_reason IS 'Why the status change was refused';
@@ -0,0 +1,128 @@
+-- Reconciliation runs
+-- Each run is logged with its counts and errors, and only one may run at a
+-- time. A run that stops sending heartbeats (crashed or timed out) is marked
+-- abandoned when the next run starts.
+--
+-- Each response file is applied atomically by apply_response_file: its claim
+-- updates, status events and processed status commit together, so a crash
+-- leaves the file 'pending' and the next run processes it again from scratch.
+
+CREATE TABLE IF NOT EXISTS reconciliation_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  status TEXT NOT NULL DEFAULT 'running'
+    CHECK (status IN ('running', 'completed', 'failed', 'abandoned')),
+
+  files_downloaded INTEGER NOT NULL DEFAULT 0,
+  files_resumed INTEGER NOT NULL DEFAULT 0,    -- Pending files left by earlier runs
+  files_processed INTEGER NOT NULL DEFAULT 0,
+  claims_updated INTEGER NOT NULL DEFAULT 0,
+  errors JSONB NOT NULL DEFAULT '[]',
+
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  heartbeat_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMPTZ
+);
+
+-- The lock: at most one running run
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reconciliation_runs_running
+  ON reconciliation_runs ((TRUE)) WHERE status = 'running';
+
+CREATE INDEX IF NOT EXISTS idx_reconciliation_runs_started ON reconciliation_runs(started_at);
+
+ALTER TABLE edi_response_files ADD COLUMN IF NOT EXISTS run_id UUID REFERENCES reconciliation_runs(id);
+
+-- Start a run, or return NULL when another run holds the lock
+CREATE OR REPLACE FUNCTION start_reconciliation_run(p_stale_minutes INTEGER DEFAULT 30)
+RETURNS UUID AS $$
+DECLARE
+  v_run_id UUID;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('reconciliation_runs'));
+
+  UPDATE reconciliation_runs
+  SET status = 'abandoned', finished_at = NOW()
+  WHERE status = 'running'
+    AND heartbeat_at < NOW() - make_interval(mins => p_stale_minutes);
+
+  IF EXISTS (SELECT 1 FROM reconciliation_runs WHERE status = 'running') THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO reconciliation_runs (status) VALUES ('running') RETURNING id INTO v_run_id;
+  RETURN v_run_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Apply everything one response file changes in one transaction
+-- p_claim_updates: [{ claim_id, fields: { status, paid_amount, ... } }], one entry per claim
+-- p_events:        claim_status_events rows, in the order they happened
+CREATE OR REPLACE FUNCTION apply_response_file(
+  p_file_id UUID,
+  p_run_id UUID,
+  p_claim_updates JSONB,
+  p_events JSONB,
+  p_processing_status TEXT,
+  p_processing_error TEXT,
+  p_claims_matched INTEGER,
+  p_claims_updated INTEGER
+)
+RETURNS VOID AS $$
+DECLARE
+  v_update JSONB;
+BEGIN
+  -- A file is applied once: lock it and make sure no one got here first
+  PERFORM 1 FROM edi_response_files
+  WHERE id = p_file_id AND processing_status = 'pending'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Response file % is not pending', p_file_id;
+  END IF;
+
+  -- Columns reconciliation may change; keys missing from fields keep their value
+  FOR v_update IN SELECT value FROM jsonb_array_elements(COALESCE(p_claim_updates, '[]'::JSONB)) LOOP
+    UPDATE claims c
+    SET (
+      status, status_source, payer_claim_number, paid_amount, adjustment_codes,
+      rejection_reason, rejection_codes,
+      acknowledgment_date, accepted_date, rejected_date, paid_date
+    ) = (
+      SELECT
+        r.status, r.status_source, r.payer_claim_number, r.paid_amount, r.adjustment_codes,
+        r.rejection_reason, r.rejection_codes,
+        r.acknowledgment_date, r.accepted_date, r.rejected_date, r.paid_date
+      FROM jsonb_populate_record(c, v_update->'fields') r
+    )
+    WHERE c.id = (v_update->>'claim_id')::UUID;
+  END LOOP;
+
+  -- clock_timestamp() keeps the events of one file in order
+  INSERT INTO claim_status_events (
+    claim_id, response_file_id, previous_status, new_status, source,
+    response_code, response_description, payment_amount, related_claim_id,
+    adjustment_codes, remark_codes, applied, refusal_reason, created_at
+  )
+  SELECT
+    e.claim_id, e.response_file_id, e.previous_status, e.new_status, e.source,
+    e.response_code, e.response_description, e.payment_amount, e.related_claim_id,
+    e.adjustment_codes, e.remark_codes, COALESCE(e.applied, TRUE), e.refusal_reason, clock_timestamp()
+  FROM jsonb_array_elements(COALESCE(p_events, '[]'::JSONB)) WITH ORDINALITY AS rows(value, position)
+  CROSS JOIN LATERAL jsonb_populate_record(NULL::claim_status_events, rows.value) e
+  ORDER BY rows.position;
+
+  UPDATE edi_response_files
+  SET processing_status = p_processing_status,
+      processing_error = p_processing_error,
+      claims_matched = p_claims_matched,
+      claims_updated = p_claims_updated,
+      processed_at = NOW(),
+      run_id = p_run_id
+  WHERE id = p_file_id;
+
+  UPDATE reconciliation_runs SET heartbeat_at = NOW() WHERE id = p_run_id;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON TABLE reconciliation_runs IS 'Log of reconciliation runs; the running row is the lock';
+COMMENT ON COLUMN edi_response_files.run_id IS 'Reconciliation run that applied the file';
@@ -0,0 +1,43 @@
+-- Reconciliation replays
+-- Stored response files can be processed again (after a parser fix) without
+-- going back to SFTP. A replay is a reconciliation run of its own, so it takes
+-- the same lock, and is told apart from download runs by its mode.
+--
+-- A replayed file is set back to 'pending' and applied by apply_response_file
+-- like a new one; events it already recorded are skipped, not repeated.
+
+ALTER TABLE reconciliation_runs ADD COLUMN IF NOT EXISTS mode TEXT NOT NULL DEFAULT 'download'
+  CHECK (mode IN ('download', 'replay'));
+
+-- Replaces the single-argument version from 016
+DROP FUNCTION IF EXISTS start_reconciliation_run(INTEGER);
+
+-- Start a run, or return NULL when another run holds the lock
+CREATE OR REPLACE FUNCTION start_reconciliation_run(
+  p_stale_minutes INTEGER DEFAULT 30,
+  p_mode TEXT DEFAULT 'download'
+)
+RETURNS UUID AS $$
+DECLARE
+  v_run_id UUID;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('reconciliation_runs'));
+
+  UPDATE reconciliation_runs
+  SET status = 'abandoned', finished_at = NOW()
+  WHERE status = 'running'
+    AND heartbeat_at < NOW() - make_interval(mins => p_stale_minutes);
+
+  IF EXISTS (SELECT 1 FROM reconciliation_runs WHERE status = 'running') THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO reconciliation_runs (status, mode) VALUES ('running', p_mode) RETURNING id INTO v_run_id;
+  RETURN v_run_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Replays look up the events a file already recorded
+CREATE INDEX IF NOT EXISTS idx_claim_status_events_response_file ON claim_status_events(response_file_id);
+
+COMMENT ON COLUMN reconciliation_runs.mode IS 'download: new files from SFTP; replay: stored files processed again';
@@ -0,0 +1,165 @@
+-- Unmatched responses
+-- Claim-level 277 statuses and 835 payments that matched no claim by control
+-- number or payer claim number are queued here with scored candidate claims,
+-- instead of being dropped. Confirming a candidate applies the response to
+-- that claim and learns its payer claim number, so later responses match.
+
+CREATE TABLE IF NOT EXISTS unmatched_responses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  response_file_id UUID NOT NULL REFERENCES edi_response_files(id) ON DELETE CASCADE,
+  file_type TEXT NOT NULL CHECK (file_type IN ('277', '835')),
+  response_key TEXT NOT NULL,                -- Position of the response in its file
+
+  -- What the payer sent
+  control_number TEXT,                       -- 277 TRN02 / 835 CLP01
+  payer_claim_number TEXT,
+  patient_name TEXT,
+  member_id TEXT,
+  service_date DATE,
+  total_charge DECIMAL(10,2),
+  paid_amount DECIMAL(10,2),                 -- 835 only
+  status_code TEXT,
+  status_description TEXT,
+  response JSONB NOT NULL,                   -- Parsed 277 claim status / 835 claim payment
+
+  candidates JSONB NOT NULL DEFAULT '[]',    -- [{ claimId, score, reasons, ... }], best first
+
+  status TEXT NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open', 'matched', 'dismissed')),
+  matched_claim_id UUID REFERENCES claims(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- Replaying a file does not queue its responses again
+  UNIQUE (response_file_id, response_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_unmatched_responses_status ON unmatched_responses(status);
+
+-- Claim updates and status events, shared by apply_response_file and
+-- resolve_unmatched_response
+-- p_claim_updates: [{ claim_id, fields: { status, paid_amount, ... } }], one entry per claim
+-- p_events:        claim_status_events rows, in the order they happened
+CREATE OR REPLACE FUNCTION apply_claim_changes(p_claim_updates JSONB, p_events JSONB)
+RETURNS VOID AS $$
+DECLARE
+  v_update JSONB;
+BEGIN
+  -- Columns reconciliation may change; keys missing from fields keep their value
+  FOR v_update IN SELECT value FROM jsonb_array_elements(COALESCE(p_claim_updates, '[]'::JSONB)) LOOP
+    UPDATE claims c
+    SET (
+      status, status_source, payer_claim_number, paid_amount, adjustment_codes,
+      rejection_reason, rejection_codes,
+      acknowledgment_date, accepted_date, rejected_date, paid_date
+    ) = (
+      SELECT
+        r.status, r.status_source, r.payer_claim_number, r.paid_amount, r.adjustment_codes,
+        r.rejection_reason, r.rejection_codes,
+        r.acknowledgment_date, r.accepted_date, r.rejected_date, r.paid_date
+      FROM jsonb_populate_record(c, v_update->'fields') r
+    )
+    WHERE c.id = (v_update->>'claim_id')::UUID;
+  END LOOP;
+
+  -- clock_timestamp() keeps the events in order
+  INSERT INTO claim_status_events (
+    claim_id, response_file_id, previous_status, new_status, source,
+    response_code, response_description, payment_amount, related_claim_id,
+    adjustment_codes, remark_codes, applied, refusal_reason, created_at
+  )
+  SELECT
+    e.claim_id, e.response_file_id, e.previous_status, e.new_status, e.source,
+    e.response_code, e.response_description, e.payment_amount, e.related_claim_id,
+    e.adjustment_codes, e.remark_codes, COALESCE(e.applied, TRUE), e.refusal_reason, clock_timestamp()
+  FROM jsonb_array_elements(COALESCE(p_events, '[]'::JSONB)) WITH ORDINALITY AS rows(value, position)
+  CROSS JOIN LATERAL jsonb_populate_record(NULL::claim_status_events, rows.value) e
+  ORDER BY rows.position;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Same as 016, with the claim changes moved to apply_claim_changes
+CREATE OR REPLACE FUNCTION apply_response_file(
+  p_file_id UUID,
+  p_run_id UUID,
+  p_claim_updates JSONB,
+  p_events JSONB,
+  p_processing_status TEXT,
+  p_processing_error TEXT,
+  p_claims_matched INTEGER,
+  p_claims_updated INTEGER
+)
+RETURNS VOID AS $$
+BEGIN
+  -- A file is applied once: lock it and make sure no one got here first
+  PERFORM 1 FROM edi_response_files
+  WHERE id = p_file_id AND processing_status = 'pending'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Response file % is not pending', p_file_id;
+  END IF;
+
+  PERFORM apply_claim_changes(p_claim_updates, p_events);
+
+  UPDATE edi_response_files
+  SET processing_status = p_processing_status,
+      processing_error = p_processing_error,
+      claims_matched = p_claims_matched,
+      claims_updated = p_claims_updated,
+      processed_at = NOW(),
+      run_id = p_run_id
+  WHERE id = p_file_id;
+
+  UPDATE reconciliation_runs SET heartbeat_at = NOW() WHERE id = p_run_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Confirm a claim for an unmatched response in one transaction: apply the
+-- response's changes, learn the payer claim number and link the 835 payment
+CREATE OR REPLACE FUNCTION resolve_unmatched_response(
+  p_unmatched_id UUID,
+  p_claim_id UUID,
+  p_claim_updates JSONB,
+  p_events JSONB
+)
+RETURNS VOID AS $$
+DECLARE
+  v_response unmatched_responses%ROWTYPE;
+BEGIN
+  SELECT * INTO v_response FROM unmatched_responses
+  WHERE id = p_unmatched_id AND status = 'open'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unmatched response % is not open', p_unmatched_id;
+  END IF;
+
+  PERFORM apply_claim_changes(p_claim_updates, p_events);
+
+  -- Learned even when the status change is refused
+  IF v_response.payer_claim_number IS NOT NULL THEN
+    UPDATE claims SET payer_claim_number = v_response.payer_claim_number
+    WHERE id = p_claim_id AND payer_claim_number IS NULL;
+  END IF;
+
+  IF v_response.file_type = '835' THEN
+    UPDATE remittance_claim_payments rcp
+    SET claim_id = p_claim_id
+    FROM remittances r
+    WHERE rcp.remittance_id = r.id
+      AND r.response_file_id = v_response.response_file_id
+      AND rcp.claim_id IS NULL
+      AND rcp.patient_control_number IS NOT DISTINCT FROM v_response.control_number
+      AND rcp.payer_claim_number IS NOT DISTINCT FROM v_response.payer_claim_number;
+  END IF;
+
+  UPDATE unmatched_responses
+  SET status = 'matched', matched_claim_id = p_claim_id, resolved_at = NOW()
+  WHERE id = p_unmatched_id;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON TABLE unmatched_responses IS 'Claim-level 277/835 responses that matched no claim, with candidate claims';
+COMMENT ON COLUMN unmatched_responses.candidates IS 'Candidate claims scored on member ID, patient name, date of service and total charge';
@@ -0,0 +1,49 @@
+-- Service line statuses
+-- 277CA responses can accept a claim and still reject some of its lines
+-- (2220D/2220E STC). The latest line statuses are kept alongside the claim's
+-- service_lines, and each 277 event records the line statuses it reported.
+
+ALTER TABLE claims ADD COLUMN IF NOT EXISTS service_line_statuses JSONB;
+ALTER TABLE claim_status_events ADD COLUMN IF NOT EXISTS service_line_statuses JSONB;
+
+-- Same as 018, with service_line_statuses among the claim columns and event fields
+CREATE OR REPLACE FUNCTION apply_claim_changes(p_claim_updates JSONB, p_events JSONB)
+RETURNS VOID AS $$
+DECLARE
+  v_update JSONB;
+BEGIN
+  -- Columns reconciliation may change; keys missing from fields keep their value
+  FOR v_update IN SELECT value FROM jsonb_array_elements(COALESCE(p_claim_updates, '[]'::JSONB)) LOOP
+    UPDATE claims c
+    SET (
+      status, status_source, payer_claim_number, paid_amount, adjustment_codes,
+      rejection_reason, rejection_codes, service_line_statuses,
+      acknowledgment_date, accepted_date, rejected_date, paid_date
+    ) = (
+      SELECT
+        r.status, r.status_source, r.payer_claim_number, r.paid_amount, r.adjustment_codes,
+        r.rejection_reason, r.rejection_codes, r.service_line_statuses,
+        r.acknowledgment_date, r.accepted_date, r.rejected_date, r.paid_date
+      FROM jsonb_populate_record(c, v_update->'fields') r
+    )
+    WHERE c.id = (v_update->>'claim_id')::UUID;
+  END LOOP;
+
+  -- clock_timestamp() keeps the events in order
+  INSERT INTO claim_status_events (
+    claim_id, response_file_id, previous_status, new_status, source,
+    response_code, response_description, payment_amount, related_claim_id,
+    adjustment_codes, remark_codes, service_line_statuses, applied, refusal_reason, created_at
+  )
+  SELECT
+    e.claim_id, e.response_file_id, e.previous_status, e.new_status, e.source,
+    e.response_code, e.response_description, e.payment_amount, e.related_claim_id,
+    e.adjustment_codes, e.remark_codes, e.service_line_statuses, COALESCE(e.applied, TRUE), e.refusal_reason,
+    clock_timestamp()
+  FROM jsonb_array_elements(COALESCE(p_events, '[]'::JSONB)) WITH ORDINALITY AS rows(value, position)
+  CROSS JOIN LATERAL jsonb_populate_record(NULL::claim_status_events, rows.value) e
+  ORDER BY rows.position;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON COLUMN claims.service_line_statuses IS 'Line statuses from the latest 277 that reported any: [{ lineNumber, procedureCode, status, reason, statusCodes, effectiveDate }]';
@@ -0,0 +1,51 @@
+-- Acknowledgment errors
+-- 999 IK3/IK4 errors located in the 837P they acknowledge: loop, segment,
+-- element, bad value and the claim form field it came from. The latest ones
+-- are kept on the claim, and each 999 event records the errors it reported.
+
+ALTER TABLE claims ADD COLUMN IF NOT EXISTS acknowledgment_errors JSONB;
+ALTER TABLE claim_status_events ADD COLUMN IF NOT EXISTS acknowledgment_errors JSONB;
+
+-- Same as 019, with acknowledgment_errors among the claim columns and event fields
+CREATE OR REPLACE FUNCTION apply_claim_changes(p_claim_updates JSONB, p_events JSONB)
+RETURNS VOID AS $$
+DECLARE
+  v_update JSONB;
+BEGIN
+  -- Columns reconciliation may change; keys missing from fields keep their value
+  FOR v_update IN SELECT value FROM jsonb_array_elements(COALESCE(p_claim_updates, '[]'::JSONB)) LOOP
+    UPDATE claims c
+    SET (
+      status, status_source, payer_claim_number, paid_amount, adjustment_codes,
+      rejection_reason, rejection_codes, service_line_statuses, acknowledgment_errors,
+      acknowledgment_date, accepted_date, rejected_date, paid_date
+    ) = (
+      SELECT
+        r.status, r.status_source, r.payer_claim_number, r.paid_amount, r.adjustment_codes,
+        r.rejection_reason, r.rejection_codes, r.service_line_statuses, r.acknowledgment_errors,
+        r.acknowledgment_date, r.accepted_date, r.rejected_date, r.paid_date
+      FROM jsonb_populate_record(c, v_update->'fields') r
+    )
+    WHERE c.id = (v_update->>'claim_id')::UUID;
+  END LOOP;
+
+  -- clock_timestamp() keeps the events in order
+  INSERT INTO claim_status_events (
+    claim_id, response_file_id, previous_status, new_status, source,
+    response_code, response_description, payment_amount, related_claim_id,
+    adjustment_codes, remark_codes, service_line_statuses, acknowledgment_errors, applied, refusal_reason,
+    created_at
+  )
+  SELECT
+    e.claim_id, e.response_file_id, e.previous_status, e.new_status, e.source,
+    e.response_code, e.response_description, e.payment_amount, e.related_claim_id,
+    e.adjustment_codes, e.remark_codes, e.service_line_statuses, e.acknowledgment_errors,
+    COALESCE(e.applied, TRUE), e.refusal_reason,
+    clock_timestamp()
+  FROM jsonb_array_elements(COALESCE(p_events, '[]'::JSONB)) WITH ORDINALITY AS rows(value, position)
+  CROSS JOIN LATERAL jsonb_populate_record(NULL::claim_status_events, rows.value) e
+  ORDER BY rows.position;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON COLUMN claims.acknowledgment_errors IS 'Errors from the latest 999: [{ loopId, segmentId, elementPosition, errorCode, badValue, field, message, ... }]';
@@ -0,0 +1,17 @@
+-- TA1 interchange acknowledgments
+-- Office Ally returns a TA1 instead of a 999 when the ISA/IEA envelope is bad.
+-- TA1 files are stored like other response files, and a rejected interchange
+-- moves its claims to rejected with the TA1 as their status source
+-- (submission < TA1 < 999 < 277 < 835 < manual).
+
+ALTER TABLE edi_response_files DROP CONSTRAINT IF EXISTS edi_response_files_file_type_check;
+ALTER TABLE edi_response_files ADD CONSTRAINT edi_response_files_file_type_check
+  CHECK (file_type IN ('TA1', '999', '277', '835'));
+
+ALTER TABLE claims DROP CONSTRAINT IF EXISTS claims_status_source_check;
+ALTER TABLE claims ADD CONSTRAINT claims_status_source_check
+  CHECK (status_source IN ('submission', 'TA1', '999', '277', '835', 'manual'));
+
+ALTER TABLE claim_status_events DROP CONSTRAINT IF EXISTS claim_status_events_source_check;
+ALTER TABLE claim_status_events ADD CONSTRAINT claim_status_events_source_check
+  CHECK (source IN ('submission', 'TA1', '999', '277', '835', 'manual'));
@@ -0,0 +1,50 @@
+-- Eligibility checks (270/271)
+-- Each check sends a 270 for a patient's member ID at a payer for a date of
+-- service and stores what the 271 said: coverage status, plan dates, copay,
+-- coinsurance, deductible, out-of-pocket and mental health benefits.
+
+CREATE TABLE IF NOT EXISTS eligibility_checks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  claim_id UUID REFERENCES claims(id) ON DELETE SET NULL,
+  payer_id UUID NOT NULL REFERENCES payers(id),
+  member_id TEXT NOT NULL,
+  patient_first_name TEXT NOT NULL,
+  patient_last_name TEXT NOT NULL,
+  patient_dob DATE NOT NULL,
+  service_date DATE NOT NULL,
+  trace_number TEXT NOT NULL,
+  transport TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'active', 'inactive', 'unknown', 'error')),
+
+  -- Summary of the 271
+  plan_name TEXT,
+  group_number TEXT,
+  coverage_start DATE,
+  coverage_end DATE,
+  copay DECIMAL(10, 2),
+  coinsurance_percent DECIMAL(5, 2),
+  deductible DECIMAL(10, 2),
+  deductible_remaining DECIMAL(10, 2),
+  out_of_pocket DECIMAL(10, 2),
+  out_of_pocket_remaining DECIMAL(10, 2),
+  mental_health JSONB,
+  benefits JSONB,
+  errors JSONB,
+
+  request_edi TEXT,
+  response_edi TEXT,
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_eligibility_checks_member ON eligibility_checks(member_id, payer_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_eligibility_checks_claim ON eligibility_checks(claim_id) WHERE claim_id IS NOT NULL;
+
+COMMENT ON TABLE eligibility_checks IS '270 eligibility inquiries and the coverage their 271 reported';
+COMMENT ON COLUMN eligibility_checks.trace_number IS 'TRN02 of the 270 (its ISA13), echoed back in the 271';
+COMMENT ON COLUMN eligibility_checks.transport IS 'How the 270 was sent: core (real-time) or file-drop (development)';
+COMMENT ON COLUMN eligibility_checks.mental_health IS 'Mental health benefits: { covered, copay, coinsurancePercent, authorizationRequired, serviceTypes, messages }';
+COMMENT ON COLUMN eligibility_checks.benefits IS 'Every EB segment of the 271: [{ infoCode, coverageLevel, serviceTypes, timePeriod, amount, percent, inNetwork, ... }]';
+COMMENT ON COLUMN eligibility_checks.errors IS 'AAA request validation errors: [{ loopId, rejectReasonCode, description, followUpActionCode }]';
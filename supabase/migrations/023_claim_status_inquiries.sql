@@ -0,0 +1,42 @@
+-- Claim status inquiries (276)
+-- Claims stuck in acknowledged/pending can be asked about with a 276. Each
+-- inquiry file lists the claims it asked about; the solicited 277 that
+-- answers a claim (TRN02 = its CLM01) is linked back during reconciliation,
+-- which gives each payer's inquiry turnaround.
+
+CREATE TABLE IF NOT EXISTS claim_status_inquiries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  interchange_control_number TEXT NOT NULL,
+  group_control_number TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'submitted', 'failed')),
+  claim_count INTEGER NOT NULL DEFAULT 0,
+  edi_filename TEXT,
+  edi_content TEXT,
+  submission_error TEXT,
+  submitted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS claim_status_inquiry_claims (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  inquiry_id UUID NOT NULL REFERENCES claim_status_inquiries(id) ON DELETE CASCADE,
+  claim_id UUID NOT NULL REFERENCES claims(id) ON DELETE CASCADE,
+  payer_id UUID NOT NULL REFERENCES payers(id),
+  trace_number TEXT NOT NULL,
+  response_file_id UUID REFERENCES edi_response_files(id) ON DELETE SET NULL,
+  response_category_code TEXT,
+  response_status TEXT,
+  responded_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (inquiry_id, claim_id)
+);
+
+-- Reconciliation looks up a claim's unanswered inquiries for every solicited 277
+CREATE INDEX IF NOT EXISTS idx_claim_status_inquiry_claims_open
+  ON claim_status_inquiry_claims(claim_id) WHERE responded_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_claim_status_inquiry_claims_payer ON claim_status_inquiry_claims(payer_id);
+
+COMMENT ON TABLE claim_status_inquiries IS '276 claim status inquiry files sent to Office Ally';
+COMMENT ON TABLE claim_status_inquiry_claims IS 'Claims asked about in a 276, and the solicited 277 that answered each';
+COMMENT ON COLUMN claim_status_inquiry_claims.trace_number IS 'TRN02 sent in 2200D/2200E (the claim''s CLM01), echoed back in the 277';
+COMMENT ON COLUMN claim_status_inquiry_claims.response_status IS 'Claim status the answering 277 reported';
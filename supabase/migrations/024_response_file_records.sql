@@ -0,0 +1,168 @@
+-- Response file records
+-- What a response file records besides its claim changes now commits with
+-- them in apply_response_file: batch statuses (TA1/999), answered 276
+-- inquiries (solicited 277), unmatched responses (277/835) and the remittance
+-- ledger (835). They used to be written while the file was processed, so a
+-- file that then failed to apply left them behind.
+
+-- The new parameters change the signature
+DROP FUNCTION IF EXISTS apply_response_file(UUID, UUID, JSONB, JSONB, TEXT, TEXT, INTEGER, INTEGER);
+
+-- Same as 018, with the file's records
+-- p_batch_statuses:      [{ batch_id, status }]
+-- p_inquiry_responses:   [{ claim_id, response_category_code, response_status }]; answers the
+--                        claim's unanswered inquiries, the first answer in the file wins
+-- p_unmatched_responses: unmatched_responses rows; responses already queued are left as they are
+-- p_remittances:         remittances rows with their claim_payments (each with line_payments and
+--                        adjustments, each line payment with its adjustments) and
+--                        provider_adjustments; a payment the file recorded before under the same
+--                        ST02 is replaced
+CREATE OR REPLACE FUNCTION apply_response_file(
+  p_file_id UUID,
+  p_run_id UUID,
+  p_claim_updates JSONB,
+  p_events JSONB,
+  p_processing_status TEXT,
+  p_processing_error TEXT,
+  p_claims_matched INTEGER,
+  p_claims_updated INTEGER,
+  p_batch_statuses JSONB DEFAULT '[]',
+  p_inquiry_responses JSONB DEFAULT '[]',
+  p_unmatched_responses JSONB DEFAULT '[]',
+  p_remittances JSONB DEFAULT '[]'
+)
+RETURNS VOID AS $$
+DECLARE
+  v_remittance JSONB;
+  v_remittance_id UUID;
+  v_payment JSONB;
+  v_payment_id UUID;
+  v_line JSONB;
+  v_line_id UUID;
+BEGIN
+  -- A file is applied once: lock it and make sure no one got here first
+  PERFORM 1 FROM edi_response_files
+  WHERE id = p_file_id AND processing_status = 'pending'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Response file % is not pending', p_file_id;
+  END IF;
+
+  PERFORM apply_claim_changes(p_claim_updates, p_events);
+
+  UPDATE claim_batches b
+  SET status = s.value->>'status', acknowledgment_date = NOW()
+  FROM jsonb_array_elements(COALESCE(p_batch_statuses, '[]'::JSONB)) AS s(value)
+  WHERE b.id = (s.value->>'batch_id')::UUID;
+
+  UPDATE claim_status_inquiry_claims ic
+  SET response_file_id = p_file_id,
+      response_category_code = r.value->>'response_category_code',
+      response_status = r.value->>'response_status',
+      responded_at = NOW()
+  FROM (
+    SELECT DISTINCT ON (rows.value->>'claim_id') rows.value
+    FROM jsonb_array_elements(COALESCE(p_inquiry_responses, '[]'::JSONB)) WITH ORDINALITY AS rows(value, position)
+    ORDER BY rows.value->>'claim_id', rows.position
+  ) r, claim_status_inquiries i
+  WHERE ic.claim_id = (r.value->>'claim_id')::UUID
+    AND ic.responded_at IS NULL
+    AND i.id = ic.inquiry_id
+    AND i.status = 'submitted';
+
+  INSERT INTO unmatched_responses (
+    response_file_id, file_type, response_key, control_number, payer_claim_number,
+    patient_name, member_id, service_date, total_charge, paid_amount,
+    status_code, status_description, response, candidates
+  )
+  SELECT
+    p_file_id, u.file_type, u.response_key, u.control_number, u.payer_claim_number,
+    u.patient_name, u.member_id, u.service_date, u.total_charge, u.paid_amount,
+    u.status_code, u.status_description, u.response, COALESCE(u.candidates, '[]'::JSONB)
+  FROM jsonb_array_elements(COALESCE(p_unmatched_responses, '[]'::JSONB)) AS rows(value)
+  CROSS JOIN LATERAL jsonb_populate_record(NULL::unmatched_responses, rows.value) u
+  ON CONFLICT (response_file_id, response_key) DO NOTHING;
+
+  -- Remittance ledger, top down so each row gets its parent's id
+  FOR v_remittance IN SELECT value FROM jsonb_array_elements(COALESCE(p_remittances, '[]'::JSONB)) LOOP
+    DELETE FROM remittances
+    WHERE response_file_id = p_file_id
+      AND transaction_set_control_number = v_remittance->>'transaction_set_control_number';
+
+    INSERT INTO remittances (
+      response_file_id, transaction_set_control_number, interchange_control_number,
+      trace_number, payment_method, payment_date, total_payment_amount,
+      payer_identifier, payer_name, payee_name, claim_count
+    )
+    SELECT
+      p_file_id, r.transaction_set_control_number, r.interchange_control_number,
+      r.trace_number, r.payment_method, r.payment_date, r.total_payment_amount,
+      r.payer_identifier, r.payer_name, r.payee_name, r.claim_count
+    FROM jsonb_populate_record(NULL::remittances, v_remittance) r
+    RETURNING id INTO v_remittance_id;
+
+    FOR v_payment IN SELECT value FROM jsonb_array_elements(COALESCE(v_remittance->'claim_payments', '[]'::JSONB)) LOOP
+      INSERT INTO remittance_claim_payments (
+        remittance_id, claim_id, patient_control_number, payer_claim_number,
+        status_code, status_description, charge_amount, paid_amount, patient_responsibility,
+        patient_name, service_date, remark_codes, balanced
+      )
+      SELECT
+        v_remittance_id, p.claim_id, p.patient_control_number, p.payer_claim_number,
+        p.status_code, p.status_description, p.charge_amount, p.paid_amount, p.patient_responsibility,
+        p.patient_name, p.service_date, p.remark_codes, p.balanced
+      FROM jsonb_populate_record(NULL::remittance_claim_payments, v_payment) p
+      RETURNING id INTO v_payment_id;
+
+      -- Claim-level CAS
+      INSERT INTO remittance_adjustments (
+        claim_payment_id, group_code, reason_code, amount, quantity, description, category
+      )
+      SELECT v_payment_id, a.group_code, a.reason_code, a.amount, a.quantity, a.description, a.category
+      FROM jsonb_array_elements(COALESCE(v_payment->'adjustments', '[]'::JSONB)) AS rows(value)
+      CROSS JOIN LATERAL jsonb_populate_record(NULL::remittance_adjustments, rows.value) a;
+
+      FOR v_line IN SELECT value FROM jsonb_array_elements(COALESCE(v_payment->'line_payments', '[]'::JSONB)) LOOP
+        INSERT INTO remittance_line_payments (
+          claim_payment_id, line_number, procedure_code, modifier,
+          charge_amount, paid_amount, units, remark_codes, balanced
+        )
+        SELECT
+          v_payment_id, l.line_number, l.procedure_code, l.modifier,
+          l.charge_amount, l.paid_amount, l.units, l.remark_codes, l.balanced
+        FROM jsonb_populate_record(NULL::remittance_line_payments, v_line) l
+        RETURNING id INTO v_line_id;
+
+        INSERT INTO remittance_adjustments (
+          claim_payment_id, line_payment_id, group_code, reason_code, amount, quantity, description, category
+        )
+        SELECT v_payment_id, v_line_id, a.group_code, a.reason_code, a.amount, a.quantity, a.description, a.category
+        FROM jsonb_array_elements(COALESCE(v_line->'adjustments', '[]'::JSONB)) AS rows(value)
+        CROSS JOIN LATERAL jsonb_populate_record(NULL::remittance_adjustments, rows.value) a;
+      END LOOP;
+    END LOOP;
+
+    INSERT INTO remittance_provider_adjustments (
+      remittance_id, claim_id, provider_identifier, fiscal_period_date,
+      reason_code, reason_description, reference, amount
+    )
+    SELECT
+      v_remittance_id, a.claim_id, a.provider_identifier, a.fiscal_period_date,
+      a.reason_code, a.reason_description, a.reference, a.amount
+    FROM jsonb_array_elements(COALESCE(v_remittance->'provider_adjustments', '[]'::JSONB)) AS rows(value)
+    CROSS JOIN LATERAL jsonb_populate_record(NULL::remittance_provider_adjustments, rows.value) a;
+  END LOOP;
+
+  UPDATE edi_response_files
+  SET processing_status = p_processing_status,
+      processing_error = p_processing_error,
+      claims_matched = p_claims_matched,
+      claims_updated = p_claims_updated,
+      processed_at = NOW(),
+      run_id = p_run_id
+  WHERE id = p_file_id;
+
+  UPDATE reconciliation_runs SET heartbeat_at = NOW() WHERE id = p_run_id;
+END;
+$$ LANGUAGE plpgsql;